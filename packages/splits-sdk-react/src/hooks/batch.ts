@@ -0,0 +1,54 @@
+import { Log } from 'viem'
+import { useCallback, useContext, useState } from 'react'
+import { BatchConfig } from '@0xsplits/splits-sdk'
+
+import { SplitsContext } from '../context'
+import { ContractExecutionStatus, RequestError } from '../types'
+import { getErrorStatus, getSplitsClient } from '../utils'
+
+export const useBatch = (): {
+  batch: (arg0: BatchConfig) => Promise<Log[] | undefined>
+  status?: ContractExecutionStatus
+  batchId?: string
+  error?: RequestError
+} => {
+  const context = useContext(SplitsContext)
+  const splitsClient = getSplitsClient(context)
+
+  const [status, setStatus] = useState<ContractExecutionStatus>()
+  const [batchId, setBatchId] = useState<string>()
+  const [error, setError] = useState<RequestError>()
+
+  const batch = useCallback(
+    async (argsDict: BatchConfig) => {
+      try {
+        setStatus('pendingApproval')
+        setError(undefined)
+        setBatchId(undefined)
+
+        const { batchId: id } =
+          await splitsClient._submitBatchTransaction(argsDict)
+
+        setStatus('txInProgress')
+        setBatchId(id)
+
+        const events = await splitsClient.getBatchEvents({
+          batchId: id,
+          chainId: argsDict.chainId,
+          eventTopics: [],
+          includeAll: true,
+        })
+
+        setStatus('complete')
+
+        return events
+      } catch (e) {
+        setStatus(getErrorStatus(e))
+        setError(e)
+      }
+    },
+    [splitsClient],
+  )
+
+  return { batch, status, batchId, error }
+}
@@ -128,11 +128,19 @@ export const useSplitMetadataViaProvider = (
         }
 
         const addresses = splitV1Exists
-          ? [getSplitMainAddress(chainId)]
+          ? [getSplitMainAddress(chainId, splitsV1Client._deployments)]
           : [
               formattedSplitAddress,
-              getSplitV2FactoryAddress(chainId, SplitV2Type.Pull),
-              getSplitV2FactoryAddress(chainId, SplitV2Type.Push),
+              getSplitV2FactoryAddress(
+                chainId,
+                SplitV2Type.Pull,
+                splitsV2Client._deployments,
+              ),
+              getSplitV2FactoryAddress(
+                chainId,
+                SplitV2Type.Push,
+                splitsV2Client._deployments,
+              ),
             ]
         const splitCreatedEvent = splitV1Exists
           ? splitV1CreatedEvent
@@ -150,7 +158,10 @@ export const useSplitMetadataViaProvider = (
 
         let blockRange =
           cachedBlockRange ??
-          (await getLargestValidBlockRange({ publicClient }))
+          (await getLargestValidBlockRange({
+            publicClient,
+            deployments: splitsV2Client._deployments,
+          }))
         const lastBlockNumber = await publicClient.getBlockNumber()
 
         const shouldSearch =
@@ -159,9 +170,11 @@ export const useSplitMetadataViaProvider = (
         if (shouldSearch) {
           let currentBlockNumber = lastBlockNumber
           const splitV2StartBlock =
-            cachedLatestScannedBlock ?? getSplitV2FactoriesStartBlock(chainId)
+            cachedLatestScannedBlock ??
+            getSplitV2FactoriesStartBlock(chainId, splitsV2Client._deployments)
           const splitV1StartBlock =
-            cachedLatestScannedBlock ?? getSplitV1StartBlock(chainId)
+            cachedLatestScannedBlock ??
+            getSplitV1StartBlock(chainId, splitsV1Client._deployments)
 
           // eslint-disable-next-line no-loops/no-loops
           while (
@@ -2,6 +2,7 @@ export * from './splitV1'
 export * from './waterfall'
 export * from './liquid'
 export * from './multicall'
+export * from './batch'
 export * from './passThroughWallet'
 export * from './swapper'
 export * from './vesting'
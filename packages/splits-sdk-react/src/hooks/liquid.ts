@@ -8,7 +8,11 @@ import {
 
 import { SplitsContext } from '../context'
 import { ContractExecutionStatus, RequestError } from '../types'
-import { getSplitsClient } from '../utils'
+import {
+  getErrorStatus,
+  getSplitsClient,
+  getTransactionTracking,
+} from '../utils'
 
 export const useCreateLiquidSplit = (): {
   createLiquidSplit: (
@@ -42,6 +46,12 @@ export const useCreateLiquidSplit = (): {
 
         const events = await splitsClient.getTransactionEvents({
           txHash: hash,
+          chainId: argsDict.chainId,
+          tracking: getTransactionTracking(
+            argsDict.tracking,
+            setStatus,
+            setTxHash,
+          ),
           eventTopics: splitsClient.eventTopics.createLiquidSplit,
         })
 
@@ -49,7 +59,7 @@ export const useCreateLiquidSplit = (): {
 
         return events
       } catch (e) {
-        setStatus('error')
+        setStatus(getErrorStatus(e))
         setError(e)
       }
     },
@@ -91,6 +101,12 @@ export const useDistributeLiquidSplitToken = (): {
 
         const events = await splitsClient.getTransactionEvents({
           txHash: hash,
+          chainId: argsDict.chainId,
+          tracking: getTransactionTracking(
+            argsDict.tracking,
+            setStatus,
+            setTxHash,
+          ),
           eventTopics: splitsClient.eventTopics.distributeToken,
         })
 
@@ -98,7 +114,7 @@ export const useDistributeLiquidSplitToken = (): {
 
         return events
       } catch (e) {
-        setStatus('error')
+        setStatus(getErrorStatus(e))
         setError(e)
       }
     },
@@ -140,6 +156,12 @@ export const useTransferLiquidSplitOwnership = (): {
 
         const events = await splitsClient.getTransactionEvents({
           txHash: hash,
+          chainId: argsDict.chainId,
+          tracking: getTransactionTracking(
+            argsDict.tracking,
+            setStatus,
+            setTxHash,
+          ),
           eventTopics: splitsClient.eventTopics.transferOwnership,
         })
 
@@ -147,7 +169,7 @@ export const useTransferLiquidSplitOwnership = (): {
 
         return events
       } catch (e) {
-        setStatus('error')
+        setStatus(getErrorStatus(e))
         setError(e)
       }
     },
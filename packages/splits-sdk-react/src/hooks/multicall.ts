@@ -1,15 +1,21 @@
 import { Log } from 'viem'
 import { useCallback, useContext, useState } from 'react'
-import { MulticallConfig } from '@0xsplits/splits-sdk'
+import { MulticallCallResult, MulticallConfig } from '@0xsplits/splits-sdk'
 
 import { SplitsContext } from '../context'
 import { ContractExecutionStatus, RequestError } from '../types'
-import { getSplitsClient } from '../utils'
+import {
+  getErrorStatus,
+  getSplitsClient,
+  getTransactionTracking,
+} from '../utils'
 
 export const useMulticall = (): {
   multicall: (arg0: MulticallConfig) => Promise<Log[] | undefined>
   status?: ContractExecutionStatus
   txHash?: string
+  // From simulating the multicall right before it was submitted
+  simulatedResults?: MulticallCallResult[]
   error?: RequestError
 } => {
   const context = useContext(SplitsContext)
@@ -17,6 +23,8 @@ export const useMulticall = (): {
 
   const [status, setStatus] = useState<ContractExecutionStatus>()
   const [txHash, setTxHash] = useState<string>()
+  const [simulatedResults, setSimulatedResults] =
+    useState<MulticallCallResult[]>()
   const [error, setError] = useState<RequestError>()
 
   const multicall = useCallback(
@@ -25,15 +33,23 @@ export const useMulticall = (): {
         setStatus('pendingApproval')
         setError(undefined)
         setTxHash(undefined)
+        setSimulatedResults(undefined)
 
-        const { txHash: hash } =
+        const { txHash: hash, simulatedResults: callResults } =
           await splitsClient._submitMulticallTransaction(argsDict)
 
         setStatus('txInProgress')
         setTxHash(hash)
+        setSimulatedResults(callResults)
 
         const events = await splitsClient.getTransactionEvents({
           txHash: hash,
+          chainId: argsDict.chainId,
+          tracking: getTransactionTracking(
+            argsDict.tracking,
+            setStatus,
+            setTxHash,
+          ),
           eventTopics: [],
           includeAll: true,
         })
@@ -42,12 +58,12 @@ export const useMulticall = (): {
 
         return events
       } catch (e) {
-        setStatus('error')
+        setStatus(getErrorStatus(e))
         setError(e)
       }
     },
     [splitsClient],
   )
 
-  return { multicall, status, txHash, error }
+  return { multicall, status, txHash, simulatedResults, error }
 }
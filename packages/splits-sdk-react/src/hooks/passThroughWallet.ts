@@ -9,7 +9,11 @@ import {
 
 import { SplitsContext } from '../context'
 import { ContractExecutionStatus, RequestError } from '../types'
-import { getSplitsClient } from '../utils'
+import {
+  getErrorStatus,
+  getSplitsClient,
+  getTransactionTracking,
+} from '../utils'
 
 export const useCreatePassThroughWallet = (): {
   createPassThroughWallet: (
@@ -44,6 +48,12 @@ export const useCreatePassThroughWallet = (): {
 
         const events = await splitsClient.getTransactionEvents({
           txHash: hash,
+          chainId: argsDict.chainId,
+          tracking: getTransactionTracking(
+            argsDict.tracking,
+            setStatus,
+            setTxHash,
+          ),
           eventTopics: splitsClient.eventTopics.createPassThroughWallet,
         })
 
@@ -51,7 +61,7 @@ export const useCreatePassThroughWallet = (): {
 
         return events
       } catch (e) {
-        setStatus('error')
+        setStatus(getErrorStatus(e))
         setError(e)
       }
     },
@@ -94,6 +104,12 @@ export const usePassThroughTokens = (): {
 
         const events = await splitsClient.getTransactionEvents({
           txHash: hash,
+          chainId: argsDict.chainId,
+          tracking: getTransactionTracking(
+            argsDict.tracking,
+            setStatus,
+            setTxHash,
+          ),
           eventTopics: splitsClient.eventTopics.passThroughTokens,
         })
 
@@ -101,7 +117,7 @@ export const usePassThroughTokens = (): {
 
         return events
       } catch (e) {
-        setStatus('error')
+        setStatus(getErrorStatus(e))
         setError(e)
       }
     },
@@ -142,6 +158,12 @@ export const usePassThroughWalletPause = (): {
 
         const events = await splitsClient.getTransactionEvents({
           txHash: hash,
+          chainId: argsDict.chainId,
+          tracking: getTransactionTracking(
+            argsDict.tracking,
+            setStatus,
+            setTxHash,
+          ),
           eventTopics: splitsClient.eventTopics.setPaused,
         })
 
@@ -149,7 +171,7 @@ export const usePassThroughWalletPause = (): {
 
         return events
       } catch (e) {
-        setStatus('error')
+        setStatus(getErrorStatus(e))
         setError(e)
       }
     },
@@ -192,6 +214,12 @@ export const usePassThroughWalletExecCalls = (): {
 
         const events = await splitsClient.getTransactionEvents({
           txHash: hash,
+          chainId: argsDict.chainId,
+          tracking: getTransactionTracking(
+            argsDict.tracking,
+            setStatus,
+            setTxHash,
+          ),
           eventTopics: splitsClient.eventTopics.execCalls,
         })
 
@@ -199,7 +227,7 @@ export const usePassThroughWalletExecCalls = (): {
 
         return events
       } catch (e) {
-        setStatus('error')
+        setStatus(getErrorStatus(e))
         setError(e)
       }
     },
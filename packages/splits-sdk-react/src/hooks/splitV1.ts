@@ -22,7 +22,11 @@ import {
 
 import { SplitsContext } from '../context'
 import { ContractExecutionStatus, RequestError } from '../types'
-import { getSplitsClient } from '../utils'
+import {
+  getErrorStatus,
+  getSplitsClient,
+  getTransactionTracking,
+} from '../utils'
 
 export const useSplitsClient = (config?: SplitsClientConfig): SplitsClient => {
   const context = useContext(SplitsContext)
@@ -140,6 +144,12 @@ export const useCreateSplit = (): {
 
         const events = await splitsClient.getTransactionEvents({
           txHash: hash,
+          chainId: argsDict.chainId,
+          tracking: getTransactionTracking(
+            argsDict.tracking,
+            setStatus,
+            setTxHash,
+          ),
           eventTopics: eventTopics.createSplit,
         })
 
@@ -165,7 +175,7 @@ export const useCreateSplit = (): {
 
         return events
       } catch (e) {
-        setStatus('error')
+        setStatus(getErrorStatus(e))
         setError(e)
       }
     },
@@ -211,6 +221,12 @@ export const useUpdateSplit = (): {
 
         const events = await splitsClient.getTransactionEvents({
           txHash: hash,
+          chainId: argsDict.chainId,
+          tracking: getTransactionTracking(
+            argsDict.tracking,
+            setStatus,
+            setTxHash,
+          ),
           eventTopics: eventTopics.updateSplit,
         })
 
@@ -218,7 +234,7 @@ export const useUpdateSplit = (): {
 
         return events
       } catch (e) {
-        setStatus('error')
+        setStatus(getErrorStatus(e))
         setError(e)
       }
     },
@@ -275,6 +291,12 @@ export const useDistributeToken = (): {
 
         const events = await splitsClient.getTransactionEvents({
           txHash: hash,
+          chainId: argsDict.chainId,
+          tracking: getTransactionTracking(
+            argsDict.tracking,
+            setStatus,
+            setTxHash,
+          ),
           eventTopics: eventTopics.distributeToken,
         })
 
@@ -282,7 +304,7 @@ export const useDistributeToken = (): {
 
         return events
       } catch (e) {
-        setStatus('error')
+        setStatus(getErrorStatus(e))
         setError(e)
       }
     },
@@ -332,6 +354,12 @@ export const useUpdateSplitAndDistributeToken = (): {
 
         const events = await splitsClient.getTransactionEvents({
           txHash: hash,
+          chainId: argsDict.chainId,
+          tracking: getTransactionTracking(
+            argsDict.tracking,
+            setStatus,
+            setTxHash,
+          ),
           eventTopics: eventTopics.updateSplitAndDistributeToken,
         })
 
@@ -339,7 +367,7 @@ export const useUpdateSplitAndDistributeToken = (): {
 
         return events
       } catch (e) {
-        setStatus('error')
+        setStatus(getErrorStatus(e))
         setError(e)
       }
     },
@@ -396,6 +424,12 @@ export const useWithdrawFunds = (): {
 
         const events = await splitsClient.getTransactionEvents({
           txHash: hash,
+          chainId: argsDict.chainId,
+          tracking: getTransactionTracking(
+            argsDict.tracking,
+            setStatus,
+            setTxHash,
+          ),
           eventTopics: eventTopics.withdrawFunds,
         })
 
@@ -403,7 +437,7 @@ export const useWithdrawFunds = (): {
 
         return events
       } catch (e) {
-        setStatus('error')
+        setStatus(getErrorStatus(e))
         setError(e)
       }
     },
@@ -451,6 +485,12 @@ export const useInitiateControlTransfer = (): {
 
         const events = await splitsClient.getTransactionEvents({
           txHash: hash,
+          chainId: argsDict.chainId,
+          tracking: getTransactionTracking(
+            argsDict.tracking,
+            setStatus,
+            setTxHash,
+          ),
           eventTopics: eventTopics.initiateControlTransfer,
         })
 
@@ -458,7 +498,7 @@ export const useInitiateControlTransfer = (): {
 
         return events
       } catch (e) {
-        setStatus('error')
+        setStatus(getErrorStatus(e))
         setError(e)
       }
     },
@@ -506,6 +546,12 @@ export const useCancelControlTransfer = (): {
 
         const events = await splitsClient.getTransactionEvents({
           txHash: hash,
+          chainId: argsDict.chainId,
+          tracking: getTransactionTracking(
+            argsDict.tracking,
+            setStatus,
+            setTxHash,
+          ),
           eventTopics: eventTopics.cancelControlTransfer,
         })
 
@@ -513,7 +559,7 @@ export const useCancelControlTransfer = (): {
 
         return events
       } catch (e) {
-        setStatus('error')
+        setStatus(getErrorStatus(e))
         setError(e)
       }
     },
@@ -561,6 +607,12 @@ export const useAcceptControlTransfer = (): {
 
         const events = await splitsClient.getTransactionEvents({
           txHash: hash,
+          chainId: argsDict.chainId,
+          tracking: getTransactionTracking(
+            argsDict.tracking,
+            setStatus,
+            setTxHash,
+          ),
           eventTopics: eventTopics.acceptControlTransfer,
         })
 
@@ -568,7 +620,7 @@ export const useAcceptControlTransfer = (): {
 
         return events
       } catch (e) {
-        setStatus('error')
+        setStatus(getErrorStatus(e))
         setError(e)
       }
     },
@@ -616,6 +668,12 @@ export const useMakeSplitImmutable = (): {
 
         const events = await splitsClient.getTransactionEvents({
           txHash: hash,
+          chainId: argsDict.chainId,
+          tracking: getTransactionTracking(
+            argsDict.tracking,
+            setStatus,
+            setTxHash,
+          ),
           eventTopics: eventTopics.makeSplitImmutable,
         })
 
@@ -623,7 +681,7 @@ export const useMakeSplitImmutable = (): {
 
         return events
       } catch (e) {
-        setStatus('error')
+        setStatus(getErrorStatus(e))
         setError(e)
       }
     },
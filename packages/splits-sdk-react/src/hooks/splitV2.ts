@@ -16,7 +16,11 @@ import {
 
 import { SplitsContext } from '../context'
 import { ContractExecutionStatus, RequestError } from '../types'
-import { getSplitsClient } from '../utils'
+import {
+  getErrorStatus,
+  getSplitsClient,
+  getTransactionTracking,
+} from '../utils'
 
 export const _useCreateSplitOldV2 = (): {
   createSplit: (arg0: CreateSplitV2Config) => Promise<Log[] | undefined>
@@ -51,6 +55,12 @@ export const _useCreateSplitOldV2 = (): {
 
         const events = await splitsClient.getTransactionEvents({
           txHash: hash,
+          chainId: argsDict.chainId,
+          tracking: getTransactionTracking(
+            argsDict.tracking,
+            setStatus,
+            setTxHash,
+          ),
           eventTopics: splitsClient.eventTopics.splitCreated,
         })
 
@@ -72,7 +82,7 @@ export const _useCreateSplitOldV2 = (): {
 
         return events
       } catch (e) {
-        setStatus('error')
+        setStatus(getErrorStatus(e))
         setError(e)
       }
     },
@@ -115,6 +125,12 @@ export const useCreateSplitV2 = (): {
 
         const events = await splitsClient.getTransactionEvents({
           txHash: hash,
+          chainId: argsDict.chainId,
+          tracking: getTransactionTracking(
+            argsDict.tracking,
+            setStatus,
+            setTxHash,
+          ),
           eventTopics: splitsClient.eventTopics.splitCreated,
         })
 
@@ -136,7 +152,7 @@ export const useCreateSplitV2 = (): {
 
         return events
       } catch (e) {
-        setStatus('error')
+        setStatus(getErrorStatus(e))
         setError(e)
       }
     },
@@ -176,6 +192,12 @@ export const useUpdateSplitV2 = (): {
 
         const events = await splitsClient.getTransactionEvents({
           txHash: hash,
+          chainId: argsDict.chainId,
+          tracking: getTransactionTracking(
+            argsDict.tracking,
+            setStatus,
+            setTxHash,
+          ),
           eventTopics: splitsClient.eventTopics.splitUpdated,
         })
 
@@ -183,7 +205,7 @@ export const useUpdateSplitV2 = (): {
 
         return events
       } catch (e) {
-        setStatus('error')
+        setStatus(getErrorStatus(e))
         setError(e)
       }
     },
@@ -234,6 +256,12 @@ export const useDistributeTokenV2 = (): {
 
         const events = await splitsClient.getTransactionEvents({
           txHash: hash,
+          chainId: argsDict.chainId,
+          tracking: getTransactionTracking(
+            argsDict.tracking,
+            setStatus,
+            setTxHash,
+          ),
           eventTopics: splitsClient.eventTopics.splitDistributed,
         })
 
@@ -241,7 +269,7 @@ export const useDistributeTokenV2 = (): {
 
         return events
       } catch (e) {
-        setStatus('error')
+        setStatus(getErrorStatus(e))
         setError(e)
       }
     },
@@ -283,6 +311,12 @@ export const useTransferOwnership = (): {
 
         const events = await splitsClient.getTransactionEvents({
           txHash: hash,
+          chainId: argsDict.chainId,
+          tracking: getTransactionTracking(
+            argsDict.tracking,
+            setStatus,
+            setTxHash,
+          ),
           eventTopics: splitsClient.eventTopics.ownershipTransferred,
         })
 
@@ -290,7 +324,7 @@ export const useTransferOwnership = (): {
 
         return events
       } catch (e) {
-        setStatus('error')
+        setStatus(getErrorStatus(e))
         setError(e)
       }
     },
@@ -330,6 +364,12 @@ export const useSetPause = (): {
 
         const events = await splitsClient.getTransactionEvents({
           txHash: hash,
+          chainId: argsDict.chainId,
+          tracking: getTransactionTracking(
+            argsDict.tracking,
+            setStatus,
+            setTxHash,
+          ),
           eventTopics: splitsClient.eventTopics.setPaused,
         })
 
@@ -337,7 +377,7 @@ export const useSetPause = (): {
 
         return events
       } catch (e) {
-        setStatus('error')
+        setStatus(getErrorStatus(e))
         setError(e)
       }
     },
@@ -377,6 +417,12 @@ export const useExecCalls = (): {
 
         const events = await splitsClient.getTransactionEvents({
           txHash: hash,
+          chainId: argsDict.chainId,
+          tracking: getTransactionTracking(
+            argsDict.tracking,
+            setStatus,
+            setTxHash,
+          ),
           eventTopics: splitsClient.eventTopics.execCalls,
         })
 
@@ -384,7 +430,7 @@ export const useExecCalls = (): {
 
         return events
       } catch (e) {
-        setStatus('error')
+        setStatus(getErrorStatus(e))
         setError(e)
       }
     },
@@ -14,7 +14,11 @@ import {
 
 import { SplitsContext } from '../context'
 import { ContractExecutionStatus, RequestError } from '../types'
-import { getSplitsClient } from '../utils'
+import {
+  getErrorStatus,
+  getSplitsClient,
+  getTransactionTracking,
+} from '../utils'
 
 export const useCreateSwapper = (): {
   createSwapper: (arg0: CreateSwapperConfig) => Promise<Log[] | undefined>
@@ -46,6 +50,12 @@ export const useCreateSwapper = (): {
 
         const events = await splitsClient.getTransactionEvents({
           txHash: hash,
+          chainId: argsDict.chainId,
+          tracking: getTransactionTracking(
+            argsDict.tracking,
+            setStatus,
+            setTxHash,
+          ),
           eventTopics: splitsClient.eventTopics.createSwapper,
         })
 
@@ -53,7 +63,7 @@ export const useCreateSwapper = (): {
 
         return events
       } catch (e) {
-        setStatus('error')
+        setStatus(getErrorStatus(e))
         setError(e)
       }
     },
@@ -93,6 +103,12 @@ export const useUniV3FlashSwap = (): {
 
         const events = await splitsClient.getTransactionEvents({
           txHash: hash,
+          chainId: argsDict.chainId,
+          tracking: getTransactionTracking(
+            argsDict.tracking,
+            setStatus,
+            setTxHash,
+          ),
           eventTopics: splitsClient.eventTopics.uniV3FlashSwap,
         })
 
@@ -100,7 +116,7 @@ export const useUniV3FlashSwap = (): {
 
         return events
       } catch (e) {
-        setStatus('error')
+        setStatus(getErrorStatus(e))
         setError(e)
       }
     },
@@ -140,6 +156,12 @@ export const useSwapperExecCalls = (): {
 
         const events = await splitsClient.getTransactionEvents({
           txHash: hash,
+          chainId: argsDict.chainId,
+          tracking: getTransactionTracking(
+            argsDict.tracking,
+            setStatus,
+            setTxHash,
+          ),
           eventTopics: splitsClient.eventTopics.execCalls,
         })
 
@@ -147,7 +169,7 @@ export const useSwapperExecCalls = (): {
 
         return events
       } catch (e) {
-        setStatus('error')
+        setStatus(getErrorStatus(e))
         setError(e)
       }
     },
@@ -187,6 +209,12 @@ export const useSwapperPause = (): {
 
         const events = await splitsClient.getTransactionEvents({
           txHash: hash,
+          chainId: argsDict.chainId,
+          tracking: getTransactionTracking(
+            argsDict.tracking,
+            setStatus,
+            setTxHash,
+          ),
           eventTopics: splitsClient.eventTopics.setPaused,
         })
 
@@ -194,7 +222,7 @@ export const useSwapperPause = (): {
 
         return events
       } catch (e) {
-        setStatus('error')
+        setStatus(getErrorStatus(e))
         setError(e)
       }
     },
@@ -236,6 +264,12 @@ export const useSwapperSetBeneficiary = (): {
 
         const events = await splitsClient.getTransactionEvents({
           txHash: hash,
+          chainId: argsDict.chainId,
+          tracking: getTransactionTracking(
+            argsDict.tracking,
+            setStatus,
+            setTxHash,
+          ),
           eventTopics: splitsClient.eventTopics.setBeneficiary,
         })
 
@@ -243,7 +277,7 @@ export const useSwapperSetBeneficiary = (): {
 
         return events
       } catch (e) {
-        setStatus('error')
+        setStatus(getErrorStatus(e))
         setError(e)
       }
     },
@@ -285,6 +319,12 @@ export const useSwapperSetTokenToBeneficiary = (): {
 
         const events = await splitsClient.getTransactionEvents({
           txHash: hash,
+          chainId: argsDict.chainId,
+          tracking: getTransactionTracking(
+            argsDict.tracking,
+            setStatus,
+            setTxHash,
+          ),
           eventTopics: splitsClient.eventTopics.setTokenToBeneficiary,
         })
 
@@ -292,7 +332,7 @@ export const useSwapperSetTokenToBeneficiary = (): {
 
         return events
       } catch (e) {
-        setStatus('error')
+        setStatus(getErrorStatus(e))
         setError(e)
       }
     },
@@ -332,6 +372,12 @@ export const useSwapperSetOracle = (): {
 
         const events = await splitsClient.getTransactionEvents({
           txHash: hash,
+          chainId: argsDict.chainId,
+          tracking: getTransactionTracking(
+            argsDict.tracking,
+            setStatus,
+            setTxHash,
+          ),
           eventTopics: splitsClient.eventTopics.setOracle,
         })
 
@@ -339,7 +385,7 @@ export const useSwapperSetOracle = (): {
 
         return events
       } catch (e) {
-        setStatus('error')
+        setStatus(getErrorStatus(e))
         setError(e)
       }
     },
@@ -383,6 +429,12 @@ export const useSwapperSetDefaultScaledOfferFactor = (): {
 
         const events = await splitsClient.getTransactionEvents({
           txHash: hash,
+          chainId: argsDict.chainId,
+          tracking: getTransactionTracking(
+            argsDict.tracking,
+            setStatus,
+            setTxHash,
+          ),
           eventTopics: splitsClient.eventTopics.setDefaultScaledOfferFactor,
         })
 
@@ -390,7 +442,7 @@ export const useSwapperSetDefaultScaledOfferFactor = (): {
 
         return events
       } catch (e) {
-        setStatus('error')
+        setStatus(getErrorStatus(e))
         setError(e)
       }
     },
@@ -434,6 +486,12 @@ export const useSwapperSetScaledOfferFactorOverrides = (): {
 
         const events = await splitsClient.getTransactionEvents({
           txHash: hash,
+          chainId: argsDict.chainId,
+          tracking: getTransactionTracking(
+            argsDict.tracking,
+            setStatus,
+            setTxHash,
+          ),
           eventTopics: splitsClient.eventTopics.setScaledOfferFactorOverrides,
         })
 
@@ -441,7 +499,7 @@ export const useSwapperSetScaledOfferFactorOverrides = (): {
 
         return events
       } catch (e) {
-        setStatus('error')
+        setStatus(getErrorStatus(e))
         setError(e)
       }
     },
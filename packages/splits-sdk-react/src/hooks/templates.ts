@@ -7,7 +7,11 @@ import {
 
 import { SplitsContext } from '../context'
 import { ContractExecutionStatus, RequestError } from '../types'
-import { getSplitsClient } from '../utils'
+import {
+  getErrorStatus,
+  getSplitsClient,
+  getTransactionTracking,
+} from '../utils'
 
 export const useCreateRecoup = (): {
   createRecoup: (arg0: CreateRecoupConfig) => Promise<Log[] | undefined>
@@ -39,6 +43,12 @@ export const useCreateRecoup = (): {
 
         const events = await splitsClient.getTransactionEvents({
           txHash: hash,
+          chainId: argsDict.chainId,
+          tracking: getTransactionTracking(
+            argsDict.tracking,
+            setStatus,
+            setTxHash,
+          ),
           eventTopics: splitsClient.eventTopics.createRecoup,
         })
 
@@ -46,7 +56,7 @@ export const useCreateRecoup = (): {
 
         return events
       } catch (e) {
-        setStatus('error')
+        setStatus(getErrorStatus(e))
         setError(e)
       }
     },
@@ -88,6 +98,12 @@ export const useCreateDiversifier = (): {
 
         const events = await splitsClient.getTransactionEvents({
           txHash: hash,
+          chainId: argsDict.chainId,
+          tracking: getTransactionTracking(
+            argsDict.tracking,
+            setStatus,
+            setTxHash,
+          ),
           eventTopics: splitsClient.eventTopics.createDiversifier,
         })
 
@@ -95,7 +111,7 @@ export const useCreateDiversifier = (): {
 
         return events
       } catch (e) {
-        setStatus('error')
+        setStatus(getErrorStatus(e))
         setError(e)
       }
     },
@@ -36,6 +36,7 @@ export {
   useStartVest,
   useReleaseVestedFunds,
   useMulticall,
+  useBatch,
   useSplitsClient,
   useSplitMetadata,
   useSplitMetadataViaProvider,
@@ -3,7 +3,13 @@ import { Address } from 'viem'
 export type ContractExecutionStatus =
   | 'pendingApproval'
   | 'txInProgress'
+  | 'txReplaced'
+  | 'txMined'
+  | 'txConfirmed'
   | 'complete'
+  | 'txReverted'
+  | 'txTimedOut'
+  | 'txCancelled'
   | 'error'
 
 export type DataLoadStatus = 'success' | 'error' | 'loading'
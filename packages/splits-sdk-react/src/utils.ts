@@ -1,5 +1,13 @@
-import { SplitsClient } from '@0xsplits/splits-sdk'
+import {
+  SplitsClient,
+  TransactionCancelledError,
+  TransactionRevertedError,
+  TransactionStatusUpdate,
+  TransactionTimeoutError,
+  TransactionTrackingConfig,
+} from '@0xsplits/splits-sdk'
 import { SplitsReactSdkContext } from './context'
+import { ContractExecutionStatus } from './types'
 
 export const getSplitsClient = (
   context: SplitsReactSdkContext | undefined,
@@ -13,3 +21,45 @@ export const getSplitsClient = (
 
   return context.splitsClient
 }
+
+const TRANSACTION_STATUSES: {
+  [status in TransactionStatusUpdate['status']]: ContractExecutionStatus
+} = {
+  submitted: 'txInProgress',
+  replaced: 'txReplaced',
+  mined: 'txMined',
+  confirmed: 'txConfirmed',
+  reverted: 'txReverted',
+  timedOut: 'txTimedOut',
+}
+
+// Mirrors the transaction lifecycle in the hook's status and tx hash (which
+// changes if the transaction is sped up or cancelled), while still calling
+// any onStatus passed in by the caller
+export const getTransactionTracking = (
+  tracking: TransactionTrackingConfig | undefined,
+  setStatus: (status: ContractExecutionStatus) => void,
+  setTxHash: (txHash: string) => void,
+): TransactionTrackingConfig => {
+  return {
+    ...tracking,
+    onStatus: (update) => {
+      tracking?.onStatus?.(update)
+      setTxHash(update.txHash)
+      // Stays mined until every confirmation is in
+      if (
+        update.status === 'confirmed' &&
+        update.confirmations < update.requiredConfirmations
+      )
+        setStatus('txMined')
+      else setStatus(TRANSACTION_STATUSES[update.status])
+    },
+  }
+}
+
+export const getErrorStatus = (error: unknown): ContractExecutionStatus => {
+  if (error instanceof TransactionRevertedError) return 'txReverted'
+  if (error instanceof TransactionTimeoutError) return 'txTimedOut'
+  if (error instanceof TransactionCancelledError) return 'txCancelled'
+  return 'error'
+}
@@ -2,39 +2,199 @@ import {
   WalletClient,
   Address,
   Abi,
+  BaseError,
+  ContractFunctionRevertedError,
   Hash,
   encodeFunctionData,
   Log,
   Hex,
+  formatLog,
+  hexToBigInt,
+  toHex,
+  TypedDataDefinition,
+  zeroAddress,
 } from 'viem'
 
-import { MULTICALL_3_ADDRESS, TransactionType } from '../constants'
+import {
+  ENTRY_POINT_V07_ADDRESS,
+  MULTICALL_3_ADDRESS,
+  TransactionType,
+  WALLET_CALLS_STATUS_CONFIRMED,
+  WALLET_CALLS_STATUS_OFFCHAIN_FAILURE,
+  WALLET_CALLS_STATUS_PENDING,
+  WALLET_SEND_CALLS_VERSION,
+  getDeploymentChainIds,
+} from '../constants'
+import { entryPointAbi } from '../constants/abi/entryPoint'
 import { multicallAbi } from '../constants/abi/multicall'
+import { safeAbi } from '../constants/abi/safe'
 import {
   InvalidArgumentError,
   InvalidConfigError,
   MissingDataClientError,
   MissingPublicClientError,
   MissingWalletClientError,
+  SafeSignaturesRequiredError,
+  TransactionFailedError,
+  TransactionRevertedError,
   UnsupportedChainIdError,
 } from '../errors'
 import type {
   ApiConfig,
   BaseClientConfig,
+  BatchCallsStatus,
+  BatchConfig,
   CallData,
+  CreateSafeTransactionConfig,
+  ExecuteMiddlewareContext,
+  ExecuteSafeTransactionConfig,
+  MulticallCallData,
+  MulticallCallResult,
   MulticallConfig,
+  SafeSignature,
+  SafeTransaction,
+  SendUserOperationConfig,
+  SignSafeTransactionConfig,
+  SimulationResult,
+  SplitsDeployment,
+  SplitsDeployments,
+  SplitsMiddleware,
   SplitsPublicClient,
+  SwitchChainFn,
   TransactionConfig,
   TransactionFormat,
   TransactionOverrides,
+  TransactionTrackingConfig,
+  UserOperation,
+  UserOperationConfig,
 } from '../types'
 
+import { sleep } from '../utils'
+import {
+  CONTRACT_ERRORS_ABI,
+  decodeContractError,
+  decodeContractRevert,
+} from '../utils/errors'
+import {
+  applyReadMiddlewareToClients,
+  runBeforeExecute,
+  runMiddleware,
+} from '../utils/middleware'
+import {
+  combineSafeSignatures,
+  getPreValidatedSafeSignature,
+  getSafeTransaction,
+  getSafeTransactionHash,
+  getSafeTypedData,
+} from '../utils/safe'
+import {
+  decodeSimulatedLogs,
+  getBalanceChangesFromLogs,
+  getSimulationRevertedError,
+} from '../utils/simulation'
+import { waitForTransaction } from '../utils/transaction'
+import {
+  estimateUserOperationGas,
+  getUserOperationHash,
+  sendUserOperation,
+  waitForUserOperationReceipt,
+} from '../utils/userOperation'
 import { DataClient } from './data'
 
+type ExecuteContractFunctionArgs = {
+  contractAddress: Address
+  contractAbi: Abi
+  functionName: string
+  functionArgs?: unknown[]
+  transactionOverrides: TransactionOverrides
+  value?: bigint
+  // Routes the call through a Safe that the sender is an owner of
+  safeAddress?: Address
+  chainId?: number
+  // Gets the result of the simulation writes run before they are submitted
+  onSimulated?: (result: unknown) => void
+}
+
+// wallet_sendCalls/wallet_getCallsStatus and eth_simulateV1 are not part of
+// viem's rpc schemas yet, so requests for them go through an untyped request
+// function
+type UntypedRequestFn = (args: {
+  method: string
+  params?: unknown[]
+}) => Promise<unknown>
+
+type SimulateCallsResponse = {
+  calls: {
+    status: Hex
+    returnData: Hex
+    gasUsed: Hex
+    logs: Parameters<typeof formatLog>[0][]
+    error?: {
+      code: number
+      message: string
+      data?: Hex
+    }
+  }[]
+}[]
+
+type WalletCallsStatusResponse = {
+  status: number | string
+  receipts?: {
+    transactionHash: Hash
+    status: Hex | 'success' | 'reverted'
+    logs: Log[]
+  }[]
+}
+
+// Multicall3 reverts with this reason when a call that isn't allowed to fail
+// does, dropping the call's own revert data
+const MULTICALL_CALL_FAILED_REASON = 'Multicall3: call failed'
+
+// aggregate3Value is only needed when a call forwards native value, its total
+// has to be sent along with the multicall
+const getMulticallRequest = (calls: MulticallCallData[]) => {
+  const value = calls.reduce(
+    (acc, call) => acc + (call.value ?? BigInt(0)),
+    BigInt(0),
+  )
+
+  if (value > BigInt(0))
+    return {
+      functionName: 'aggregate3Value' as const,
+      callRequests: calls.map((call) => {
+        return {
+          target: call.address as Address,
+          allowFailure: call.allowFailure ?? false,
+          value: call.value ?? BigInt(0),
+          callData: call.data,
+        }
+      }),
+      value,
+    }
+
+  return {
+    functionName: 'aggregate3' as const,
+    callRequests: calls.map((call) => {
+      return {
+        target: call.address as Address,
+        allowFailure: call.allowFailure ?? false,
+        callData: call.data,
+      }
+    }),
+    value: undefined,
+  }
+}
+
 class BaseClient {
   readonly _chainId: number | undefined // DEPRECATED
   readonly _ensPublicClient: SplitsPublicClient | undefined // DEPRECATED
   readonly _walletClient: WalletClient | undefined
+  readonly _walletClients:
+    | {
+        [chainId: number]: WalletClient
+      }
+    | undefined
+  readonly _switchChain: SwitchChainFn | undefined
   readonly _publicClient: SplitsPublicClient | undefined // DEPRECATED
   readonly _publicClients:
     | {
@@ -44,7 +204,11 @@ class BaseClient {
   readonly _apiConfig: ApiConfig | undefined
   readonly _includeEnsNames: boolean
   readonly _dataClient: DataClient | undefined
-  readonly _supportedChainIds: number[]
+  private readonly _defaultSupportedChainIds: number[]
+  readonly _deployments: SplitsDeployments
+  private readonly _deploymentContracts: (keyof SplitsDeployment)[] | undefined
+  readonly _userOperationConfig: UserOperationConfig | undefined
+  readonly _middleware: SplitsMiddleware[]
 
   constructor({
     chainId,
@@ -52,24 +216,47 @@ class BaseClient {
     publicClients,
     ensPublicClient,
     walletClient,
+    walletClients,
+    switchChain,
     apiConfig,
     supportedChainIds,
     includeEnsNames = false,
+    userOperation,
+    deployments = {},
+    deploymentContracts,
+    middleware = [],
   }: BaseClientConfig) {
     if (includeEnsNames && !publicClient && !ensPublicClient)
       throw new InvalidConfigError(
         'Must include a mainnet public client if includeEnsNames is set to true',
       )
 
+    const clients = applyReadMiddlewareToClients({
+      publicClient,
+      publicClients,
+      ensPublicClient,
+      middleware,
+    })
     this._ensPublicClient =
-      publicClients?.[1] ?? ensPublicClient ?? publicClient
-    this._publicClient = publicClient
-    this._publicClients = publicClients
+      clients.publicClients?.[1] ??
+      clients.ensPublicClient ??
+      clients.publicClient
+    this._publicClient = clients.publicClient
+    this._publicClients = clients.publicClients
     this._chainId = chainId
-    this._walletClient = walletClient
+    this._walletClient =
+      walletClient ??
+      (chainId !== undefined ? walletClients?.[chainId] : undefined) ??
+      Object.values(walletClients ?? {})[0]
+    this._walletClients = walletClients
+    this._switchChain = switchChain
     this._includeEnsNames = includeEnsNames
     this._apiConfig = apiConfig
-    this._supportedChainIds = supportedChainIds
+    this._defaultSupportedChainIds = supportedChainIds
+    this._userOperationConfig = userOperation
+    this._middleware = middleware
+    this._deployments = deployments
+    this._deploymentContracts = deploymentContracts
 
     if (apiConfig) {
       this._dataClient = new DataClient({
@@ -78,10 +265,24 @@ class BaseClient {
         ensPublicClient,
         apiConfig,
         includeEnsNames,
+        deployments,
+        middleware,
       })
     }
   }
 
+  // Chains from the client's deployments are supported when the deployment
+  // has the contracts this client needs
+  get _supportedChainIds(): number[] {
+    return [
+      ...this._defaultSupportedChainIds,
+      ...getDeploymentChainIds(
+        this._deployments,
+        this._deploymentContracts,
+      ).filter((chainId) => !this._defaultSupportedChainIds.includes(chainId)),
+    ]
+  }
+
   protected _requireDataClient() {
     if (!this._dataClient)
       throw new MissingDataClientError(
@@ -93,23 +294,42 @@ class BaseClient {
     this._getPublicClient(chainId)
   }
 
-  protected _requireWalletClient() {
-    if (!this._walletClient)
+  protected _requireWalletClient(chainId?: number) {
+    const walletClient = this._getWalletClient(chainId)
+    if (!walletClient)
       throw new MissingWalletClientError(
         'Wallet client required to perform this action, please update your call to the constructor',
       )
-    if (!this._walletClient.account)
+    if (!walletClient.account)
       throw new MissingWalletClientError(
         'Wallet client must have an account attached to it to perform this action, please update your wallet client passed into the constructor',
       )
 
-    const chainId = this._walletClient.chain?.id
-    if (!chainId)
+    const walletChainId = walletClient.chain?.id
+    if (!walletChainId)
       throw new Error('Wallet client must have a chain attached to it')
-    if (!this._supportedChainIds.includes(chainId))
-      throw new UnsupportedChainIdError(chainId, this._supportedChainIds)
+    if (!this._supportedChainIds.includes(walletChainId))
+      throw new UnsupportedChainIdError(walletChainId, this._supportedChainIds)
+
+    this._requirePublicClient(walletChainId)
+  }
 
-    this._requirePublicClient(chainId)
+  // The wallet client for chainId when one was passed in walletClients,
+  // otherwise the default wallet client
+  _getWalletClient(chainId?: number): WalletClient | undefined {
+    if (chainId !== undefined && this._walletClients?.[chainId])
+      return this._walletClients[chainId]
+
+    return this._walletClient
+  }
+
+  // The account that writes are sent from: the smart account when submitting
+  // user operations, otherwise the wallet client account
+  protected _getSenderAddress(chainId?: number): Address {
+    if (this._userOperationConfig)
+      return this._userOperationConfig.smartAccount.address
+
+    return this._getWalletClient(chainId)!.account!.address
   }
 
   _getPublicClient(chainId: number): SplitsPublicClient {
@@ -138,6 +358,10 @@ class BaseClient {
 export class BaseTransactions extends BaseClient {
   protected readonly _transactionType: TransactionType
   protected readonly _shouldRequireWalletClient: boolean
+  // Logs of the user operations sent from this client, by bundle transaction.
+  // A bundle carries other accounts' operations too, so events are read from
+  // these instead of the whole transaction.
+  protected readonly _userOperationLogs: Map<Hash, Log[]>
 
   constructor({
     transactionType,
@@ -146,27 +370,90 @@ export class BaseTransactions extends BaseClient {
     super(baseClientArgs)
 
     this._transactionType = transactionType
+    this._userOperationLogs = new Map()
     this._shouldRequireWalletClient = [
       TransactionType.GasEstimate,
       TransactionType.Transaction,
+      TransactionType.Simulation,
     ].includes(transactionType)
   }
 
-  protected async _executeContractFunction({
+  protected async _executeContractFunction(
+    args: ExecuteContractFunctionArgs,
+  ): Promise<TransactionFormat> {
+    const client = await this._getChainClient(args.chainId)
+    const context = await runBeforeExecute(this._middleware, {
+      contractAddress: args.contractAddress,
+      functionName: args.functionName,
+      args: args.functionArgs ?? [],
+      chainId: args.chainId ?? client._walletClient?.chain?.id ?? this._chainId,
+      transactionType: this._transactionType,
+      transactionOverrides: args.transactionOverrides,
+      value: args.value,
+    })
+
+    const result = await client
+      ._executeContractFunctionRequest({
+        ...args,
+        transactionOverrides: context.transactionOverrides,
+        // Include every splits error so reverts bubbling up from other
+        // contracts (e.g. the warehouse) can be decoded too
+        contractAbi: [...args.contractAbi, ...CONTRACT_ERRORS_ABI],
+      })
+      .catch(async (error) => {
+        const decodedError = decodeContractError(error)
+        await runMiddleware(
+          this._middleware,
+          (middleware) => middleware.onError?.(context, decodedError),
+        )
+        throw decodedError
+      })
+    await runMiddleware(
+      this._middleware,
+      (middleware) => middleware.afterExecute?.(context, result),
+    )
+
+    return result
+  }
+
+  // Returns this client with its wallet client set to the one on chainId, so
+  // everything downstream of the call (safe and user operation flows
+  // included) uses it. A view is returned instead of updating this client so
+  // that writes on different chains can run at the same time. Injected
+  // wallets are asked to switch through switchChain.
+  protected async _getChainClient(chainId?: number): Promise<this> {
+    if (chainId === undefined || !this._shouldRequireWalletClient) return this
+
+    const walletClient = this._getWalletClient(chainId)
+    if (!walletClient && !this._switchChain) return this
+    if (walletClient?.chain?.id === chainId)
+      return this._withWalletClient(walletClient)
+    if (!this._switchChain)
+      throw new InvalidArgumentError(
+        `Passed in chain id ${chainId} does not match walletClient chain id: ${walletClient?.chain?.id}.`,
+      )
+
+    return this._withWalletClient(await this._switchChain(chainId))
+  }
+
+  private _withWalletClient(walletClient: WalletClient): this {
+    if (walletClient === this._walletClient) return this
+
+    return Object.create(this, {
+      _walletClient: { value: walletClient },
+    })
+  }
+
+  private async _executeContractFunctionRequest({
     contractAddress,
     contractAbi,
     functionName,
     functionArgs,
     transactionOverrides,
     value,
-  }: {
-    contractAddress: Address
-    contractAbi: Abi
-    functionName: string
-    functionArgs?: unknown[]
-    transactionOverrides: TransactionOverrides
-    value?: bigint
-  }) {
+    safeAddress,
+    onSimulated,
+  }: ExecuteContractFunctionArgs) {
     if (this._shouldRequireWalletClient) {
       this._requireWalletClient()
     }
@@ -179,7 +466,11 @@ export class BaseTransactions extends BaseClient {
         address: contractAddress,
         abi: contractAbi,
         functionName,
-        account: this._walletClient.account,
+        account:
+          safeAddress ??
+          (this._userOperationConfig
+            ? this._userOperationConfig.smartAccount.address
+            : this._walletClient.account),
         args: functionArgs ?? [],
         value,
         ...transactionOverrides,
@@ -200,7 +491,62 @@ export class BaseTransactions extends BaseClient {
     } else if (this._transactionType === TransactionType.Transaction) {
       if (!this._walletClient?.account) throw new Error()
       const publicClient = this._getPublicClient(this._walletClient.chain!.id)
-      const { request } = await publicClient.simulateContract({
+
+      if (safeAddress) {
+        const { result } = await publicClient.simulateContract({
+          address: contractAddress,
+          abi: contractAbi,
+          functionName,
+          account: safeAddress,
+          args: functionArgs ?? [],
+          value,
+        })
+        onSimulated?.(result)
+        return await this._safeTransaction({
+          safeAddress,
+          calls: [
+            {
+              address: contractAddress,
+              data: encodeFunctionData({
+                abi: contractAbi,
+                functionName,
+                args: functionArgs ?? [],
+              }),
+              value,
+            },
+          ],
+          transactionOverrides,
+        })
+      }
+
+      if (this._userOperationConfig) {
+        const { result } = await publicClient.simulateContract({
+          address: contractAddress,
+          abi: contractAbi,
+          functionName,
+          account: this._userOperationConfig.smartAccount.address,
+          args: functionArgs ?? [],
+          value,
+        })
+        onSimulated?.(result)
+        const { txHash } = await this._userOperationTransaction({
+          calls: [
+            {
+              address: contractAddress,
+              data: encodeFunctionData({
+                abi: contractAbi,
+                functionName,
+                args: functionArgs ?? [],
+              }),
+              value,
+            },
+          ],
+          transactionOverrides,
+        })
+        return txHash
+      }
+
+      const { request, result } = await publicClient.simulateContract({
         address: contractAddress,
         abi: contractAbi,
         functionName,
@@ -209,11 +555,83 @@ export class BaseTransactions extends BaseClient {
         value,
         ...transactionOverrides,
       })
+      onSimulated?.(result)
       const txHash = await this._walletClient.writeContract(request)
       return txHash
+    } else if (this._transactionType === TransactionType.Simulation) {
+      return await this._simulateCall({
+        from: safeAddress ?? this._getSenderAddress(),
+        to: contractAddress,
+        data: encodeFunctionData({
+          abi: contractAbi,
+          functionName,
+          args: functionArgs ?? [],
+        }),
+        value,
+        contractAbi,
+      })
     } else throw new Error(`Unknown transaction type: ${this._transactionType}`)
   }
 
+  // Runs the call through eth_simulateV1 with transfer tracing so native
+  // transfers show up as erc20 style Transfer logs
+  protected async _simulateCall({
+    from,
+    to,
+    data,
+    value,
+    contractAbi,
+  }: {
+    from: Address
+    to: Address
+    data: Hex
+    value?: bigint
+    contractAbi: Abi
+  }): Promise<SimulationResult> {
+    const publicClient = this._getPublicClient(this._walletClient!.chain!.id)
+    const request = publicClient.request as unknown as UntypedRequestFn
+
+    const [block] = (await request({
+      method: 'eth_simulateV1',
+      params: [
+        {
+          blockStateCalls: [
+            {
+              calls: [
+                {
+                  from,
+                  to,
+                  data,
+                  value: value ? toHex(value) : undefined,
+                },
+              ],
+            },
+          ],
+          traceTransfers: true,
+          validation: false,
+        },
+        'latest',
+      ],
+    })) as SimulateCallsResponse
+    const call = block?.calls[0]
+    if (!call) throw new TransactionFailedError('Invalid simulation response')
+
+    if (call.status !== '0x1')
+      throw getSimulationRevertedError({
+        data: call.error?.data ?? call.returnData,
+        message: call.error?.message,
+        contractAbi,
+      })
+
+    const logs = call.logs.map((log) => formatLog(log))
+    return {
+      events: decodeSimulatedLogs(logs, contractAbi),
+      logs,
+      balanceChanges: getBalanceChangesFromLogs(logs),
+      gasUsed: hexToBigInt(call.gasUsed),
+    }
+  }
+
   protected _isContractTransaction(txHash: TransactionFormat): txHash is Hash {
     return typeof txHash === 'string'
   }
@@ -225,23 +643,34 @@ export class BaseTransactions extends BaseClient {
   protected _isCallData(callData: TransactionFormat): callData is CallData {
     if (callData instanceof BigInt) return false
     if (typeof callData === 'string') return false
+    if (this._isSimulationResult(callData)) return false
 
     return true
   }
 
+  protected _isSimulationResult(
+    simulationResult: TransactionFormat,
+  ): simulationResult is SimulationResult {
+    return (
+      typeof simulationResult === 'object' &&
+      'balanceChanges' in simulationResult
+    )
+  }
+
   protected _getFunctionChainId(argumentChainId?: number) {
     if (this._shouldRequireWalletClient) {
-      if (
-        argumentChainId !== undefined &&
-        this._walletClient!.chain!.id !== argumentChainId
-      ) {
+      const walletClient = this._getWalletClient(argumentChainId)!
+      if (argumentChainId === undefined) return walletClient.chain!.id
+
+      // Writes switch the wallet over to the chain when they are submitted
+      if (walletClient.chain!.id !== argumentChainId && !this._switchChain) {
         throw new InvalidArgumentError(
           `Passed in chain id ${argumentChainId} does not match walletClient chain id: ${
-            this._walletClient!.chain!.id
+            walletClient.chain!.id
           }.`,
         )
       }
-      return this._walletClient!.chain!.id
+      return argumentChainId
     }
 
     return this._getReadOnlyFunctionChainId(argumentChainId)
@@ -256,29 +685,580 @@ export class BaseTransactions extends BaseClient {
     return functionChainId
   }
 
-  async _multicallTransaction({
-    calls,
-    transactionOverrides = {},
-  }: MulticallConfig): Promise<TransactionFormat> {
-    this._requireWalletClient()
-    if (!this._walletClient) throw new Error()
+  async _multicallTransaction(
+    { calls, chainId, transactionOverrides = {} }: MulticallConfig,
+    onSimulated?: (results: MulticallCallResult[]) => void,
+  ): Promise<TransactionFormat> {
+    this._requireWalletClient(chainId)
 
-    const callRequests = calls.map((call) => {
-      return {
-        target: call.address,
-        callData: call.data,
-      }
-    })
+    const { functionName, callRequests, value } = getMulticallRequest(calls)
 
     const result = await this._executeContractFunction({
       contractAddress: MULTICALL_3_ADDRESS,
       contractAbi: multicallAbi,
-      functionName: 'aggregate',
+      functionName,
       functionArgs: [callRequests],
+      chainId,
       transactionOverrides,
+      value,
+      onSimulated: onSimulated
+        ? (simulationResult) =>
+            onSimulated(
+              (simulationResult as readonly MulticallCallResult[]).map(
+                ({ success, returnData }) => {
+                  return { success, returnData }
+                },
+              ),
+            )
+        : undefined,
+    }).catch(async (error) => {
+      throw await this._getMulticallCallError({ error, calls, chainId })
     })
     return result
   }
+
+  // Finds the call that failed the multicall by simulating it again with
+  // every call allowed to fail, and decodes that call's revert
+  private async _getMulticallCallError({
+    error,
+    calls,
+    chainId,
+  }: {
+    error: unknown
+    calls: MulticallCallData[]
+    chainId?: number
+  }): Promise<unknown> {
+    const isCallFailure =
+      error instanceof BaseError &&
+      error.walk(
+        (e) =>
+          e instanceof ContractFunctionRevertedError &&
+          e.reason === MULTICALL_CALL_FAILED_REASON,
+      ) !== null
+    if (!isCallFailure) return error
+
+    try {
+      const publicClient = this._getPublicClient(
+        this._getFunctionChainId(chainId),
+      )
+      const { functionName, callRequests, value } = getMulticallRequest(
+        calls.map((call) => {
+          return { ...call, allowFailure: true }
+        }),
+      )
+      const { result } = await publicClient.simulateContract({
+        address: MULTICALL_3_ADDRESS,
+        abi: multicallAbi,
+        functionName,
+        account: this._getSenderAddress(chainId),
+        args: [callRequests],
+        value,
+      } as Parameters<typeof publicClient.simulateContract>[0])
+
+      const failedCall = (result as readonly MulticallCallResult[]).find(
+        ({ success }, index) => !success && !calls[index].allowFailure,
+      )
+      if (!failedCall) return error
+
+      return decodeContractRevert(failedCall.returnData, error) ?? error
+    } catch {
+      return error
+    }
+  }
+
+  async _batchTransaction({
+    calls,
+    chainId,
+    atomicRequired = true,
+    capabilities,
+  }: BatchConfig): Promise<string> {
+    this._requireWalletClient(chainId)
+    const functionChainId = this._getFunctionChainId(chainId)
+    const { _walletClient: walletClient } =
+      await this._getChainClient(functionChainId)
+    if (!walletClient?.account)
+      throw new MissingWalletClientError(
+        'Wallet client must have an account attached to it to perform this action, please update your wallet client passed into the constructor',
+      )
+
+    // Each call goes through the execute hooks, like the contract reads in a
+    // multicall go through the read hooks
+    const contexts = await calls.reduce(
+      async (previous, call) => {
+        const acc = await previous
+        const context = await runBeforeExecute(this._middleware, {
+          contractAddress: call.address as Address,
+          functionName: 'wallet_sendCalls',
+          args: [call.data],
+          chainId: functionChainId,
+          transactionType: this._transactionType,
+          transactionOverrides: {},
+          value: call.value,
+        })
+        return [...acc, context]
+      },
+      Promise.resolve([] as ExecuteMiddlewareContext[]),
+    )
+
+    const request = walletClient.request as unknown as UntypedRequestFn
+
+    const batchId = await this._sendCalls({
+      request,
+      chainId: functionChainId,
+      from: walletClient.account.address,
+      calls,
+      atomicRequired,
+      capabilities,
+    }).catch(async (error) => {
+      const decodedError = decodeContractError(error)
+      await runMiddleware(this._middleware, (middleware) =>
+        Promise.all(
+          contexts.map(
+            (context) => middleware.onError?.(context, decodedError),
+          ),
+        ),
+      )
+      throw decodedError
+    })
+    // Batch ids are wallet defined strings rather than transaction hashes
+    await runMiddleware(this._middleware, (middleware) =>
+      Promise.all(
+        contexts.map(
+          (context) => middleware.afterExecute?.(context, batchId as Hash),
+        ),
+      ),
+    )
+
+    return batchId
+  }
+
+  private async _sendCalls({
+    request,
+    chainId,
+    from,
+    calls,
+    atomicRequired,
+    capabilities,
+  }: {
+    request: UntypedRequestFn
+    chainId: number
+    from: Address
+    calls: CallData[]
+    atomicRequired: boolean
+    capabilities?: Record<string, unknown>
+  }): Promise<string> {
+    const response = await request({
+      method: 'wallet_sendCalls',
+      params: [
+        {
+          version: WALLET_SEND_CALLS_VERSION,
+          chainId: toHex(chainId),
+          from,
+          atomicRequired,
+          calls: calls.map((call) => {
+            return {
+              to: call.address,
+              data: call.data,
+              value: call.value ? toHex(call.value) : undefined,
+            }
+          }),
+          capabilities,
+        },
+      ],
+    })
+
+    // Wallets implementing the first version of the spec return the batch id
+    // directly instead of wrapping it in an object
+    const batchId =
+      typeof response === 'string'
+        ? response
+        : (response as { id?: string } | undefined)?.id
+    if (!batchId) throw new TransactionFailedError('Invalid batch response')
+
+    return batchId
+  }
+
+  // Returns the owner address when it is a Safe that the sender can act for,
+  // so owner checks can route the action through the Safe instead of failing
+  protected async _getSafeOwner(
+    ownerAddress: Address,
+    chainId: number,
+  ): Promise<Address | undefined> {
+    try {
+      const publicClient = this._getPublicClient(chainId)
+      const isOwner = await publicClient.readContract({
+        address: ownerAddress,
+        abi: safeAbi,
+        functionName: 'isOwner',
+        args: [this._getSenderAddress(chainId)],
+      })
+      return isOwner ? ownerAddress : undefined
+    } catch {
+      // Not a Safe
+      return undefined
+    }
+  }
+
+  async _createSafeTransaction({
+    safeAddress,
+    calls,
+    chainId,
+    nonce,
+    multiSendAddress,
+  }: CreateSafeTransactionConfig): Promise<{
+    safeTransaction: SafeTransaction
+    safeTxHash: Hash
+  }> {
+    const functionChainId = this._getReadOnlyFunctionChainId(
+      chainId ?? this._walletClient?.chain?.id,
+    )
+    const safeNonce =
+      nonce ??
+      (await this._getPublicClient(functionChainId).readContract({
+        address: safeAddress,
+        abi: safeAbi,
+        functionName: 'nonce',
+      }))
+
+    const safeTransaction = getSafeTransaction({
+      calls,
+      nonce: safeNonce,
+      multiSendAddress,
+    })
+    const safeTxHash = getSafeTransactionHash({
+      safeAddress,
+      safeTransaction,
+      chainId: functionChainId,
+    })
+
+    return { safeTransaction, safeTxHash }
+  }
+
+  async _signSafeTransaction({
+    safeAddress,
+    safeTransaction,
+    chainId,
+  }: SignSafeTransactionConfig): Promise<SafeSignature> {
+    this._requireWalletClient(chainId)
+    const functionChainId = this._getFunctionChainId(chainId)
+    const walletClient = this._getWalletClient(functionChainId)!
+
+    const signature = await this._signTypedData({
+      chainId: functionChainId,
+      typedData: getSafeTypedData({
+        safeAddress,
+        safeTransaction,
+        chainId: functionChainId,
+      }),
+    })
+
+    return {
+      signer: walletClient.account!.address,
+      data: signature,
+    }
+  }
+
+  // Signatures go through the execute hooks like any other write, with the
+  // typed data's contract and primary type in the context
+  protected async _signTypedData({
+    chainId,
+    typedData,
+  }: {
+    chainId: number
+    typedData: TypedDataDefinition
+  }): Promise<Hex> {
+    const walletClient = this._getWalletClient(chainId)
+    if (!walletClient?.account)
+      throw new MissingWalletClientError(
+        'Wallet client must have an account attached to it to perform this action, please update your wallet client passed into the constructor',
+      )
+
+    const context = await runBeforeExecute(this._middleware, {
+      contractAddress: typedData.domain?.verifyingContract ?? zeroAddress,
+      functionName: typedData.primaryType,
+      args: [typedData.message],
+      chainId,
+      transactionType: TransactionType.Signature,
+      transactionOverrides: {},
+    })
+
+    const signature = await walletClient
+      .signTypedData({
+        account: walletClient.account,
+        ...typedData,
+      } as Parameters<typeof walletClient.signTypedData>[0])
+      .catch(async (error) => {
+        await runMiddleware(
+          this._middleware,
+          (middleware) => middleware.onError?.(context, error),
+        )
+        throw error
+      })
+    await runMiddleware(
+      this._middleware,
+      (middleware) => middleware.afterExecute?.(context, signature),
+    )
+
+    return signature
+  }
+
+  async _executeSafeTransaction({
+    safeAddress,
+    safeTransaction,
+    signatures,
+    chainId,
+    transactionOverrides = {},
+  }: ExecuteSafeTransactionConfig): Promise<TransactionFormat> {
+    return this._executeContractFunction({
+      contractAddress: safeAddress,
+      contractAbi: safeAbi,
+      functionName: 'execTransaction',
+      functionArgs: [
+        safeTransaction.to,
+        safeTransaction.value,
+        safeTransaction.data,
+        safeTransaction.operation,
+        safeTransaction.safeTxGas,
+        safeTransaction.baseGas,
+        safeTransaction.gasPrice,
+        safeTransaction.gasToken,
+        safeTransaction.refundReceiver,
+        combineSafeSignatures(signatures),
+      ],
+      chainId,
+      transactionOverrides,
+    })
+  }
+
+  // Executes directly when the sender alone meets the Safe threshold,
+  // otherwise hands the built transaction back for signature collection
+  protected async _safeTransaction({
+    safeAddress,
+    calls,
+    transactionOverrides,
+  }: {
+    safeAddress: Address
+    calls: CallData[]
+    transactionOverrides: TransactionOverrides
+  }): Promise<Hash> {
+    const chainId = this._walletClient!.chain!.id
+    const threshold = await this._getPublicClient(chainId).readContract({
+      address: safeAddress,
+      abi: safeAbi,
+      functionName: 'getThreshold',
+    })
+    const { safeTransaction, safeTxHash } = await this._createSafeTransaction({
+      safeAddress,
+      calls,
+      chainId,
+    })
+
+    if (threshold > BigInt(1))
+      throw new SafeSignaturesRequiredError({
+        safeAddress,
+        safeTransaction,
+        safeTxHash,
+        signatures: [],
+        threshold: Number(threshold),
+      })
+
+    const txHash = await this._executeSafeTransaction({
+      safeAddress,
+      safeTransaction,
+      signatures: [getPreValidatedSafeSignature(this._getSenderAddress())],
+      transactionOverrides,
+    })
+    if (!this._isContractTransaction(txHash))
+      throw new Error('Invalid response')
+
+    return txHash
+  }
+
+  async _userOperationTransaction({
+    calls,
+    chainId,
+    transactionOverrides = {},
+  }: SendUserOperationConfig): Promise<{
+    userOperationHash: Hash
+    txHash: Hash
+    logs: Log[]
+  }> {
+    if (!this._userOperationConfig)
+      throw new InvalidConfigError(
+        'User operation config required to perform this action, please update your call to the constructor',
+      )
+    this._requireWalletClient(chainId)
+
+    const {
+      bundlerClient,
+      smartAccount,
+      paymaster,
+      receiptPollingInterval,
+      receiptTimeout,
+    } = this._userOperationConfig
+    const functionChainId = this._getFunctionChainId(chainId)
+    const publicClient = this._getPublicClient(functionChainId)
+    const entryPointAddress =
+      smartAccount.entryPointAddress ?? ENTRY_POINT_V07_ADDRESS
+
+    const [nonce, accountCode, callData] = await Promise.all([
+      publicClient.readContract({
+        address: entryPointAddress,
+        abi: entryPointAbi,
+        functionName: 'getNonce',
+        args: [smartAccount.address, BigInt(0)],
+      }),
+      publicClient.getBytecode({ address: smartAccount.address }),
+      smartAccount.encodeCalls(calls),
+    ])
+    const factoryArgs =
+      !accountCode || accountCode === '0x'
+        ? await smartAccount.getFactoryArgs?.()
+        : undefined
+
+    const fees =
+      transactionOverrides.maxFeePerGas !== undefined &&
+      transactionOverrides.maxPriorityFeePerGas !== undefined
+        ? transactionOverrides
+        : await publicClient.estimateFeesPerGas()
+    if (
+      fees.maxFeePerGas === undefined ||
+      fees.maxPriorityFeePerGas === undefined
+    )
+      throw new TransactionFailedError(
+        `Unable to estimate eip-1559 fees on chain ${functionChainId}`,
+      )
+
+    const stubUserOperation: UserOperation = {
+      sender: smartAccount.address,
+      nonce,
+      factory: factoryArgs?.factory,
+      factoryData: factoryArgs?.factoryData,
+      callData,
+      callGasLimit: BigInt(0),
+      verificationGasLimit: BigInt(0),
+      preVerificationGas: BigInt(0),
+      maxFeePerGas: fees.maxFeePerGas,
+      maxPriorityFeePerGas: fees.maxPriorityFeePerGas,
+      signature: await smartAccount.getStubSignature(),
+    }
+    if (paymaster) {
+      const getStubData =
+        paymaster.getPaymasterStubData ?? paymaster.getPaymasterData
+      Object.assign(
+        stubUserOperation,
+        await getStubData({
+          userOperation: stubUserOperation,
+          entryPointAddress,
+          chainId: functionChainId,
+        }),
+      )
+    }
+
+    const gasLimits = await estimateUserOperationGas({
+      bundlerClient,
+      userOperation: stubUserOperation,
+      entryPointAddress,
+    })
+    const userOperation: UserOperation = {
+      ...stubUserOperation,
+      ...gasLimits,
+      paymasterVerificationGasLimit:
+        gasLimits.paymasterVerificationGasLimit ??
+        stubUserOperation.paymasterVerificationGasLimit,
+      paymasterPostOpGasLimit:
+        gasLimits.paymasterPostOpGasLimit ??
+        stubUserOperation.paymasterPostOpGasLimit,
+    }
+    if (paymaster) {
+      Object.assign(
+        userOperation,
+        await paymaster.getPaymasterData({
+          userOperation,
+          entryPointAddress,
+          chainId: functionChainId,
+        }),
+      )
+    }
+
+    userOperation.signature = await smartAccount.signUserOperation({
+      userOperation,
+      userOperationHash: getUserOperationHash({
+        userOperation,
+        entryPointAddress,
+        chainId: functionChainId,
+      }),
+      chainId: functionChainId,
+    })
+
+    const userOperationHash = await sendUserOperation({
+      bundlerClient,
+      userOperation,
+      entryPointAddress,
+    })
+    const { txHash, logs } = await waitForUserOperationReceipt({
+      bundlerClient,
+      userOperationHash,
+      pollingInterval: receiptPollingInterval,
+      timeout: receiptTimeout,
+    })
+    this._userOperationLogs.set(txHash, [
+      ...(this._userOperationLogs.get(txHash) ?? []),
+      ...logs,
+    ])
+
+    return { userOperationHash, txHash, logs }
+  }
+
+  async _getCallsStatus(
+    batchId: string,
+    chainId?: number,
+  ): Promise<BatchCallsStatus> {
+    this._requireWalletClient(chainId)
+    const request = this._getWalletClient(chainId)!
+      .request as unknown as UntypedRequestFn
+
+    const response = (await request({
+      method: 'wallet_getCallsStatus',
+      params: [batchId],
+    })) as WalletCallsStatusResponse
+
+    const receipts = (response.receipts ?? []).map((receipt) => {
+      return {
+        transactionHash: receipt.transactionHash,
+        status:
+          receipt.status === '0x1' || receipt.status === 'success'
+            ? ('success' as const)
+            : ('reverted' as const),
+        logs: receipt.logs ?? [],
+      }
+    })
+
+    if (
+      response.status === WALLET_CALLS_STATUS_PENDING ||
+      response.status === 'PENDING'
+    )
+      return { status: 'pending', receipts }
+    if (
+      response.status === WALLET_CALLS_STATUS_CONFIRMED ||
+      response.status === 'CONFIRMED'
+    )
+      return {
+        status: receipts.every((receipt) => receipt.status === 'success')
+          ? 'success'
+          : 'failure',
+        receipts,
+      }
+    if (
+      typeof response.status === 'number' &&
+      response.status >= WALLET_CALLS_STATUS_OFFCHAIN_FAILURE
+    )
+      return { status: 'failure', receipts }
+
+    throw new TransactionFailedError(
+      `Unknown batch status ${response.status} for batch ${batchId}`,
+    )
+  }
 }
 
 export class BaseClientMixin extends BaseTransactions {
@@ -286,50 +1266,174 @@ export class BaseClientMixin extends BaseTransactions {
     txHash,
     eventTopics,
     includeAll,
+    tracking,
+    chainId,
   }: {
     txHash: Hash
     eventTopics: Hex[]
     includeAll?: boolean
+    tracking?: TransactionTrackingConfig
+    chainId?: number
   }): Promise<Log[]> {
-    this._requireWalletClient()
-    const chainId = this._walletClient!.chain!.id
-    const publicClient = this._getPublicClient(chainId)
+    this._requireWalletClient(chainId)
+    const publicClient = this._getPublicClient(
+      this._getFunctionChainId(chainId),
+    )
+
+    // Throws if the transaction reverts or times out
+    const transaction = await waitForTransaction({
+      publicClient,
+      txHash,
+      ...tracking,
+    })
+    const userOperationLogs = this._userOperationLogs.get(txHash)
+    this._userOperationLogs.delete(txHash)
+    const logs = userOperationLogs ?? transaction.logs
+    const events = logs?.filter((log: { topics: Hex[] }) => {
+      if (includeAll) return true
+      if (log.topics[0]) return eventTopics.includes(log.topics[0])
 
-    const transaction = await publicClient.waitForTransactionReceipt({
-      hash: txHash,
+      return false
     })
-    if (transaction.status === 'success') {
-      const events = transaction.logs?.filter((log: { topics: Hex[] }) => {
+
+    return events
+  }
+
+  async getBatchEvents({
+    batchId,
+    eventTopics,
+    includeAll,
+    pollingInterval,
+    timeout,
+    chainId,
+  }: {
+    batchId: string
+    eventTopics: Hex[]
+    includeAll?: boolean
+    pollingInterval?: number
+    timeout?: number
+    chainId?: number
+  }): Promise<Log[]> {
+    this._requireWalletClient(chainId)
+    const interval =
+      pollingInterval ?? this._getWalletClient(chainId)!.pollingInterval
+    const startTime = Date.now()
+
+    const waitForBatch = async (): Promise<BatchCallsStatus> => {
+      const callsStatus = await this._getCallsStatus(batchId, chainId)
+      if (callsStatus.status !== 'pending') return callsStatus
+
+      if (timeout !== undefined && Date.now() - startTime > timeout)
+        throw new TransactionFailedError(
+          `Timed out waiting for batch ${batchId}`,
+        )
+
+      await sleep(interval)
+      return waitForBatch()
+    }
+
+    const callsStatus = await waitForBatch()
+    if (callsStatus.status !== 'success') {
+      const revertedReceipt = callsStatus.receipts.find(
+        (receipt) => receipt.status === 'reverted',
+      )
+      if (revertedReceipt)
+        throw new TransactionRevertedError({
+          txHash: revertedReceipt.transactionHash,
+        })
+      throw new TransactionFailedError(`Batch ${batchId} failed`)
+    }
+
+    return callsStatus.receipts.flatMap((receipt) =>
+      receipt.logs.filter((log) => {
         if (includeAll) return true
         if (log.topics[0]) return eventTopics.includes(log.topics[0])
 
         return false
-      })
+      }),
+    )
+  }
 
-      return events
-    }
+  async _submitBatchTransaction(batchArgs: BatchConfig): Promise<{
+    batchId: string
+  }> {
+    const batchId = await this._batchTransaction(batchArgs)
+    return { batchId }
+  }
 
-    return []
+  async batch(batchArgs: BatchConfig): Promise<{
+    batchId: string
+    events: Log[]
+  }> {
+    const { batchId } = await this._submitBatchTransaction(batchArgs)
+    const events = await this.getBatchEvents({
+      batchId,
+      chainId: batchArgs.chainId,
+      eventTopics: [],
+      includeAll: true,
+    })
+    return { batchId, events }
+  }
+
+  async _submitUserOperation(
+    userOperationArgs: SendUserOperationConfig,
+  ): Promise<{
+    userOperationHash: Hash
+    txHash: Hash
+    logs: Log[]
+  }> {
+    return await this._userOperationTransaction(userOperationArgs)
   }
 
+  async sendUserOperation(
+    userOperationArgs: SendUserOperationConfig,
+  ): Promise<{ txHash: Hash; events: Log[] }> {
+    const { txHash } = await this._submitUserOperation(userOperationArgs)
+    const events = await this.getTransactionEvents({
+      txHash,
+      chainId: userOperationArgs.chainId,
+      tracking: userOperationArgs.tracking,
+      eventTopics: [],
+      includeAll: true,
+    })
+    return { txHash, events }
+  }
+
+  // Return data is not part of the transaction receipt, so the per call
+  // results come from the simulation run right before the multicall is
+  // submitted. They show what the calls were expected to do, not what they did
+  // once mined.
   async _submitMulticallTransaction(multicallArgs: MulticallConfig): Promise<{
     txHash: Hash
+    simulatedResults: MulticallCallResult[]
   }> {
-    const multicallResult = await this._multicallTransaction(multicallArgs)
+    const simulation: { results: MulticallCallResult[] } = { results: [] }
+    const multicallResult = await this._multicallTransaction(
+      multicallArgs,
+      (results) => {
+        simulation.results = results
+      },
+    )
     if (!this._isContractTransaction(multicallResult))
       throw new Error('Invalid response')
 
-    return { txHash: multicallResult }
+    return { txHash: multicallResult, simulatedResults: simulation.results }
   }
 
-  async multicall(multicallArgs: MulticallConfig): Promise<{ events: Log[] }> {
-    const { txHash } = await this._submitMulticallTransaction(multicallArgs)
+  async multicall(multicallArgs: MulticallConfig): Promise<{
+    events: Log[]
+    simulatedResults: MulticallCallResult[]
+  }> {
+    const { txHash, simulatedResults } =
+      await this._submitMulticallTransaction(multicallArgs)
     const events = await this.getTransactionEvents({
       txHash,
+      chainId: multicallArgs.chainId,
+      tracking: multicallArgs.tracking,
       eventTopics: [],
       includeAll: true,
     })
-    return { events }
+    return { events, simulatedResults }
   }
 }
 
@@ -0,0 +1,251 @@
+import {
+  Account,
+  Address,
+  Chain,
+  Log,
+  PublicClient,
+  Transport,
+  WalletClient,
+} from 'viem'
+
+import { SplitsClient } from './index'
+import { TransactionType, WALLET_SEND_CALLS_VERSION } from '../constants'
+import {
+  MiddlewareVetoError,
+  TransactionFailedError,
+  TransactionRevertedError,
+} from '../errors'
+import type { SplitsMiddleware } from '../types'
+
+const SENDER: Address = '0xD57f3Fa0b49E91eaA20e739c874Ae273Bcf2D7Aa'
+const TARGET_A: Address = '0xE1D4BCd79552d815Eb5A8Fb2479Ad770E15BB17e'
+const TARGET_B: Address = '0xE9762Fb8D5347474375Ce00628d5a13D8AD45A99'
+
+const TOPIC =
+  '0x0000000000000000000000000000000000000000000000000000000000000001'
+const OTHER_TOPIC =
+  '0x0000000000000000000000000000000000000000000000000000000000000002'
+const matchingLog = { topics: [TOPIC] } as unknown as Log
+const otherLog = { topics: [OTHER_TOPIC] } as unknown as Log
+
+type CallsStatus = {
+  status: number
+  receipts?: { transactionHash: string; status: string; logs: Log[] }[]
+}
+
+const confirmedStatus: CallsStatus = {
+  status: 200,
+  receipts: [
+    { transactionHash: '0xhash', status: '0x1', logs: [matchingLog, otherLog] },
+  ],
+}
+
+const mockPublicClient = jest.fn((chainId: number) => {
+  return {
+    chain: {
+      id: chainId,
+    },
+  } as unknown as PublicClient<Transport, Chain>
+})
+const mockWalletClient = jest.fn(
+  (chainId: number, statuses: CallsStatus[] = [confirmedStatus]) => {
+    const pending = statuses.slice(0, -1)
+    const final = statuses[statuses.length - 1]
+    return {
+      account: {
+        address: SENDER,
+      },
+      chain: {
+        id: chainId,
+      },
+      pollingInterval: 1,
+      request: jest.fn(async ({ method }: { method: string }) => {
+        if (method === 'wallet_sendCalls') return { id: 'batch-id' }
+        return pending.shift() ?? final
+      }),
+    } as unknown as WalletClient<Transport, Chain, Account>
+  },
+)
+
+describe('Batch', () => {
+  const createClient = ({
+    statuses,
+    middleware,
+  }: {
+    statuses?: CallsStatus[]
+    middleware?: SplitsMiddleware[]
+  } = {}) => {
+    const walletClient = new mockWalletClient(1, statuses)
+    const optimismWalletClient = new mockWalletClient(10, statuses)
+    const client = new SplitsClient({
+      chainId: 1,
+      publicClients: {
+        1: new mockPublicClient(1),
+        10: new mockPublicClient(10),
+      },
+      walletClients: {
+        1: walletClient,
+        10: optimismWalletClient,
+      },
+      middleware,
+    })
+
+    return { client, walletClient, optimismWalletClient }
+  }
+
+  test('Sends the calls through wallet_sendCalls', async () => {
+    const { client, walletClient } = createClient()
+
+    const batchId = await client._batchTransaction({
+      calls: [
+        { address: TARGET_A, data: '0x01' },
+        { address: TARGET_B, data: '0x02', value: BigInt(16) },
+      ],
+    })
+
+    expect(batchId).toEqual('batch-id')
+    expect(walletClient.request).toHaveBeenCalledWith({
+      method: 'wallet_sendCalls',
+      params: [
+        {
+          version: WALLET_SEND_CALLS_VERSION,
+          chainId: '0x1',
+          from: SENDER,
+          atomicRequired: true,
+          calls: [
+            { to: TARGET_A, data: '0x01', value: undefined },
+            { to: TARGET_B, data: '0x02', value: '0x10' },
+          ],
+          capabilities: undefined,
+        },
+      ],
+    })
+  })
+
+  test('Batch waits for the calls and returns their events', async () => {
+    const { client, walletClient } = createClient({
+      statuses: [{ status: 100 }, confirmedStatus],
+    })
+
+    const result = await client.batch({
+      calls: [{ address: TARGET_A, data: '0x01' }],
+    })
+
+    expect(result).toEqual({
+      batchId: 'batch-id',
+      events: [matchingLog, otherLog],
+    })
+    expect(walletClient.request).toHaveBeenCalledWith({
+      method: 'wallet_getCallsStatus',
+      params: ['batch-id'],
+    })
+    // Sent, then polled until confirmed
+    expect(walletClient.request).toHaveBeenCalledTimes(3)
+  })
+
+  test('Batch events are filtered by topic', async () => {
+    const { client } = createClient()
+
+    const events = await client.getBatchEvents({
+      batchId: 'batch-id',
+      eventTopics: [TOPIC],
+    })
+
+    expect(events).toEqual([matchingLog])
+  })
+
+  test('Batches on another chain use that chain wallet client', async () => {
+    const { client, walletClient, optimismWalletClient } = createClient()
+
+    await client.batch({
+      calls: [{ address: TARGET_A, data: '0x01' }],
+      chainId: 10,
+    })
+
+    expect(walletClient.request).not.toHaveBeenCalled()
+    expect(optimismWalletClient.request).toHaveBeenCalledWith(
+      expect.objectContaining({ method: 'wallet_sendCalls' }),
+    )
+    expect(optimismWalletClient.request).toHaveBeenCalledWith({
+      method: 'wallet_getCallsStatus',
+      params: ['batch-id'],
+    })
+  })
+
+  test('Failed batches throw', async () => {
+    const { client: revertedClient } = createClient({
+      statuses: [
+        {
+          status: 200,
+          receipts: [
+            { transactionHash: '0xhash', status: '0x0', logs: [matchingLog] },
+          ],
+        },
+      ],
+    })
+    await expect(
+      revertedClient.getBatchEvents({ batchId: 'batch-id', eventTopics: [] }),
+    ).rejects.toThrow(TransactionRevertedError)
+
+    const { client: failedClient } = createClient({
+      statuses: [{ status: 400 }],
+    })
+    await expect(
+      failedClient.getBatchEvents({ batchId: 'batch-id', eventTopics: [] }),
+    ).rejects.toThrow(TransactionFailedError)
+  })
+
+  test('Each call goes through the execute hooks', async () => {
+    const beforeExecute = jest.fn()
+    const afterExecute = jest.fn()
+    const { client } = createClient({
+      middleware: [{ beforeExecute, afterExecute }],
+    })
+
+    await client._batchTransaction({
+      calls: [
+        { address: TARGET_A, data: '0x01' },
+        { address: TARGET_B, data: '0x02' },
+      ],
+    })
+
+    const context = {
+      contractAddress: TARGET_A,
+      functionName: 'wallet_sendCalls',
+      args: ['0x01'],
+      chainId: 1,
+      transactionType: TransactionType.Transaction,
+      transactionOverrides: {},
+      value: undefined,
+    }
+    expect(beforeExecute).toHaveBeenCalledTimes(2)
+    expect(beforeExecute).toHaveBeenCalledWith(context)
+    expect(afterExecute).toHaveBeenCalledWith(context, 'batch-id')
+    expect(afterExecute).toHaveBeenCalledWith(
+      expect.objectContaining({ contractAddress: TARGET_B }),
+      'batch-id',
+    )
+  })
+
+  test('Middleware can veto a batch', async () => {
+    const { client, walletClient } = createClient({
+      middleware: [
+        {
+          name: 'policy',
+          beforeExecute: ({ contractAddress }) =>
+            contractAddress === TARGET_B ? false : undefined,
+        },
+      ],
+    })
+
+    await expect(
+      client._batchTransaction({
+        calls: [
+          { address: TARGET_A, data: '0x01' },
+          { address: TARGET_B, data: '0x02' },
+        ],
+      }),
+    ).rejects.toThrow(MiddlewareVetoError)
+    expect(walletClient.request).not.toHaveBeenCalled()
+  })
+})
@@ -11,9 +11,11 @@ import {
   LiquidSplit,
   Split,
   SplitsContract,
+  SplitsDeployments,
   SplitsPublicClient,
   Swapper,
   VestingModule,
+  WarehouseAccountWithdrawConfig,
   WaterfallModule,
 } from '../types'
 import {
@@ -25,8 +27,10 @@ import {
 } from '../errors'
 import {
   ACCOUNT_QUERY,
+  ACCOUNTS_QUERY,
   FULL_ACCOUNT_QUERY,
   GqlVariables,
+  WAREHOUSE_WITHDRAW_ACCOUNTS_QUERY,
   formatFullGqlAccount,
   formatGqlAccount,
   getGraphqlClient,
@@ -47,7 +51,10 @@ import {
   IVestingModule,
   IWaterfallModule,
 } from '../subgraph/types'
-import { MAX_RELATED_ACCOUNTS } from '../subgraph/constants'
+import {
+  MAX_RELATED_ACCOUNTS,
+  WAREHOUSE_WITHDRAW_ACCOUNTS_PAGE_SIZE,
+} from '../subgraph/constants'
 import { formatGqlSplit, protectedFormatSplit } from '../subgraph/split'
 import {
   formatGqlWaterfallModule,
@@ -76,6 +83,25 @@ import {
   mergeFormattedTokenBalances,
   validateAddress,
 } from '../utils'
+import { applyReadMiddlewareToClients } from '../utils/middleware'
+
+const formatWarehouseAccounts = (
+  gqlAccounts: GqlAccount[],
+): { [address: Address]: WarehouseAccountWithdrawConfig } => {
+  return gqlAccounts.reduce(
+    (acc, gqlAccount) => {
+      const account = formatGqlAccount(gqlAccount)
+      acc[getAddress(account.address)] = {
+        withdrawConfig: account.warehouseWithdrawConfig,
+        tokens: Object.keys(account.warehouseBalances).map((token) =>
+          getAddress(token),
+        ),
+      }
+      return acc
+    },
+    {} as { [address: Address]: WarehouseAccountWithdrawConfig },
+  )
+}
 
 export class DataClient {
   readonly _ensPublicClient: SplitsPublicClient | undefined // DEPRECATED
@@ -87,6 +113,7 @@ export class DataClient {
     | undefined
   private readonly _graphqlClient: Client | undefined
   readonly _includeEnsNames: boolean
+  readonly _deployments: SplitsDeployments
 
   constructor({
     publicClient,
@@ -94,6 +121,8 @@ export class DataClient {
     ensPublicClient,
     apiConfig,
     includeEnsNames = false,
+    middleware,
+    deployments = {},
   }: DataClientConfig) {
     if (
       includeEnsNames &&
@@ -105,11 +134,20 @@ export class DataClient {
         'Must include a mainnet public client if includeEnsNames is set to true',
       )
 
+    const clients = applyReadMiddlewareToClients({
+      publicClient,
+      publicClients,
+      ensPublicClient,
+      middleware,
+    })
     this._ensPublicClient =
-      publicClients?.[1] ?? ensPublicClient ?? publicClient
-    this._publicClient = publicClient
-    this._publicClients = publicClients
+      clients.publicClients?.[1] ??
+      clients.ensPublicClient ??
+      clients.publicClient
+    this._publicClient = clients.publicClient
+    this._publicClients = clients.publicClients
     this._includeEnsNames = includeEnsNames
+    this._deployments = deployments
 
     this._graphqlClient = getGraphqlClient(apiConfig)
   }
@@ -391,6 +429,7 @@ export class DataClient {
         chainId,
         accountAddress,
         functionPublicClient,
+        this._deployments,
       )
     } else {
       if (erc20TokenList === undefined) {
@@ -403,6 +442,7 @@ export class DataClient {
           chainId,
           functionPublicClient,
           accountAddress,
+          this._deployments,
         )
         tokenList.push(...transferredErc20Tokens)
       }
@@ -423,6 +463,7 @@ export class DataClient {
         accountAddress,
         functionPublicClient,
         fullTokenList,
+        this._deployments,
       )
     }
 
@@ -544,6 +585,71 @@ export class DataClient {
     return await this._formatAccount(chainId, response)
   }
 
+  // Withdraw configs and warehouse tokens of the accounts the subgraph knows
+  // about. Accounts it doesn't know are left out.
+  async getWarehouseWithdrawConfigs({
+    chainId,
+    accountAddresses,
+  }: {
+    chainId: number
+    accountAddresses: string[]
+  }): Promise<{
+    accounts: { [address: Address]: WarehouseAccountWithdrawConfig }
+  }> {
+    accountAddresses.map((accountAddress) => validateAddress(accountAddress))
+
+    const result = await this._makeGqlRequest<{
+      accounts: GqlAccount[]
+    }>(ACCOUNTS_QUERY, {
+      accounts: accountAddresses.map((accountAddress) => {
+        return {
+          id: accountAddress.toLowerCase(),
+          chainId: chainId.toString(),
+        }
+      }),
+    })
+
+    return {
+      accounts: formatWarehouseAccounts(result.accounts ?? []),
+    }
+  }
+
+  // Accounts with an unpaused warehouse withdraw config, i.e. the ones anyone
+  // can withdraw for. Read a page at a time until a page comes back short.
+  async getWarehouseWithdrawAccounts({
+    chainId,
+  }: {
+    chainId: number
+  }): Promise<{
+    accounts: { [address: Address]: WarehouseAccountWithdrawConfig }
+  }> {
+    const loadPage = async (
+      offset: number,
+    ): Promise<{ [address: Address]: WarehouseAccountWithdrawConfig }> => {
+      const result = await this._makeGqlRequest<{
+        warehouseWithdrawAccounts: GqlAccount[]
+      }>(WAREHOUSE_WITHDRAW_ACCOUNTS_QUERY, {
+        chainId: chainId.toString(),
+        paused: false,
+        limit: WAREHOUSE_WITHDRAW_ACCOUNTS_PAGE_SIZE,
+        offset,
+      })
+      const gqlAccounts = result.warehouseWithdrawAccounts ?? []
+      const accounts = formatWarehouseAccounts(gqlAccounts)
+      if (gqlAccounts.length < WAREHOUSE_WITHDRAW_ACCOUNTS_PAGE_SIZE)
+        return accounts
+
+      return {
+        ...accounts,
+        ...(await loadPage(offset + WAREHOUSE_WITHDRAW_ACCOUNTS_PAGE_SIZE)),
+      }
+    }
+
+    return {
+      accounts: await loadPage(0),
+    }
+  }
+
   // Graphql read actions
   async getRelatedSplits({
     chainId,
@@ -824,6 +930,7 @@ export class DataClient {
       chainId,
       getAddress(gqlWaterfallModule.token),
       publicClient,
+      this._deployments,
     )
 
     const waterfallModule = protectedFormatWaterfallModule(
@@ -866,6 +973,7 @@ export class DataClient {
           chainId,
           getAddress(token),
           publicClient,
+          this._deployments,
         )
 
         tokenData[token] = result
@@ -0,0 +1,116 @@
+import { Address, Chain, PublicClient, Transport } from 'viem'
+
+import { SplitsClient } from './index'
+import {
+  getNativeCurrencySymbol,
+  getSplitMainAddress,
+  getSplitV1StartBlock,
+  getWarehouseAddress,
+} from '../constants'
+import { UnsupportedChainIdError } from '../errors'
+import type { SplitsDeployments } from '../types'
+
+const DEVNET_CHAIN_ID = 31338
+const WAREHOUSE: Address = '0xD57f3Fa0b49E91eaA20e739c874Ae273Bcf2D7Aa'
+const SPLIT_MAIN: Address = '0xE1D4BCd79552d815Eb5A8Fb2479Ad770E15BB17e'
+const OWNER: Address = '0xE9762Fb8D5347474375Ce00628d5a13D8AD45A99'
+
+const publicClient = {
+  chain: {
+    id: DEVNET_CHAIN_ID,
+  },
+} as unknown as PublicClient<Transport, Chain>
+
+// Every test builds its own clients, nothing is shared between them
+const createClient = (deployments?: SplitsDeployments) => {
+  return new SplitsClient({
+    chainId: DEVNET_CHAIN_ID,
+    publicClient,
+    deployments,
+  })
+}
+
+describe('Client deployments', () => {
+  test('Chains without a deployment are unsupported', () => {
+    const client = createClient()
+
+    expect(() => client.warehouse._getPublicClient(DEVNET_CHAIN_ID)).toThrow(
+      UnsupportedChainIdError,
+    )
+  })
+
+  test('Deployments passed to the client are used', async () => {
+    const deployments = {
+      [DEVNET_CHAIN_ID]: {
+        warehouse: WAREHOUSE,
+        startBlocks: { splitV1: 12 },
+        nativeCurrency: { symbol: 'DEV' },
+      },
+    }
+    const client = createClient(deployments)
+
+    // Reads go through a wrapper that decodes reverts
+    expect(client.warehouse._getPublicClient(DEVNET_CHAIN_ID).chain).toEqual(
+      publicClient.chain,
+    )
+    expect(client.warehouse._supportedChainIds).toContain(DEVNET_CHAIN_ID)
+    expect(client._deployments).toEqual(deployments)
+
+    const callData = await client.warehouse.callData.withdraw({
+      ownerAddress: OWNER,
+      tokenAddress: OWNER,
+    })
+    expect(callData.address).toEqual(WAREHOUSE)
+
+    expect(getSplitV1StartBlock(DEVNET_CHAIN_ID, deployments)).toEqual(
+      BigInt(12),
+    )
+    expect(getNativeCurrencySymbol(DEVNET_CHAIN_ID, deployments)).toEqual('DEV')
+  })
+
+  test('Deployments do not leak into other clients', () => {
+    createClient({ [DEVNET_CHAIN_ID]: { warehouse: WAREHOUSE } })
+    const client = createClient()
+
+    expect(client.warehouse._supportedChainIds).not.toContain(DEVNET_CHAIN_ID)
+    expect(() => getSplitV1StartBlock(DEVNET_CHAIN_ID)).toThrow()
+    expect(getWarehouseAddress(DEVNET_CHAIN_ID)).not.toEqual(WAREHOUSE)
+  })
+
+  test('Chains are only supported by clients whose contracts are deployed', () => {
+    const client = createClient({
+      [DEVNET_CHAIN_ID]: { warehouse: WAREHOUSE },
+    })
+
+    expect(client.warehouse._supportedChainIds).toContain(DEVNET_CHAIN_ID)
+    expect(client.splitV1._supportedChainIds).not.toContain(DEVNET_CHAIN_ID)
+    expect(client.waterfall._supportedChainIds).not.toContain(DEVNET_CHAIN_ID)
+    expect(() => client.splitV1['_getSplitMainAbi'](DEVNET_CHAIN_ID)).toThrow(
+      UnsupportedChainIdError,
+    )
+
+    const splitMainClient = createClient({
+      [DEVNET_CHAIN_ID]: { splitMain: SPLIT_MAIN },
+    })
+    expect(splitMainClient.splitV1._supportedChainIds).toContain(
+      DEVNET_CHAIN_ID,
+    )
+    expect(() =>
+      splitMainClient.splitV1['_getSplitMainAbi'](DEVNET_CHAIN_ID),
+    ).not.toThrow()
+  })
+
+  test('Missing addresses fall back to the canonical deployment', () => {
+    const deployments = {
+      [DEVNET_CHAIN_ID]: { splitMain: SPLIT_MAIN },
+    }
+
+    expect(getSplitMainAddress(DEVNET_CHAIN_ID, deployments)).toEqual(
+      SPLIT_MAIN,
+    )
+    expect(getWarehouseAddress(DEVNET_CHAIN_ID, deployments)).toEqual(
+      getWarehouseAddress(1),
+    )
+    expect(getSplitMainAddress(1, deployments)).not.toEqual(SPLIT_MAIN)
+  })
+})
@@ -0,0 +1,504 @@
+import {
+  Address,
+  Chain,
+  Hash,
+  PublicClient,
+  Transport,
+  WalletClient,
+  zeroAddress,
+} from 'viem'
+import { privateKeyToAccount } from 'viem/accounts'
+import { mainnet, optimism } from 'viem/chains'
+
+import { DistributionClient } from './distribution'
+import { SplitV1Client } from './splitV1'
+import { SplitV2Client } from './splitV2'
+import { getWarehouseAddress } from '../constants'
+import { BatchDistributionFailedError, InvalidArgumentError } from '../errors'
+import type { Split } from '../types'
+
+const ROOT_SPLIT: Address = '0x1000000000000000000000000000000000000001'
+const SPLIT_V1: Address = '0x2000000000000000000000000000000000000002'
+const CHILD_SPLIT: Address = '0x3000000000000000000000000000000000000003'
+const RECIPIENT_ONE: Address = '0x4000000000000000000000000000000000000004'
+const RECIPIENT_TWO: Address = '0x5000000000000000000000000000000000000005'
+const DISTRIBUTOR: Address = '0x6000000000000000000000000000000000000006'
+const TOKEN: Address = '0x7000000000000000000000000000000000000007'
+const OTHER_TOKEN: Address = '0x8000000000000000000000000000000000000008'
+const PARENT_SPLIT_V1: Address = '0x9000000000000000000000000000000000000009'
+const OTHER_PARENT_SPLIT_V1: Address =
+  '0xA00000000000000000000000000000000000000A'
+
+const getSplit = (
+  address: Address,
+  type: Split['type'],
+  recipients: Address[],
+): Split => {
+  return {
+    type,
+    address,
+    controller: { address: zeroAddress },
+    newPotentialController: { address: zeroAddress },
+    distributorFeePercent: 0,
+    distributionsPaused: false,
+    distributeDirection: 'push',
+    recipients: recipients.map((recipient) => {
+      return {
+        percentAllocation: 50,
+        ownership: BigInt(500000),
+        recipient: { address: recipient },
+      }
+    }),
+  }
+}
+
+// The root split pays a V1 split, which pays back to the root and on to a V2
+// split
+const SPLITS_V1: { [address: Address]: Split } = {
+  [SPLIT_V1]: getSplit(SPLIT_V1, 'Split', [ROOT_SPLIT, CHILD_SPLIT]),
+  // Two V1 splits that both pay the V2 split
+  [PARENT_SPLIT_V1]: getSplit(PARENT_SPLIT_V1, 'Split', [
+    OTHER_PARENT_SPLIT_V1,
+    CHILD_SPLIT,
+  ]),
+  [OTHER_PARENT_SPLIT_V1]: getSplit(OTHER_PARENT_SPLIT_V1, 'Split', [
+    CHILD_SPLIT,
+    RECIPIENT_ONE,
+  ]),
+}
+const SPLITS_V2: { [address: Address]: Split } = {
+  [ROOT_SPLIT]: getSplit(ROOT_SPLIT, 'SplitV2', [SPLIT_V1, RECIPIENT_ONE]),
+  [CHILD_SPLIT]: getSplit(CHILD_SPLIT, 'SplitV2', [
+    RECIPIENT_ONE,
+    RECIPIENT_TWO,
+  ]),
+}
+
+jest
+  .spyOn(SplitV1Client.prototype, '_doesSplitExist')
+  .mockImplementation(async ({ splitAddress }) => !!SPLITS_V1[splitAddress])
+jest
+  .spyOn(SplitV1Client.prototype, 'getSplitMetadataViaProvider')
+  .mockImplementation(async ({ splitAddress }) => {
+    return { split: SPLITS_V1[splitAddress as Address], blockRange: BigInt(1) }
+  })
+jest
+  .spyOn(SplitV2Client.prototype, '_doesSplitExist')
+  .mockImplementation(async ({ splitAddress }) => !!SPLITS_V2[splitAddress])
+const mockGetSplitV2Metadata = jest
+  .spyOn(SplitV2Client.prototype, 'getSplitMetadataViaProvider')
+  .mockImplementation(async ({ splitAddress }) => {
+    return { split: SPLITS_V2[splitAddress as Address], blockRange: BigInt(1) }
+  })
+// Only the root splits hold a balance to start with
+const mockActiveBalances = async ({
+  splitAddress,
+}: {
+  splitAddress: string
+}) => {
+  return {
+    activeBalances:
+      splitAddress === ROOT_SPLIT || splitAddress === PARENT_SPLIT_V1
+        ? {
+            [TOKEN]: {
+              symbol: 'TKN',
+              decimals: 18,
+              rawAmount: BigInt(100),
+              formattedAmount: '0.0000000000000001',
+            },
+          }
+        : {},
+  }
+}
+jest
+  .spyOn(SplitV1Client.prototype, 'getSplitActiveBalances')
+  .mockImplementation(mockActiveBalances)
+const mockGetSplitV2ActiveBalances = jest
+  .spyOn(SplitV2Client.prototype, 'getSplitActiveBalances')
+  .mockImplementation(mockActiveBalances)
+
+describe('Distribution planner', () => {
+  const client = new DistributionClient({
+    chainId: 1,
+    publicClient: {
+      chain: { id: 1 },
+    } as unknown as PublicClient<Transport, Chain>,
+  })
+
+  test('Orders distributions from the root down and reports cycles', async () => {
+    const plan = await client.planDistribution({
+      rootAddress: ROOT_SPLIT,
+      tokens: [TOKEN],
+      distributorAddress: DISTRIBUTOR,
+    })
+
+    expect(plan.cycles).toEqual([[ROOT_SPLIT, SPLIT_V1, ROOT_SPLIT]])
+    expect(plan.nodes[RECIPIENT_TWO].type).toEqual('Account')
+    expect(
+      plan.steps.map((step) => {
+        return {
+          type: step.type,
+          address:
+            'splitAddress' in step.config
+              ? step.config.splitAddress
+              : 'address' in step.config
+              ? step.config.address
+              : undefined,
+        }
+      }),
+    ).toEqual([
+      { type: 'distributeSplitV2', address: ROOT_SPLIT },
+      { type: 'distributeSplitV1', address: SPLIT_V1 },
+      // The V1 split's payout to the V2 split sits in SplitMain
+      { type: 'withdrawSplitV1', address: CHILD_SPLIT },
+      { type: 'distributeSplitV2', address: CHILD_SPLIT },
+    ])
+
+    const callData = await client.getDistributionCallData(plan)
+    expect(callData).toHaveLength(4)
+    expect(callData[0].address).toEqual(ROOT_SPLIT)
+  })
+
+  test('Withdraws once every parent has paid in', async () => {
+    const plan = await client.planDistribution({
+      rootAddress: PARENT_SPLIT_V1,
+      tokens: [TOKEN],
+      distributorAddress: DISTRIBUTOR,
+    })
+
+    // Both V1 splits pay the V2 split through the same SplitMain balance
+    expect(
+      plan.steps.map((step) => {
+        return {
+          type: step.type,
+          address:
+            'splitAddress' in step.config
+              ? step.config.splitAddress
+              : 'address' in step.config
+              ? step.config.address
+              : undefined,
+        }
+      }),
+    ).toEqual([
+      { type: 'distributeSplitV1', address: PARENT_SPLIT_V1 },
+      { type: 'distributeSplitV1', address: OTHER_PARENT_SPLIT_V1 },
+      { type: 'withdrawSplitV1', address: CHILD_SPLIT },
+      { type: 'distributeSplitV2', address: CHILD_SPLIT },
+    ])
+  })
+
+  test('Skips contracts with nothing to distribute', async () => {
+    const plan = await client.planDistribution({
+      rootAddress: CHILD_SPLIT,
+      tokens: [TOKEN],
+      distributorAddress: DISTRIBUTOR,
+    })
+
+    expect(Object.keys(plan.nodes)).toHaveLength(3)
+    expect(plan.steps).toEqual([])
+  })
+})
+
+describe('Distribution execution', () => {
+  const account = privateKeyToAccount(
+    '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80',
+  )
+  const walletClient = {
+    account,
+    chain: mainnet,
+    writeContract: jest.fn(async () => '0xbb' as Hash),
+  } as unknown as WalletClient
+  const client = new DistributionClient({
+    chainId: 1,
+    publicClient: {
+      chain: mainnet,
+      simulateContract: jest.fn(async (request) => {
+        return { request, result: undefined }
+      }),
+    } as unknown as PublicClient<Transport, Chain>,
+    walletClient,
+  })
+
+  test('Sends warehouse withdraws from the wallet so it earns the incentive', async () => {
+    // The root pays the V1 split through its warehouse balance
+    mockGetSplitV2Metadata.mockImplementationOnce(async () => {
+      return {
+        split: { ...SPLITS_V2[ROOT_SPLIT], distributeDirection: 'pull' },
+        blockRange: BigInt(1),
+      }
+    })
+    const plan = await client.planDistribution({
+      rootAddress: ROOT_SPLIT,
+      tokens: [TOKEN],
+      distributorAddress: DISTRIBUTOR,
+    })
+    const submitMulticall = jest
+      .spyOn(client, '_submitMulticallTransaction')
+      .mockImplementation(async ({ calls }) => {
+        return { txHash: `0x0${calls.length}` as Hash, simulatedResults: [] }
+      })
+    jest
+      .spyOn(client, 'getTransactionEvents')
+      .mockImplementation(async () => [])
+
+    const { txHashes } = await client.executeDistribution({ plan })
+
+    expect(plan.steps.map(({ type }) => type)).toEqual([
+      'distributeSplitV2',
+      'withdrawWarehouse',
+      'distributeSplitV1',
+      'withdrawSplitV1',
+      'distributeSplitV2',
+    ])
+    expect(txHashes).toEqual(['0x01', '0xbb', '0x03'])
+    // The warehouse pays the incentive to msg.sender
+    expect(walletClient.writeContract).toHaveBeenCalledTimes(1)
+    expect(walletClient.writeContract).toHaveBeenCalledWith(
+      expect.objectContaining({
+        address: getWarehouseAddress(1),
+        functionName: 'withdraw',
+        args: [SPLIT_V1, TOKEN],
+        account,
+      }),
+    )
+    submitMulticall.mock.calls.map(([{ calls }]) =>
+      calls.map(({ address }) =>
+        expect(address).not.toEqual(getWarehouseAddress(1)),
+      ),
+    )
+  })
+})
+
+describe('Batch distribution', () => {
+  const client = new DistributionClient({
+    chainId: 1,
+    publicClient: {
+      chain: { id: 1 },
+    } as unknown as PublicClient<Transport, Chain>,
+  })
+  jest
+    .spyOn(client['_splitV1'].estimateGas, 'distributeToken')
+    .mockImplementation(async () => BigInt(121_000))
+  jest
+    .spyOn(client['_splitV2'].estimateGas, 'distribute')
+    .mockImplementation(async () => BigInt(221_000))
+
+  test('Packs distributions into batches under the gas limit', async () => {
+    const plan = await client.planBatchDistribution({
+      pairs: [
+        { splitAddress: ROOT_SPLIT, token: TOKEN },
+        { splitAddress: ROOT_SPLIT, token: OTHER_TOKEN },
+        { splitAddress: SPLIT_V1, token: TOKEN },
+        { splitAddress: CHILD_SPLIT, token: TOKEN },
+      ],
+      distributorAddress: DISTRIBUTOR,
+      gasLimit: BigInt(500_000),
+    })
+
+    expect(
+      plan.batches.map(({ steps, gasEstimate }) => {
+        return { types: steps.map((step) => step.type), gasEstimate }
+      }),
+    ).toEqual([
+      {
+        types: ['distributeSplitV2', 'distributeSplitV2'],
+        gasEstimate: BigInt(441_000),
+      },
+      {
+        types: ['distributeSplitV1', 'distributeSplitV2'],
+        gasEstimate: BigInt(341_000),
+      },
+    ])
+  })
+
+  test('Fails on pairs that are not splits', async () => {
+    await expect(
+      client.planBatchDistribution({
+        pairs: [{ splitAddress: RECIPIENT_ONE, token: TOKEN }],
+        distributorAddress: DISTRIBUTOR,
+      }),
+    ).rejects.toThrow(InvalidArgumentError)
+  })
+
+  test('Picks up from where the last run stopped', async () => {
+    const mockSubmit = jest
+      .spyOn(client, '_submitMulticallTransaction')
+      .mockImplementation(async () => {
+        return { txHash: '0xhash' as Hash, simulatedResults: [] }
+      })
+    jest
+      .spyOn(client, 'getTransactionEvents')
+      .mockImplementation(async () => [])
+    const onProgress = jest.fn()
+
+    const plan = await client.planBatchDistribution({
+      pairs: [
+        { splitAddress: ROOT_SPLIT, token: TOKEN },
+        { splitAddress: CHILD_SPLIT, token: TOKEN },
+      ],
+      distributorAddress: DISTRIBUTOR,
+      gasLimit: BigInt(300_000),
+    })
+    const progress = await client.executeBatchDistribution({
+      plan,
+      fromBatch: 1,
+      onProgress,
+    })
+
+    expect(plan.batches).toHaveLength(2)
+    expect(mockSubmit).toHaveBeenCalledTimes(1)
+    expect(mockSubmit.mock.calls[0][0].calls[0].address).toEqual(CHILD_SPLIT)
+    expect(progress).toEqual({
+      totalBatches: 2,
+      completedBatches: 2,
+      txHashes: ['0xhash'],
+    })
+    expect(onProgress).toHaveBeenCalledWith(progress)
+  })
+
+  test('Failures carry the batches already sent', async () => {
+    const revert = new Error('reverted')
+    jest
+      .spyOn(client, '_submitMulticallTransaction')
+      .mockImplementation(async ({ calls }) => {
+        return {
+          txHash: `0x${calls[0].address.slice(2, 4)}` as Hash,
+          simulatedResults: [],
+        }
+      })
+    jest
+      .spyOn(client, 'getTransactionEvents')
+      .mockImplementation(async ({ txHash }) => {
+        if (txHash === '0x30') throw revert
+        return []
+      })
+
+    const plan = await client.planBatchDistribution({
+      pairs: [
+        { splitAddress: ROOT_SPLIT, token: TOKEN },
+        { splitAddress: CHILD_SPLIT, token: TOKEN },
+      ],
+      distributorAddress: DISTRIBUTOR,
+      gasLimit: BigInt(300_000),
+    })
+    const error = await client
+      .executeBatchDistribution({ plan })
+      .catch((e) => e)
+
+    expect(error).toBeInstanceOf(BatchDistributionFailedError)
+    expect(error.progress).toEqual({
+      totalBatches: 2,
+      completedBatches: 1,
+      txHashes: ['0x10'],
+    })
+    expect(error.failedTxHash).toEqual('0x30')
+    expect(error.cause).toBe(revert)
+  })
+})
+
+describe('Distribution profitability', () => {
+  const createProfitClient = (chain: Chain = mainnet) => {
+    const publicClient = {
+      chain,
+      getBlock: jest.fn(async () => {
+        return { baseFeePerGas: BigInt(8) }
+      }),
+      estimateMaxPriorityFeePerGas: jest.fn(async () => BigInt(2)),
+      // The OP stack fee oracle
+      readContract: jest.fn(async () => BigInt(1_000_000)),
+    } as unknown as PublicClient<Transport, Chain>
+    const client = new DistributionClient({ chainId: chain.id, publicClient })
+    jest
+      .spyOn(client['_splitV2'].estimateGas, 'distribute')
+      .mockImplementation(async () => BigInt(221_000))
+
+    return { client, publicClient }
+  }
+  const client = createProfitClient().client
+
+  const mockRootSplit = () => {
+    mockGetSplitV2Metadata.mockImplementationOnce(async () => {
+      return {
+        split: { ...SPLITS_V2[ROOT_SPLIT], distributorFeePercent: 1 },
+        blockRange: BigInt(1),
+      }
+    })
+    mockGetSplitV2ActiveBalances.mockImplementationOnce(async () => {
+      return {
+        activeBalances: {
+          [TOKEN]: {
+            symbol: 'TKN',
+            decimals: 18,
+            rawAmount: BigInt(1_000_000_000),
+            formattedAmount: '0.000000001',
+          },
+        },
+      }
+    })
+  }
+  const priceSource = async ({ amount }: { amount: bigint }) => {
+    return amount / BigInt(2)
+  }
+
+  test('Nets the distributor fee against the gas cost', async () => {
+    mockRootSplit()
+    const tokenPriceSource = jest.fn(priceSource)
+
+    const estimate = await client.estimateDistributionProfit({
+      splitAddress: ROOT_SPLIT,
+      token: TOKEN,
+      distributorAddress: DISTRIBUTOR,
+      priceSource: tokenPriceSource,
+    })
+
+    expect(tokenPriceSource).toHaveBeenCalledWith({
+      chainId: 1,
+      token: TOKEN,
+      amount: BigInt(10_000_000),
+    })
+    expect(estimate).toEqual({
+      splitAddress: ROOT_SPLIT,
+      token: TOKEN,
+      balance: BigInt(1_000_000_000),
+      distributorFeePercent: 1,
+      reward: BigInt(10_000_000),
+      nativeReward: BigInt(5_000_000),
+      gasEstimate: BigInt(221_000),
+      gasPrice: BigInt(10),
+      l1Fee: BigInt(0),
+      gasCost: BigInt(2_210_000),
+      netProfit: BigInt(2_790_000),
+    })
+  })
+
+  test('Adds the L1 data fee on OP stack chains', async () => {
+    const { client: opClient, publicClient } = createProfitClient(optimism)
+    mockRootSplit()
+
+    const estimate = await opClient.estimateDistributionProfit({
+      splitAddress: ROOT_SPLIT,
+      token: TOKEN,
+      distributorAddress: DISTRIBUTOR,
+      priceSource,
+    })
+
+    expect(estimate.l1Fee).toEqual(BigInt(1_000_000))
+    expect(estimate.gasCost).toEqual(BigInt(3_210_000))
+    expect(estimate.netProfit).toEqual(BigInt(1_790_000))
+    expect(publicClient.readContract).toHaveBeenCalledWith(
+      expect.objectContaining({
+        address: optimism.contracts.gasPriceOracle.address,
+        functionName: 'getL1Fee',
+      }),
+    )
+  })
+
+  test('Needs a price source for erc20s', async () => {
+    await expect(
+      client.estimateDistributionProfit({
+        splitAddress: ROOT_SPLIT,
+        token: TOKEN,
+      }),
+    ).rejects.toThrow(InvalidArgumentError)
+  })
+})
@@ -0,0 +1,674 @@
+import { Address, Hash, getAddress, zeroAddress } from 'viem'
+
+import { BaseClientMixin, BaseTransactions } from './base'
+import { ALL_CHAIN_IDS, PERCENTAGE_SCALE, TransactionType } from '../constants'
+import { erc20Abi } from '../constants/abi/erc20'
+import {
+  AccountNotFoundError,
+  BatchDistributionFailedError,
+  InvalidArgumentError,
+} from '../errors'
+import { applyMixins } from './mixin'
+import { SplitV1Client } from './splitV1'
+import { SplitV2Client } from './splitV2'
+import { WarehouseClient } from './warehouse'
+import { WaterfallClient } from './waterfall'
+import type {
+  BatchDistributionPlan,
+  BatchDistributionProgress,
+  CallData,
+  DistributionBatch,
+  DistributionNode,
+  DistributionNodeType,
+  DistributionPlan,
+  DistributionProfitEstimate,
+  DistributionStep,
+  EstimateDistributionProfitConfig,
+  ExecuteBatchDistributionConfig,
+  ExecuteDistributionConfig,
+  PlanBatchDistributionConfig,
+  PlanDistributionConfig,
+  Split,
+  SplitsClientConfig,
+  SplitsContract,
+} from '../types'
+import { getBigIntFromPercent } from '../utils'
+import { getGasPrice, getL1Fee } from '../utils/gas'
+import { validateAddress } from '../utils/validation'
+
+const DISTRIBUTABLE_NODE_TYPES: DistributionNodeType[] = [
+  'SplitV1',
+  'SplitV2',
+  'WaterfallModule',
+]
+
+export const DEFAULT_BATCH_GAS_LIMIT = BigInt(15_000_000)
+// Each estimate pays for its own transaction, while a batch only pays for one
+// plus the multicall's overhead for every call it makes
+export const TRANSACTION_BASE_GAS = BigInt(21_000)
+export const MULTICALL_CALL_GAS = BigInt(10_000)
+
+type DistributionNodeData = {
+  node: DistributionNode
+  split?: Split
+  waterfallToken?: Address
+}
+
+const getNodeFromAccount = (
+  address: Address,
+  account?: SplitsContract,
+): DistributionNodeData => {
+  if (!account) return { node: { address, type: 'Account', children: [] } }
+
+  if (account.type === 'Split' || account.type === 'SplitV2')
+    return {
+      node: {
+        address,
+        type: account.type === 'Split' ? 'SplitV1' : 'SplitV2',
+        children: account.recipients.map(({ recipient }) => recipient.address),
+      },
+      split: account,
+    }
+  if (account.type === 'WaterfallModule')
+    return {
+      node: {
+        address,
+        type: 'WaterfallModule',
+        children: account.tranches.map(({ recipient }) => recipient.address),
+      },
+      waterfallToken: getAddress(account.token.address),
+    }
+
+  return { node: { address, type: account.type, children: [] } }
+}
+
+// eslint-disable-next-line @typescript-eslint/no-unsafe-declaration-merging
+export class DistributionClient extends BaseTransactions {
+  private readonly _splitV1: SplitV1Client
+  private readonly _splitV2: SplitV2Client
+  private readonly _waterfall: WaterfallClient
+  private readonly _warehouse: WarehouseClient
+
+  constructor(clientArgs: SplitsClientConfig) {
+    super({
+      transactionType: TransactionType.Transaction,
+      supportedChainIds: ALL_CHAIN_IDS,
+      ...clientArgs,
+    })
+
+    this._splitV1 = new SplitV1Client(clientArgs)
+    this._splitV2 = new SplitV2Client(clientArgs)
+    this._waterfall = new WaterfallClient(clientArgs)
+    this._warehouse = new WarehouseClient(clientArgs)
+  }
+
+  // Walks everything the root pays out to and orders the distributions so
+  // each contract is distributed after everything upstream of it. Contracts
+  // are only distributed for tokens they hold, or will receive from upstream.
+  async planDistribution({
+    rootAddress,
+    tokens,
+    chainId,
+    distributorAddress,
+  }: PlanDistributionConfig): Promise<DistributionPlan> {
+    validateAddress(rootAddress)
+    tokens.map((token) => validateAddress(token))
+    const functionChainId = this._getReadOnlyFunctionChainId(
+      chainId ?? this._walletClient?.chain?.id,
+    )
+    const formattedTokens = tokens.map((token) => getAddress(token))
+
+    const nodes: { [address: Address]: DistributionNodeData } = {}
+    const cycles: Address[][] = []
+    const cycleEdges = new Set<string>()
+    const postOrder: Address[] = []
+
+    const walk = async (address: Address, path: Address[]): Promise<void> => {
+      if (path.includes(address)) {
+        cycles.push([...path.slice(path.indexOf(address)), address])
+        cycleEdges.add(`${path[path.length - 1]}:${address}`)
+        return
+      }
+      if (nodes[address]) return
+
+      nodes[address] = await this._getDistributionNode(address, functionChainId)
+      await nodes[address].node.children.reduce(async (previous, child) => {
+        await previous
+        await walk(getAddress(child), [...path, address])
+      }, Promise.resolve())
+      postOrder.push(address)
+    }
+    await walk(getAddress(rootAddress), [])
+
+    // Reverse post order puts every contract after the ones paying it, once
+    // the edges closing cycles are ignored
+    const order = postOrder
+      .reverse()
+      .filter((address) =>
+        DISTRIBUTABLE_NODE_TYPES.includes(nodes[address].node.type),
+      )
+    const balances = await this._getTokensWithBalance(
+      order.map((address) => nodes[address]),
+      formattedTokens,
+      functionChainId,
+    )
+
+    const incoming: { [address: Address]: Address[] } = {}
+    // Withdraws wait until the contract's turn comes up, so every parent
+    // paying into the same balance has been distributed first
+    const withdrawals: { [address: Address]: DistributionStep[] } = {}
+    const withdrawalKeys = new Set<string>()
+    const steps: DistributionStep[] = []
+    order.forEach((address, index) => {
+      const { node, split, waterfallToken } = nodes[address]
+      steps.push(...(withdrawals[address] ?? []))
+      const children = node.children
+        .map((child) => getAddress(child))
+        .filter((child) => !cycleEdges.has(`${address}:${child}`))
+
+      formattedTokens
+        .filter(
+          (token) =>
+            (!waterfallToken || waterfallToken === token) &&
+            (balances[index].includes(token) ||
+              incoming[address]?.includes(token)),
+        )
+        .forEach((token) => {
+          steps.push(
+            this._getDistributeStep({
+              nodeData: nodes[address],
+              token,
+              chainId: functionChainId,
+              distributorAddress,
+            }),
+          )
+
+          children.forEach((child) => {
+            incoming[child] = [...(incoming[child] ?? []), token]
+
+            // Split V1 and pull split V2 payouts are balances held for the
+            // recipient, which only other splits of the same kind read from
+            const childType = nodes[child].node.type
+            const withdrawal = `${node.type}:${child}:${token}`
+            if (
+              !DISTRIBUTABLE_NODE_TYPES.includes(childType) ||
+              withdrawalKeys.has(withdrawal)
+            )
+              return
+            withdrawalKeys.add(withdrawal)
+
+            if (!withdrawals[child]) withdrawals[child] = []
+            if (node.type === 'SplitV1' && childType !== 'SplitV1')
+              withdrawals[child].push({
+                type: 'withdrawSplitV1',
+                config: {
+                  address: child,
+                  tokens: [token],
+                  chainId: functionChainId,
+                },
+              })
+            if (
+              node.type === 'SplitV2' &&
+              split?.distributeDirection === 'pull' &&
+              childType !== 'SplitV2'
+            )
+              withdrawals[child].push({
+                type: 'withdrawWarehouse',
+                config: {
+                  ownerAddress: child,
+                  tokenAddress: token,
+                  chainId: functionChainId,
+                },
+              })
+          })
+        })
+    })
+
+    return {
+      rootAddress: getAddress(rootAddress),
+      chainId: functionChainId,
+      nodes: Object.fromEntries(
+        Object.entries(nodes).map(([address, { node }]) => [address, node]),
+      ),
+      cycles,
+      steps,
+    }
+  }
+
+  // Every step as call data, in order. The warehouse pays a withdraw's
+  // incentive to whoever sends it, so withdrawWarehouse steps should be sent
+  // straight from the account meant to earn it.
+  async getDistributionCallData(plan: DistributionPlan): Promise<CallData[]> {
+    return await this._getStepsCallData(plan.steps)
+  }
+
+  // Submits the plan as multicalls, or one transaction per step, waiting for
+  // each one to be mined before moving on to the next. Warehouse withdraws
+  // are always sent on their own so the wallet, not the multicall contract,
+  // earns their incentive.
+  async executeDistribution({
+    plan,
+    useMulticall = true,
+  }: ExecuteDistributionConfig): Promise<{ txHashes: Hash[] }> {
+    if (plan.steps.length === 0) return { txHashes: [] }
+
+    const groups = plan.steps.reduce((acc, step) => {
+      const group = acc[acc.length - 1]
+      if (
+        useMulticall &&
+        group &&
+        step.type !== 'withdrawWarehouse' &&
+        group[0].type !== 'withdrawWarehouse'
+      )
+        group.push(step)
+      else acc.push([step])
+
+      return acc
+    }, [] as DistributionStep[][])
+
+    const txHashes = await groups.reduce(
+      async (previous, steps) => {
+        const hashes = await previous
+        const { txHash } =
+          useMulticall && steps[0].type !== 'withdrawWarehouse'
+            ? await this._submitMulticallTransaction({
+                calls: await this._getStepsCallData(steps),
+                chainId: plan.chainId,
+              })
+            : await this._submitDistributionStep(steps[0])
+        await this._waitForStep(txHash, plan.chainId)
+
+        return [...hashes, txHash]
+      },
+      Promise.resolve([] as Hash[]),
+    )
+
+    return { txHashes }
+  }
+
+  // Packs distributions of many (split, token) pairs into multicalls that each
+  // stay under the gas limit, keeping the order the pairs were passed in. A
+  // distribution that goes over the limit on its own gets a batch to itself.
+  async planBatchDistribution({
+    pairs,
+    chainId,
+    distributorAddress,
+    gasLimit = DEFAULT_BATCH_GAS_LIMIT,
+  }: PlanBatchDistributionConfig): Promise<BatchDistributionPlan> {
+    pairs.map(({ splitAddress, token }) => {
+      validateAddress(splitAddress)
+      validateAddress(token)
+    })
+    const functionChainId = this._getReadOnlyFunctionChainId(
+      chainId ?? this._walletClient?.chain?.id,
+    )
+
+    const splitAddresses = Array.from(
+      new Set(pairs.map(({ splitAddress }) => getAddress(splitAddress))),
+    )
+    const nodes: { [address: Address]: DistributionNodeData } =
+      Object.fromEntries(
+        await Promise.all(
+          splitAddresses.map(async (address) => [
+            address,
+            await this._getDistributionNode(address, functionChainId),
+          ]),
+        ),
+      )
+
+    const steps = pairs.map(({ splitAddress, token }) => {
+      const nodeData = nodes[getAddress(splitAddress)]
+      if (nodeData.node.type !== 'SplitV1' && nodeData.node.type !== 'SplitV2')
+        throw new InvalidArgumentError(
+          `${splitAddress} is not a split V1 or V2 on chain ${functionChainId}`,
+        )
+
+      return this._getDistributeStep({
+        nodeData,
+        token: getAddress(token),
+        chainId: functionChainId,
+        distributorAddress,
+      })
+    })
+    const gasEstimates = await Promise.all(
+      steps.map((step) => this._estimateStepGas(step)),
+    )
+
+    const batches = steps.reduce((acc, step, index) => {
+      const callGas =
+        gasEstimates[index] - TRANSACTION_BASE_GAS + MULTICALL_CALL_GAS
+      const batch = acc[acc.length - 1]
+      if (batch && batch.gasEstimate + callGas <= gasLimit) {
+        batch.steps.push(step)
+        batch.gasEstimate += callGas
+      } else {
+        acc.push({ steps: [step], gasEstimate: TRANSACTION_BASE_GAS + callGas })
+      }
+
+      return acc
+    }, [] as DistributionBatch[])
+
+    return { chainId: functionChainId, gasLimit, batches }
+  }
+
+  // Submits the batches one at a time, waiting for each one to be mined
+  // before moving on to the next. Progress is reported after every batch so
+  // a failed run can be picked up again with fromBatch.
+  async executeBatchDistribution({
+    plan,
+    fromBatch = 0,
+    onProgress,
+  }: ExecuteBatchDistributionConfig): Promise<BatchDistributionProgress> {
+    if (fromBatch < 0 || fromBatch > plan.batches.length)
+      throw new InvalidArgumentError(
+        `Invalid fromBatch: ${fromBatch}, plan has ${plan.batches.length} batches`,
+      )
+
+    return await plan.batches.slice(fromBatch).reduce(
+      async (previous, batch) => {
+        const progress = await previous
+        const { txHash } = await this._getStepsCallData(batch.steps)
+          .then((calls) =>
+            this._submitMulticallTransaction({
+              calls,
+              chainId: plan.chainId,
+            }),
+          )
+          .catch((error) => {
+            throw new BatchDistributionFailedError({ progress, cause: error })
+          })
+        await this._waitForStep(txHash, plan.chainId).catch((error) => {
+          throw new BatchDistributionFailedError({
+            progress,
+            failedTxHash: txHash,
+            cause: error,
+          })
+        })
+
+        const updatedProgress = {
+          totalBatches: progress.totalBatches,
+          completedBatches: progress.completedBatches + 1,
+          txHashes: [...progress.txHashes, txHash],
+        }
+        onProgress?.(updatedProgress)
+
+        return updatedProgress
+      },
+      Promise.resolve({
+        totalBatches: plan.batches.length,
+        completedBatches: fromBatch,
+        txHashes: [],
+      } as BatchDistributionProgress),
+    )
+  }
+
+  // Whether distributing a split's balance of a token pays for itself: the
+  // distributor fee on the active balance, against the gas to distribute it at
+  // the current gas price plus the L1 data fee on OP stack chains
+  async estimateDistributionProfit({
+    splitAddress,
+    token,
+    chainId,
+    distributorAddress,
+    priceSource,
+  }: EstimateDistributionProfitConfig): Promise<DistributionProfitEstimate> {
+    validateAddress(splitAddress)
+    validateAddress(token)
+    const functionChainId = this._getReadOnlyFunctionChainId(
+      chainId ?? this._walletClient?.chain?.id,
+    )
+    const formattedSplitAddress = getAddress(splitAddress)
+    const formattedToken = getAddress(token)
+    if (formattedToken !== zeroAddress && !priceSource)
+      throw new InvalidArgumentError(
+        'A price source is required to value erc20 distributor fees in the native currency',
+      )
+
+    const nodeData = await this._getDistributionNode(
+      formattedSplitAddress,
+      functionChainId,
+    )
+    if (nodeData.node.type !== 'SplitV1' && nodeData.node.type !== 'SplitV2')
+      throw new InvalidArgumentError(
+        `${splitAddress} is not a split V1 or V2 on chain ${functionChainId}`,
+      )
+
+    const splitClient =
+      nodeData.node.type === 'SplitV1' ? this._splitV1 : this._splitV2
+    const publicClient = this._getPublicClient(functionChainId)
+    const distributeStep = this._getDistributeStep({
+      nodeData,
+      token: formattedToken,
+      chainId: functionChainId,
+      distributorAddress,
+    })
+    const [{ activeBalances }, gasEstimate, gasPrice, [callData]] =
+      await Promise.all([
+        splitClient.getSplitActiveBalances({
+          splitAddress: formattedSplitAddress,
+          chainId: functionChainId,
+          erc20TokenList:
+            formattedToken === zeroAddress ? [] : [formattedToken],
+        }),
+        this._estimateStepGas(distributeStep),
+        getGasPrice(publicClient),
+        this._getStepsCallData([distributeStep]),
+      ])
+    const l1Fee = await getL1Fee({
+      publicClient,
+      chainId: functionChainId,
+      to: callData.address as Address,
+      data: callData.data,
+      gasEstimate,
+      gasPrice,
+    })
+
+    const balance = activeBalances?.[formattedToken]?.rawAmount ?? BigInt(0)
+    const distributorFeePercent = nodeData.split!.distributorFeePercent
+    const reward =
+      (balance * getBigIntFromPercent(distributorFeePercent)) / PERCENTAGE_SCALE
+    const nativeReward =
+      formattedToken === zeroAddress
+        ? reward
+        : await priceSource!({
+            chainId: functionChainId,
+            token: formattedToken,
+            amount: reward,
+          })
+    const gasCost = gasEstimate * gasPrice + l1Fee
+
+    return {
+      splitAddress: formattedSplitAddress,
+      token: formattedToken,
+      balance,
+      distributorFeePercent,
+      reward,
+      nativeReward,
+      gasEstimate,
+      gasPrice,
+      l1Fee,
+      gasCost,
+      netProfit: nativeReward - gasCost,
+    }
+  }
+
+  private async _getStepsCallData(
+    steps: DistributionStep[],
+  ): Promise<CallData[]> {
+    return await Promise.all(
+      steps.map((step) => {
+        if (step.type === 'distributeSplitV1')
+          return this._splitV1.callData.distributeToken(step.config)
+        if (step.type === 'distributeSplitV2')
+          return this._splitV2.callData.distribute(step.config)
+        if (step.type === 'waterfallFunds')
+          return this._waterfall.callData.waterfallFunds(step.config)
+        if (step.type === 'withdrawSplitV1')
+          return this._splitV1.callData.withdrawFunds(step.config)
+
+        return this._warehouse.callData.withdraw(step.config)
+      }),
+    )
+  }
+
+  private async _estimateStepGas(step: DistributionStep): Promise<bigint> {
+    if (step.type === 'distributeSplitV1')
+      return await this._splitV1.estimateGas.distributeToken(step.config)
+    if (step.type === 'distributeSplitV2')
+      return await this._splitV2.estimateGas.distribute(step.config)
+    if (step.type === 'waterfallFunds')
+      return await this._waterfall.estimateGas.waterfallFunds(step.config)
+    if (step.type === 'withdrawSplitV1')
+      return await this._splitV1.estimateGas.withdrawFunds(step.config)
+
+    return await this._warehouse.estimateGas.withdraw(step.config)
+  }
+
+  private async _getDistributionNode(
+    address: Address,
+    chainId: number,
+  ): Promise<DistributionNodeData> {
+    if (this._dataClient) {
+      const account = await this._dataClient
+        .getAccountMetadata({ chainId, accountAddress: address })
+        .catch((error) => {
+          if (error instanceof AccountNotFoundError) return undefined
+          throw error
+        })
+      return getNodeFromAccount(address, account)
+    }
+
+    if (
+      this._splitV2._supportedChainIds.includes(chainId) &&
+      (await this._splitV2._doesSplitExist({ splitAddress: address, chainId }))
+    ) {
+      const { split } = await this._splitV2.getSplitMetadataViaProvider({
+        splitAddress: address,
+        chainId,
+      })
+      return getNodeFromAccount(address, split)
+    }
+    if (
+      this._splitV1._supportedChainIds.includes(chainId) &&
+      (await this._splitV1._doesSplitExist({ splitAddress: address, chainId }))
+    ) {
+      const { split } = await this._splitV1.getSplitMetadataViaProvider({
+        splitAddress: address,
+        chainId,
+      })
+      return getNodeFromAccount(address, split)
+    }
+
+    return getNodeFromAccount(address)
+  }
+
+  private async _getTokensWithBalance(
+    nodes: DistributionNodeData[],
+    tokens: Address[],
+    chainId: number,
+  ): Promise<Address[][]> {
+    const erc20TokenList = tokens.filter((token) => token !== zeroAddress)
+    const publicClient = this._getPublicClient(chainId)
+
+    return await Promise.all(
+      nodes.map(async ({ node, waterfallToken }) => {
+        if (waterfallToken) {
+          if (!tokens.includes(waterfallToken)) return []
+
+          const balance =
+            waterfallToken === zeroAddress
+              ? await publicClient.getBalance({ address: node.address })
+              : await publicClient.readContract({
+                  address: waterfallToken,
+                  abi: erc20Abi,
+                  functionName: 'balanceOf',
+                  args: [node.address],
+                })
+          return balance > BigInt(0) ? [waterfallToken] : []
+        }
+
+        const splitClient =
+          node.type === 'SplitV1' ? this._splitV1 : this._splitV2
+        const { activeBalances } = await splitClient.getSplitActiveBalances({
+          splitAddress: node.address,
+          chainId,
+          erc20TokenList,
+        })
+        return tokens.filter((token) => activeBalances?.[token])
+      }),
+    )
+  }
+
+  private _getDistributeStep({
+    nodeData: { node, split },
+    token,
+    chainId,
+    distributorAddress,
+  }: {
+    nodeData: DistributionNodeData
+    token: Address
+    chainId: number
+    distributorAddress?: Address
+  }): DistributionStep {
+    if (node.type === 'WaterfallModule')
+      return {
+        type: 'waterfallFunds',
+        config: { waterfallModuleAddress: node.address, chainId },
+      }
+
+    const splitFields = {
+      recipients: split!.recipients,
+      distributorFeePercent: split!.distributorFeePercent,
+    }
+    if (node.type === 'SplitV1')
+      return {
+        type: 'distributeSplitV1',
+        config: {
+          splitAddress: node.address,
+          token,
+          distributorAddress,
+          splitFields,
+          chainId,
+        },
+      }
+
+    return {
+      type: 'distributeSplitV2',
+      config: {
+        splitAddress: node.address,
+        tokenAddress: token,
+        distributorAddress,
+        splitFields,
+        chainId,
+      },
+    }
+  }
+
+  private async _submitDistributionStep(
+    step: DistributionStep,
+  ): Promise<{ txHash: Hash }> {
+    if (step.type === 'distributeSplitV1')
+      return await this._splitV1._submitDistributeTokenTransaction(step.config)
+    if (step.type === 'distributeSplitV2')
+      return await this._splitV2._submitDistributeTransaction(step.config)
+    if (step.type === 'waterfallFunds')
+      return await this._waterfall._submitWaterfallFundsTransaction(step.config)
+    if (step.type === 'withdrawSplitV1')
+      return await this._splitV1._submitWithdrawFundsTransaction(step.config)
+
+    return await this._warehouse._submitWithdrawTransaction(step.config)
+  }
+
+  private async _waitForStep(txHash: Hash, chainId: number) {
+    await this.getTransactionEvents({
+      txHash,
+      chainId,
+      eventTopics: [],
+      includeAll: true,
+    })
+  }
+}
+
+// eslint-disable-next-line @typescript-eslint/no-unsafe-declaration-merging
+export interface DistributionClient extends BaseClientMixin {}
+applyMixins(DistributionClient, [BaseClientMixin])
@@ -0,0 +1,275 @@
+import {
+  Address,
+  Chain,
+  Hash,
+  PublicClient,
+  Transport,
+  getAddress,
+  zeroAddress,
+} from 'viem'
+
+import { SplitV1Client } from './splitV1'
+import { SplitV2Client } from './splitV2'
+import {
+  InvalidArgumentError,
+  InvalidConfigError,
+  SaltRequired,
+} from '../errors'
+
+const SPLIT_ADDRESS: Address = '0x047ED5b8E8a7eDBd92FD5B6C2B5F5a3fC8DdfB3b'
+const CONTROLLER: Address = '0xD57f3Fa0b49E91eaA20e739c874Ae273Bcf2D7Aa'
+const RECIPIENTS = [
+  {
+    address: '0x1111111111111111111111111111111111111111',
+    percentAllocation: 60,
+  },
+  {
+    address: '0x2222222222222222222222222222222222222222',
+    percentAllocation: 40,
+  },
+]
+const SALT =
+  '0x0000000000000000000000000000000000000000000000000000000000000001'
+
+const clientArgs = {
+  chainId: 1,
+  publicClient: {
+    chain: { id: 1 },
+  } as unknown as PublicClient<Transport, Chain>,
+}
+
+describe('Ensure split V1', () => {
+  const client = new SplitV1Client(clientArgs)
+  const mockPredict = jest.spyOn(client, 'predictImmutableSplitAddress')
+  const mockSubmit = jest.spyOn(client, '_submitCreateSplitTransaction')
+  jest.spyOn(client, 'getTransactionEvents').mockImplementation(async () => [])
+
+  beforeEach(() => {
+    mockPredict.mockReset()
+    mockSubmit.mockReset()
+    mockSubmit.mockImplementation(async () => {
+      return { txHash: '0xhash' as Hash }
+    })
+  })
+
+  test('Skips deployed splits', async () => {
+    mockPredict.mockImplementation(async () => {
+      return { splitAddress: SPLIT_ADDRESS, splitExists: true }
+    })
+
+    const result = await client.ensureSplit({
+      recipients: RECIPIENTS,
+      distributorFeePercent: 1,
+    })
+
+    expect(result).toEqual({ address: SPLIT_ADDRESS, created: false })
+    expect(mockSubmit).not.toHaveBeenCalled()
+  })
+
+  test('Creates missing splits', async () => {
+    mockPredict.mockImplementation(async () => {
+      return { splitAddress: SPLIT_ADDRESS, splitExists: false }
+    })
+
+    const result = await client.ensureSplit({
+      recipients: RECIPIENTS,
+      distributorFeePercent: 1,
+    })
+
+    expect(result).toEqual({
+      address: SPLIT_ADDRESS,
+      created: true,
+      txHash: '0xhash',
+    })
+  })
+
+  test('Treats losing a create race as deployed', async () => {
+    mockPredict
+      .mockImplementationOnce(async () => {
+        return { splitAddress: SPLIT_ADDRESS, splitExists: false }
+      })
+      .mockImplementationOnce(async () => {
+        return { splitAddress: SPLIT_ADDRESS, splitExists: true }
+      })
+    mockSubmit.mockImplementationOnce(async () => {
+      throw new Error('execution reverted')
+    })
+
+    const result = await client.ensureSplit({
+      recipients: RECIPIENTS,
+      distributorFeePercent: 1,
+    })
+
+    expect(result).toEqual({ address: SPLIT_ADDRESS, created: false })
+  })
+
+  test('Rethrows failures when the split still is not deployed', async () => {
+    mockPredict.mockImplementation(async () => {
+      return { splitAddress: SPLIT_ADDRESS, splitExists: false }
+    })
+    mockSubmit.mockImplementationOnce(async () => {
+      throw new Error('insufficient funds')
+    })
+
+    await expect(
+      client.ensureSplit({ recipients: RECIPIENTS, distributorFeePercent: 1 }),
+    ).rejects.toThrow('insufficient funds')
+  })
+
+  test('Fails for mutable splits', async () => {
+    await expect(
+      client.ensureSplit({
+        recipients: RECIPIENTS,
+        distributorFeePercent: 1,
+        controller: CONTROLLER,
+      }),
+    ).rejects.toThrow(InvalidArgumentError)
+  })
+})
+
+describe('Ensure split V2', () => {
+  const client = new SplitV2Client(clientArgs)
+  const mockIsDeployed = jest.spyOn(client, 'isDeployed')
+  const mockSubmit = jest.spyOn(client, '_submitCreateSplitTransaction')
+  jest.spyOn(client, 'getTransactionEvents').mockImplementation(async () => [])
+
+  beforeEach(() => {
+    mockIsDeployed.mockReset()
+    mockSubmit.mockReset()
+    mockSubmit.mockImplementation(async () => {
+      return { txHash: '0xhash' as Hash }
+    })
+  })
+
+  test('Creates missing splits', async () => {
+    mockIsDeployed.mockImplementation(async () => {
+      return { splitAddress: SPLIT_ADDRESS, deployed: false }
+    })
+
+    const result = await client.ensureSplit({
+      recipients: RECIPIENTS,
+      distributorFeePercent: 1,
+      ownerAddress: zeroAddress,
+      salt: SALT,
+    })
+
+    expect(result).toEqual({
+      address: SPLIT_ADDRESS,
+      created: true,
+      txHash: '0xhash',
+    })
+  })
+
+  test('Treats losing a create race as deployed', async () => {
+    mockIsDeployed
+      .mockImplementationOnce(async () => {
+        return { splitAddress: SPLIT_ADDRESS, deployed: false }
+      })
+      .mockImplementationOnce(async () => {
+        return { splitAddress: SPLIT_ADDRESS, deployed: true }
+      })
+    mockSubmit.mockImplementationOnce(async () => {
+      throw new Error('execution reverted')
+    })
+
+    const result = await client.ensureSplit({
+      recipients: RECIPIENTS,
+      distributorFeePercent: 1,
+      salt: SALT,
+    })
+
+    expect(result).toEqual({ address: SPLIT_ADDRESS, created: false })
+  })
+
+  test('Needs a salt', async () => {
+    await expect(
+      client.ensureSplit({ recipients: RECIPIENTS, distributorFeePercent: 1 }),
+    ).rejects.toThrow(SaltRequired)
+  })
+})
+
+describe('Create split on chains', () => {
+  const client = new SplitV2Client(clientArgs)
+  const mockPredict = jest.spyOn(client, 'predictDeterministicAddress')
+  const mockIsDeployed = jest.spyOn(client, 'isDeployed')
+  const mockSubmit = jest.spyOn(client, '_submitCreateSplitTransaction')
+  jest.spyOn(client, 'getTransactionEvents').mockImplementation(async () => [])
+  const createSplitArgs = {
+    recipients: RECIPIENTS,
+    distributorFeePercent: 1,
+    salt: SALT as Hash,
+  }
+
+  beforeEach(() => {
+    mockPredict.mockReset()
+    mockPredict.mockImplementation(async () => {
+      return { splitAddress: SPLIT_ADDRESS }
+    })
+    mockIsDeployed.mockReset()
+    mockIsDeployed.mockImplementation(async ({ chainId }) => {
+      return { splitAddress: SPLIT_ADDRESS, deployed: chainId === 10 }
+    })
+    mockSubmit.mockReset()
+    mockSubmit.mockImplementation(async () => {
+      return { txHash: '0xhash' as Hash }
+    })
+  })
+
+  test('Deploys where missing and keeps going past failures', async () => {
+    mockSubmit.mockImplementationOnce(async () => {
+      throw new Error('insufficient funds')
+    })
+
+    const result = await client.createSplitOnChains(
+      createSplitArgs,
+      [1, 10, 8453],
+    )
+
+    expect(result.splitAddress).toEqual(getAddress(SPLIT_ADDRESS))
+    expect(result.chains).toEqual([
+      { chainId: 1, status: 'failed', error: new Error('insufficient funds') },
+      { chainId: 10, status: 'skipped' },
+      { chainId: 8453, status: 'created', txHash: '0xhash' },
+    ])
+    expect(mockSubmit).toHaveBeenLastCalledWith({
+      ...createSplitArgs,
+      chainId: 8453,
+    })
+  })
+
+  test('Reports chains whose address can not be predicted', async () => {
+    mockPredict.mockImplementation(async ({ chainId }) => {
+      if (chainId === 10) throw new Error('missing public client')
+      return { splitAddress: SPLIT_ADDRESS }
+    })
+
+    const result = await client.createSplitOnChains(
+      createSplitArgs,
+      [1, 10, 1, 8453],
+    )
+
+    expect(result.chains).toEqual([
+      { chainId: 1, status: 'created', txHash: '0xhash' },
+      {
+        chainId: 10,
+        status: 'failed',
+        error: new Error('missing public client'),
+      },
+      { chainId: 8453, status: 'created', txHash: '0xhash' },
+    ])
+    // Each chain is only predicted and deployed to once
+    expect(mockPredict).toHaveBeenCalledTimes(3)
+    expect(mockSubmit).toHaveBeenCalledTimes(2)
+  })
+
+  test('Sends nothing when the address differs between chains', async () => {
+    mockPredict.mockImplementationOnce(async () => {
+      return { splitAddress: zeroAddress }
+    })
+
+    await expect(
+      client.createSplitOnChains(createSplitArgs, [1, 10]),
+    ).rejects.toThrow(InvalidConfigError)
+    expect(mockSubmit).not.toHaveBeenCalled()
+  })
+})
@@ -6,16 +6,20 @@ import {
   BaseTransactions,
 } from './base'
 import { DataClient } from './data'
+import { DistributionClient } from './distribution'
 import { LiquidSplitClient } from './liquidSplit'
+import { MigrationClient } from './migration'
 import { applyMixins } from './mixin'
 import { OracleClient } from './oracle'
 import { PassThroughWalletClient } from './passThroughWallet'
+import { SafeClient } from './safe'
 import { SplitV1Client } from './splitV1'
 import { SplitV2Client } from './splitV2'
 import { SwapperClient } from './swapper'
 import { TemplatesClient } from './templates'
 import { VestingClient } from './vesting'
 import { WarehouseClient } from './warehouse'
+import { WarehouseKeeperClient } from './warehouseKeeper'
 import { WaterfallClient } from './waterfall'
 
 // eslint-disable-next-line @typescript-eslint/no-unsafe-declaration-merging
@@ -30,8 +34,24 @@ export class SplitsClient extends BaseTransactions {
   readonly splitV1: SplitV1Client
   readonly splitV2: SplitV2Client
   readonly warehouse: WarehouseClient
+  readonly safe: SafeClient
+  readonly migration: MigrationClient
+  readonly distribution: DistributionClient
+  readonly warehouseKeeper: WarehouseKeeperClient
   readonly dataClient: DataClient | undefined
   readonly estimateGas: SplitsClientGasEstimates
+  readonly simulate: {
+    waterfall: WaterfallClient['simulate']
+    liquidSplits: LiquidSplitClient['simulate']
+    passThroughWallet: PassThroughWalletClient['simulate']
+    vesting: VestingClient['simulate']
+    swapper: SwapperClient['simulate']
+    templates: TemplatesClient['simulate']
+    splitV1: SplitV1Client['simulate']
+    splitV2: SplitV2Client['simulate']
+    warehouse: WarehouseClient['simulate']
+    safe: SafeClient['simulate']
+  }
 
   constructor(clientArgs: SplitsClientConfig) {
     super({
@@ -49,6 +69,10 @@ export class SplitsClient extends BaseTransactions {
     this.splitV1 = new SplitV1Client(clientArgs)
     this.splitV2 = new SplitV2Client(clientArgs)
     this.warehouse = new WarehouseClient(clientArgs)
+    this.safe = new SafeClient(clientArgs)
+    this.migration = new MigrationClient(clientArgs)
+    this.distribution = new DistributionClient(clientArgs)
+    this.warehouseKeeper = new WarehouseKeeperClient(clientArgs)
 
     if (clientArgs.apiConfig) {
       this.dataClient = new DataClient({
@@ -57,10 +81,24 @@ export class SplitsClient extends BaseTransactions {
         ensPublicClient: clientArgs.ensPublicClient,
         includeEnsNames: clientArgs.includeEnsNames,
         apiConfig: clientArgs.apiConfig,
+        deployments: clientArgs.deployments,
+        middleware: clientArgs.middleware,
       })
     }
 
     this.estimateGas = new SplitsClientGasEstimates(clientArgs)
+    this.simulate = {
+      waterfall: this.waterfall.simulate,
+      liquidSplits: this.liquidSplits.simulate,
+      passThroughWallet: this.passThroughWallet.simulate,
+      vesting: this.vesting.simulate,
+      swapper: this.swapper.simulate,
+      templates: this.templates.simulate,
+      splitV1: this.splitV1.simulate,
+      splitV2: this.splitV2.simulate,
+      warehouse: this.warehouse.simulate,
+      safe: this.safe.simulate,
+    }
   }
 }
 
@@ -39,6 +39,7 @@ import type {
   TransactionFormat,
   ReadContractArgs,
   SplitsPublicClient,
+  SimulationResult,
 } from '../types'
 import {
   getBigIntFromPercent,
@@ -57,6 +58,7 @@ class LiquidSplitTransactions extends BaseTransactions {
   constructor(transactionClientArgs: SplitsClientConfig & TransactionConfig) {
     super({
       supportedChainIds: LIQUID_SPLIT_CHAIN_IDS,
+      deploymentContracts: ['liquidSplitFactory'],
       ...transactionClientArgs,
     })
   }
@@ -71,12 +73,10 @@ class LiquidSplitTransactions extends BaseTransactions {
     validateSplitRecipients(recipients, LIQUID_SPLITS_MAX_PRECISION_DECIMALS)
     validateDistributorFeePercent(distributorFeePercent)
 
-    if (this._shouldRequireWalletClient) this._requireWalletClient()
+    if (this._shouldRequireWalletClient) this._requireWalletClient(chainId)
     const ownerAddress = owner
       ? owner
-      : this._walletClient?.account
-      ? this._walletClient.account.address
-      : zeroAddress
+      : this._getWalletClient(chainId)?.account?.address ?? zeroAddress
     validateAddress(ownerAddress)
 
     const [accounts, percentAllocations] =
@@ -87,10 +87,14 @@ class LiquidSplitTransactions extends BaseTransactions {
     const functionChainId = this._getFunctionChainId(chainId)
 
     const result = await this._executeContractFunction({
-      contractAddress: getLiquidSplitFactoryAddress(functionChainId),
+      contractAddress: getLiquidSplitFactoryAddress(
+        functionChainId,
+        this._deployments,
+      ),
       contractAbi: liquidSplitFactoryAbi,
       functionName: 'createLiquidSplitClone',
       functionArgs: [accounts, nftAmounts, distributorFee, ownerAddress],
+      chainId: functionChainId,
       transactionOverrides,
     })
 
@@ -106,13 +110,11 @@ class LiquidSplitTransactions extends BaseTransactions {
   }: DistributeLiquidSplitTokenConfig): Promise<TransactionFormat> {
     validateAddress(liquidSplitAddress)
     validateAddress(token)
-    if (this._shouldRequireWalletClient) this._requireWalletClient()
+    if (this._shouldRequireWalletClient) this._requireWalletClient(chainId)
 
     const distributorPayoutAddress = distributorAddress
       ? distributorAddress
-      : this._walletClient?.account
-      ? this._walletClient.account.address
-      : zeroAddress
+      : this._getWalletClient(chainId)?.account?.address ?? zeroAddress
     validateAddress(distributorPayoutAddress)
 
     this._requireDataClient()
@@ -135,6 +137,7 @@ class LiquidSplitTransactions extends BaseTransactions {
       contractAbi: ls1155CloneAbi,
       functionName: 'distributeFunds',
       functionArgs: [token, accounts, distributorPayoutAddress],
+      chainId: functionChainId,
       transactionOverrides,
     })
 
@@ -144,13 +147,15 @@ class LiquidSplitTransactions extends BaseTransactions {
   protected async _transferOwnershipTransaction({
     liquidSplitAddress,
     newOwner,
+    chainId,
     transactionOverrides = {},
   }: TransferLiquidSplitOwnershipConfig): Promise<TransactionFormat> {
     validateAddress(liquidSplitAddress)
     validateAddress(newOwner)
+    let safeAddress: Address | undefined
     if (this._shouldRequireWalletClient) {
-      this._requireWalletClient()
-      await this._requireOwner(liquidSplitAddress)
+      this._requireWalletClient(chainId)
+      safeAddress = await this._requireOwner(liquidSplitAddress, chainId)
     }
 
     const result = await this._executeContractFunction({
@@ -158,27 +163,37 @@ class LiquidSplitTransactions extends BaseTransactions {
       contractAbi: ls1155CloneAbi,
       functionName: 'transferOwnership',
       functionArgs: [newOwner],
+      chainId,
       transactionOverrides,
+      safeAddress,
     })
 
     return result
   }
 
-  private async _requireOwner(liquidSplitAddress: string) {
-    this._requireWalletClient()
+  private async _requireOwner(
+    liquidSplitAddress: string,
+    chainId?: number,
+  ): Promise<Address | undefined> {
+    this._requireWalletClient(chainId)
+    const functionChainId = this._getFunctionChainId(chainId)
 
     const liquidSplitContract = this._getLiquidSplitContract(
       liquidSplitAddress,
-      this._walletClient!.chain!.id,
+      functionChainId,
     )
     const owner = await liquidSplitContract.read.owner()
 
-    const walletAddress = this._walletClient!.account?.address
+    const walletAddress = this._getSenderAddress(chainId)
+
+    if (owner !== walletAddress) {
+      const safeAddress = await this._getSafeOwner(owner, functionChainId)
+      if (safeAddress) return safeAddress
 
-    if (owner !== walletAddress)
       throw new InvalidAuthError(
         `Action only available to the liquid split owner. Liquid split address: ${liquidSplitAddress}, owner: ${owner}, wallet address: ${walletAddress}`,
       )
+    }
   }
 
   protected _getLiquidSplitContract(
@@ -199,6 +214,7 @@ export class LiquidSplitClient extends LiquidSplitTransactions {
   readonly eventTopics: { [key: string]: Hex[] }
   readonly callData: LiquidSplitCallData
   readonly estimateGas: LiquidSplitGasEstimates
+  readonly simulate: LiquidSplitSimulation
 
   constructor(clientArgs: SplitsClientConfig) {
     super({
@@ -237,6 +253,7 @@ export class LiquidSplitClient extends LiquidSplitTransactions {
 
     this.callData = new LiquidSplitCallData(clientArgs)
     this.estimateGas = new LiquidSplitGasEstimates(clientArgs)
+    this.simulate = new LiquidSplitSimulation(clientArgs)
   }
 
   // Write actions
@@ -266,6 +283,8 @@ export class LiquidSplitClient extends LiquidSplitTransactions {
 
     const events = await this.getTransactionEvents({
       txHash,
+      chainId: createLiquidSplitArgs.chainId,
+      tracking: createLiquidSplitArgs.tracking,
       eventTopics: this.eventTopics.createLiquidSplit,
     })
     const event = events.length > 0 ? events[0] : undefined
@@ -312,6 +331,8 @@ export class LiquidSplitClient extends LiquidSplitTransactions {
 
     const events = await this.getTransactionEvents({
       txHash,
+      chainId: distributeTokenArgs.chainId,
+      tracking: distributeTokenArgs.tracking,
       eventTopics: [eventTopic],
     })
     const event = events.length > 0 ? events[0] : undefined
@@ -344,6 +365,8 @@ export class LiquidSplitClient extends LiquidSplitTransactions {
     )
     const events = await this.getTransactionEvents({
       txHash,
+      chainId: transferOwnershipArgs.chainId,
+      tracking: transferOwnershipArgs.tracking,
       eventTopics: this.eventTopics.transferOwnership,
     })
     const event = events.length > 0 ? events[0] : undefined
@@ -540,6 +563,50 @@ class LiquidSplitGasEstimates extends LiquidSplitTransactions {
 interface LiquidSplitGasEstimates extends BaseGasEstimatesMixin {}
 applyMixins(LiquidSplitGasEstimates, [BaseGasEstimatesMixin])
 
+class LiquidSplitSimulation extends LiquidSplitTransactions {
+  constructor(clientArgs: SplitsClientConfig) {
+    super({
+      transactionType: TransactionType.Simulation,
+      ...clientArgs,
+    })
+  }
+
+  async createLiquidSplit(
+    createLiquidSplitArgs: CreateLiquidSplitConfig,
+  ): Promise<SimulationResult> {
+    const simulationResult = await this._createLiquidSplitTransaction(
+      createLiquidSplitArgs,
+    )
+    if (!this._isSimulationResult(simulationResult))
+      throw new Error('Invalid response')
+
+    return simulationResult
+  }
+
+  async distributeToken(
+    distributeTokenArgs: DistributeLiquidSplitTokenConfig,
+  ): Promise<SimulationResult> {
+    const simulationResult =
+      await this._distributeTokenTransaction(distributeTokenArgs)
+    if (!this._isSimulationResult(simulationResult))
+      throw new Error('Invalid response')
+
+    return simulationResult
+  }
+
+  async transferOwnership(
+    transferOwnershipArgs: TransferLiquidSplitOwnershipConfig,
+  ): Promise<SimulationResult> {
+    const simulationResult = await this._transferOwnershipTransaction(
+      transferOwnershipArgs,
+    )
+    if (!this._isSimulationResult(simulationResult))
+      throw new Error('Invalid response')
+
+    return simulationResult
+  }
+}
+
 class LiquidSplitCallData extends LiquidSplitTransactions {
   constructor(clientArgs: SplitsClientConfig) {
     super({
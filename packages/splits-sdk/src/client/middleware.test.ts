@@ -0,0 +1,276 @@
+import {
+  Account,
+  Address,
+  Chain,
+  ContractFunctionRevertedError,
+  PublicClient,
+  Transport,
+  WalletClient,
+  encodeErrorResult,
+} from 'viem'
+
+import { SplitsClient } from './index'
+import { TransactionType, getWarehouseAddress } from '../constants'
+import { getSafeTransaction } from '../utils/safe'
+import { warehouseAbi } from '../constants/abi/warehouse'
+import { swapperAbi } from '../constants/abi/swapper'
+import {
+  InvalidAmountsToBeneficiaryError,
+  MiddlewareVetoError,
+  PausedError,
+} from '../errors'
+import type { SplitsMiddleware } from '../types'
+
+const OWNER: Address = '0xD57f3Fa0b49E91eaA20e739c874Ae273Bcf2D7Aa'
+const TOKEN: Address = '0xE1D4BCd79552d815Eb5A8Fb2479Ad770E15BB17e'
+const SAFE: Address = '0xE9762Fb8D5347474375Ce00628d5a13D8AD45A99'
+
+const mockPublicClient = jest.fn(() => {
+  return {
+    chain: {
+      id: 1,
+    },
+    readContract: jest.fn(async () => [1000, false]),
+    simulateContract: jest.fn(async () => {
+      return { request: { functionName: 'withdraw' } }
+    }),
+  } as unknown as PublicClient<Transport, Chain>
+})
+const mockWalletClient = jest.fn(() => {
+  return {
+    account: {
+      address: OWNER,
+    },
+    chain: {
+      id: 1,
+    },
+    writeContract: jest.fn(async () => '0xhash'),
+    signTypedData: jest.fn(async () => '0xsignature'),
+  } as unknown as WalletClient<Transport, Chain, Account>
+})
+
+describe('Middleware', () => {
+  const createClient = (
+    middleware: SplitsMiddleware[],
+    apiConfig?: { apiKey: string },
+  ) => {
+    const publicClient = new mockPublicClient()
+    const walletClient = new mockWalletClient()
+    const client = new SplitsClient({
+      chainId: 1,
+      publicClient,
+      walletClient,
+      middleware,
+      apiConfig,
+    })
+
+    return { client, publicClient, walletClient }
+  }
+
+  test('Execute hooks see the call and can replace overrides', async () => {
+    const afterExecute = jest.fn()
+    const { client, publicClient } = createClient([
+      {
+        beforeExecute: () => {
+          return { transactionOverrides: { gas: BigInt(100000) } }
+        },
+      },
+      { afterExecute },
+    ])
+
+    await client.warehouse._submitWithdrawTransaction({
+      ownerAddress: OWNER,
+      tokenAddress: TOKEN,
+    })
+
+    expect(publicClient.simulateContract).toHaveBeenCalledWith(
+      expect.objectContaining({ gas: BigInt(100000) }),
+    )
+    expect(afterExecute).toHaveBeenCalledWith(
+      expect.objectContaining({
+        contractAddress: getWarehouseAddress(),
+        functionName: 'withdraw',
+        args: [OWNER, TOKEN],
+        chainId: 1,
+        transactionType: TransactionType.Transaction,
+        transactionOverrides: { gas: BigInt(100000) },
+      }),
+      '0xhash',
+    )
+  })
+
+  test('Execute hooks see the chain the call is for', async () => {
+    const beforeExecute = jest.fn()
+    const { client } = createClient([{ beforeExecute }])
+
+    // The wallet is on mainnet
+    await client.warehouse.callData.withdraw({
+      ownerAddress: OWNER,
+      tokenAddress: TOKEN,
+      chainId: 10,
+    })
+
+    expect(beforeExecute).toHaveBeenCalledWith(
+      expect.objectContaining({
+        functionName: 'withdraw',
+        chainId: 10,
+        transactionType: TransactionType.CallData,
+      }),
+    )
+  })
+
+  test('Returning false vetoes the call', async () => {
+    const { client, publicClient } = createClient([
+      { name: 'policy', beforeExecute: () => false },
+    ])
+
+    await expect(
+      client.warehouse._submitWithdrawTransaction({
+        ownerAddress: OWNER,
+        tokenAddress: TOKEN,
+      }),
+    ).rejects.toThrow(MiddlewareVetoError)
+    expect(publicClient.simulateContract).not.toHaveBeenCalled()
+  })
+
+  test('Errors are reported after decoding', async () => {
+    const onError = jest.fn()
+    const { client, publicClient } = createClient([{ onError }])
+    ;(publicClient.simulateContract as jest.Mock).mockImplementation(
+      async () => {
+        throw new ContractFunctionRevertedError({
+          abi: warehouseAbi,
+          functionName: 'withdraw',
+          data: encodeErrorResult({
+            abi: warehouseAbi,
+            errorName: 'WithdrawalPaused',
+            args: [OWNER],
+          }),
+        })
+      },
+    )
+
+    await expect(
+      client.warehouse._submitWithdrawTransaction({
+        ownerAddress: OWNER,
+        tokenAddress: TOKEN,
+      }),
+    ).rejects.toThrow(PausedError)
+    expect(onError).toHaveBeenCalledWith(
+      expect.objectContaining({ functionName: 'withdraw' }),
+      expect.any(PausedError),
+    )
+  })
+
+  test('Contract reads go through the read hooks', async () => {
+    const beforeRead = jest.fn()
+    const afterRead = jest.fn()
+    const { client } = createClient([{ beforeRead, afterRead }])
+
+    await client.warehouse.getWithdrawConfig({ userAddress: OWNER })
+
+    const context = {
+      contractAddress: getWarehouseAddress(),
+      functionName: 'withdrawConfig',
+      args: [OWNER],
+      chainId: 1,
+    }
+    expect(beforeRead).toHaveBeenCalledWith(context)
+    expect(afterRead).toHaveBeenCalledWith(context, [1000, false])
+  })
+
+  test('Read reverts from other contracts are decoded', async () => {
+    const onError = jest.fn()
+    const { client, publicClient } = createClient([{ onError }])
+    ;(publicClient.readContract as jest.Mock).mockImplementation(
+      async ({ abi, functionName }) => {
+        // Decoded against the abi of the read, like viem does
+        throw new ContractFunctionRevertedError({
+          abi,
+          functionName,
+          data: encodeErrorResult({
+            abi: swapperAbi,
+            errorName: 'Invalid_AmountsToBeneficiary',
+          }),
+        })
+      },
+    )
+
+    await expect(
+      client.warehouse.getWithdrawConfig({ userAddress: OWNER }),
+    ).rejects.toThrow(InvalidAmountsToBeneficiaryError)
+    expect(onError).toHaveBeenCalledWith(
+      expect.objectContaining({ functionName: 'withdrawConfig' }),
+      expect.any(InvalidAmountsToBeneficiaryError),
+    )
+  })
+
+  test('Signatures go through the execute hooks', async () => {
+    const afterExecute = jest.fn()
+    const { client, walletClient } = createClient([{ afterExecute }])
+    const safeTransaction = getSafeTransaction({
+      calls: [{ address: TOKEN, data: '0x' }],
+      nonce: BigInt(0),
+    })
+
+    const signature = await client._signSafeTransaction({
+      safeAddress: SAFE,
+      safeTransaction,
+    })
+
+    expect(signature).toEqual({ signer: OWNER, data: '0xsignature' })
+    expect(afterExecute).toHaveBeenCalledWith(
+      {
+        contractAddress: SAFE,
+        functionName: 'SafeTx',
+        args: [safeTransaction],
+        chainId: 1,
+        transactionType: TransactionType.Signature,
+        transactionOverrides: {},
+      },
+      '0xsignature',
+    )
+
+    const { client: vetoedClient, walletClient: vetoedWalletClient } =
+      createClient([{ name: 'policy', beforeExecute: () => false }])
+    await expect(
+      vetoedClient._signSafeTransaction({ safeAddress: SAFE, safeTransaction }),
+    ).rejects.toThrow(MiddlewareVetoError)
+    expect(vetoedWalletClient.signTypedData).not.toHaveBeenCalled()
+    expect(walletClient.signTypedData).toHaveBeenCalledTimes(1)
+  })
+
+  test('Data client reads go through the read hooks', async () => {
+    const beforeRead = jest.fn()
+    const { client } = createClient([{ beforeRead }], { apiKey: 'key' })
+
+    await client.dataClient!['_getPublicClient'](1).readContract({
+      address: TOKEN,
+      abi: warehouseAbi,
+      functionName: 'withdrawConfig',
+      args: [OWNER],
+    })
+
+    expect(beforeRead).toHaveBeenCalledWith(
+      expect.objectContaining({
+        contractAddress: TOKEN,
+        functionName: 'withdrawConfig',
+      }),
+    )
+  })
+
+  test('Wrapped public clients still resolve against the original', async () => {
+    const { client, publicClient } = createClient([])
+    Object.assign(publicClient, {
+      getChainId(this: { chain: { id: number } }) {
+        return this.chain.id
+      },
+    })
+
+    const wrappedClient = client.warehouse._getPublicClient(1)
+
+    expect(await wrappedClient.getChainId()).toEqual(1)
+    expect(wrappedClient.simulateContract).toBe(publicClient.simulateContract)
+    expect(wrappedClient.readContract).not.toBe(publicClient.readContract)
+  })
+})
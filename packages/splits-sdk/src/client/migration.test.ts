@@ -0,0 +1,140 @@
+import { Address, Chain, PublicClient, Transport, zeroAddress } from 'viem'
+
+import { MigrationClient } from './migration'
+import { SplitV1Client } from './splitV1'
+import { SplitV2Client } from './splitV2'
+import { getSplitMainAddress } from '../constants'
+import { InvalidArgumentError } from '../errors'
+import type { Split } from '../types'
+
+const SPLIT_ADDRESS: Address = '0x047ED5b8E8a7eDBd92FD5B6C2B5F5a3fC8DdfB3b'
+const SPLIT_V2_ADDRESS: Address = '0x6a4B3f7B5bD45E6C6bA2Bc7aE5D3c2a4B9e8F1d2'
+const CONTROLLER: Address = '0xD57f3Fa0b49E91eaA20e739c874Ae273Bcf2D7Aa'
+const RECIPIENT_ONE: Address = '0x1111111111111111111111111111111111111111'
+const RECIPIENT_TWO: Address = '0x2222222222222222222222222222222222222222'
+const TOKEN: Address = '0xE1D4BCd79552d815Eb5A8Fb2479Ad770E15BB17e'
+
+const getSplit = (controller: Address, recipients = [RECIPIENT_ONE]): Split => {
+  return {
+    type: 'Split',
+    address: SPLIT_ADDRESS,
+    controller: { address: controller },
+    newPotentialController: { address: zeroAddress },
+    distributorFeePercent: 1,
+    distributionsPaused: false,
+    distributeDirection: 'pull',
+    recipients: [
+      ...recipients.map((address) => {
+        return {
+          percentAllocation: 60,
+          ownership: BigInt(600000),
+          recipient: { address },
+        }
+      }),
+      {
+        percentAllocation: 40,
+        ownership: BigInt(400000),
+        recipient: { address: RECIPIENT_TWO },
+      },
+    ],
+  }
+}
+
+const mockGetSplitMetadata = jest
+  .spyOn(SplitV1Client.prototype, 'getSplitMetadataViaProvider')
+  .mockImplementation(async () => {
+    return { split: getSplit(CONTROLLER), blockRange: BigInt(1) }
+  })
+const mockIsDeployed = jest
+  .spyOn(SplitV2Client.prototype, 'isDeployed')
+  .mockImplementation(async () => {
+    return { splitAddress: SPLIT_V2_ADDRESS, deployed: false }
+  })
+
+describe('Split V1 migration', () => {
+  const client = new MigrationClient({
+    chainId: 1,
+    publicClient: {
+      chain: { id: 1 },
+    } as unknown as PublicClient<Transport, Chain>,
+  })
+
+  beforeEach(() => {
+    mockGetSplitMetadata.mockClear()
+    mockIsDeployed.mockClear()
+  })
+
+  test('Plans the V2 deploy, the V1 update and the final distribution', async () => {
+    const plan = await client.planSplitV1Migration({
+      splitAddress: SPLIT_ADDRESS,
+      distributeTokens: [TOKEN],
+    })
+
+    expect(plan.migratable).toEqual(true)
+    expect(plan.splitV2Address).toEqual(SPLIT_V2_ADDRESS)
+    expect(plan.createSplitV2Config).toEqual(
+      expect.objectContaining({
+        recipients: [
+          { address: RECIPIENT_ONE, percentAllocation: 60 },
+          { address: RECIPIENT_TWO, percentAllocation: 40 },
+        ],
+        distributorFeePercent: 1,
+        ownerAddress: CONTROLLER,
+        chainId: 1,
+      }),
+    )
+    expect(plan.steps.map((step) => step.type)).toEqual([
+      'createSplitV2',
+      'updateSplitV1',
+      'distributeSplitV1',
+      'withdrawSplitV1',
+    ])
+    expect(plan.steps[1].config).toEqual(
+      expect.objectContaining({
+        recipients: [
+          { address: SPLIT_V2_ADDRESS, percentAllocation: 99.9999 },
+          { address: CONTROLLER, percentAllocation: 0.0001 },
+        ],
+      }),
+    )
+
+    const callData = await client.getSplitV1MigrationCallData(plan)
+    expect(callData).toHaveLength(4)
+    expect(callData[1].address).toEqual(getSplitMainAddress(1))
+  })
+
+  test('Leaves out steps that already happened', async () => {
+    mockGetSplitMetadata.mockImplementationOnce(async () => {
+      return {
+        split: getSplit(CONTROLLER, [SPLIT_V2_ADDRESS]),
+        blockRange: BigInt(1),
+      }
+    })
+    mockIsDeployed.mockImplementationOnce(async () => {
+      return { splitAddress: SPLIT_V2_ADDRESS, deployed: true }
+    })
+
+    const plan = await client.planSplitV1Migration({
+      splitAddress: SPLIT_ADDRESS,
+    })
+
+    expect(plan.migratable).toEqual(true)
+    expect(plan.steps).toEqual([])
+  })
+
+  test('Flags immutable splits', async () => {
+    mockGetSplitMetadata.mockImplementationOnce(async () => {
+      return { split: getSplit(zeroAddress), blockRange: BigInt(1) }
+    })
+
+    const plan = await client.planSplitV1Migration({
+      splitAddress: SPLIT_ADDRESS,
+    })
+
+    expect(plan.migratable).toEqual(false)
+    expect(plan.reason).toContain('immutable')
+    await expect(client.getSplitV1MigrationCallData(plan)).rejects.toThrow(
+      InvalidArgumentError,
+    )
+  })
+})
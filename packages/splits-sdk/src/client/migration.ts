@@ -0,0 +1,234 @@
+import { Address, Hash, getAddress, keccak256, zeroAddress } from 'viem'
+
+import { BaseClientMixin, BaseTransactions } from './base'
+import { SPLITS_V2_SUPPORTED_CHAIN_IDS, TransactionType } from '../constants'
+import { InvalidArgumentError } from '../errors'
+import { applyMixins } from './mixin'
+import { SplitV1Client } from './splitV1'
+import { SplitV2Client } from './splitV2'
+import type {
+  CallData,
+  CreateSplitV2Config,
+  ExecuteSplitV1MigrationConfig,
+  Split,
+  SplitRecipient,
+  SplitV1MigrationConfig,
+  SplitV1MigrationPlan,
+  SplitV1MigrationStep,
+  SplitsClientConfig,
+} from '../types'
+import { getBigIntFromPercent } from '../utils'
+import { validateAddress } from '../utils/validation'
+
+// SplitMain needs at least two recipients, so the V1 split can only route
+// all but the smallest allocation it supports to the V2 split
+const SPLIT_V1_DUST_PERCENT = 0.0001
+const SPLIT_V1_MIGRATED_PERCENT = 99.9999
+
+// eslint-disable-next-line @typescript-eslint/no-unsafe-declaration-merging
+export class MigrationClient extends BaseTransactions {
+  private readonly _splitV1: SplitV1Client
+  private readonly _splitV2: SplitV2Client
+
+  constructor(clientArgs: SplitsClientConfig) {
+    super({
+      transactionType: TransactionType.Transaction,
+      supportedChainIds: SPLITS_V2_SUPPORTED_CHAIN_IDS,
+      ...clientArgs,
+    })
+
+    this._splitV1 = new SplitV1Client(clientArgs)
+    this._splitV2 = new SplitV2Client(clientArgs)
+  }
+
+  // Creates a V2 split with the same recipients and distributor fee as the
+  // V1 split, then updates the V1 split to route to it. Steps that already
+  // happened (the V2 split exists, the V1 split routes to it) are left out,
+  // so an interrupted migration can be planned again and resumed.
+  async planSplitV1Migration({
+    splitAddress,
+    chainId,
+    splitType,
+    ownerAddress,
+    creatorAddress,
+    salt,
+    distributeTokens = [],
+    dustRecipient,
+  }: SplitV1MigrationConfig): Promise<SplitV1MigrationPlan> {
+    validateAddress(splitAddress)
+    distributeTokens.map((token) => validateAddress(token))
+    const functionChainId = this._getReadOnlyFunctionChainId(
+      chainId ?? this._walletClient?.chain?.id,
+    )
+
+    const { split } = await this._splitV1.getSplitMetadataViaProvider({
+      splitAddress,
+      chainId: functionChainId,
+    })
+    const controller = split.controller?.address ?? zeroAddress
+
+    const createSplitV2Config: CreateSplitV2Config = {
+      recipients: split.recipients.map(({ recipient, percentAllocation }) => {
+        return { address: recipient.address, percentAllocation }
+      }),
+      distributorFeePercent: split.distributorFeePercent,
+      splitType,
+      ownerAddress: ownerAddress ?? controller,
+      creatorAddress: creatorAddress ?? zeroAddress,
+      salt: salt ?? keccak256(getAddress(splitAddress)),
+      chainId: functionChainId,
+    }
+    const { splitAddress: splitV2Address, deployed } =
+      await this._splitV2.isDeployed(createSplitV2Config)
+
+    const plan = {
+      splitAddress: split.address,
+      chainId: functionChainId,
+      splitV2Address,
+      createSplitV2Config,
+    }
+    if (controller === zeroAddress)
+      return {
+        ...plan,
+        migratable: false,
+        reason: `Split ${split.address} is immutable, it has no controller that can update it to route to a V2 split. Its recipients would need to move over to a V2 split themselves.`,
+        steps: [],
+      }
+
+    const migratedRecipients: SplitRecipient[] = [
+      { address: splitV2Address, percentAllocation: SPLIT_V1_MIGRATED_PERCENT },
+      {
+        address: dustRecipient ?? controller,
+        percentAllocation: SPLIT_V1_DUST_PERCENT,
+      },
+    ]
+    const isMigrated = split.recipients.some(
+      ({ recipient }) =>
+        recipient.address.toLowerCase() === splitV2Address.toLowerCase(),
+    )
+
+    const steps: SplitV1MigrationStep[] = []
+    if (!deployed)
+      steps.push({ type: 'createSplitV2', config: createSplitV2Config })
+    if (!isMigrated)
+      steps.push({
+        type: 'updateSplitV1',
+        config: {
+          splitAddress: split.address,
+          recipients: migratedRecipients,
+          distributorFeePercent: split.distributorFeePercent,
+          chainId: functionChainId,
+        },
+      })
+    if (distributeTokens.length > 0) {
+      // The split isn't updated yet when the calls are built, so
+      // distributions are built against the migrated recipients
+      const splitFields: Pick<Split, 'recipients' | 'distributorFeePercent'> = {
+        recipients: migratedRecipients.map(({ address, percentAllocation }) => {
+          return {
+            recipient: { address: address as Address },
+            percentAllocation,
+            ownership: getBigIntFromPercent(percentAllocation),
+          }
+        }),
+        distributorFeePercent: split.distributorFeePercent,
+      }
+      distributeTokens.forEach((token) =>
+        steps.push({
+          type: 'distributeSplitV1',
+          config: {
+            splitAddress: split.address,
+            token,
+            splitFields,
+            chainId: functionChainId,
+          },
+        }),
+      )
+      steps.push({
+        type: 'withdrawSplitV1',
+        config: {
+          address: splitV2Address,
+          tokens: distributeTokens,
+          chainId: functionChainId,
+        },
+      })
+    }
+
+    return { ...plan, migratable: true, steps }
+  }
+
+  // Every step as call data, in order, e.g. for a Safe or multicall
+  async getSplitV1MigrationCallData(
+    plan: SplitV1MigrationPlan,
+  ): Promise<CallData[]> {
+    this._requireMigratable(plan)
+
+    return await Promise.all(
+      plan.steps.map((step) => {
+        if (step.type === 'createSplitV2')
+          return this._splitV2.callData.createSplit(step.config)
+        if (step.type === 'updateSplitV1')
+          return this._splitV1.callData.updateSplit(step.config)
+        if (step.type === 'distributeSplitV1')
+          return this._splitV1.callData.distributeToken(step.config)
+
+        return this._splitV1.callData.withdrawFunds(step.config)
+      }),
+    )
+  }
+
+  // Submits the steps one at a time, waiting for each one to be mined before
+  // moving on to the next
+  async executeSplitV1Migration({
+    plan,
+    onStep,
+  }: ExecuteSplitV1MigrationConfig): Promise<{
+    splitV2Address: Address
+    txHashes: Hash[]
+  }> {
+    this._requireMigratable(plan)
+
+    const txHashes = await plan.steps.reduce(
+      async (previous, step) => {
+        const hashes = await previous
+        const { txHash } = await this._submitMigrationStep(step)
+        await this.getTransactionEvents({
+          txHash,
+          chainId: plan.chainId,
+          eventTopics: [],
+          includeAll: true,
+        })
+        onStep?.(step, txHash)
+
+        return [...hashes, txHash]
+      },
+      Promise.resolve([] as Hash[]),
+    )
+
+    return { splitV2Address: plan.splitV2Address, txHashes }
+  }
+
+  private async _submitMigrationStep(
+    step: SplitV1MigrationStep,
+  ): Promise<{ txHash: Hash }> {
+    if (step.type === 'createSplitV2')
+      return await this._splitV2._submitCreateSplitTransaction(step.config)
+    if (step.type === 'updateSplitV1')
+      return await this._splitV1._submitUpdateSplitTransaction(step.config)
+    if (step.type === 'distributeSplitV1')
+      return await this._splitV1._submitDistributeTokenTransaction(step.config)
+
+    return await this._splitV1._submitWithdrawFundsTransaction(step.config)
+  }
+
+  private _requireMigratable(plan: SplitV1MigrationPlan) {
+    if (!plan.migratable)
+      throw new InvalidArgumentError(
+        plan.reason ?? `Split ${plan.splitAddress} can't be migrated`,
+      )
+  }
+}
+
+// eslint-disable-next-line @typescript-eslint/no-unsafe-declaration-merging
+export interface MigrationClient extends BaseClientMixin {}
+applyMixins(MigrationClient, [BaseClientMixin])
@@ -0,0 +1,189 @@
+import {
+  Account,
+  Address,
+  Chain,
+  ContractFunctionRevertedError,
+  Log,
+  PublicClient,
+  Transport,
+  WalletClient,
+  encodeErrorResult,
+} from 'viem'
+
+import { SplitsClient } from './index'
+import { MULTICALL_3_ADDRESS } from '../constants'
+import { multicallAbi } from '../constants/abi/multicall'
+import { warehouseAbi } from '../constants/abi/warehouse'
+import { PausedError } from '../errors'
+
+const SENDER: Address = '0xD57f3Fa0b49E91eaA20e739c874Ae273Bcf2D7Aa'
+const TARGET_A: Address = '0xE1D4BCd79552d815Eb5A8Fb2479Ad770E15BB17e'
+const TARGET_B: Address = '0xE9762Fb8D5347474375Ce00628d5a13D8AD45A99'
+
+const callResults = [
+  { success: true, returnData: '0x01' },
+  { success: false, returnData: '0x' },
+]
+
+const mockPublicClient = jest.fn(() => {
+  return {
+    chain: {
+      id: 1,
+    },
+    simulateContract: jest.fn(async () => {
+      return { result: callResults, request: jest.mock }
+    }),
+  } as unknown as PublicClient<Transport, Chain>
+})
+const mockWalletClient = jest.fn(() => {
+  return {
+    account: {
+      address: SENDER,
+    },
+    chain: {
+      id: 1,
+    },
+    writeContract: jest.fn(() => {
+      return '0xhash'
+    }),
+  } as unknown as WalletClient<Transport, Chain, Account>
+})
+
+describe('Multicall', () => {
+  const event = {
+    blockNumber: 12345,
+  } as unknown as Log
+
+  const createClient = () => {
+    const publicClient = new mockPublicClient()
+    const client = new SplitsClient({
+      chainId: 1,
+      publicClient,
+      walletClient: new mockWalletClient(),
+    })
+    jest
+      .spyOn(client, 'getTransactionEvents')
+      .mockImplementation(async () => [event])
+
+    return { client, publicClient }
+  }
+
+  test('Calls without value use aggregate3', async () => {
+    const { client, publicClient } = createClient()
+
+    const result = await client.multicall({
+      calls: [
+        { address: TARGET_A, data: '0x01' },
+        { address: TARGET_B, data: '0x02', allowFailure: true },
+      ],
+    })
+
+    expect(result).toEqual({ events: [event], simulatedResults: callResults })
+    // The results come from the simulation the write already runs
+    expect(publicClient.simulateContract).toHaveBeenCalledTimes(1)
+    expect(publicClient.simulateContract).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        address: MULTICALL_3_ADDRESS,
+        functionName: 'aggregate3',
+        args: [
+          [
+            { target: TARGET_A, allowFailure: false, callData: '0x01' },
+            { target: TARGET_B, allowFailure: true, callData: '0x02' },
+          ],
+        ],
+        value: undefined,
+      }),
+    )
+  })
+
+  test('Calls with value use aggregate3Value and forward the total', async () => {
+    const { client, publicClient } = createClient()
+
+    await client.multicall({
+      calls: [
+        { address: TARGET_A, data: '0x01', value: BigInt(2) },
+        { address: TARGET_B, data: '0x02', value: BigInt(3) },
+      ],
+    })
+
+    expect(publicClient.simulateContract).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        functionName: 'aggregate3Value',
+        args: [
+          [
+            {
+              target: TARGET_A,
+              allowFailure: false,
+              value: BigInt(2),
+              callData: '0x01',
+            },
+            {
+              target: TARGET_B,
+              allowFailure: false,
+              value: BigInt(3),
+              callData: '0x02',
+            },
+          ],
+        ],
+        value: BigInt(5),
+      }),
+    )
+  })
+
+  test('A failing call is decoded from its own revert', async () => {
+    const { client, publicClient } = createClient()
+    const simulateContract = publicClient.simulateContract as jest.Mock
+    simulateContract.mockImplementationOnce(async () => {
+      throw new ContractFunctionRevertedError({
+        abi: multicallAbi,
+        functionName: 'aggregate3',
+        data: encodeErrorResult({
+          abi: [
+            {
+              type: 'error',
+              name: 'Error',
+              inputs: [{ name: 'message', type: 'string' }],
+            },
+          ],
+          errorName: 'Error',
+          args: ['Multicall3: call failed'],
+        }),
+      })
+    })
+    simulateContract.mockImplementationOnce(async () => {
+      return {
+        result: [
+          { success: true, returnData: '0x' },
+          {
+            success: false,
+            returnData: encodeErrorResult({
+              abi: warehouseAbi,
+              errorName: 'WithdrawalPaused',
+              args: [SENDER],
+            }),
+          },
+        ],
+      }
+    })
+
+    await expect(
+      client.multicall({
+        calls: [
+          { address: TARGET_A, data: '0x01' },
+          { address: TARGET_B, data: '0x02' },
+        ],
+      }),
+    ).rejects.toThrow(PausedError)
+    // Simulated again with every call allowed to fail
+    expect(simulateContract).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        args: [
+          [
+            { target: TARGET_A, allowFailure: true, callData: '0x01' },
+            { target: TARGET_B, allowFailure: true, callData: '0x02' },
+          ],
+        ],
+      }),
+    )
+  })
+})
@@ -31,6 +31,7 @@ import type {
   PassThroughWalletExecCallsConfig,
   PassThroughWalletPauseConfig,
   SetPassThroughConfig,
+  SimulationResult,
   SplitsClientConfig,
   SplitsPublicClient,
   TransactionConfig,
@@ -44,6 +45,7 @@ class PassThroughWalletTransactions extends BaseTransactions {
   constructor(transactionClientArgs: SplitsClientConfig & TransactionConfig) {
     super({
       supportedChainIds: PASS_THROUGH_WALLET_CHAIN_IDS,
+      deploymentContracts: ['passThroughWalletFactory'],
       ...transactionClientArgs,
     })
   }
@@ -57,15 +59,19 @@ class PassThroughWalletTransactions extends BaseTransactions {
   }: CreatePassThroughWalletConfig): Promise<TransactionFormat> {
     validateAddress(owner)
     validateAddress(passThrough)
-    if (this._shouldRequireWalletClient) this._requireWalletClient()
+    if (this._shouldRequireWalletClient) this._requireWalletClient(chainId)
 
     const functionChainId = this._getFunctionChainId(chainId)
 
     const result = await this._executeContractFunction({
-      contractAddress: getPassThroughWalletFactoryAddress(functionChainId),
+      contractAddress: getPassThroughWalletFactoryAddress(
+        functionChainId,
+        this._deployments,
+      ),
       contractAbi: passThroughWalletFactoryAbi,
       functionName: 'createPassThroughWallet',
       functionArgs: [[owner, paused, passThrough]],
+      chainId: functionChainId,
       transactionOverrides,
     })
 
@@ -75,17 +81,19 @@ class PassThroughWalletTransactions extends BaseTransactions {
   protected async _passThroughTokensTransaction({
     passThroughWalletAddress,
     tokens,
+    chainId,
     transactionOverrides = {},
   }: PassThroughTokensConfig): Promise<TransactionFormat> {
     validateAddress(passThroughWalletAddress)
     tokens.map((token) => validateAddress(token))
-    if (this._shouldRequireWalletClient) this._requireWalletClient()
+    if (this._shouldRequireWalletClient) this._requireWalletClient(chainId)
 
     const result = await this._executeContractFunction({
       contractAddress: getAddress(passThroughWalletAddress),
       contractAbi: passThroughWalletAbi,
       functionName: 'passThroughTokens',
       functionArgs: [tokens],
+      chainId,
       transactionOverrides,
     })
 
@@ -95,13 +103,15 @@ class PassThroughWalletTransactions extends BaseTransactions {
   protected async _setPassThroughTransaction({
     passThroughWalletAddress,
     passThrough,
+    chainId,
     transactionOverrides = {},
   }: SetPassThroughConfig): Promise<TransactionFormat> {
     validateAddress(passThroughWalletAddress)
     validateAddress(passThrough)
+    let safeAddress: Address | undefined
     if (this._shouldRequireWalletClient) {
-      this._requireWalletClient()
-      await this._requireOwner(passThroughWalletAddress)
+      this._requireWalletClient(chainId)
+      safeAddress = await this._requireOwner(passThroughWalletAddress, chainId)
     }
 
     const result = await this._executeContractFunction({
@@ -109,7 +119,9 @@ class PassThroughWalletTransactions extends BaseTransactions {
       contractAbi: passThroughWalletAbi,
       functionName: 'setPassThrough',
       functionArgs: [passThrough],
+      chainId,
       transactionOverrides,
+      safeAddress,
     })
 
     return result
@@ -118,12 +130,14 @@ class PassThroughWalletTransactions extends BaseTransactions {
   protected async _setPausedTransaction({
     passThroughWalletAddress,
     paused,
+    chainId,
     transactionOverrides = {},
   }: PassThroughWalletPauseConfig): Promise<TransactionFormat> {
     validateAddress(passThroughWalletAddress)
+    let safeAddress: Address | undefined
     if (this._shouldRequireWalletClient) {
-      this._requireWalletClient()
-      await this._requireOwner(passThroughWalletAddress)
+      this._requireWalletClient(chainId)
+      safeAddress = await this._requireOwner(passThroughWalletAddress, chainId)
     }
 
     const result = await this._executeContractFunction({
@@ -131,7 +145,9 @@ class PassThroughWalletTransactions extends BaseTransactions {
       contractAbi: passThroughWalletAbi,
       functionName: 'setPaused',
       functionArgs: [paused],
+      chainId,
       transactionOverrides,
+      safeAddress,
     })
 
     return result
@@ -140,13 +156,15 @@ class PassThroughWalletTransactions extends BaseTransactions {
   protected async _execCallsTransaction({
     passThroughWalletAddress,
     calls,
+    chainId,
     transactionOverrides = {},
   }: PassThroughWalletExecCallsConfig): Promise<TransactionFormat> {
     validateAddress(passThroughWalletAddress)
     calls.map((callData) => validateAddress(callData.to))
+    let safeAddress: Address | undefined
     if (this._shouldRequireWalletClient) {
-      this._requireWalletClient()
-      await this._requireOwner(passThroughWalletAddress)
+      this._requireWalletClient(chainId)
+      safeAddress = await this._requireOwner(passThroughWalletAddress, chainId)
     }
 
     const formattedCalls = calls.map((callData) => {
@@ -158,26 +176,36 @@ class PassThroughWalletTransactions extends BaseTransactions {
       contractAbi: passThroughWalletAbi,
       functionName: 'execCalls',
       functionArgs: [formattedCalls],
+      chainId,
       transactionOverrides,
+      safeAddress,
     })
 
     return result
   }
 
-  private async _requireOwner(passThroughWalletAddress: string) {
-    this._requireWalletClient()
-    const walletAddress = this._walletClient!.account?.address
+  private async _requireOwner(
+    passThroughWalletAddress: string,
+    chainId?: number,
+  ): Promise<Address | undefined> {
+    this._requireWalletClient(chainId)
+    const functionChainId = this._getFunctionChainId(chainId)
+    const walletAddress = this._getSenderAddress(chainId)
 
     const passThroughWalletContract = this._getPassThroughWalletContract(
       passThroughWalletAddress,
-      this._walletClient!.chain!.id,
+      functionChainId,
     )
     const owner = await passThroughWalletContract.read.owner()
 
-    if (owner !== walletAddress)
+    if (owner !== walletAddress) {
+      const safeAddress = await this._getSafeOwner(owner, functionChainId)
+      if (safeAddress) return safeAddress
+
       throw new InvalidAuthError(
         `Action only available to the pass through wallet owner. Pass through wallet address: ${passThroughWalletAddress}, owner: ${owner}, wallet address: ${walletAddress}`,
       )
+    }
   }
 
   protected _getPassThroughWalletContract(
@@ -199,6 +227,7 @@ export class PassThroughWalletClient extends PassThroughWalletTransactions {
   readonly eventTopics: { [key: string]: Hex[] }
   readonly callData: PassThroughWalletCallData
   readonly estimateGas: PassThroughWalletGasEstimates
+  readonly simulate: PassThroughWalletSimulation
 
   constructor(clientArgs: SplitsClientConfig) {
     super({
@@ -241,6 +270,7 @@ export class PassThroughWalletClient extends PassThroughWalletTransactions {
 
     this.callData = new PassThroughWalletCallData(clientArgs)
     this.estimateGas = new PassThroughWalletGasEstimates(clientArgs)
+    this.simulate = new PassThroughWalletSimulation(clientArgs)
   }
 
   // Write actions
@@ -269,6 +299,8 @@ export class PassThroughWalletClient extends PassThroughWalletTransactions {
     )
     const events = await this.getTransactionEvents({
       txHash,
+      chainId: createPassThroughArgs.chainId,
+      tracking: createPassThroughArgs.tracking,
       eventTopics: this.eventTopics.createPassThroughWallet,
     })
     const event = events.length > 0 ? events[0] : undefined
@@ -306,6 +338,8 @@ export class PassThroughWalletClient extends PassThroughWalletTransactions {
       await this._submitPassThroughTokensTransaction(passThroughArgs)
     const events = await this.getTransactionEvents({
       txHash,
+      chainId: passThroughArgs.chainId,
+      tracking: passThroughArgs.tracking,
       eventTopics: this.eventTopics.passThroughTokens,
     })
     const event = events.length > 0 ? events[0] : undefined
@@ -331,6 +365,8 @@ export class PassThroughWalletClient extends PassThroughWalletTransactions {
     const { txHash } = await this._submitSetPassThroughTransaction(args)
     const events = await this.getTransactionEvents({
       txHash,
+      chainId: args.chainId,
+      tracking: args.tracking,
       eventTopics: this.eventTopics.setPassThrough,
     })
     const event = events.length > 0 ? events[0] : undefined
@@ -359,6 +395,8 @@ export class PassThroughWalletClient extends PassThroughWalletTransactions {
     const { txHash } = await this._submitSetPausedTransaction(pauseArgs)
     const events = await this.getTransactionEvents({
       txHash,
+      chainId: pauseArgs.chainId,
+      tracking: pauseArgs.tracking,
       eventTopics: this.eventTopics.setPaused,
     })
     const event = events.length > 0 ? events[0] : undefined
@@ -388,6 +426,8 @@ export class PassThroughWalletClient extends PassThroughWalletTransactions {
     const { txHash } = await this._submitExecCallsTransaction(args)
     const events = await this.getTransactionEvents({
       txHash,
+      chainId: args.chainId,
+      tracking: args.tracking,
       eventTopics: this.eventTopics.execCalls,
     })
     const event = events.length > 0 ? events[0] : undefined
@@ -479,6 +519,64 @@ class PassThroughWalletGasEstimates extends PassThroughWalletTransactions {
 interface PassThroughWalletGasEstimates extends BaseGasEstimatesMixin {}
 applyMixins(PassThroughWalletGasEstimates, [BaseGasEstimatesMixin])
 
+class PassThroughWalletSimulation extends PassThroughWalletTransactions {
+  constructor(clientArgs: SplitsClientConfig) {
+    super({
+      transactionType: TransactionType.Simulation,
+      ...clientArgs,
+    })
+  }
+
+  async createPassThroughWallet(
+    args: CreatePassThroughWalletConfig,
+  ): Promise<SimulationResult> {
+    const simulationResult =
+      await this._createPassThroughWalletTransaction(args)
+    if (!this._isSimulationResult(simulationResult))
+      throw new Error('Invalid response')
+
+    return simulationResult
+  }
+
+  async passThroughTokens(
+    args: PassThroughTokensConfig,
+  ): Promise<SimulationResult> {
+    const simulationResult = await this._passThroughTokensTransaction(args)
+    if (!this._isSimulationResult(simulationResult))
+      throw new Error('Invalid response')
+
+    return simulationResult
+  }
+
+  async setPassThrough(args: SetPassThroughConfig): Promise<SimulationResult> {
+    const simulationResult = await this._setPassThroughTransaction(args)
+    if (!this._isSimulationResult(simulationResult))
+      throw new Error('Invalid response')
+
+    return simulationResult
+  }
+
+  async setPaused(
+    args: PassThroughWalletPauseConfig,
+  ): Promise<SimulationResult> {
+    const simulationResult = await this._setPausedTransaction(args)
+    if (!this._isSimulationResult(simulationResult))
+      throw new Error('Invalid response')
+
+    return simulationResult
+  }
+
+  async execCalls(
+    args: PassThroughWalletExecCallsConfig,
+  ): Promise<SimulationResult> {
+    const simulationResult = await this._execCallsTransaction(args)
+    if (!this._isSimulationResult(simulationResult))
+      throw new Error('Invalid response')
+
+    return simulationResult
+  }
+}
+
 class PassThroughWalletCallData extends PassThroughWalletTransactions {
   constructor(clientArgs: SplitsClientConfig) {
     super({
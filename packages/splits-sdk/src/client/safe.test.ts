@@ -0,0 +1,224 @@
+import {
+  Account,
+  Address,
+  Chain,
+  Log,
+  PublicClient,
+  Transport,
+  WalletClient,
+} from 'viem'
+
+import { PassThroughWalletClient } from './passThroughWallet'
+import { SafeClient } from './safe'
+import { InvalidAuthError, SafeSignaturesRequiredError } from '../errors'
+import {
+  writeActions as moduleWriteActions,
+  readActions,
+} from '../testing/mocks/passThroughWallet'
+import { MockViemContract } from '../testing/mocks/viemContract'
+import {
+  getPreValidatedSafeSignature,
+  getSafeTransactionHash,
+} from '../utils/safe'
+
+jest.mock('viem', () => {
+  const originalModule = jest.requireActual('viem')
+  return {
+    ...originalModule,
+    getContract: jest.fn(() => {
+      return new MockViemContract(readActions, moduleWriteActions)
+    }),
+  }
+})
+
+const SAFE_ADDRESS: Address = '0xD57f3Fa0b49E91eaA20e739c874Ae273Bcf2D7Aa'
+const SIGNER_ADDRESS: Address = '0xE1D4BCd79552d815Eb5A8Fb2479Ad770E15BB17e'
+const PASS_THROUGH_WALLET_ADDRESS: Address =
+  '0xE9762Fb8D5347474375Ce00628d5a13D8AD45A99'
+
+const createPublicClient = ({
+  isSafe = true,
+  threshold = BigInt(1),
+}: {
+  isSafe?: boolean
+  threshold?: bigint
+} = {}) => {
+  return {
+    chain: {
+      id: 1,
+    },
+    simulateContract: jest.fn(async () => {
+      return { request: jest.mock }
+    }),
+    readContract: jest.fn(
+      async ({ functionName }: { functionName: string }) => {
+        if (!isSafe) throw new Error('execution reverted')
+        if (functionName === 'isOwner') return true
+        if (functionName === 'getThreshold') return threshold
+        if (functionName === 'nonce') return BigInt(4)
+        throw new Error(`Unexpected read ${functionName}`)
+      },
+    ),
+  } as unknown as PublicClient<Transport, Chain>
+}
+const mockWalletClient = jest.fn(() => {
+  return {
+    account: {
+      address: SIGNER_ADDRESS,
+    },
+    chain: {
+      id: 1,
+    },
+    writeContract: jest.fn(() => {
+      return '0xhash'
+    }),
+    signTypedData: jest.fn(async () => '0xsigned'),
+  } as unknown as WalletClient<Transport, Chain, Account>
+})
+
+describe('Safe owner routing', () => {
+  const event = {
+    blockNumber: 12345,
+  } as unknown as Log
+
+  const createClient = (publicClient: PublicClient<Transport, Chain>) => {
+    const client = new PassThroughWalletClient({
+      chainId: 1,
+      publicClient,
+      walletClient: new mockWalletClient(),
+    })
+    jest
+      .spyOn(client, 'getTransactionEvents')
+      .mockImplementation(async () => [event])
+
+    return client
+  }
+
+  beforeEach(() => {
+    readActions.owner.mockClear()
+    readActions.owner.mockReturnValueOnce(SAFE_ADDRESS)
+  })
+
+  test('Executes through the Safe when the signer meets the threshold', async () => {
+    const publicClient = createPublicClient()
+    const client = createClient(publicClient)
+
+    const result = await client.setPaused({
+      passThroughWalletAddress: PASS_THROUGH_WALLET_ADDRESS,
+      paused: true,
+    })
+
+    expect(result.event).toEqual(event)
+    const simulateCalls = (publicClient.simulateContract as jest.Mock).mock
+      .calls
+    expect(simulateCalls[0][0]).toEqual(
+      expect.objectContaining({
+        address: PASS_THROUGH_WALLET_ADDRESS,
+        functionName: 'setPaused',
+        account: SAFE_ADDRESS,
+      }),
+    )
+    expect(simulateCalls[1][0]).toEqual(
+      expect.objectContaining({
+        address: SAFE_ADDRESS,
+        functionName: 'execTransaction',
+      }),
+    )
+    expect(simulateCalls[1][0].args[0]).toEqual(PASS_THROUGH_WALLET_ADDRESS)
+    expect(simulateCalls[1][0].args[9]).toEqual(
+      getPreValidatedSafeSignature(SIGNER_ADDRESS).data,
+    )
+  })
+
+  test('Returns the Safe transaction when more signatures are needed', async () => {
+    const client = createClient(createPublicClient({ threshold: BigInt(2) }))
+
+    const error = await client
+      .setPaused({
+        passThroughWalletAddress: PASS_THROUGH_WALLET_ADDRESS,
+        paused: true,
+      })
+      .catch((e) => e)
+
+    expect(error).toBeInstanceOf(SafeSignaturesRequiredError)
+    expect(error.threshold).toEqual(2)
+    expect(error.safeTransaction.to).toEqual(PASS_THROUGH_WALLET_ADDRESS)
+    expect(error.safeTransaction.nonce).toEqual(BigInt(4))
+    expect(error.safeTxHash).toEqual(
+      getSafeTransactionHash({
+        safeAddress: SAFE_ADDRESS,
+        safeTransaction: error.safeTransaction,
+        chainId: 1,
+      }),
+    )
+  })
+
+  test('Non Safe owner still fails the owner check', async () => {
+    const client = createClient(createPublicClient({ isSafe: false }))
+
+    await expect(
+      async () =>
+        await client.setPaused({
+          passThroughWalletAddress: PASS_THROUGH_WALLET_ADDRESS,
+          paused: true,
+        }),
+    ).rejects.toThrow(InvalidAuthError)
+  })
+})
+
+describe('Safe client', () => {
+  const client = new SafeClient({
+    chainId: 1,
+    publicClient: createPublicClient(),
+    walletClient: new mockWalletClient(),
+  })
+
+  test('Create transaction reads the Safe nonce', async () => {
+    const { safeTransaction, safeTxHash } = await client.createTransaction({
+      safeAddress: SAFE_ADDRESS,
+      calls: [{ address: PASS_THROUGH_WALLET_ADDRESS, data: '0x' }],
+    })
+
+    expect(safeTransaction.nonce).toEqual(BigInt(4))
+    expect(safeTxHash).toEqual(
+      getSafeTransactionHash({
+        safeAddress: SAFE_ADDRESS,
+        safeTransaction,
+        chainId: 1,
+      }),
+    )
+  })
+
+  test('Sign transaction returns the signer signature', async () => {
+    const { safeTransaction } = await client.createTransaction({
+      safeAddress: SAFE_ADDRESS,
+      calls: [{ address: PASS_THROUGH_WALLET_ADDRESS, data: '0x' }],
+    })
+
+    const signature = await client.signTransaction({
+      safeAddress: SAFE_ADDRESS,
+      safeTransaction,
+    })
+
+    expect(signature).toEqual({ signer: SIGNER_ADDRESS, data: '0xsigned' })
+  })
+
+  test('Execute transaction call data combines signatures', async () => {
+    const { safeTransaction } = await client.createTransaction({
+      safeAddress: SAFE_ADDRESS,
+      calls: [{ address: PASS_THROUGH_WALLET_ADDRESS, data: '0x' }],
+    })
+
+    const callData = await client.callData.executeTransaction({
+      safeAddress: SAFE_ADDRESS,
+      safeTransaction,
+      signatures: [
+        { signer: SIGNER_ADDRESS, data: '0xbb' },
+        { signer: SAFE_ADDRESS, data: '0xaa' },
+      ],
+    })
+
+    expect(callData.address).toEqual(SAFE_ADDRESS)
+    expect(callData.data.endsWith('aabb' + '0'.repeat(60))).toEqual(true)
+  })
+})
@@ -0,0 +1,242 @@
+import { Address, Hash, Hex, Log, encodeEventTopics } from 'viem'
+
+import {
+  BaseClientMixin,
+  BaseGasEstimatesMixin,
+  BaseTransactions,
+} from './base'
+import { ALL_CHAIN_IDS, TransactionType } from '../constants'
+import { safeAbi } from '../constants/abi/safe'
+import { TransactionFailedError } from '../errors'
+import { applyMixins } from './mixin'
+import type {
+  CallData,
+  CreateSafeTransactionConfig,
+  ExecuteSafeTransactionConfig,
+  SafeSignature,
+  SafeTransaction,
+  SafeTransactionBuilderConfig,
+  SafeTransactionBuilderJson,
+  SignSafeTransactionConfig,
+  SimulationResult,
+  SplitsClientConfig,
+  TransactionConfig,
+  TransactionFormat,
+} from '../types'
+import { getSafeTransactionBuilderJson } from '../utils/safe'
+import { validateAddress } from '../utils/validation'
+
+class SafeTransactions extends BaseTransactions {
+  constructor(transactionClientArgs: SplitsClientConfig & TransactionConfig) {
+    super({
+      supportedChainIds: ALL_CHAIN_IDS,
+      ...transactionClientArgs,
+    })
+  }
+
+  protected async _executeTransaction(
+    executeArgs: ExecuteSafeTransactionConfig,
+  ): Promise<TransactionFormat> {
+    validateAddress(executeArgs.safeAddress)
+    if (executeArgs.signatures.length === 0)
+      throw new TransactionFailedError('At least one signature is required')
+
+    return this._executeSafeTransaction(executeArgs)
+  }
+}
+
+// eslint-disable-next-line @typescript-eslint/no-unsafe-declaration-merging
+export class SafeClient extends SafeTransactions {
+  readonly eventTopics: { [key: string]: Hex[] }
+  readonly callData: SafeCallData
+  readonly estimateGas: SafeGasEstimates
+  readonly simulate: SafeSimulation
+
+  constructor(clientArgs: SplitsClientConfig) {
+    super({
+      transactionType: TransactionType.Transaction,
+      ...clientArgs,
+    })
+
+    this.eventTopics = {
+      executeTransaction: [
+        encodeEventTopics({
+          abi: safeAbi,
+          eventName: 'ExecutionSuccess',
+        })[0],
+      ],
+    }
+
+    this.callData = new SafeCallData(clientArgs)
+    this.estimateGas = new SafeGasEstimates(clientArgs)
+    this.simulate = new SafeSimulation(clientArgs)
+  }
+
+  // Builds a Safe transaction for the given calls, MultiSend encoded when
+  // there is more than one call
+  async createTransaction(createArgs: CreateSafeTransactionConfig): Promise<{
+    safeTransaction: SafeTransaction
+    safeTxHash: Hash
+  }> {
+    validateAddress(createArgs.safeAddress)
+    return this._createSafeTransaction(createArgs)
+  }
+
+  async signTransaction(
+    signArgs: SignSafeTransactionConfig,
+  ): Promise<SafeSignature> {
+    validateAddress(signArgs.safeAddress)
+    return this._signSafeTransaction(signArgs)
+  }
+
+  async _submitExecuteTransaction(
+    executeArgs: ExecuteSafeTransactionConfig,
+  ): Promise<{
+    txHash: Hash
+  }> {
+    const txHash = await this._executeTransaction(executeArgs)
+    if (!this._isContractTransaction(txHash))
+      throw new Error('Invalid response')
+
+    return { txHash }
+  }
+
+  async executeTransaction(executeArgs: ExecuteSafeTransactionConfig): Promise<{
+    events: Log[]
+  }> {
+    const { txHash } = await this._submitExecuteTransaction(executeArgs)
+    const events = await this.getTransactionEvents({
+      txHash,
+      chainId: executeArgs.chainId,
+      tracking: executeArgs.tracking,
+      eventTopics: this.eventTopics.executeTransaction,
+      includeAll: true,
+    })
+    const executionEvent = events.find(
+      (event) => event.topics[0] === this.eventTopics.executeTransaction[0],
+    )
+    if (executionEvent) return { events }
+
+    throw new TransactionFailedError()
+  }
+
+  // Read actions
+  async getSafeOwners({
+    safeAddress,
+    chainId,
+  }: {
+    safeAddress: Address
+    chainId?: number
+  }): Promise<{
+    owners: Address[]
+    threshold: number
+  }> {
+    validateAddress(safeAddress)
+    const functionChainId = this._getReadOnlyFunctionChainId(chainId)
+    const publicClient = this._getPublicClient(functionChainId)
+
+    const [owners, threshold] = await Promise.all([
+      publicClient.readContract({
+        address: safeAddress,
+        abi: safeAbi,
+        functionName: 'getOwners',
+      }),
+      publicClient.readContract({
+        address: safeAddress,
+        abi: safeAbi,
+        functionName: 'getThreshold',
+      }),
+    ])
+
+    return {
+      owners: [...owners],
+      threshold: Number(threshold),
+    }
+  }
+
+  // Batch file that can be imported into the Safe{Wallet} Transaction Builder
+  getTransactionBuilderJson({
+    safeAddress,
+    calls,
+    chainId,
+    name,
+    description,
+  }: SafeTransactionBuilderConfig): SafeTransactionBuilderJson {
+    validateAddress(safeAddress)
+    const functionChainId = this._getReadOnlyFunctionChainId(
+      chainId ?? this._walletClient?.chain?.id,
+    )
+
+    return getSafeTransactionBuilderJson({
+      safeAddress,
+      calls,
+      chainId: functionChainId,
+      name,
+      description,
+    })
+  }
+}
+
+// eslint-disable-next-line @typescript-eslint/no-unsafe-declaration-merging
+export interface SafeClient extends BaseClientMixin {}
+applyMixins(SafeClient, [BaseClientMixin])
+
+// eslint-disable-next-line @typescript-eslint/no-unsafe-declaration-merging
+class SafeGasEstimates extends SafeTransactions {
+  constructor(clientArgs: SplitsClientConfig) {
+    super({
+      transactionType: TransactionType.GasEstimate,
+      ...clientArgs,
+    })
+  }
+
+  async executeTransaction(
+    args: ExecuteSafeTransactionConfig,
+  ): Promise<bigint> {
+    const gasEstimate = await this._executeTransaction(args)
+    if (!this._isBigInt(gasEstimate)) throw new Error('Invalid response')
+
+    return gasEstimate
+  }
+}
+
+// eslint-disable-next-line @typescript-eslint/no-unsafe-declaration-merging
+interface SafeGasEstimates extends BaseGasEstimatesMixin {}
+applyMixins(SafeGasEstimates, [BaseGasEstimatesMixin])
+
+class SafeSimulation extends SafeTransactions {
+  constructor(clientArgs: SplitsClientConfig) {
+    super({
+      transactionType: TransactionType.Simulation,
+      ...clientArgs,
+    })
+  }
+
+  async executeTransaction(
+    args: ExecuteSafeTransactionConfig,
+  ): Promise<SimulationResult> {
+    const simulationResult = await this._executeTransaction(args)
+    if (!this._isSimulationResult(simulationResult))
+      throw new Error('Invalid response')
+
+    return simulationResult
+  }
+}
+
+class SafeCallData extends SafeTransactions {
+  constructor(clientArgs: SplitsClientConfig) {
+    super({
+      transactionType: TransactionType.CallData,
+      ...clientArgs,
+    })
+  }
+
+  async executeTransaction(
+    args: ExecuteSafeTransactionConfig,
+  ): Promise<CallData> {
+    const callData = await this._executeTransaction(args)
+    if (!this._isCallData(callData)) throw new Error('Invalid response')
+
+    return callData
+  }
+}
@@ -0,0 +1,141 @@
+import {
+  Account,
+  Address,
+  Chain,
+  PublicClient,
+  Transport,
+  WalletClient,
+  encodeAbiParameters,
+  encodeErrorResult,
+  encodeEventTopics,
+  erc20Abi,
+} from 'viem'
+
+import { SplitsClient } from './index'
+import { getWarehouseAddress } from '../constants'
+import { warehouseAbi } from '../constants/abi/warehouse'
+import { PausedError, SimulationRevertedError } from '../errors'
+
+const OWNER: Address = '0xD57f3Fa0b49E91eaA20e739c874Ae273Bcf2D7Aa'
+const TOKEN: Address = '0xE1D4BCd79552d815Eb5A8Fb2479Ad770E15BB17e'
+const SENDER: Address = '0xE9762Fb8D5347474375Ce00628d5a13D8AD45A99'
+
+const transferLog = {
+  address: TOKEN,
+  topics: encodeEventTopics({
+    abi: erc20Abi,
+    eventName: 'Transfer',
+    args: { from: getWarehouseAddress(), to: OWNER },
+  }),
+  data: encodeAbiParameters([{ type: 'uint256' }], [BigInt(1000)]),
+  blockNumber: '0x1',
+  logIndex: '0x0',
+  transactionIndex: '0x0',
+  blockHash: null,
+  transactionHash: null,
+}
+
+const createPublicClient = (simulatedCall: object) => {
+  return {
+    chain: {
+      id: 1,
+    },
+    request: jest.fn(async () => [{ calls: [simulatedCall] }]),
+  } as unknown as PublicClient<Transport, Chain>
+}
+const walletClient = {
+  account: {
+    address: SENDER,
+  },
+  chain: {
+    id: 1,
+  },
+} as unknown as WalletClient<Transport, Chain, Account>
+
+describe('Simulation', () => {
+  test('Returns decoded events and balance changes', async () => {
+    const publicClient = createPublicClient({
+      status: '0x1',
+      returnData: '0x',
+      gasUsed: '0x5208',
+      logs: [transferLog],
+    })
+    const client = new SplitsClient({ chainId: 1, publicClient, walletClient })
+
+    const result = await client.simulate.warehouse.withdraw({
+      ownerAddress: OWNER,
+      tokenAddress: TOKEN,
+    })
+
+    const request = (publicClient.request as jest.Mock).mock.calls[0][0]
+    expect(request.method).toEqual('eth_simulateV1')
+    expect(request.params[0].traceTransfers).toEqual(true)
+    expect(request.params[0].blockStateCalls[0].calls[0]).toEqual(
+      expect.objectContaining({ from: SENDER, to: getWarehouseAddress() }),
+    )
+
+    expect(result.gasUsed).toEqual(BigInt(21000))
+    expect(result.events.map((event) => event.eventName)).toEqual(['Transfer'])
+    expect(result.balanceChanges).toEqual([
+      {
+        token: TOKEN,
+        account: getWarehouseAddress(),
+        amount: BigInt(-1000),
+        warehouse: false,
+      },
+      { token: TOKEN, account: OWNER, amount: BigInt(1000), warehouse: false },
+    ])
+  })
+
+  test('Reverts are decoded into a typed error', async () => {
+    const publicClient = createPublicClient({
+      status: '0x0',
+      returnData: encodeErrorResult({
+        abi: warehouseAbi,
+        errorName: 'WithdrawalPaused',
+        args: [OWNER],
+      }),
+      gasUsed: '0x0',
+      logs: [],
+      error: { code: 3, message: 'execution reverted' },
+    })
+    const client = new SplitsClient({ chainId: 1, publicClient, walletClient })
+
+    const error = await client.simulate.warehouse
+      .withdraw({ ownerAddress: OWNER, tokenAddress: TOKEN })
+      .catch((e) => e)
+
+    expect(error).toBeInstanceOf(PausedError)
+    expect(error.errorName).toEqual('WithdrawalPaused')
+    expect(error.cause).toBeInstanceOf(SimulationRevertedError)
+  })
+
+  test('Every write client can be simulated', async () => {
+    const publicClient = createPublicClient({
+      status: '0x1',
+      returnData: '0x',
+      gasUsed: '0x5208',
+      logs: [],
+    })
+    const client = new SplitsClient({ chainId: 1, publicClient, walletClient })
+
+    const result = await client.simulate.vesting.releaseVestedFunds({
+      vestingModuleAddress: OWNER,
+      streamIds: ['1'],
+    })
+
+    expect(result.gasUsed).toEqual(BigInt(21000))
+    expect(Object.keys(client.simulate).sort()).toEqual([
+      'liquidSplits',
+      'passThroughWallet',
+      'safe',
+      'splitV1',
+      'splitV2',
+      'swapper',
+      'templates',
+      'vesting',
+      'warehouse',
+      'waterfall',
+    ])
+  })
+})
@@ -39,7 +39,9 @@ import {
 } from '../constants/abi/splitMain'
 import {
   AccountNotFoundError,
+  InvalidArgumentError,
   InvalidAuthError,
+  NoopUpdateError,
   TransactionFailedError,
   UnsupportedChainIdError,
 } from '../errors'
@@ -51,12 +53,15 @@ import type {
   CancelControlTransferConfig,
   CreateSplitConfig,
   DistributeTokenConfig,
+  EnsureSplitResult,
   FormattedSplitEarnings,
   GetSplitBalanceConfig,
   InitiateControlTransferConfig,
   MakeSplitImmutableConfig,
   Split,
   SplitRecipient,
+  SplitUpdateDiff,
+  SimulationResult,
   SplitsClientConfig,
   SplitsPublicClient,
   TransactionConfig,
@@ -72,6 +77,7 @@ import {
   getRecipientSortedAddressesAndAllocations,
   getSplitCreateAndUpdateLogs,
 } from '../utils'
+import { getSplitUpdateDiff } from '../utils/splitUpdate'
 import { validateAddress, validateSplitInputs } from '../utils/validation'
 import {
   BaseClientMixin,
@@ -98,6 +104,7 @@ class SplitV1Transactions extends BaseTransactions {
   constructor(transactionClientArgs: SplitsClientConfig & TransactionConfig) {
     super({
       supportedChainIds: SPLITS_SUPPORTED_CHAIN_IDS,
+      deploymentContracts: ['splitMain'],
       ...transactionClientArgs,
     })
   }
@@ -110,7 +117,7 @@ class SplitV1Transactions extends BaseTransactions {
     transactionOverrides = {},
   }: CreateSplitConfig): Promise<TransactionFormat> {
     validateSplitInputs({ recipients, distributorFeePercent, controller })
-    if (this._shouldRequireWalletClient) this._requireWalletClient()
+    if (this._shouldRequireWalletClient) this._requireWalletClient(chainId)
 
     const [accounts, percentAllocations] =
       getRecipientSortedAddressesAndAllocations(recipients)
@@ -119,10 +126,11 @@ class SplitV1Transactions extends BaseTransactions {
     const functionChainId = this._getFunctionChainId(chainId)
 
     const result = await this._executeContractFunction({
-      contractAddress: getSplitMainAddress(functionChainId),
+      contractAddress: getSplitMainAddress(functionChainId, this._deployments),
       contractAbi: this._getSplitMainAbi(functionChainId),
       functionName: 'createSplit',
       functionArgs: [accounts, percentAllocations, distributorFee, controller],
+      chainId: functionChainId,
       transactionOverrides,
     })
 
@@ -134,14 +142,25 @@ class SplitV1Transactions extends BaseTransactions {
     recipients,
     distributorFeePercent,
     chainId,
+    rejectNoopUpdate,
     transactionOverrides = {},
   }: UpdateSplitConfig): Promise<TransactionFormat> {
     validateAddress(splitAddress)
     validateSplitInputs({ recipients, distributorFeePercent })
+    if (rejectNoopUpdate) {
+      const { hasChanges } = await this._getUpdateSplitDiff({
+        splitAddress,
+        recipients,
+        distributorFeePercent,
+        chainId,
+      })
+      if (!hasChanges) throw new NoopUpdateError(splitAddress)
+    }
 
+    let safeAddress: Address | undefined
     if (this._shouldRequireWalletClient) {
-      this._requireWalletClient()
-      await this._requireController(splitAddress)
+      this._requireWalletClient(chainId)
+      safeAddress = await this._requireController(splitAddress, chainId)
     }
 
     const functionChainId = this._getFunctionChainId(chainId)
@@ -151,7 +170,7 @@ class SplitV1Transactions extends BaseTransactions {
     const distributorFee = getBigIntFromPercent(distributorFeePercent)
 
     const result = await this._executeContractFunction({
-      contractAddress: getSplitMainAddress(functionChainId),
+      contractAddress: getSplitMainAddress(functionChainId, this._deployments),
       contractAbi: this._getSplitMainAbi(functionChainId),
       functionName: 'updateSplit',
       functionArgs: [
@@ -160,12 +179,46 @@ class SplitV1Transactions extends BaseTransactions {
         percentAllocations,
         distributorFee,
       ],
+      chainId: functionChainId,
       transactionOverrides,
+      safeAddress,
     })
 
     return result
   }
 
+  protected async _getUpdateSplitDiff({
+    splitAddress,
+    recipients,
+    distributorFeePercent,
+    chainId,
+  }: Pick<
+    UpdateSplitConfig,
+    'splitAddress' | 'recipients' | 'distributorFeePercent' | 'chainId'
+  >): Promise<SplitUpdateDiff> {
+    validateAddress(splitAddress)
+    const functionChainId = this._getReadOnlyFunctionChainId(chainId)
+
+    const split = this._dataClient
+      ? await this._dataClient.getSplitMetadata({
+          chainId: functionChainId,
+          splitAddress,
+        })
+      : (
+          await this._getSplitMetadataViaProvider({
+            splitAddress: getAddress(splitAddress),
+            chainId: functionChainId,
+          })
+        ).split
+
+    return getSplitUpdateDiff({
+      split,
+      chainId: functionChainId,
+      recipients,
+      distributorFeePercent,
+    })
+  }
+
   protected async _distributeTokenTransaction({
     splitAddress,
     token,
@@ -176,13 +229,11 @@ class SplitV1Transactions extends BaseTransactions {
   }: DistributeTokenConfig): Promise<TransactionFormat> {
     validateAddress(splitAddress)
     validateAddress(token)
-    if (this._shouldRequireWalletClient) this._requireWalletClient()
+    if (this._shouldRequireWalletClient) this._requireWalletClient(chainId)
 
     const distributorPayoutAddress = distributorAddress
       ? distributorAddress
-      : this._walletClient?.account
-      ? this._walletClient.account.address
-      : zeroAddress
+      : this._getWalletClient(chainId)?.account?.address ?? zeroAddress
     validateAddress(distributorPayoutAddress)
 
     const functionChainId = this._getFunctionChainId(chainId)
@@ -212,7 +263,7 @@ class SplitV1Transactions extends BaseTransactions {
     const distributorFee = getBigIntFromPercent(split.distributorFeePercent)
 
     const result = await this._executeContractFunction({
-      contractAddress: getSplitMainAddress(functionChainId),
+      contractAddress: getSplitMainAddress(functionChainId, this._deployments),
       contractAbi: this._getSplitMainAbi(functionChainId),
       functionName: token === zeroAddress ? 'distributeETH' : 'distributeERC20',
       functionArgs:
@@ -232,6 +283,7 @@ class SplitV1Transactions extends BaseTransactions {
               distributorFee,
               distributorPayoutAddress,
             ],
+      chainId: functionChainId,
       transactionOverrides,
     })
 
@@ -251,9 +303,10 @@ class SplitV1Transactions extends BaseTransactions {
     validateAddress(token)
     validateSplitInputs({ recipients, distributorFeePercent })
 
+    let safeAddress: Address | undefined
     if (this._shouldRequireWalletClient) {
-      this._requireWalletClient()
-      await this._requireController(splitAddress)
+      this._requireWalletClient(chainId)
+      safeAddress = await this._requireController(splitAddress, chainId)
     }
 
     const functionChainId = this._getFunctionChainId(chainId)
@@ -263,13 +316,11 @@ class SplitV1Transactions extends BaseTransactions {
     const distributorFee = getBigIntFromPercent(distributorFeePercent)
     const distributorPayoutAddress = distributorAddress
       ? distributorAddress
-      : this._walletClient?.account
-      ? this._walletClient.account.address
-      : zeroAddress
+      : this._getWalletClient(chainId)?.account?.address ?? zeroAddress
     validateAddress(distributorPayoutAddress)
 
     const result = await this._executeContractFunction({
-      contractAddress: getSplitMainAddress(functionChainId),
+      contractAddress: getSplitMainAddress(functionChainId, this._deployments),
       contractAbi: this._getSplitMainAbi(functionChainId),
       functionName:
         token === zeroAddress
@@ -292,7 +343,9 @@ class SplitV1Transactions extends BaseTransactions {
               distributorFee,
               distributorPayoutAddress,
             ],
+      chainId: functionChainId,
       transactionOverrides,
+      safeAddress,
     })
 
     return result
@@ -305,7 +358,7 @@ class SplitV1Transactions extends BaseTransactions {
     transactionOverrides = {},
   }: WithdrawFundsConfig): Promise<TransactionFormat> {
     validateAddress(address)
-    if (this._shouldRequireWalletClient) this._requireWalletClient()
+    if (this._shouldRequireWalletClient) this._requireWalletClient(chainId)
 
     const withdrawEth = tokens.includes(zeroAddress) ? 1 : 0
     const erc20s = tokens.filter((token) => token !== zeroAddress)
@@ -313,10 +366,11 @@ class SplitV1Transactions extends BaseTransactions {
     const functionChainId = this._getFunctionChainId(chainId)
 
     const result = await this._executeContractFunction({
-      contractAddress: getSplitMainAddress(functionChainId),
+      contractAddress: getSplitMainAddress(functionChainId, this._deployments),
       contractAbi: this._getSplitMainAbi(functionChainId),
       functionName: 'withdraw',
       functionArgs: [address, withdrawEth, erc20s],
+      chainId: functionChainId,
       transactionOverrides,
     })
 
@@ -331,19 +385,22 @@ class SplitV1Transactions extends BaseTransactions {
   }: InitiateControlTransferConfig): Promise<TransactionFormat> {
     validateAddress(splitAddress)
 
+    let safeAddress: Address | undefined
     if (this._shouldRequireWalletClient) {
-      this._requireWalletClient()
-      await this._requireController(splitAddress)
+      this._requireWalletClient(chainId)
+      safeAddress = await this._requireController(splitAddress, chainId)
     }
 
     const functionChainId = this._getFunctionChainId(chainId)
 
     const result = await this._executeContractFunction({
-      contractAddress: getSplitMainAddress(functionChainId),
+      contractAddress: getSplitMainAddress(functionChainId, this._deployments),
       contractAbi: this._getSplitMainAbi(functionChainId),
       functionName: 'transferControl',
       functionArgs: [splitAddress, newController],
+      chainId: functionChainId,
       transactionOverrides,
+      safeAddress,
     })
 
     return result
@@ -356,19 +413,22 @@ class SplitV1Transactions extends BaseTransactions {
   }: CancelControlTransferConfig): Promise<TransactionFormat> {
     validateAddress(splitAddress)
 
+    let safeAddress: Address | undefined
     if (this._shouldRequireWalletClient) {
-      this._requireWalletClient()
-      await this._requireController(splitAddress)
+      this._requireWalletClient(chainId)
+      safeAddress = await this._requireController(splitAddress, chainId)
     }
 
     const functionChainId = this._getFunctionChainId(chainId)
 
     const result = await this._executeContractFunction({
-      contractAddress: getSplitMainAddress(functionChainId),
+      contractAddress: getSplitMainAddress(functionChainId, this._deployments),
       contractAbi: this._getSplitMainAbi(functionChainId),
       functionName: 'cancelControlTransfer',
       functionArgs: [splitAddress],
+      chainId: functionChainId,
       transactionOverrides,
+      safeAddress,
     })
 
     return result
@@ -381,19 +441,25 @@ class SplitV1Transactions extends BaseTransactions {
   }: AcceptControlTransferConfig): Promise<TransactionFormat> {
     validateAddress(splitAddress)
 
+    let safeAddress: Address | undefined
     if (this._shouldRequireWalletClient) {
-      this._requireWalletClient()
-      await this._requireNewPotentialController(splitAddress)
+      this._requireWalletClient(chainId)
+      safeAddress = await this._requireNewPotentialController(
+        splitAddress,
+        chainId,
+      )
     }
 
     const functionChainId = this._getFunctionChainId(chainId)
 
     const result = await this._executeContractFunction({
-      contractAddress: getSplitMainAddress(functionChainId),
+      contractAddress: getSplitMainAddress(functionChainId, this._deployments),
       contractAbi: this._getSplitMainAbi(functionChainId),
       functionName: 'acceptControl',
       functionArgs: [splitAddress],
+      chainId: functionChainId,
       transactionOverrides,
+      safeAddress,
     })
 
     return result
@@ -406,19 +472,22 @@ class SplitV1Transactions extends BaseTransactions {
   }: MakeSplitImmutableConfig): Promise<TransactionFormat> {
     validateAddress(splitAddress)
 
+    let safeAddress: Address | undefined
     if (this._shouldRequireWalletClient) {
-      this._requireWalletClient()
-      await this._requireController(splitAddress)
+      this._requireWalletClient(chainId)
+      safeAddress = await this._requireController(splitAddress, chainId)
     }
 
     const functionChainId = this._getFunctionChainId(chainId)
 
     const result = await this._executeContractFunction({
-      contractAddress: getSplitMainAddress(functionChainId),
+      contractAddress: getSplitMainAddress(functionChainId, this._deployments),
       contractAbi: this._getSplitMainAbi(functionChainId),
       functionName: 'makeSplitImmutable',
       functionArgs: [splitAddress],
+      chainId: functionChainId,
       transactionOverrides,
+      safeAddress,
     })
 
     return result
@@ -430,6 +499,7 @@ class SplitV1Transactions extends BaseTransactions {
       tokens,
       recipientAddresses,
       distributorAddress,
+      chainId,
     }: BatchDistributeAndWithdrawConfig,
     distributeFunc: (args: DistributeTokenConfig) => Promise<CallData>,
     withdrawFunc: (args: WithdrawFundsConfig) => Promise<CallData>,
@@ -439,14 +509,12 @@ class SplitV1Transactions extends BaseTransactions {
     recipientAddresses.map((address) => validateAddress(address))
 
     if (this._shouldRequireWalletClient) {
-      this._requireWalletClient()
+      this._requireWalletClient(chainId)
     }
 
     const distributorPayoutAddress = distributorAddress
       ? distributorAddress
-      : this._walletClient?.account
-      ? this._walletClient.account.address
-      : zeroAddress
+      : this._getWalletClient(chainId)?.account?.address ?? zeroAddress
     validateAddress(distributorPayoutAddress)
 
     const distributeCalls = await Promise.all(
@@ -455,17 +523,21 @@ class SplitV1Transactions extends BaseTransactions {
           splitAddress,
           token,
           distributorAddress: distributorPayoutAddress,
+          chainId,
         })
       }),
     )
     const withdrawCalls = await Promise.all(
       recipientAddresses.map(async (address) => {
-        return await withdrawFunc({ address, tokens })
+        return await withdrawFunc({ address, tokens, chainId })
       }),
     )
 
     const multicallData = [...distributeCalls, ...withdrawCalls]
-    const result = await this._multicallTransaction({ calls: multicallData })
+    const result = await this._multicallTransaction({
+      calls: multicallData,
+      chainId,
+    })
 
     return result
   }
@@ -484,7 +556,7 @@ class SplitV1Transactions extends BaseTransactions {
     tokens.map((token) => validateAddress(token))
 
     if (this._shouldRequireWalletClient) {
-      this._requireWalletClient()
+      this._requireWalletClient(chainId)
     }
 
     this._requireDataClient()
@@ -505,6 +577,7 @@ class SplitV1Transactions extends BaseTransactions {
         tokens,
         recipientAddresses,
         distributorAddress,
+        chainId,
       },
       distributeFunc,
       withdrawFunc,
@@ -565,10 +638,11 @@ class SplitV1Transactions extends BaseTransactions {
         publicClient,
         splitCreatedEvent: splitV1CreatedEvent,
         splitUpdatedEvent: splitV1UpdatedEvent,
-        addresses: [getSplitMainAddress(chainId)],
-        startBlockNumber: getSplitV1StartBlock(chainId),
+        addresses: [getSplitMainAddress(chainId, this._deployments)],
+        startBlockNumber: getSplitV1StartBlock(chainId, this._deployments),
         cachedBlocks: cachedData?.blocks,
         defaultBlockRange: cachedData?.blockRange,
+        deployments: this._deployments,
       })
 
     if (!createLog)
@@ -660,35 +734,52 @@ class SplitV1Transactions extends BaseTransactions {
     return split
   }
 
-  private async _requireController(splitAddress: string) {
-    const chainId = this._walletClient!.chain!.id
-    const splitMainContract = this._getSplitMainContract(chainId)
+  private async _requireController(
+    splitAddress: string,
+    chainId?: number,
+  ): Promise<Address | undefined> {
+    const functionChainId = this._getFunctionChainId(chainId)
+    const splitMainContract = this._getSplitMainContract(functionChainId)
     const controller = await splitMainContract.read.getController([
       getAddress(splitAddress),
     ])
 
-    const walletAddress = this._walletClient!.account?.address
+    const walletAddress = this._getSenderAddress(chainId)
+
+    if (controller.toLowerCase() !== walletAddress.toLowerCase()) {
+      const safeAddress = await this._getSafeOwner(controller, functionChainId)
+      if (safeAddress) return safeAddress
 
-    if (controller.toLowerCase() !== walletAddress?.toLowerCase())
       throw new InvalidAuthError(
         `Action only available to the split controller. Split id: ${splitAddress}, split controller: ${controller}, wallet address: ${walletAddress}`,
       )
+    }
   }
 
-  private async _requireNewPotentialController(splitAddress: string) {
-    const chainId = this._walletClient!.chain!.id
-    const splitMainContract = this._getSplitMainContract(chainId)
+  private async _requireNewPotentialController(
+    splitAddress: string,
+    chainId?: number,
+  ): Promise<Address | undefined> {
+    const functionChainId = this._getFunctionChainId(chainId)
+    const splitMainContract = this._getSplitMainContract(functionChainId)
     const newPotentialController =
       await splitMainContract.read.getNewPotentialController([
         getAddress(splitAddress),
       ])
 
-    const walletAddress = this._walletClient!.account?.address
+    const walletAddress = this._getSenderAddress(chainId)
+
+    if (newPotentialController.toLowerCase() !== walletAddress.toLowerCase()) {
+      const safeAddress = await this._getSafeOwner(
+        newPotentialController,
+        functionChainId,
+      )
+      if (safeAddress) return safeAddress
 
-    if (newPotentialController.toLowerCase() !== walletAddress?.toLowerCase())
       throw new InvalidAuthError(
         `Action only available to the split's new potential controller. Split new potential controller: ${newPotentialController}. Wallet address: ${walletAddress}`,
       )
+    }
   }
 
   protected _getSplitMainContract(
@@ -697,7 +788,7 @@ class SplitV1Transactions extends BaseTransactions {
     const publicClient = this._getPublicClient(chainId)
 
     return getContract({
-      address: getSplitMainAddress(chainId),
+      address: getSplitMainAddress(chainId, this._deployments),
       abi: splitMainEthereumAbi,
       client: publicClient,
     })
@@ -706,7 +797,11 @@ class SplitV1Transactions extends BaseTransactions {
   protected _getSplitMainAbi(chainId: number) {
     if (ETHEREUM_CHAIN_IDS.includes(chainId)) {
       return splitMainEthereumAbi
-    } else if (polygonAbiChainIds.includes(chainId)) {
+    } else if (
+      polygonAbiChainIds.includes(chainId) ||
+      this._deployments[chainId]?.splitMain !== undefined
+    ) {
+      // Split mains passed in a deployment run the current contract
       return splitMainPolygonAbi
     } else
       throw new UnsupportedChainIdError(chainId, SPLITS_SUPPORTED_CHAIN_IDS)
@@ -717,6 +812,7 @@ class SplitV1Transactions extends BaseTransactions {
 export class SplitV1Client extends SplitV1Transactions {
   readonly callData: SplitV1CallData
   readonly estimateGas: SplitV1GasEstimates
+  readonly simulate: SplitV1Simulation
 
   constructor(clientArgs: SplitsClientConfig) {
     super({
@@ -726,6 +822,7 @@ export class SplitV1Client extends SplitV1Transactions {
 
     this.callData = new SplitV1CallData(clientArgs)
     this.estimateGas = new SplitV1GasEstimates(clientArgs)
+    this.simulate = new SplitV1Simulation(clientArgs)
   }
 
   getEventTopics(chainId: number) {
@@ -831,6 +928,8 @@ export class SplitV1Client extends SplitV1Transactions {
     )
     const events = await this.getTransactionEvents({
       txHash,
+      chainId: createSplitArgs.chainId,
+      tracking: createSplitArgs.tracking,
       eventTopics: eventTopics.createSplit,
     })
     const event = events.length > 0 ? events[0] : undefined
@@ -863,6 +962,49 @@ export class SplitV1Client extends SplitV1Transactions {
     throw new TransactionFailedError()
   }
 
+  // Creates the immutable split unless it's already deployed. Immutable splits
+  // are cloned to a deterministic address, so a create that loses a race with
+  // another create of the same split reverts, and that counts as deployed.
+  async ensureSplit(
+    createSplitArgs: CreateSplitConfig,
+  ): Promise<EnsureSplitResult> {
+    const { recipients, distributorFeePercent, controller, chainId } =
+      createSplitArgs
+    if (controller && controller !== zeroAddress)
+      throw new InvalidArgumentError(
+        'Only immutable splits have a deterministic address, remove the controller to ensure a split',
+      )
+
+    const { splitAddress, splitExists } =
+      await this.predictImmutableSplitAddress({
+        recipients,
+        distributorFeePercent,
+        chainId,
+      })
+    if (splitExists) return { address: splitAddress, created: false }
+
+    try {
+      const { txHash } =
+        await this._submitCreateSplitTransaction(createSplitArgs)
+      await this.getTransactionEvents({
+        txHash,
+        chainId,
+        tracking: createSplitArgs.tracking,
+        eventTopics: [],
+        includeAll: true,
+      })
+
+      return { address: splitAddress, created: true, txHash }
+    } catch (error) {
+      const { splitExists: deployed } = await this.predictImmutableSplitAddress(
+        { recipients, distributorFeePercent, chainId },
+      )
+      if (deployed) return { address: splitAddress, created: false }
+
+      throw error
+    }
+  }
+
   async _submitUpdateSplitTransaction(
     updateSplitArgs: UpdateSplitConfig,
   ): Promise<{
@@ -884,6 +1026,8 @@ export class SplitV1Client extends SplitV1Transactions {
     )
     const events = await this.getTransactionEvents({
       txHash,
+      chainId: updateSplitArgs.chainId,
+      tracking: updateSplitArgs.tracking,
       eventTopics: eventTopics.updateSplit,
     })
     const event = events.length > 0 ? events[0] : undefined
@@ -919,6 +1063,8 @@ export class SplitV1Client extends SplitV1Transactions {
         : eventTopics.distributeToken[1]
     const events = await this.getTransactionEvents({
       txHash,
+      chainId: distributeTokenArgs.chainId,
+      tracking: distributeTokenArgs.tracking,
       eventTopics: [eventTopic],
     })
     const event = events.length > 0 ? events[0] : undefined
@@ -960,6 +1106,8 @@ export class SplitV1Client extends SplitV1Transactions {
         : eventTopics.updateSplitAndDistributeToken[2]
     const events = await this.getTransactionEvents({
       txHash,
+      chainId: updateAndDistributeArgs.chainId,
+      tracking: updateAndDistributeArgs.tracking,
       eventTopics: [eventTopic],
     })
     const event = events.length > 0 ? events[0] : undefined
@@ -989,6 +1137,8 @@ export class SplitV1Client extends SplitV1Transactions {
     )
     const events = await this.getTransactionEvents({
       txHash,
+      chainId: withdrawArgs.chainId,
+      tracking: withdrawArgs.tracking,
       eventTopics: eventTopics.withdrawFunds,
     })
     const event = events.length > 0 ? events[0] : undefined
@@ -1022,6 +1172,8 @@ export class SplitV1Client extends SplitV1Transactions {
     )
     const events = await this.getTransactionEvents({
       txHash,
+      chainId: initiateTransferArgs.chainId,
+      tracking: initiateTransferArgs.tracking,
       eventTopics: eventTopics.initiateControlTransfer,
     })
     const event = events.length > 0 ? events[0] : undefined
@@ -1055,6 +1207,8 @@ export class SplitV1Client extends SplitV1Transactions {
     )
     const events = await this.getTransactionEvents({
       txHash,
+      chainId: cancelTransferArgs.chainId,
+      tracking: cancelTransferArgs.tracking,
       eventTopics: eventTopics.cancelControlTransfer,
     })
     const event = events.length > 0 ? events[0] : undefined
@@ -1088,6 +1242,8 @@ export class SplitV1Client extends SplitV1Transactions {
     )
     const events = await this.getTransactionEvents({
       txHash,
+      chainId: acceptTransferArgs.chainId,
+      tracking: acceptTransferArgs.tracking,
       eventTopics: eventTopics.acceptControlTransfer,
     })
     const event = events.length > 0 ? events[0] : undefined
@@ -1120,6 +1276,8 @@ export class SplitV1Client extends SplitV1Transactions {
     )
     const events = await this.getTransactionEvents({
       txHash,
+      chainId: makeImmutableArgs.chainId,
+      tracking: makeImmutableArgs.tracking,
       eventTopics: eventTopics.makeSplitImmutable,
     })
     const event = events.length > 0 ? events[0] : undefined
@@ -1145,6 +1303,8 @@ export class SplitV1Client extends SplitV1Transactions {
     )
     const events = await this.getTransactionEvents({
       txHash,
+      chainId: batchDistributeAndWithdrawArgs.chainId,
+      tracking: batchDistributeAndWithdrawArgs.tracking,
       eventTopics: eventTopics.distributeToken.concat(
         eventTopics.withdrawFunds,
       ),
@@ -1170,6 +1330,8 @@ export class SplitV1Client extends SplitV1Transactions {
     )
     const events = await this.getTransactionEvents({
       txHash,
+      chainId: batchDistributeAndWithdrawForAllArgs.chainId,
+      tracking: batchDistributeAndWithdrawForAllArgs.tracking,
       eventTopics: eventTopics.distributeToken.concat(
         eventTopics.withdrawFunds,
       ),
@@ -1231,7 +1393,10 @@ export class SplitV1Client extends SplitV1Transactions {
         Number(distributorFee),
       ])
 
-    const { hash } = await this.getHash({ splitAddress })
+    const { hash } = await this.getHash({
+      splitAddress,
+      chainId: functionChainId,
+    })
     const splitExists =
       hash !==
       '0x0000000000000000000000000000000000000000000000000000000000000000'
@@ -1365,6 +1530,13 @@ export class SplitV1Client extends SplitV1Transactions {
     return { split, blockRange }
   }
 
+  // What an update would change, to review before submitting it
+  async getUpdateSplitDiff(
+    updateSplitArgs: UpdateSplitConfig,
+  ): Promise<SplitUpdateDiff> {
+    return await this._getUpdateSplitDiff(updateSplitArgs)
+  }
+
   async getSplitActiveBalances({
     splitAddress,
     chainId,
@@ -1395,6 +1567,7 @@ export class SplitV1Client extends SplitV1Transactions {
       splitAddress,
       publicClient,
       fullTokenList: fullTokenList.map(getAddress),
+      deployments: this._deployments,
     })
 
     return {
@@ -1618,3 +1791,110 @@ class SplitV1CallData extends SplitV1Transactions {
     return callData
   }
 }
+
+class SplitV1Simulation extends SplitV1Transactions {
+  constructor(clientArgs: SplitsClientConfig) {
+    super({
+      transactionType: TransactionType.Simulation,
+      ...clientArgs,
+    })
+  }
+
+  async createSplit(
+    createSplitArgs: CreateSplitConfig,
+  ): Promise<SimulationResult> {
+    const simulationResult = await this._createSplitTransaction(createSplitArgs)
+    if (!this._isSimulationResult(simulationResult))
+      throw new Error('Invalid response')
+
+    return simulationResult
+  }
+
+  async updateSplit(
+    updateSplitArgs: UpdateSplitConfig,
+  ): Promise<SimulationResult> {
+    const simulationResult = await this._updateSplitTransaction(updateSplitArgs)
+    if (!this._isSimulationResult(simulationResult))
+      throw new Error('Invalid response')
+
+    return simulationResult
+  }
+
+  async distributeToken(
+    distributeTokenArgs: DistributeTokenConfig,
+  ): Promise<SimulationResult> {
+    const simulationResult =
+      await this._distributeTokenTransaction(distributeTokenArgs)
+    if (!this._isSimulationResult(simulationResult))
+      throw new Error('Invalid response')
+
+    return simulationResult
+  }
+
+  async updateSplitAndDistributeToken(
+    updateAndDistributeArgs: UpdateSplitAndDistributeTokenConfig,
+  ): Promise<SimulationResult> {
+    const simulationResult =
+      await this._updateSplitAndDistributeTokenTransaction(
+        updateAndDistributeArgs,
+      )
+    if (!this._isSimulationResult(simulationResult))
+      throw new Error('Invalid response')
+
+    return simulationResult
+  }
+
+  async withdrawFunds(
+    withdrawArgs: WithdrawFundsConfig,
+  ): Promise<SimulationResult> {
+    const simulationResult = await this._withdrawFundsTransaction(withdrawArgs)
+    if (!this._isSimulationResult(simulationResult))
+      throw new Error('Invalid response')
+
+    return simulationResult
+  }
+
+  async initiateControlTransfer(
+    initiateTransferArgs: InitiateControlTransferConfig,
+  ): Promise<SimulationResult> {
+    const simulationResult =
+      await this._initiateControlTransferTransaction(initiateTransferArgs)
+    if (!this._isSimulationResult(simulationResult))
+      throw new Error('Invalid response')
+
+    return simulationResult
+  }
+
+  async cancelControlTransfer(
+    cancelTransferArgs: CancelControlTransferConfig,
+  ): Promise<SimulationResult> {
+    const simulationResult =
+      await this._cancelControlTransferTransaction(cancelTransferArgs)
+    if (!this._isSimulationResult(simulationResult))
+      throw new Error('Invalid response')
+
+    return simulationResult
+  }
+
+  async acceptControlTransfer(
+    acceptTransferArgs: AcceptControlTransferConfig,
+  ): Promise<SimulationResult> {
+    const simulationResult =
+      await this._acceptControlTransferTransaction(acceptTransferArgs)
+    if (!this._isSimulationResult(simulationResult))
+      throw new Error('Invalid response')
+
+    return simulationResult
+  }
+
+  async makeSplitImmutable(
+    makeImmutableArgs: MakeSplitImmutableConfig,
+  ): Promise<SimulationResult> {
+    const simulationResult =
+      await this._makeSplitImmutableTransaction(makeImmutableArgs)
+    if (!this._isSimulationResult(simulationResult))
+      throw new Error('Invalid response')
+
+    return simulationResult
+  }
+}
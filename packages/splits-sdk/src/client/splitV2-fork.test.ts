@@ -709,6 +709,31 @@ describe('Split v2 reads', () => {
     return splitAddress
   }
 
+  describe('Find deterministic salt', () => {
+    test('deploys to the address found for the salt', async () => {
+      const sender = ALICE
+      const client = createClient(sender)
+      const pattern = { prefix: '00' }
+
+      const { salt, splitAddress, createSplitArgs } =
+        await client.findDeterministicSalt({
+          recipients: [
+            { address: ALICE, percentAllocation: 60 },
+            { address: BOB, percentAllocation: 40 },
+          ],
+          distributorFeePercent: 0,
+          ownerAddress: ALICE,
+          pattern,
+        })
+      const { splitAddress: deployedAddress } =
+        await client.createSplit(createSplitArgs)
+
+      expect(createSplitArgs.salt).toEqual(salt)
+      expect(getAddress(deployedAddress)).toEqual(splitAddress)
+      expect(splitAddress.slice(2, 4)).toEqual('00')
+    })
+  })
+
   describe('Predict deterministic address', () => {
     test('fails with no provider', async () => {
       const badClient = new SplitV2Client({
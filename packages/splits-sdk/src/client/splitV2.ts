@@ -10,7 +10,11 @@ import {
   encodeEventTopics,
   getAddress,
   getContract,
+  hashMessage,
+  hashTypedData,
   isAddress,
+  keccak256,
+  toHex,
   zeroAddress,
 } from 'viem'
 import {
@@ -32,19 +36,34 @@ import { splitV2ABI } from '../constants/abi/splitV2'
 import { splitV2FactoryABI } from '../constants/abi/splitV2Factory'
 import {
   AccountNotFoundError,
+  InvalidArgumentError,
   InvalidAuthError,
+  InvalidConfigError,
+  InvalidSplitSignatureError,
+  NoopUpdateError,
+  SaltNotFoundError,
   SaltRequired,
   TransactionFailedError,
 } from '../errors'
 import {
   CallData,
+  CreateSplitOnChainsResult,
   CreateSplitV2Config,
+  CrossChainSplitStatus,
   DistributeSplitConfig,
+  EnsureSplitResult,
+  FindSplitV2SaltConfig,
   FormattedSplitEarnings,
+  SaltMiningResult,
   SetPausedConfig,
+  SignMessageAsSplitConfig,
+  SignTypedDataAsSplitConfig,
   Split,
+  SplitSignature,
   SplitV2ExecCallsConfig,
+  SplitUpdateDiff,
   SplitV2Type,
+  SimulationResult,
   SplitsClientConfig,
   SplitsPublicClient,
   TransactionConfig,
@@ -67,6 +86,16 @@ import {
   BaseTransactions,
 } from './base'
 import { applyMixins } from './mixin'
+import {
+  getSaltFromIndex,
+  getSplitV2InitCodeHash,
+  getSplitV2SaltPreimagePrefix,
+  mineSplitV2Salt,
+  predictSplitV2Address,
+  validateSaltPattern,
+} from '../utils/saltMining'
+import { isMissingContractFunctionError } from '../utils/errors'
+import { getSplitUpdateDiff } from '../utils/splitUpdate'
 import { SplitV2Versions } from '../subgraph/types'
 import { splitV2o1FactoryAbi } from '../constants/abi'
 
@@ -83,6 +112,12 @@ class SplitV2Transactions extends BaseTransactions {
   constructor(transactionClientArgs: SplitsClientConfig & TransactionConfig) {
     super({
       supportedChainIds: SPLITS_V2_SUPPORTED_CHAIN_IDS,
+      deploymentContracts: [
+        'pullSplitFactory',
+        'pushSplitFactory',
+        'pullSplitV2o1Factory',
+        'pushSplitV2o1Factory',
+      ],
       ...transactionClientArgs,
     })
   }
@@ -116,7 +151,7 @@ class SplitV2Transactions extends BaseTransactions {
     validateAddress(controllerAddress)
     validateAddress(creatorAddress)
 
-    if (this._shouldRequireWalletClient) this._requireWalletClient()
+    if (this._shouldRequireWalletClient) this._requireWalletClient(chainId)
 
     const functionChainId = this._getFunctionChainId(chainId)
 
@@ -136,11 +171,20 @@ class SplitV2Transactions extends BaseTransactions {
     return this._executeContractFunction({
       contractAddress:
         v2Type === 'splitV2o1'
-          ? getSplitV2o1FactoryAddress(functionChainId, splitType)
-          : getSplitV2FactoryAddress(functionChainId, splitType),
+          ? getSplitV2o1FactoryAddress(
+              functionChainId,
+              splitType,
+              this._deployments,
+            )
+          : getSplitV2FactoryAddress(
+              functionChainId,
+              splitType,
+              this._deployments,
+            ),
       contractAbi: splitV2o1FactoryAbi,
       functionName,
       functionArgs,
+      chainId: functionChainId,
       transactionOverrides,
     })
   }
@@ -148,59 +192,74 @@ class SplitV2Transactions extends BaseTransactions {
   protected async _transferOwnership({
     splitAddress,
     newOwner: newController,
+    chainId,
     transactionOverrides = {},
   }: TransferOwnershipConfig): Promise<TransactionFormat> {
     validateAddress(splitAddress)
     validateAddress(newController)
 
-    if (this._shouldRequireWalletClient) this._requireWalletClient()
-    await this._requireOwner(splitAddress)
+    if (this._shouldRequireWalletClient) this._requireWalletClient(chainId)
+    const safeAddress = this._shouldRequireWalletClient
+      ? await this._requireOwner(splitAddress, chainId)
+      : undefined
 
     return this._executeContractFunction({
       contractAddress: splitAddress,
       contractAbi: splitV2ABI,
       functionName: 'transferOwnership',
       functionArgs: [newController],
+      chainId,
       transactionOverrides,
+      safeAddress,
     })
   }
 
   protected async _setPaused({
     splitAddress,
     paused,
+    chainId,
     transactionOverrides = {},
   }: SetPausedConfig): Promise<TransactionFormat> {
     validateAddress(splitAddress)
 
-    if (this._shouldRequireWalletClient) this._requireWalletClient()
-    await this._requireOwner(splitAddress)
+    if (this._shouldRequireWalletClient) this._requireWalletClient(chainId)
+    const safeAddress = this._shouldRequireWalletClient
+      ? await this._requireOwner(splitAddress, chainId)
+      : undefined
 
     return this._executeContractFunction({
       contractAddress: splitAddress,
       contractAbi: splitV2ABI,
       functionName: 'setPaused',
       functionArgs: [paused],
+      chainId,
       transactionOverrides,
+      safeAddress,
     })
   }
 
   protected async _execCalls({
     splitAddress,
     calls,
+    chainId,
     transactionOverrides = {},
   }: SplitV2ExecCallsConfig): Promise<TransactionFormat> {
     validateAddress(splitAddress)
     calls.map((call) => validateAddress(call.to))
 
-    if (this._shouldRequireWalletClient) this._requireWalletClient()
-    this._requireOwner(splitAddress)
+    if (this._shouldRequireWalletClient) this._requireWalletClient(chainId)
+    const safeAddress = this._shouldRequireWalletClient
+      ? await this._requireOwner(splitAddress, chainId)
+      : undefined
 
     return this._executeContractFunction({
       contractAddress: splitAddress,
       contractAbi: splitV2ABI,
       functionName: 'execCalls',
       functionArgs: [calls],
+      chainId,
       transactionOverrides,
+      safeAddress,
     })
   }
 
@@ -209,6 +268,8 @@ class SplitV2Transactions extends BaseTransactions {
     recipients,
     distributorFeePercent,
     totalAllocationPercent,
+    chainId,
+    rejectNoopUpdate,
     transactionOverrides = {},
   }: UpdateSplitV2Config): Promise<TransactionFormat> {
     const {
@@ -224,9 +285,21 @@ class SplitV2Transactions extends BaseTransactions {
 
     validateAddress(splitAddress)
     recipientAddresses.map((recipient) => validateAddress(recipient))
+    if (rejectNoopUpdate) {
+      const { hasChanges } = await this._getUpdateSplitDiff({
+        splitAddress,
+        recipients,
+        distributorFeePercent,
+        totalAllocationPercent,
+        chainId,
+      })
+      if (!hasChanges) throw new NoopUpdateError(splitAddress)
+    }
 
-    if (this._shouldRequireWalletClient) this._requireWalletClient()
-    this._requireOwner(splitAddress)
+    if (this._shouldRequireWalletClient) this._requireWalletClient(chainId)
+    const safeAddress = this._shouldRequireWalletClient
+      ? await this._requireOwner(splitAddress, chainId)
+      : undefined
 
     return this._executeContractFunction({
       contractAddress: splitAddress,
@@ -240,15 +313,56 @@ class SplitV2Transactions extends BaseTransactions {
           distributionIncentive,
         },
       ],
+      chainId,
       transactionOverrides,
+      safeAddress,
+    })
+  }
+
+  protected async _getUpdateSplitDiff({
+    splitAddress,
+    recipients,
+    distributorFeePercent,
+    totalAllocationPercent,
+    chainId,
+  }: Pick<
+    UpdateSplitV2Config,
+    | 'splitAddress'
+    | 'recipients'
+    | 'distributorFeePercent'
+    | 'totalAllocationPercent'
+    | 'chainId'
+  >): Promise<SplitUpdateDiff> {
+    validateAddress(splitAddress)
+    const functionChainId = this._getReadOnlyFunctionChainId(chainId)
+
+    const split = this._dataClient
+      ? await this._dataClient.getSplitMetadata({
+          chainId: functionChainId,
+          splitAddress,
+        })
+      : (
+          await this._getSplitMetadataViaProvider({
+            splitAddress,
+            chainId: functionChainId,
+          })
+        ).split
+
+    return getSplitUpdateDiff({
+      split,
+      chainId: functionChainId,
+      recipients,
+      distributorFeePercent,
+      totalAllocationPercent,
     })
   }
 
   protected async _distribute({
     splitAddress,
     tokenAddress: token,
-    distributorAddress = this._walletClient?.account?.address as Address,
     chainId,
+    distributorAddress = this._getWalletClient(chainId)?.account
+      ?.address as Address,
     splitFields,
     transactionOverrides = {},
   }: DistributeSplitConfig): Promise<TransactionFormat> {
@@ -256,7 +370,7 @@ class SplitV2Transactions extends BaseTransactions {
     validateAddress(token)
     validateAddress(distributorAddress)
 
-    if (this._shouldRequireWalletClient) this._requireWalletClient()
+    if (this._shouldRequireWalletClient) this._requireWalletClient(chainId)
 
     const functionChainId = this._getFunctionChainId(chainId)
 
@@ -303,6 +417,7 @@ class SplitV2Transactions extends BaseTransactions {
         token === zeroAddress ? NATIVE_TOKEN_ADDRESS : token,
         distributorAddress,
       ],
+      chainId: functionChainId,
       transactionOverrides,
       value: ZERO,
     })
@@ -344,19 +459,18 @@ class SplitV2Transactions extends BaseTransactions {
     splitAddress: Address
     chainId: number
   }): Promise<SplitV2Versions> {
-    try {
-      const [, name, version] = await this._getSplitV2Contract(
-        splitAddress,
-        chainId,
-      ).read.eip712Domain()
-
-      if (name !== 'splitWallet') throw new Error()
-
-      return version === '2' ? 'splitV2' : 'splitV2o1'
-    } catch {
-      // Split does not exist
+    // Rpc failures are passed on, only a missing or different contract means
+    // the split does not exist
+    const eip712Domain = await this._getSplitV2Contract(splitAddress, chainId)
+      .read.eip712Domain()
+      .catch((error) => {
+        if (isMissingContractFunctionError(error)) return undefined
+        throw error
+      })
+    if (!eip712Domain || eip712Domain[1] !== 'splitWallet')
       throw new AccountNotFoundError('Split', splitAddress, chainId)
-    }
+
+    return eip712Domain[2] === '2' ? 'splitV2' : 'splitV2o1'
   }
 
   protected async _getSplitMetadataViaProvider({
@@ -388,13 +502,25 @@ class SplitV2Transactions extends BaseTransactions {
         splitUpdatedEvent: splitV2UpdatedEvent,
         addresses: [
           formattedSplitAddress,
-          getSplitV2FactoryAddress(chainId, SplitV2Type.Pull),
-          getSplitV2FactoryAddress(chainId, SplitV2Type.Push),
+          getSplitV2FactoryAddress(
+            chainId,
+            SplitV2Type.Pull,
+            this._deployments,
+          ),
+          getSplitV2FactoryAddress(
+            chainId,
+            SplitV2Type.Push,
+            this._deployments,
+          ),
         ],
-        startBlockNumber: getSplitV2FactoriesStartBlock(chainId),
+        startBlockNumber: getSplitV2FactoriesStartBlock(
+          chainId,
+          this._deployments,
+        ),
         cachedBlocks: cachedData?.blocks,
         defaultBlockRange: cachedData?.blockRange,
         splitV2Version: version,
+        deployments: this._deployments,
       })
 
     const split = await this._buildSplitFromLogs({
@@ -464,7 +590,8 @@ class SplitV2Transactions extends BaseTransactions {
       )
     }
 
-    if (createLog) type = getSplitType(chainId, createLog.address)
+    if (createLog)
+      type = getSplitType(chainId, createLog.address, this._deployments)
     else {
       this._requirePublicClient(chainId)
 
@@ -525,7 +652,7 @@ class SplitV2Transactions extends BaseTransactions {
     const publicClient = this._getPublicClient(chainId)
 
     return getContract({
-      address: getSplitV2FactoryAddress(chainId, splitType),
+      address: getSplitV2FactoryAddress(chainId, splitType, this._deployments),
       abi: splitV2FactoryABI,
       client: publicClient,
     })
@@ -538,7 +665,11 @@ class SplitV2Transactions extends BaseTransactions {
     const publicClient = this._getPublicClient(chainId)
 
     return getContract({
-      address: getSplitV2o1FactoryAddress(chainId, splitType),
+      address: getSplitV2o1FactoryAddress(
+        chainId,
+        splitType,
+        this._deployments,
+      ),
       abi: splitV2o1FactoryAbi,
       client: publicClient,
     })
@@ -553,29 +684,40 @@ class SplitV2Transactions extends BaseTransactions {
       chainId,
     ).read.eip712Domain()
 
+    // The fields bitmap (EIP-5267) says which values are part of the domain,
+    // splits leave the salt out
+    const fields = parseInt(eip712Domain[0], 16)
     return {
       domain: {
         chainId: Number(eip712Domain[3].toString()),
         name: eip712Domain[1],
         version: eip712Domain[2],
         verifyingContract: eip712Domain[4],
-        salt: eip712Domain[5],
+        ...(fields & 0x10 ? { salt: eip712Domain[5] } : {}),
       },
     }
   }
 
-  protected async _requireOwner(splitAddress: Address) {
-    const ownerAddress = await this._owner(
-      splitAddress,
-      this._walletClient!.chain!.id,
-    )
+  protected async _requireOwner(
+    splitAddress: Address,
+    chainId?: number,
+  ): Promise<Address | undefined> {
+    const functionChainId = this._getFunctionChainId(chainId)
+    const ownerAddress = await this._owner(splitAddress, functionChainId)
 
-    const walletAddress = this._walletClient!.account?.address
+    const walletAddress = this._getSenderAddress(chainId)
+
+    if (ownerAddress.toLowerCase() !== walletAddress.toLowerCase()) {
+      const safeAddress = await this._getSafeOwner(
+        ownerAddress,
+        functionChainId,
+      )
+      if (safeAddress) return safeAddress
 
-    if (ownerAddress.toLowerCase() !== walletAddress?.toLowerCase())
       throw new InvalidAuthError(
         `Action only available to the split controller. Split id: ${splitAddress}, split controller: ${ownerAddress}, wallet address: ${walletAddress}`,
       )
+    }
   }
 }
 
@@ -584,6 +726,7 @@ export class SplitV2Client extends SplitV2Transactions {
   readonly eventTopics: { [key: string]: Hex[] }
   readonly callData: SplitV2CallData
   readonly estimateGas: SplitV2GasEstimates
+  readonly simulate: SplitV2Simulation
   readonly sign: SplitV2Signature
 
   constructor(clientArgs: SplitsClientConfig) {
@@ -643,6 +786,7 @@ export class SplitV2Client extends SplitV2Transactions {
 
     this.callData = new SplitV2CallData(clientArgs)
     this.estimateGas = new SplitV2GasEstimates(clientArgs)
+    this.simulate = new SplitV2Simulation(clientArgs)
     this.sign = new SplitV2Signature(clientArgs)
   }
 
@@ -668,6 +812,8 @@ export class SplitV2Client extends SplitV2Transactions {
     const { txHash } = await this._submitCreateSplitTransaction(createSplitArgs)
     const events = await this.getTransactionEvents({
       txHash,
+      chainId: createSplitArgs.chainId,
+      tracking: createSplitArgs.tracking,
       eventTopics: this.eventTopics.splitCreated,
     })
     const event = events.length > 0 ? events[0] : undefined
@@ -686,6 +832,119 @@ export class SplitV2Client extends SplitV2Transactions {
     throw new TransactionFailedError()
   }
 
+  // Creates the split at its deterministic address unless it's already
+  // deployed. A create that loses a race with another create of the same
+  // split reverts, and that counts as deployed.
+  async ensureSplit(
+    createSplitArgs: CreateSplitV2Config,
+  ): Promise<EnsureSplitResult> {
+    if (!createSplitArgs.salt) throw new SaltRequired()
+
+    const { splitAddress, deployed } = await this.isDeployed(createSplitArgs)
+    if (deployed) return { address: splitAddress, created: false }
+
+    try {
+      const { txHash } =
+        await this._submitCreateSplitTransaction(createSplitArgs)
+      await this.getTransactionEvents({
+        txHash,
+        chainId: createSplitArgs.chainId,
+        tracking: createSplitArgs.tracking,
+        eventTopics: [],
+        includeAll: true,
+      })
+
+      return { address: splitAddress, created: true, txHash }
+    } catch (error) {
+      const { deployed: deployedByOther } =
+        await this.isDeployed(createSplitArgs)
+      if (deployedByOther) return { address: splitAddress, created: false }
+
+      throw error
+    }
+  }
+
+  // Deploys the same deterministic split on every chain. The factories share
+  // an address across chains, so the split does too; this is checked before
+  // anything is sent. Chains are worked through one at a time so injected
+  // wallets can switch between them, and a chain that fails, including one
+  // whose address can't be predicted, is reported without stopping the rest.
+  async createSplitOnChains(
+    createSplitArgs: CreateSplitV2Config,
+    chainIds: number[],
+  ): Promise<CreateSplitOnChainsResult> {
+    if (!createSplitArgs.salt) throw new SaltRequired()
+    const uniqueChainIds = Array.from(new Set(chainIds))
+    if (uniqueChainIds.length === 0)
+      throw new InvalidArgumentError('At least one chain id is required')
+
+    type Prediction =
+      | { chainId: number; splitAddress: Address }
+      | { chainId: number; error: Error }
+    const predictions = await Promise.all(
+      uniqueChainIds.map(async (chainId): Promise<Prediction> => {
+        try {
+          const { splitAddress } = await this.predictDeterministicAddress({
+            ...createSplitArgs,
+            chainId,
+          })
+          return { chainId, splitAddress: getAddress(splitAddress) }
+        } catch (error) {
+          if (!(error instanceof Error)) throw error
+          return { chainId, error }
+        }
+      }),
+    )
+    const predicted = predictions.filter(
+      (
+        prediction,
+      ): prediction is Extract<Prediction, { splitAddress: Address }> =>
+        'splitAddress' in prediction,
+    )
+    // Nothing can be deployed without an address to check it against
+    if (predicted.length === 0 && 'error' in predictions[0])
+      throw predictions[0].error
+
+    const splitAddress = predicted[0].splitAddress
+    const mismatch = predicted.find(
+      (prediction) => prediction.splitAddress !== splitAddress,
+    )
+    if (mismatch)
+      throw new InvalidConfigError(
+        `Split predicted at ${mismatch.splitAddress} on chain ${mismatch.chainId} but at ${splitAddress} on chain ${predicted[0].chainId}`,
+      )
+
+    const chains = await predictions.reduce(
+      async (previous, prediction) => {
+        const statuses = await previous
+        const { chainId } = prediction
+        if ('error' in prediction)
+          return [
+            ...statuses,
+            { chainId, status: 'failed', error: prediction.error } as const,
+          ]
+
+        try {
+          const { created, txHash } = await this.ensureSplit({
+            ...createSplitArgs,
+            chainId,
+          })
+          const status: CrossChainSplitStatus =
+            created && txHash
+              ? { chainId, status: 'created', txHash }
+              : { chainId, status: 'skipped' }
+          return [...statuses, status]
+        } catch (error) {
+          if (!(error instanceof Error)) throw error
+          return [...statuses, { chainId, status: 'failed', error } as const]
+        }
+      },
+      Promise.resolve([] as CrossChainSplitStatus[]),
+    )
+
+    return { splitAddress, chains }
+  }
+
   async _submitCreateSplitTransactionOldV2(
     createSplitArgs: CreateSplitV2Config,
   ): Promise<{
@@ -709,6 +968,8 @@ export class SplitV2Client extends SplitV2Transactions {
       await this._submitCreateSplitTransactionOldV2(createSplitArgs)
     const events = await this.getTransactionEvents({
       txHash,
+      chainId: createSplitArgs.chainId,
+      tracking: createSplitArgs.tracking,
       eventTopics: this.eventTopics.splitCreated,
     })
     const event = events.length > 0 ? events[0] : undefined
@@ -750,6 +1011,8 @@ export class SplitV2Client extends SplitV2Transactions {
 
     const events = await this.getTransactionEvents({
       txHash,
+      chainId: transferOwnershipArgs.chainId,
+      tracking: transferOwnershipArgs.tracking,
       eventTopics: this.eventTopics.ownershipTransferred,
     })
     const event = events.length > 0 ? events[0] : undefined
@@ -779,6 +1042,8 @@ export class SplitV2Client extends SplitV2Transactions {
 
     const events = await this.getTransactionEvents({
       txHash,
+      chainId: setPausedArgs.chainId,
+      tracking: setPausedArgs.tracking,
       eventTopics: this.eventTopics.setPaused,
     })
     const event = events.length > 0 ? events[0] : undefined
@@ -810,6 +1075,8 @@ export class SplitV2Client extends SplitV2Transactions {
 
     const events = await this.getTransactionEvents({
       txHash,
+      chainId: execCallsArgs.chainId,
+      tracking: execCallsArgs.tracking,
       eventTopics: this.eventTopics.execCalls,
     })
     const event = events.length > 0 ? events[0] : undefined
@@ -841,6 +1108,8 @@ export class SplitV2Client extends SplitV2Transactions {
 
     const events = await this.getTransactionEvents({
       txHash,
+      chainId: distributeArgs.chainId,
+      tracking: distributeArgs.tracking,
       eventTopics: this.eventTopics.splitDistributed,
     })
     const event = events.length > 0 ? events[0] : undefined
@@ -872,6 +1141,8 @@ export class SplitV2Client extends SplitV2Transactions {
 
     const events = await this.getTransactionEvents({
       txHash,
+      chainId: updateSplitArgs.chainId,
+      tracking: updateSplitArgs.tracking,
       eventTopics: this.eventTopics.splitUpdated,
     })
     const event = events.length > 0 ? events[0] : undefined
@@ -959,6 +1230,109 @@ export class SplitV2Client extends SplitV2Transactions {
     return await this._predictDeterministicAddress(createSplitArgs, 'splitV2o1')
   }
 
+  // Searches for a salt that deploys the split to an address matching the
+  // pattern, skipping addresses that already have code. The returned
+  // createSplitArgs can be passed straight to createSplit.
+  async findDeterministicSalt({
+    pattern,
+    startSalt,
+    maxAttempts,
+    signal,
+    miner = mineSplitV2Salt,
+    ...createSplitArgs
+  }: FindSplitV2SaltConfig): Promise<
+    SaltMiningResult & { createSplitArgs: CreateSplitV2Config }
+  > {
+    const ownerAddress = createSplitArgs.ownerAddress ?? zeroAddress
+    const {
+      recipientAddresses,
+      recipientAllocations,
+      distributionIncentive,
+      totalAllocation,
+    } = getValidatedSplitV2Config(
+      createSplitArgs.recipients,
+      createSplitArgs.distributorFeePercent,
+      createSplitArgs.totalAllocationPercent,
+    )
+    validateAddress(ownerAddress)
+    recipientAddresses.map((recipient) => validateAddress(recipient))
+    validateSaltPattern(pattern)
+
+    const functionChainId = this._getReadOnlyFunctionChainId(
+      createSplitArgs.chainId,
+    )
+    const factory = this._getSplitV2o1FactoryContract(
+      createSplitArgs.splitType ?? SplitV2Type.Pull,
+      functionChainId,
+    )
+    const splitParams = {
+      recipients: recipientAddresses,
+      allocations: recipientAllocations,
+      totalAllocation,
+      distributionIncentive,
+    }
+    const miningConfig = {
+      saltPreimagePrefix: getSplitV2SaltPreimagePrefix({
+        ...splitParams,
+        ownerAddress,
+      }),
+      factoryAddress: factory.address,
+      initCodeHash: getSplitV2InitCodeHash(
+        await factory.read.SPLIT_WALLET_IMPLEMENTATION(),
+      ),
+      pattern,
+      signal,
+    }
+
+    // Checks the local address math against the factory before trusting it
+    const firstSalt =
+      startSalt ?? keccak256(toHex(`${Date.now()}:${Math.random()}`))
+    const factoryPrediction = await factory.read.predictDeterministicAddress([
+      splitParams,
+      ownerAddress,
+      firstSalt,
+    ])
+    if (
+      predictSplitV2Address({ ...miningConfig, salt: firstSalt }) !==
+      getAddress(factoryPrediction)
+    )
+      throw new InvalidConfigError(
+        `Split factory ${factory.address} does not deploy to the addresses computed for it locally`,
+      )
+
+    const publicClient = this._getPublicClient(functionChainId)
+    const mine = async (
+      fromSalt: Hex,
+      previousAttempts: number,
+    ): Promise<SaltMiningResult> => {
+      const remainingAttempts =
+        maxAttempts === undefined ? undefined : maxAttempts - previousAttempts
+      if (remainingAttempts !== undefined && remainingAttempts <= 0)
+        throw new SaltNotFoundError(maxAttempts!)
+
+      const result = await miner({
+        ...miningConfig,
+        startSalt: fromSalt,
+        maxAttempts: remainingAttempts,
+      })
+      const attempts = previousAttempts + result.attempts
+      const code = await publicClient.getBytecode({
+        address: result.splitAddress,
+      })
+      if (!code || code === '0x') return { ...result, attempts }
+
+      return await mine(getSaltFromIndex(result.salt, 1), attempts)
+    }
+    const { salt, splitAddress, attempts } = await mine(firstSalt, 0)
+
+    return {
+      salt,
+      splitAddress,
+      attempts,
+      createSplitArgs: { ...createSplitArgs, ownerAddress, salt },
+    }
+  }
+
   async _predictDeterministicAddressOldV2(
     createSplitArgs: CreateSplitV2Config,
   ): Promise<{
@@ -1230,6 +1604,13 @@ export class SplitV2Client extends SplitV2Transactions {
     return { split, blockRange }
   }
 
+  // What an update would change, to review before submitting it
+  async getUpdateSplitDiff(
+    updateSplitArgs: UpdateSplitV2Config,
+  ): Promise<SplitUpdateDiff> {
+    return await this._getUpdateSplitDiff(updateSplitArgs)
+  }
+
   async getSplitActiveBalances({
     splitAddress,
     chainId,
@@ -1260,6 +1641,7 @@ export class SplitV2Client extends SplitV2Transactions {
       splitAddress,
       publicClient,
       fullTokenList: fullTokenList.map(getAddress),
+      deployments: this._deployments,
     })
 
     return {
@@ -1413,6 +1795,78 @@ class SplitV2CallData extends SplitV2Transactions {
   }
 }
 
+class SplitV2Simulation extends SplitV2Transactions {
+  constructor(clientArgs: SplitsClientConfig) {
+    super({
+      transactionType: TransactionType.Simulation,
+      ...clientArgs,
+    })
+  }
+
+  async createSplit(
+    createSplitArgs: CreateSplitV2Config,
+  ): Promise<SimulationResult> {
+    const simulationResult = await this._createSplit({
+      ...createSplitArgs,
+      v2Type: 'splitV2o1',
+    })
+    if (!this._isSimulationResult(simulationResult))
+      throw new Error('Invalid response')
+
+    return simulationResult
+  }
+
+  async transferOwnership(
+    transferOwnershipArgs: TransferOwnershipConfig,
+  ): Promise<SimulationResult> {
+    const simulationResult = await this._transferOwnership(
+      transferOwnershipArgs,
+    )
+    if (!this._isSimulationResult(simulationResult))
+      throw new Error('Invalid response')
+
+    return simulationResult
+  }
+
+  async setPaused(setPausedArgs: SetPausedConfig): Promise<SimulationResult> {
+    const simulationResult = await this._setPaused(setPausedArgs)
+    if (!this._isSimulationResult(simulationResult))
+      throw new Error('Invalid response')
+
+    return simulationResult
+  }
+
+  async execCalls(
+    execCallsArgs: SplitV2ExecCallsConfig,
+  ): Promise<SimulationResult> {
+    const simulationResult = await this._execCalls(execCallsArgs)
+    if (!this._isSimulationResult(simulationResult))
+      throw new Error('Invalid response')
+
+    return simulationResult
+  }
+
+  async distribute(
+    distributeArgs: DistributeSplitConfig,
+  ): Promise<SimulationResult> {
+    const simulationResult = await this._distribute(distributeArgs)
+    if (!this._isSimulationResult(simulationResult))
+      throw new Error('Invalid response')
+
+    return simulationResult
+  }
+
+  async updateSplit(
+    updateSplitArgs: UpdateSplitV2Config,
+  ): Promise<SimulationResult> {
+    const simulationResult = await this._updateSplit(updateSplitArgs)
+    if (!this._isSimulationResult(simulationResult))
+      throw new Error('Invalid response')
+
+    return simulationResult
+  }
+}
+
 class SplitV2Signature extends SplitV2Transactions {
   constructor(clientArgs: SplitsClientConfig) {
     super({
@@ -1429,15 +1883,17 @@ class SplitV2Signature extends SplitV2Transactions {
     const functionChainId = this._getReadOnlyFunctionChainId(chainId)
     const { domain } = await this._eip712Domain(splitAddress, functionChainId)
 
-    this._requireWalletClient()
+    this._requireWalletClient(functionChainId)
 
-    const signature = await this._walletClient?.signTypedData({
-      account: this._walletClient!.account!,
-      domain,
-      types: SigTypes,
-      primaryType: 'SplitWalletMessage',
-      message: {
-        hash: data,
+    const signature = await this._signTypedData({
+      chainId: functionChainId,
+      typedData: {
+        domain,
+        types: SigTypes,
+        primaryType: 'SplitWalletMessage',
+        message: {
+          hash: data,
+        },
       },
     })
 
@@ -1447,6 +1903,104 @@ class SplitV2Signature extends SplitV2Transactions {
       signature,
     }
   }
+
+  // Signs typed data (a Seaport order, a Permit2 permit, ...) on behalf of the
+  // split, for protocols that verify signatures with ERC-1271
+  async signTypedDataAsSplit({
+    typedData,
+    ...signArgs
+  }: SignTypedDataAsSplitConfig): Promise<SplitSignature> {
+    return await this._signHashAsSplit({
+      ...signArgs,
+      hash: hashTypedData(typedData),
+    })
+  }
+
+  // Signs an EIP-191 message on behalf of the split
+  async signMessageAsSplit({
+    message,
+    ...signArgs
+  }: SignMessageAsSplitConfig): Promise<SplitSignature> {
+    return await this._signHashAsSplit({
+      ...signArgs,
+      hash: hashMessage(message),
+    })
+  }
+
+  // The split accepts signatures from its owner over the replay safe hash.
+  // Owners that are V2 splits themselves sign through their own owner, all the
+  // way up, and the first owner that isn't a split signs with signOwnerHash.
+  // The signature is checked against the split before it is returned.
+  private async _signHashAsSplit({
+    splitAddress,
+    hash,
+    chainId,
+    signOwnerHash,
+  }: Omit<SignMessageAsSplitConfig, 'message'> & {
+    hash: Hex
+  }): Promise<SplitSignature> {
+    validateAddress(splitAddress)
+
+    const functionChainId = this._getReadOnlyFunctionChainId(chainId)
+    const splitContract = this._getSplitV2Contract(
+      splitAddress,
+      functionChainId,
+    )
+    const [replaySafeHash, ownerAddress] = await Promise.all([
+      splitContract.read.replaySafeHash([hash]),
+      splitContract.read.owner(),
+    ])
+
+    const walletClient = this._getWalletClient(functionChainId)
+    const signature = await (async () => {
+      if (
+        walletClient?.account &&
+        ownerAddress.toLowerCase() ===
+          walletClient.account.address.toLowerCase()
+      )
+        return (await this.signData(splitAddress, hash, functionChainId))
+          .signature
+
+      const ownerIsSplit = await this._getSplitVersion({
+        splitAddress: ownerAddress,
+        chainId: functionChainId,
+      }).then(
+        () => true,
+        (error) => {
+          if (error instanceof AccountNotFoundError) return false
+          throw error
+        },
+      )
+      if (ownerIsSplit)
+        return (
+          await this._signHashAsSplit({
+            splitAddress: ownerAddress,
+            hash: replaySafeHash,
+            chainId: functionChainId,
+            signOwnerHash,
+          })
+        ).signature
+
+      if (signOwnerHash)
+        return await signOwnerHash({
+          ownerAddress,
+          hash: replaySafeHash,
+          chainId: functionChainId,
+        })
+
+      throw new InvalidAuthError(
+        `Signing is only available to the split owner. Split id: ${splitAddress}, split owner: ${ownerAddress}, wallet address: ${walletClient?.account?.address}`,
+      )
+    })()
+
+    if (
+      (await splitContract.read.isValidSignature([hash, signature])) !==
+      VALID_ERC1271_SIG
+    )
+      throw new InvalidSplitSignatureError(splitAddress)
+
+    return { signature, hash, replaySafeHash }
+  }
 }
 
 const SigTypes = {
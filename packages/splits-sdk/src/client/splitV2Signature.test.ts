@@ -0,0 +1,283 @@
+import {
+  Address,
+  Chain,
+  ContractFunctionZeroDataError,
+  Hex,
+  HttpRequestError,
+  PublicClient,
+  Transport,
+  createWalletClient,
+  hashMessage,
+  hashTypedData,
+  http,
+  recoverAddress,
+  zeroHash,
+} from 'viem'
+import { privateKeyToAccount } from 'viem/accounts'
+import { mainnet } from 'viem/chains'
+
+import { SplitV2Client } from './splitV2'
+import { InvalidAuthError, InvalidSplitSignatureError } from '../errors'
+
+const VALID_ERC1271_SIG = '0x1626ba7e'
+const SPLIT_ADDRESS: Address = '0x1000000000000000000000000000000000000001'
+const PARENT_SPLIT_ADDRESS: Address =
+  '0x2000000000000000000000000000000000000002'
+const SAFE_ADDRESS: Address = '0xD57f3Fa0b49E91eaA20e739c874Ae273Bcf2D7Aa'
+
+const account = privateKeyToAccount(
+  '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80',
+)
+const walletClient = createWalletClient({
+  account,
+  chain: mainnet,
+  transport: http(),
+})
+
+const getReplaySafeHash = (splitAddress: Address, hash: Hex) => {
+  return hashTypedData({
+    domain: {
+      name: 'splitWallet',
+      version: '2.1',
+      chainId: 1,
+      verifyingContract: splitAddress,
+    },
+    types: { SplitWalletMessage: [{ name: 'hash', type: 'bytes32' }] },
+    primaryType: 'SplitWalletMessage',
+    message: { hash },
+  })
+}
+
+// Acts out the split contracts: each split accepts signatures from its owner
+// over its replay safe hash, calling into the owner when it is a split or safe.
+// Reads of unreachable addresses fail like an rpc that is down.
+const createPublicClient = (
+  owners: { [splitAddress: Address]: Address },
+  safeSignatures: Hex[] = [],
+  unreachable: Address[] = [],
+) => {
+  const isValidSignature = async (
+    address: Address,
+    hash: Hex,
+    signature: Hex,
+  ): Promise<boolean> => {
+    if (address === SAFE_ADDRESS) return safeSignatures.includes(signature)
+
+    const owner = owners[address]
+    const replaySafeHash = getReplaySafeHash(address, hash)
+    if (owners[owner] || owner === SAFE_ADDRESS)
+      return await isValidSignature(owner, replaySafeHash, signature)
+
+    return (await recoverAddress({ hash: replaySafeHash, signature })) === owner
+  }
+
+  return {
+    chain: { id: 1 },
+    readContract: jest.fn(
+      async ({
+        address,
+        functionName,
+        args,
+      }: {
+        address: Address
+        functionName: string
+        args: [Hex, Hex]
+      }) => {
+        if (unreachable.includes(address))
+          throw new HttpRequestError({ url: 'https://rpc.example' })
+        if (!owners[address])
+          throw new ContractFunctionZeroDataError({ functionName })
+        if (functionName === 'owner') return owners[address]
+        if (functionName === 'replaySafeHash')
+          return getReplaySafeHash(address, args[0])
+        if (functionName === 'eip712Domain')
+          return [
+            '0x0f',
+            'splitWallet',
+            '2.1',
+            BigInt(1),
+            address,
+            zeroHash,
+            [],
+          ]
+        if (functionName === 'isValidSignature')
+          return (await isValidSignature(address, args[0], args[1]))
+            ? VALID_ERC1271_SIG
+            : '0xffffffff'
+        throw new Error(`Unexpected read ${functionName}`)
+      },
+    ),
+  } as unknown as PublicClient<Transport, Chain>
+}
+
+const TYPED_DATA = {
+  domain: { name: 'Permit2', chainId: 1 },
+  types: {
+    Vote: [
+      { name: 'proposal', type: 'uint256' },
+      { name: 'support', type: 'bool' },
+    ],
+  },
+  primaryType: 'Vote',
+  message: { proposal: BigInt(7), support: true },
+} as const
+
+describe('Sign as split', () => {
+  test('Signs typed data with the owner wallet', async () => {
+    const client = new SplitV2Client({
+      chainId: 1,
+      walletClient,
+      publicClient: createPublicClient({ [SPLIT_ADDRESS]: account.address }),
+    })
+
+    const result = await client.sign.signTypedDataAsSplit({
+      splitAddress: SPLIT_ADDRESS,
+      typedData: TYPED_DATA,
+    })
+
+    expect(result.hash).toEqual(hashTypedData(TYPED_DATA))
+    expect(result.replaySafeHash).toEqual(
+      getReplaySafeHash(SPLIT_ADDRESS, result.hash),
+    )
+    expect(
+      await recoverAddress({
+        hash: result.replaySafeHash,
+        signature: result.signature,
+      }),
+    ).toEqual(account.address)
+  })
+
+  test('Signs through an owner that is another split', async () => {
+    const client = new SplitV2Client({
+      chainId: 1,
+      walletClient,
+      publicClient: createPublicClient({
+        [SPLIT_ADDRESS]: PARENT_SPLIT_ADDRESS,
+        [PARENT_SPLIT_ADDRESS]: account.address,
+      }),
+    })
+
+    const result = await client.sign.signMessageAsSplit({
+      splitAddress: SPLIT_ADDRESS,
+      message: 'gm',
+    })
+
+    expect(result.hash).toEqual(hashMessage('gm'))
+    expect(
+      await recoverAddress({
+        hash: getReplaySafeHash(PARENT_SPLIT_ADDRESS, result.replaySafeHash),
+        signature: result.signature,
+      }),
+    ).toEqual(account.address)
+  })
+
+  test('Hands other contract owners the replay safe hash', async () => {
+    const client = new SplitV2Client({
+      chainId: 1,
+      walletClient,
+      publicClient: createPublicClient({ [SPLIT_ADDRESS]: SAFE_ADDRESS }, [
+        '0x5afe',
+      ]),
+    })
+    const signOwnerHash = jest.fn(async () => '0x5afe' as Hex)
+
+    const result = await client.sign.signMessageAsSplit({
+      splitAddress: SPLIT_ADDRESS,
+      message: 'gm',
+      signOwnerHash,
+    })
+
+    expect(signOwnerHash).toHaveBeenCalledWith({
+      ownerAddress: SAFE_ADDRESS,
+      hash: getReplaySafeHash(SPLIT_ADDRESS, hashMessage('gm')),
+      chainId: 1,
+    })
+    expect(result.signature).toEqual('0x5afe')
+  })
+
+  test('Signs through a split owned by a safe', async () => {
+    const client = new SplitV2Client({
+      chainId: 1,
+      walletClient,
+      publicClient: createPublicClient(
+        {
+          [SPLIT_ADDRESS]: PARENT_SPLIT_ADDRESS,
+          [PARENT_SPLIT_ADDRESS]: SAFE_ADDRESS,
+        },
+        ['0x5afe'],
+      ),
+    })
+    const signOwnerHash = jest.fn(async () => '0x5afe' as Hex)
+
+    const result = await client.sign.signMessageAsSplit({
+      splitAddress: SPLIT_ADDRESS,
+      message: 'gm',
+      signOwnerHash,
+    })
+
+    // The safe signs the parent split's replay safe hash of the child's
+    expect(signOwnerHash).toHaveBeenCalledTimes(1)
+    expect(signOwnerHash).toHaveBeenCalledWith({
+      ownerAddress: SAFE_ADDRESS,
+      hash: getReplaySafeHash(
+        PARENT_SPLIT_ADDRESS,
+        getReplaySafeHash(SPLIT_ADDRESS, hashMessage('gm')),
+      ),
+      chainId: 1,
+    })
+    expect(result.signature).toEqual('0x5afe')
+  })
+
+  test('Fails when the split rejects the signature', async () => {
+    const client = new SplitV2Client({
+      chainId: 1,
+      walletClient,
+      publicClient: createPublicClient({ [SPLIT_ADDRESS]: SAFE_ADDRESS }),
+    })
+
+    await expect(
+      client.sign.signMessageAsSplit({
+        splitAddress: SPLIT_ADDRESS,
+        message: 'gm',
+        signOwnerHash: async () => '0xbad0',
+      }),
+    ).rejects.toThrow(InvalidSplitSignatureError)
+  })
+
+  test('Passes on rpc failures while checking whether the owner is a split', async () => {
+    const client = new SplitV2Client({
+      chainId: 1,
+      walletClient,
+      publicClient: createPublicClient(
+        { [SPLIT_ADDRESS]: SAFE_ADDRESS },
+        ['0x5afe'],
+        [SAFE_ADDRESS],
+      ),
+    })
+    const signOwnerHash = jest.fn(async () => '0x5afe' as Hex)
+
+    await expect(
+      client.sign.signMessageAsSplit({
+        splitAddress: SPLIT_ADDRESS,
+        message: 'gm',
+        signOwnerHash,
+      }),
+    ).rejects.toThrow(HttpRequestError)
+    expect(signOwnerHash).not.toHaveBeenCalled()
+  })
+
+  test('Fails when the wallet cannot sign for the owner', async () => {
+    const client = new SplitV2Client({
+      chainId: 1,
+      walletClient,
+      publicClient: createPublicClient({ [SPLIT_ADDRESS]: SAFE_ADDRESS }),
+    })
+
+    await expect(
+      client.sign.signMessageAsSplit({
+        splitAddress: SPLIT_ADDRESS,
+        message: 'gm',
+      }),
+    ).rejects.toThrow(InvalidAuthError)
+  })
+})
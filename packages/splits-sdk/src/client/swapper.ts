@@ -33,6 +33,7 @@ import type {
   ContractSwapperExactInputParams,
   CreateSwapperConfig,
   ReadContractArgs,
+  SimulationResult,
   SplitsClientConfig,
   SplitsPublicClient,
   SwapperExecCallsConfig,
@@ -66,6 +67,7 @@ class SwapperTransactions extends BaseTransactions {
   constructor(transactionClientArgs: SplitsClientConfig & TransactionConfig) {
     super({
       supportedChainIds: SWAPPER_CHAIN_IDS,
+      deploymentContracts: ['swapperFactory', 'uniV3Swap'],
       ...transactionClientArgs,
     })
   }
@@ -78,6 +80,7 @@ class SwapperTransactions extends BaseTransactions {
     oracleParams,
     defaultScaledOfferFactorPercent,
     scaledOfferFactorOverrides,
+    chainId,
     transactionOverrides = {},
   }: CreateSwapperConfig): Promise<TransactionFormat> {
     validateAddress(owner)
@@ -86,7 +89,7 @@ class SwapperTransactions extends BaseTransactions {
     validateOracleParams(oracleParams)
     validateScaledOfferFactor(defaultScaledOfferFactorPercent)
     validateScaledOfferFactorOverrides(scaledOfferFactorOverrides)
-    if (this._shouldRequireWalletClient) this._requireWalletClient()
+    if (this._shouldRequireWalletClient) this._requireWalletClient(chainId)
 
     const formattedOracleParams = getFormattedOracleParams(oracleParams)
     const formattedDefaultScaledOfferFactor = getFormattedScaledOfferFactor(
@@ -96,7 +99,10 @@ class SwapperTransactions extends BaseTransactions {
       getFormattedScaledOfferFactorOverrides(scaledOfferFactorOverrides)
 
     const result = await this._executeContractFunction({
-      contractAddress: getSwapperFactoryAddress(),
+      contractAddress: getSwapperFactoryAddress(
+        chainId ?? this._walletClient?.chain?.id ?? this._chainId,
+        this._deployments,
+      ),
       contractAbi: swapperFactoryAbi,
       functionName: 'createSwapper',
       functionArgs: [
@@ -110,6 +116,7 @@ class SwapperTransactions extends BaseTransactions {
           formattedScaledOfferFactorOverrides,
         ],
       ],
+      chainId,
       transactionOverrides,
     })
 
@@ -127,15 +134,13 @@ class SwapperTransactions extends BaseTransactions {
     validateAddress(swapperAddress)
     validateUniV3SwapInputAssets(inputAssets)
 
-    if (this._shouldRequireWalletClient) this._requireWalletClient()
+    if (this._shouldRequireWalletClient) this._requireWalletClient(chainId)
 
     const functionChainId = this._getFunctionChainId(chainId)
 
     const excessRecipientAddress = excessRecipient
       ? excessRecipient
-      : this._walletClient?.account
-      ? this._walletClient.account.address
-      : zeroAddress
+      : this._getWalletClient(chainId)?.account?.address ?? zeroAddress
     validateAddress(excessRecipientAddress)
 
     this._requireDataClient()
@@ -146,7 +151,10 @@ class SwapperTransactions extends BaseTransactions {
       swapperAddress,
     })
 
-    const swapRecipient = getUniV3SwapAddress()
+    const swapRecipient = getUniV3SwapAddress(
+      functionChainId,
+      this._deployments,
+    )
     const deadlineTime = Math.floor(Date.now() / 1000) + transactionTimeLimit
 
     const quoteParams: ContractQuoteParams[] = []
@@ -174,10 +182,11 @@ class SwapperTransactions extends BaseTransactions {
     ]
 
     const result = await this._executeContractFunction({
-      contractAddress: getUniV3SwapAddress(),
+      contractAddress: getUniV3SwapAddress(functionChainId, this._deployments),
       contractAbi: uniV3SwapAbi,
       functionName: 'initFlash',
       functionArgs: [swapperAddress, flashParams],
+      chainId: functionChainId,
       transactionOverrides,
     })
 
@@ -187,13 +196,15 @@ class SwapperTransactions extends BaseTransactions {
   protected async _setBeneficiaryTransaction({
     swapperAddress,
     beneficiary,
+    chainId,
     transactionOverrides = {},
   }: SwapperSetBeneficiaryConfig): Promise<TransactionFormat> {
     validateAddress(swapperAddress)
     validateAddress(beneficiary)
+    let safeAddress: Address | undefined
     if (this._shouldRequireWalletClient) {
-      this._requireWalletClient()
-      await this._requireOwner(swapperAddress)
+      this._requireWalletClient(chainId)
+      safeAddress = await this._requireOwner(swapperAddress, chainId)
     }
 
     const result = await this._executeContractFunction({
@@ -201,7 +212,9 @@ class SwapperTransactions extends BaseTransactions {
       contractAbi: swapperAbi,
       functionName: 'setBeneficiary',
       functionArgs: [beneficiary],
+      chainId,
       transactionOverrides,
+      safeAddress,
     })
 
     return result
@@ -210,13 +223,15 @@ class SwapperTransactions extends BaseTransactions {
   protected async _setTokenToBeneficiaryTransaction({
     swapperAddress,
     tokenToBeneficiary,
+    chainId,
     transactionOverrides = {},
   }: SwapperSetTokenToBeneficiaryConfig): Promise<TransactionFormat> {
     validateAddress(swapperAddress)
     validateAddress(tokenToBeneficiary)
+    let safeAddress: Address | undefined
     if (this._shouldRequireWalletClient) {
-      this._requireWalletClient()
-      await this._requireOwner(swapperAddress)
+      this._requireWalletClient(chainId)
+      safeAddress = await this._requireOwner(swapperAddress, chainId)
     }
 
     const result = await this._executeContractFunction({
@@ -224,7 +239,9 @@ class SwapperTransactions extends BaseTransactions {
       contractAbi: swapperAbi,
       functionName: 'setTokenToBeneficiary',
       functionArgs: [tokenToBeneficiary],
+      chainId,
       transactionOverrides,
+      safeAddress,
     })
 
     return result
@@ -233,13 +250,15 @@ class SwapperTransactions extends BaseTransactions {
   protected async _setOracleTransaction({
     swapperAddress,
     oracle,
+    chainId,
     transactionOverrides = {},
   }: SwapperSetOracleConfig): Promise<TransactionFormat> {
     validateAddress(swapperAddress)
     validateAddress(oracle)
+    let safeAddress: Address | undefined
     if (this._shouldRequireWalletClient) {
-      this._requireWalletClient()
-      await this._requireOwner(swapperAddress)
+      this._requireWalletClient(chainId)
+      safeAddress = await this._requireOwner(swapperAddress, chainId)
     }
 
     const result = await this._executeContractFunction({
@@ -247,7 +266,9 @@ class SwapperTransactions extends BaseTransactions {
       contractAbi: swapperAbi,
       functionName: 'setOracle',
       functionArgs: [oracle],
+      chainId,
       transactionOverrides,
+      safeAddress,
     })
 
     return result
@@ -256,13 +277,15 @@ class SwapperTransactions extends BaseTransactions {
   protected async _setDefaultScaledOfferFactorTransaction({
     swapperAddress,
     defaultScaledOfferFactorPercent,
+    chainId,
     transactionOverrides = {},
   }: SwapperSetDefaultScaledOfferFactorConfig): Promise<TransactionFormat> {
     validateAddress(swapperAddress)
     validateScaledOfferFactor(defaultScaledOfferFactorPercent)
+    let safeAddress: Address | undefined
     if (this._shouldRequireWalletClient) {
-      this._requireWalletClient()
-      await this._requireOwner(swapperAddress)
+      this._requireWalletClient(chainId)
+      safeAddress = await this._requireOwner(swapperAddress, chainId)
     }
 
     const formattedDefaultScaledOfferFactor = getFormattedScaledOfferFactor(
@@ -274,7 +297,9 @@ class SwapperTransactions extends BaseTransactions {
       contractAbi: swapperAbi,
       functionName: 'setDefaultScaledOfferFactor',
       functionArgs: [formattedDefaultScaledOfferFactor],
+      chainId,
       transactionOverrides,
+      safeAddress,
     })
 
     return result
@@ -283,13 +308,15 @@ class SwapperTransactions extends BaseTransactions {
   protected async _setScaledOfferFactorOverridesTransaction({
     swapperAddress,
     scaledOfferFactorOverrides,
+    chainId,
     transactionOverrides = {},
   }: SwapperSetScaledOfferFactorOverridesConfig): Promise<TransactionFormat> {
     validateAddress(swapperAddress)
     validateScaledOfferFactorOverrides(scaledOfferFactorOverrides)
+    let safeAddress: Address | undefined
     if (this._shouldRequireWalletClient) {
-      this._requireWalletClient()
-      await this._requireOwner(swapperAddress)
+      this._requireWalletClient(chainId)
+      safeAddress = await this._requireOwner(swapperAddress, chainId)
     }
 
     const formattedScaledOfferFactorOverrides =
@@ -300,7 +327,9 @@ class SwapperTransactions extends BaseTransactions {
       contractAbi: swapperAbi,
       functionName: 'setPairScaledOfferFactors',
       functionArgs: [formattedScaledOfferFactorOverrides],
+      chainId,
       transactionOverrides,
+      safeAddress,
     })
 
     return result
@@ -309,13 +338,15 @@ class SwapperTransactions extends BaseTransactions {
   protected async _execCallsTransaction({
     swapperAddress,
     calls,
+    chainId,
     transactionOverrides = {},
   }: SwapperExecCallsConfig): Promise<TransactionFormat> {
     validateAddress(swapperAddress)
     calls.map((callData) => validateAddress(callData.to))
+    let safeAddress: Address | undefined
     if (this._shouldRequireWalletClient) {
-      this._requireWalletClient()
-      await this._requireOwner(swapperAddress)
+      this._requireWalletClient(chainId)
+      safeAddress = await this._requireOwner(swapperAddress, chainId)
     }
 
     const formattedCalls = calls.map((callData) => {
@@ -327,7 +358,9 @@ class SwapperTransactions extends BaseTransactions {
       contractAbi: swapperAbi,
       functionName: 'execCalls',
       functionArgs: [formattedCalls],
+      chainId,
       transactionOverrides,
+      safeAddress,
     })
 
     return result
@@ -336,12 +369,14 @@ class SwapperTransactions extends BaseTransactions {
   protected async _setPausedTransaction({
     swapperAddress,
     paused,
+    chainId,
     transactionOverrides = {},
   }: SwapperPauseConfig): Promise<TransactionFormat> {
     validateAddress(swapperAddress)
+    let safeAddress: Address | undefined
     if (this._shouldRequireWalletClient) {
-      this._requireWalletClient()
-      await this._requireOwner(swapperAddress)
+      this._requireWalletClient(chainId)
+      safeAddress = await this._requireOwner(swapperAddress, chainId)
     }
 
     const result = await this._executeContractFunction({
@@ -349,27 +384,37 @@ class SwapperTransactions extends BaseTransactions {
       contractAbi: swapperAbi,
       functionName: 'setPaused',
       functionArgs: [paused],
+      chainId,
       transactionOverrides,
+      safeAddress,
     })
 
     return result
   }
 
-  private async _requireOwner(swapperAddress: string) {
-    this._requireWalletClient()
+  private async _requireOwner(
+    swapperAddress: string,
+    chainId?: number,
+  ): Promise<Address | undefined> {
+    this._requireWalletClient(chainId)
+    const functionChainId = this._getFunctionChainId(chainId)
 
     const swapperContract = this._getSwapperContract(
       swapperAddress,
-      this._walletClient!.chain!.id,
+      functionChainId,
     )
     const owner = await swapperContract.read.owner()
 
-    const walletAddress = this._walletClient!.account?.address
+    const walletAddress = this._getSenderAddress(chainId)
+
+    if (owner !== walletAddress) {
+      const safeAddress = await this._getSafeOwner(owner, functionChainId)
+      if (safeAddress) return safeAddress
 
-    if (owner !== walletAddress)
       throw new InvalidAuthError(
         `Action only available to the swapper owner. Swapper address: ${swapperAddress}, owner: ${owner}, wallet address: ${walletAddress}`,
       )
+    }
   }
 
   protected _getUniV3SwapContract(
@@ -377,7 +422,7 @@ class SwapperTransactions extends BaseTransactions {
   ): GetContractReturnType<UniV3SwapAbi, SplitsPublicClient> {
     const publicClient = this._getPublicClient(chainId)
     return getContract({
-      address: getUniV3SwapAddress(),
+      address: getUniV3SwapAddress(chainId, this._deployments),
       abi: uniV3SwapAbi,
       client: publicClient,
     })
@@ -401,6 +446,7 @@ export class SwapperClient extends SwapperTransactions {
   readonly eventTopics: { [key: string]: Hex[] }
   readonly callData: SwapperCallData
   readonly estimateGas: SwapperGasEstimates
+  readonly simulate: SwapperSimulation
 
   constructor(clientArgs: SplitsClientConfig) {
     super({
@@ -466,6 +512,7 @@ export class SwapperClient extends SwapperTransactions {
 
     this.callData = new SwapperCallData(clientArgs)
     this.estimateGas = new SwapperGasEstimates(clientArgs)
+    this.simulate = new SwapperSimulation(clientArgs)
   }
 
   // Write actions
@@ -489,6 +536,8 @@ export class SwapperClient extends SwapperTransactions {
       await this._submitCreateSwapperTransaction(createSwapperArgs)
     const events = await this.getTransactionEvents({
       txHash,
+      chainId: createSwapperArgs.chainId,
+      tracking: createSwapperArgs.tracking,
       eventTopics: this.eventTopics.createSwapper,
     })
     const event = events.length > 0 ? events[0] : undefined
@@ -525,6 +574,8 @@ export class SwapperClient extends SwapperTransactions {
     const { txHash } = await this._submitUniV3FlashSwapTransaction(flashArgs)
     const events = await this.getTransactionEvents({
       txHash,
+      chainId: flashArgs.chainId,
+      tracking: flashArgs.tracking,
       eventTopics: this.eventTopics.uniV3FlashSwap,
     })
     const event = events.length > 0 ? events[0] : undefined
@@ -552,6 +603,8 @@ export class SwapperClient extends SwapperTransactions {
     const { txHash } = await this._submitExecCallsTransaction(callArgs)
     const events = await this.getTransactionEvents({
       txHash,
+      chainId: callArgs.chainId,
+      tracking: callArgs.tracking,
       eventTopics: this.eventTopics.execCalls,
     })
     const event = events.length > 0 ? events[0] : undefined
@@ -579,6 +632,8 @@ export class SwapperClient extends SwapperTransactions {
     const { txHash } = await this._submitSetPausedTransaction(pauseArgs)
     const events = await this.getTransactionEvents({
       txHash,
+      chainId: pauseArgs.chainId,
+      tracking: pauseArgs.tracking,
       eventTopics: this.eventTopics.setPaused,
     })
     const event = events.length > 0 ? events[0] : undefined
@@ -608,6 +663,8 @@ export class SwapperClient extends SwapperTransactions {
     const { txHash } = await this._submitSetBeneficiaryTransaction(args)
     const events = await this.getTransactionEvents({
       txHash,
+      chainId: args.chainId,
+      tracking: args.tracking,
       eventTopics: this.eventTopics.setBeneficiary,
     })
     const event = events.length > 0 ? events[0] : undefined
@@ -639,6 +696,8 @@ export class SwapperClient extends SwapperTransactions {
     const { txHash } = await this._submitSetTokenToBeneficiaryTransaction(args)
     const events = await this.getTransactionEvents({
       txHash,
+      chainId: args.chainId,
+      tracking: args.tracking,
       eventTopics: this.eventTopics.setTokenToBeneficiary,
     })
     const event = events.length > 0 ? events[0] : undefined
@@ -666,6 +725,8 @@ export class SwapperClient extends SwapperTransactions {
     const { txHash } = await this._submitSetOracleTransaction(args)
     const events = await this.getTransactionEvents({
       txHash,
+      chainId: args.chainId,
+      tracking: args.tracking,
       eventTopics: this.eventTopics.setOracle,
     })
     const event = events.length > 0 ? events[0] : undefined
@@ -698,6 +759,8 @@ export class SwapperClient extends SwapperTransactions {
       await this._submitSetDefaultScaledOfferFactorTransaction(args)
     const events = await this.getTransactionEvents({
       txHash,
+      chainId: args.chainId,
+      tracking: args.tracking,
       eventTopics: this.eventTopics.setDefaultScaledOfferFactor,
     })
     const event = events.length > 0 ? events[0] : undefined
@@ -730,6 +793,8 @@ export class SwapperClient extends SwapperTransactions {
       await this._submitSetScaledOfferFactorOverridesTransaction(args)
     const events = await this.getTransactionEvents({
       txHash,
+      chainId: args.chainId,
+      tracking: args.tracking,
       eventTopics: this.eventTopics.setScaledOfferFactorOverrides,
     })
     const event = events.length > 0 ? events[0] : undefined
@@ -959,6 +1024,102 @@ class SwapperGasEstimates extends SwapperTransactions {
 interface SwapperGasEstimates extends BaseGasEstimatesMixin {}
 applyMixins(SwapperGasEstimates, [BaseGasEstimatesMixin])
 
+class SwapperSimulation extends SwapperTransactions {
+  constructor(clientArgs: SplitsClientConfig) {
+    super({
+      transactionType: TransactionType.Simulation,
+      ...clientArgs,
+    })
+  }
+
+  async createSwapper(
+    createSwapperArgs: CreateSwapperConfig,
+  ): Promise<SimulationResult> {
+    const simulationResult =
+      await this._createSwapperTransaction(createSwapperArgs)
+    if (!this._isSimulationResult(simulationResult))
+      throw new Error('Invalid response')
+
+    return simulationResult
+  }
+
+  async uniV3FlashSwap(
+    flashArgs: UniV3FlashSwapConfig,
+  ): Promise<SimulationResult> {
+    const simulationResult = await this._uniV3FlashSwapTransaction(flashArgs)
+    if (!this._isSimulationResult(simulationResult))
+      throw new Error('Invalid response')
+
+    return simulationResult
+  }
+
+  async execCalls(callArgs: SwapperExecCallsConfig): Promise<SimulationResult> {
+    const simulationResult = await this._execCallsTransaction(callArgs)
+    if (!this._isSimulationResult(simulationResult))
+      throw new Error('Invalid response')
+
+    return simulationResult
+  }
+
+  async setPaused(args: SwapperPauseConfig): Promise<SimulationResult> {
+    const simulationResult = await this._setPausedTransaction(args)
+    if (!this._isSimulationResult(simulationResult))
+      throw new Error('Invalid response')
+
+    return simulationResult
+  }
+
+  async setBeneficiary(
+    args: SwapperSetBeneficiaryConfig,
+  ): Promise<SimulationResult> {
+    const simulationResult = await this._setBeneficiaryTransaction(args)
+    if (!this._isSimulationResult(simulationResult))
+      throw new Error('Invalid response')
+
+    return simulationResult
+  }
+
+  async setTokenToBeneficiary(
+    args: SwapperSetTokenToBeneficiaryConfig,
+  ): Promise<SimulationResult> {
+    const simulationResult = await this._setTokenToBeneficiaryTransaction(args)
+    if (!this._isSimulationResult(simulationResult))
+      throw new Error('Invalid response')
+
+    return simulationResult
+  }
+
+  async setOracle(args: SwapperSetOracleConfig): Promise<SimulationResult> {
+    const simulationResult = await this._setOracleTransaction(args)
+    if (!this._isSimulationResult(simulationResult))
+      throw new Error('Invalid response')
+
+    return simulationResult
+  }
+
+  async setDefaultScaledOfferFactor(
+    args: SwapperSetDefaultScaledOfferFactorConfig,
+  ): Promise<SimulationResult> {
+    const simulationResult =
+      await this._setDefaultScaledOfferFactorTransaction(args)
+    if (!this._isSimulationResult(simulationResult))
+      throw new Error('Invalid response')
+
+    return simulationResult
+  }
+
+  async setScaledOfferFactorOverrides(
+    args: SwapperSetScaledOfferFactorOverridesConfig,
+  ): Promise<SimulationResult> {
+    const simulationResult =
+      await this._setScaledOfferFactorOverridesTransaction(args)
+    if (!this._isSimulationResult(simulationResult))
+      throw new Error('Invalid response')
+
+    return simulationResult
+  }
+}
+
 class SwapperCallData extends SwapperTransactions {
   constructor(clientArgs: SplitsClientConfig) {
     super({
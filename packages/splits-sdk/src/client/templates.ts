@@ -29,6 +29,7 @@ import type {
   CallData,
   CreateDiversifierConfig,
   CreateRecoupConfig,
+  SimulationResult,
   SplitsClientConfig,
   TransactionConfig,
   TransactionFormat,
@@ -50,6 +51,7 @@ class TemplatesTransactions extends BaseTransactions {
   constructor(transactionClientArgs: SplitsClientConfig & TransactionConfig) {
     super({
       supportedChainIds: TEMPLATES_CHAIN_IDS,
+      deploymentContracts: ['recoup', 'diversifierFactory'],
       ...transactionClientArgs,
     })
   }
@@ -71,7 +73,7 @@ class TemplatesTransactions extends BaseTransactions {
       nonWaterfallRecipientTrancheIndex,
     )
 
-    if (this._shouldRequireWalletClient) this._requireWalletClient()
+    if (this._shouldRequireWalletClient) this._requireWalletClient(chainId)
 
     const functionChainId = this._getFunctionChainId(chainId)
     const publicClient = this._getPublicClient(functionChainId)
@@ -81,6 +83,7 @@ class TemplatesTransactions extends BaseTransactions {
       getAddress(token),
       tranches,
       publicClient,
+      this._deployments,
     )
 
     const formattedNonWaterfallRecipientTrancheIndex =
@@ -89,7 +92,7 @@ class TemplatesTransactions extends BaseTransactions {
         : nonWaterfallRecipientTrancheIndex
 
     const result = await this._executeContractFunction({
-      contractAddress: getRecoupAddress(functionChainId),
+      contractAddress: getRecoupAddress(functionChainId, this._deployments),
       contractAbi: recoupFactoryAbi,
       functionName: 'createRecoup',
       functionArgs: [
@@ -99,6 +102,7 @@ class TemplatesTransactions extends BaseTransactions {
         recoupTranches,
         trancheSizes,
       ],
+      chainId: functionChainId,
       transactionOverrides,
     })
 
@@ -117,22 +121,29 @@ class TemplatesTransactions extends BaseTransactions {
     validateOracleParams(oracleParams)
     validateDiversifierRecipients(recipients)
 
-    if (this._shouldRequireWalletClient) this._requireWalletClient()
+    if (this._shouldRequireWalletClient) this._requireWalletClient(chainId)
 
     const functionChainId = this._getFunctionChainId(chainId)
-    if (!DIVERSIFIER_CHAIN_IDS.includes(functionChainId))
+    if (
+      !DIVERSIFIER_CHAIN_IDS.includes(functionChainId) &&
+      !this._deployments[functionChainId]?.diversifierFactory
+    )
       throw new UnsupportedChainIdError(functionChainId, DIVERSIFIER_CHAIN_IDS)
 
     const diversifierRecipients = getDiversifierRecipients(recipients)
     const formattedOracleParams = getFormattedOracleParams(oracleParams)
 
     const result = await this._executeContractFunction({
-      contractAddress: getDiversifierFactoryAddress(functionChainId),
+      contractAddress: getDiversifierFactoryAddress(
+        functionChainId,
+        this._deployments,
+      ),
       contractAbi: diversifierFactoryAbi,
       functionName: 'createDiversifier',
       functionArgs: [
         [owner, paused, formattedOracleParams, diversifierRecipients],
       ],
+      chainId: functionChainId,
       transactionOverrides,
     })
 
@@ -145,6 +156,7 @@ export class TemplatesClient extends TemplatesTransactions {
   readonly eventTopics: { [key: string]: Hex[] }
   readonly callData: TemplatesCallData
   readonly estimateGas: TemplatesGasEstimates
+  readonly simulate: TemplatesSimulation
 
   constructor(clientArgs: SplitsClientConfig) {
     super({
@@ -170,6 +182,7 @@ export class TemplatesClient extends TemplatesTransactions {
 
     this.callData = new TemplatesCallData(clientArgs)
     this.estimateGas = new TemplatesGasEstimates(clientArgs)
+    this.simulate = new TemplatesSimulation(clientArgs)
   }
 
   // Write actions
@@ -193,6 +206,8 @@ export class TemplatesClient extends TemplatesTransactions {
       await this._submitCreateRecoupTransaction(createRecoupArgs)
     const events = await this.getTransactionEvents({
       txHash,
+      chainId: createRecoupArgs.chainId,
+      tracking: createRecoupArgs.tracking,
       eventTopics: this.eventTopics.createRecoup,
     })
     const event = events.length > 0 ? events[0] : undefined
@@ -236,6 +251,8 @@ export class TemplatesClient extends TemplatesTransactions {
     )
     const events = await this.getTransactionEvents({
       txHash,
+      chainId: createDiversifierArgs.chainId,
+      tracking: createDiversifierArgs.tracking,
       eventTopics: this.eventTopics.createDiversifier,
     })
     const event = events.length > 0 ? events[0] : undefined
@@ -291,6 +308,38 @@ class TemplatesGasEstimates extends TemplatesTransactions {
 interface TemplatesGasEstimates extends BaseGasEstimatesMixin {}
 applyMixins(TemplatesGasEstimates, [BaseGasEstimatesMixin])
 
+class TemplatesSimulation extends TemplatesTransactions {
+  constructor(clientArgs: SplitsClientConfig) {
+    super({
+      transactionType: TransactionType.Simulation,
+      ...clientArgs,
+    })
+  }
+
+  async createRecoup(
+    createRecoupArgs: CreateRecoupConfig,
+  ): Promise<SimulationResult> {
+    const simulationResult =
+      await this._createRecoupTransaction(createRecoupArgs)
+    if (!this._isSimulationResult(simulationResult))
+      throw new Error('Invalid response')
+
+    return simulationResult
+  }
+
+  async createDiversifier(
+    createDiversifierArgs: CreateDiversifierConfig,
+  ): Promise<SimulationResult> {
+    const simulationResult = await this._createDiversifierTransaction(
+      createDiversifierArgs,
+    )
+    if (!this._isSimulationResult(simulationResult))
+      throw new Error('Invalid response')
+
+    return simulationResult
+  }
+}
+
 class TemplatesCallData extends TemplatesTransactions {
   constructor(clientArgs: SplitsClientConfig) {
     super({
@@ -0,0 +1,321 @@
+import {
+  Account,
+  Address,
+  Chain,
+  Log,
+  PublicClient,
+  RpcLog,
+  TransactionReceipt,
+  Transport,
+  WalletClient,
+  formatLog,
+  hexToBigInt,
+  toHex,
+} from 'viem'
+
+import { PassThroughWalletClient } from './passThroughWallet'
+import { ENTRY_POINT_V07_ADDRESS } from '../constants'
+import { InvalidConfigError, TransactionFailedError } from '../errors'
+import { MockBundler, MOCK_BUNDLE_TX_HASH } from '../testing/mocks/bundler'
+import {
+  writeActions as moduleWriteActions,
+  readActions,
+} from '../testing/mocks/passThroughWallet'
+import { MockViemContract } from '../testing/mocks/viemContract'
+import { SmartAccount, UserOperationPaymaster } from '../types'
+import { getUserOperationHash } from '../utils/userOperation'
+
+jest.mock('viem', () => {
+  const originalModule = jest.requireActual('viem')
+  return {
+    ...originalModule,
+    getContract: jest.fn(() => {
+      return new MockViemContract(readActions, moduleWriteActions)
+    }),
+  }
+})
+
+const SMART_ACCOUNT_ADDRESS: Address =
+  '0xD57f3Fa0b49E91eaA20e739c874Ae273Bcf2D7Aa'
+const PASS_THROUGH_WALLET_ADDRESS: Address =
+  '0xE1D4BCd79552d815Eb5A8Fb2479Ad770E15BB17e'
+const FACTORY_ADDRESS: Address = '0xE9762Fb8D5347474375Ce00628d5a13D8AD45A99'
+
+const mockPublicClient = jest.fn(() => {
+  return {
+    chain: {
+      id: 1,
+    },
+    simulateContract: jest.fn(async () => {
+      return { request: jest.mock }
+    }),
+    readContract: jest.fn(async () => BigInt(7)),
+    getBytecode: jest.fn(async () => undefined),
+    estimateFeesPerGas: jest.fn(async () => {
+      return {
+        maxFeePerGas: BigInt(30),
+        maxPriorityFeePerGas: BigInt(2),
+      }
+    }),
+  } as unknown as PublicClient<Transport, Chain>
+})
+const mockWalletClient = jest.fn(() => {
+  return {
+    account: {
+      address: '0xnotOwner',
+    },
+    chain: {
+      id: 1,
+    },
+    writeContract: jest.fn(() => {
+      return '0xhash'
+    }),
+  } as unknown as WalletClient<Transport, Chain, Account>
+})
+const createSmartAccount = (): SmartAccount => {
+  return {
+    address: SMART_ACCOUNT_ADDRESS,
+    encodeCalls: jest.fn(async () => '0xcafe' as const),
+    getStubSignature: jest.fn(async () => '0xdead' as const),
+    signUserOperation: jest.fn(async () => '0xbeef' as const),
+    getFactoryArgs: jest.fn(async () => {
+      return { factory: FACTORY_ADDRESS, factoryData: '0x1234' as const }
+    }),
+  }
+}
+
+describe('User operation writes', () => {
+  const event = {
+    blockNumber: 12345,
+  } as unknown as Log
+
+  const createClient = ({
+    bundler,
+    smartAccount,
+    paymaster,
+  }: {
+    bundler: MockBundler
+    smartAccount: SmartAccount
+    paymaster?: UserOperationPaymaster
+  }) => {
+    const client = new PassThroughWalletClient({
+      chainId: 1,
+      publicClient: new mockPublicClient(),
+      walletClient: new mockWalletClient(),
+      userOperation: {
+        bundlerClient: bundler.client,
+        smartAccount,
+        paymaster,
+        receiptPollingInterval: 0,
+      },
+    })
+    const getTransactionEventsSpy = jest
+      .spyOn(client, 'getTransactionEvents')
+      .mockImplementation(async () => [event])
+
+    return { client, getTransactionEventsSpy }
+  }
+
+  beforeEach(() => {
+    readActions.owner.mockClear()
+    moduleWriteActions.setPaused.mockClear()
+  })
+
+  test('Contract writes are sent from the smart account', async () => {
+    readActions.owner.mockReturnValueOnce(SMART_ACCOUNT_ADDRESS)
+    const bundler = new MockBundler()
+    const smartAccount = createSmartAccount()
+    const { client, getTransactionEventsSpy } = createClient({
+      bundler,
+      smartAccount,
+    })
+
+    const result = await client.setPaused({
+      passThroughWalletAddress: PASS_THROUGH_WALLET_ADDRESS,
+      paused: true,
+    })
+
+    expect(result.event).toEqual(event)
+    expect(getTransactionEventsSpy).toBeCalledWith({
+      txHash: MOCK_BUNDLE_TX_HASH,
+      eventTopics: client.eventTopics.setPaused,
+    })
+    expect(smartAccount.encodeCalls).toBeCalledWith([
+      expect.objectContaining({ address: PASS_THROUGH_WALLET_ADDRESS }),
+    ])
+    expect(bundler.userOperations).toHaveLength(1)
+
+    const [sentUserOperation] = bundler.userOperations
+    expect(sentUserOperation.sender).toEqual(SMART_ACCOUNT_ADDRESS)
+    expect(sentUserOperation.nonce).toEqual('0x7')
+    expect(sentUserOperation.factory).toEqual(FACTORY_ADDRESS)
+    expect(sentUserOperation.factoryData).toEqual('0x1234')
+    expect(sentUserOperation.callGasLimit).toEqual('0x186a0')
+    expect(sentUserOperation.maxFeePerGas).toEqual('0x1e')
+    expect(sentUserOperation.signature).toEqual('0xbeef')
+  })
+
+  test('Smart account signs the user operation hash', async () => {
+    const bundler = new MockBundler()
+    const smartAccount = createSmartAccount()
+    const { client } = createClient({ bundler, smartAccount })
+
+    await client.sendUserOperation({
+      calls: [{ address: PASS_THROUGH_WALLET_ADDRESS, data: '0x' }],
+    })
+
+    const signArgs = (smartAccount.signUserOperation as jest.Mock).mock
+      .calls[0][0]
+    expect(signArgs.chainId).toEqual(1)
+    expect(signArgs.userOperationHash).toEqual(
+      getUserOperationHash({
+        userOperation: signArgs.userOperation,
+        entryPointAddress: ENTRY_POINT_V07_ADDRESS,
+        chainId: 1,
+      }),
+    )
+  })
+
+  test('Batch of calls returns the bundle transaction and events', async () => {
+    const bundler = new MockBundler({ pendingPolls: 2 })
+    const smartAccount = createSmartAccount()
+    const { client } = createClient({ bundler, smartAccount })
+    const calls = [
+      { address: PASS_THROUGH_WALLET_ADDRESS, data: '0x01' as const },
+      {
+        address: SMART_ACCOUNT_ADDRESS,
+        data: '0x02' as const,
+        value: BigInt(1),
+      },
+    ]
+
+    const result = await client.sendUserOperation({ calls })
+
+    expect(result).toEqual({ txHash: MOCK_BUNDLE_TX_HASH, events: [event] })
+    expect(smartAccount.encodeCalls).toBeCalledWith(calls)
+    expect(
+      bundler.requests.filter(
+        ({ method }) => method === 'eth_getUserOperationReceipt',
+      ),
+    ).toHaveLength(3)
+  })
+
+  test('Events come from the user operation, not the whole bundle', async () => {
+    const getSetPausedLog = (address: Address, logIndex: number): RpcLog => {
+      return {
+        address,
+        topics: [client.eventTopics.setPaused[0]],
+        data: '0x',
+        blockHash: MOCK_BUNDLE_TX_HASH,
+        blockNumber: '0x1',
+        logIndex: toHex(logIndex),
+        transactionHash: MOCK_BUNDLE_TX_HASH,
+        transactionIndex: '0x0',
+        removed: false,
+      }
+    }
+    readActions.owner.mockReturnValueOnce(SMART_ACCOUNT_ADDRESS)
+    const publicClient = new mockPublicClient()
+    const bundler = new MockBundler()
+    const client = new PassThroughWalletClient({
+      chainId: 1,
+      publicClient,
+      walletClient: new mockWalletClient(),
+      userOperation: {
+        bundlerClient: bundler.client,
+        smartAccount: createSmartAccount(),
+        receiptPollingInterval: 0,
+      },
+    })
+    // Another account's operation in the same bundle paused its own wallet
+    const otherLog = getSetPausedLog(SMART_ACCOUNT_ADDRESS, 0)
+    const userOperationLog = getSetPausedLog(PASS_THROUGH_WALLET_ADDRESS, 1)
+    bundler.logs = [userOperationLog]
+    publicClient.waitForTransactionReceipt = jest.fn(async () => {
+      return {
+        status: 'success',
+        transactionHash: MOCK_BUNDLE_TX_HASH,
+        blockNumber: BigInt(1),
+        logs: [otherLog, userOperationLog].map((log) => formatLog(log)),
+      } as unknown as TransactionReceipt
+    })
+
+    const result = await client.setPaused({
+      passThroughWalletAddress: PASS_THROUGH_WALLET_ADDRESS,
+      paused: true,
+    })
+
+    expect(result.event).toEqual(formatLog(userOperationLog))
+  })
+
+  test('Paymaster data is applied after gas estimation', async () => {
+    const bundler = new MockBundler()
+    const smartAccount = createSmartAccount()
+    const paymaster = {
+      getPaymasterStubData: jest.fn(async () => {
+        return {
+          paymaster: FACTORY_ADDRESS,
+          paymasterData: '0x00' as const,
+          paymasterPostOpGasLimit: BigInt(10),
+        }
+      }),
+      getPaymasterData: jest.fn(async () => {
+        return {
+          paymaster: FACTORY_ADDRESS,
+          paymasterData: '0xabcd' as const,
+        }
+      }),
+    }
+    const { client } = createClient({ bundler, smartAccount, paymaster })
+
+    await client.sendUserOperation({
+      calls: [{ address: PASS_THROUGH_WALLET_ADDRESS, data: '0x' }],
+    })
+
+    const estimateRequest = bundler.requests.find(
+      ({ method }) => method === 'eth_estimateUserOperationGas',
+    )
+    const estimatedUserOperation = estimateRequest!.params![0] as Record<
+      string,
+      string
+    >
+    expect(estimatedUserOperation.paymasterData).toEqual('0x00')
+
+    const [sentUserOperation] = bundler.userOperations
+    expect(sentUserOperation.paymaster).toEqual(FACTORY_ADDRESS)
+    expect(sentUserOperation.paymasterData).toEqual('0xabcd')
+    expect(hexToBigInt(sentUserOperation.paymasterPostOpGasLimit!)).toEqual(
+      BigInt(10),
+    )
+  })
+
+  test('Reverted user operation fails', async () => {
+    const bundler = new MockBundler({ success: false })
+    const { client } = createClient({
+      bundler,
+      smartAccount: createSmartAccount(),
+    })
+
+    await expect(
+      async () =>
+        await client.sendUserOperation({
+          calls: [{ address: PASS_THROUGH_WALLET_ADDRESS, data: '0x' }],
+        }),
+    ).rejects.toThrow(TransactionFailedError)
+  })
+
+  test('Sending without a user operation config fails', async () => {
+    const client = new PassThroughWalletClient({
+      chainId: 1,
+      publicClient: new mockPublicClient(),
+      walletClient: new mockWalletClient(),
+    })
+
+    await expect(
+      async () =>
+        await client.sendUserOperation({
+          calls: [{ address: PASS_THROUGH_WALLET_ADDRESS, data: '0x' }],
+        }),
+    ).rejects.toThrow(InvalidConfigError)
+  })
+})
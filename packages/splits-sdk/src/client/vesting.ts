@@ -34,6 +34,7 @@ import type {
   TransactionConfig,
   TransactionFormat,
   SplitsPublicClient,
+  SimulationResult,
 } from '../types'
 import { validateAddress, validateVestingPeriod } from '../utils/validation'
 
@@ -44,6 +45,7 @@ class VestingTransactions extends BaseTransactions {
   constructor(transactionClientArgs: SplitsClientConfig & TransactionConfig) {
     super({
       supportedChainIds: VESTING_CHAIN_IDS,
+      deploymentContracts: ['vestingFactory'],
       ...transactionClientArgs,
     })
   }
@@ -57,15 +59,19 @@ class VestingTransactions extends BaseTransactions {
     validateAddress(beneficiary)
     validateVestingPeriod(vestingPeriodSeconds)
 
-    if (this._shouldRequireWalletClient) this._requireWalletClient()
+    if (this._shouldRequireWalletClient) this._requireWalletClient(chainId)
 
     const functionChainId = this._getFunctionChainId(chainId)
 
     const result = await this._executeContractFunction({
-      contractAddress: getVestingFactoryAddress(functionChainId),
+      contractAddress: getVestingFactoryAddress(
+        functionChainId,
+        this._deployments,
+      ),
       contractAbi: vestingFactoryAbi,
       functionName: 'createVestingModule',
       functionArgs: [beneficiary, vestingPeriodSeconds],
+      chainId: functionChainId,
       transactionOverrides,
     })
 
@@ -75,17 +81,19 @@ class VestingTransactions extends BaseTransactions {
   protected async _startVestTransaction({
     vestingModuleAddress,
     tokens,
+    chainId,
     transactionOverrides = {},
   }: StartVestConfig): Promise<TransactionFormat> {
     validateAddress(vestingModuleAddress)
     tokens.map((token) => validateAddress(token))
-    if (this._shouldRequireWalletClient) this._requireWalletClient()
+    if (this._shouldRequireWalletClient) this._requireWalletClient(chainId)
 
     const result = await this._executeContractFunction({
       contractAddress: getAddress(vestingModuleAddress),
       contractAbi: vestingAbi,
       functionName: 'createVestingStreams',
       functionArgs: [tokens],
+      chainId,
       transactionOverrides,
     })
 
@@ -95,16 +103,18 @@ class VestingTransactions extends BaseTransactions {
   protected async _releaseVestedFundsTransaction({
     vestingModuleAddress,
     streamIds,
+    chainId,
     transactionOverrides = {},
   }: ReleaseVestedFundsConfig): Promise<TransactionFormat> {
     validateAddress(vestingModuleAddress)
-    if (this._shouldRequireWalletClient) this._requireWalletClient()
+    if (this._shouldRequireWalletClient) this._requireWalletClient(chainId)
 
     const result = await this._executeContractFunction({
       contractAddress: getAddress(vestingModuleAddress),
       contractAbi: vestingAbi,
       functionName: 'releaseFromVesting',
       functionArgs: [streamIds],
+      chainId,
       transactionOverrides,
     })
 
@@ -128,7 +138,7 @@ class VestingTransactions extends BaseTransactions {
   ): GetContractReturnType<VestingFactoryAbi, SplitsPublicClient> {
     const publicClient = this._getPublicClient(chainId)
     return getContract({
-      address: getVestingFactoryAddress(chainId),
+      address: getVestingFactoryAddress(chainId, this._deployments),
       abi: vestingFactoryAbi,
       client: publicClient,
     })
@@ -140,6 +150,7 @@ export class VestingClient extends VestingTransactions {
   readonly eventTopics: { [key: string]: Hex[] }
   readonly callData: VestingCallData
   readonly estimateGas: VestingGasEstimates
+  readonly simulate: VestingSimulation
 
   constructor(clientArgs: SplitsClientConfig) {
     super({
@@ -170,6 +181,7 @@ export class VestingClient extends VestingTransactions {
 
     this.callData = new VestingCallData(clientArgs)
     this.estimateGas = new VestingGasEstimates(clientArgs)
+    this.simulate = new VestingSimulation(clientArgs)
   }
 
   // Write actions
@@ -193,6 +205,8 @@ export class VestingClient extends VestingTransactions {
       await this._submitCreateVestingModuleTransaction(createVestingArgs)
     const events = await this.getTransactionEvents({
       txHash,
+      chainId: createVestingArgs.chainId,
+      tracking: createVestingArgs.tracking,
       eventTopics: this.eventTopics.createVestingModule,
     })
     const event = events.length > 0 ? events[0] : undefined
@@ -227,6 +241,8 @@ export class VestingClient extends VestingTransactions {
     const { txHash } = await this._submitStartVestTransaction(startVestArgs)
     const events = await this.getTransactionEvents({
       txHash,
+      chainId: startVestArgs.chainId,
+      tracking: startVestArgs.tracking,
       eventTopics: this.eventTopics.startVest,
     })
     return { events }
@@ -253,6 +269,8 @@ export class VestingClient extends VestingTransactions {
       await this._submitReleaseVestedFundsTransaction(releaseFundsArgs)
     const events = await this.getTransactionEvents({
       txHash,
+      chainId: releaseFundsArgs.chainId,
+      tracking: releaseFundsArgs.tracking,
       eventTopics: this.eventTopics.releaseVestedFunds,
     })
     return { events }
@@ -418,6 +436,45 @@ class VestingGasEstimates extends VestingTransactions {
 interface VestingGasEstimates extends BaseGasEstimatesMixin {}
 applyMixins(VestingGasEstimates, [BaseGasEstimatesMixin])
 
+class VestingSimulation extends VestingTransactions {
+  constructor(clientArgs: SplitsClientConfig) {
+    super({
+      transactionType: TransactionType.Simulation,
+      ...clientArgs,
+    })
+  }
+
+  async createVestingModule(
+    createVestingArgs: CreateVestingConfig,
+  ): Promise<SimulationResult> {
+    const simulationResult =
+      await this._createVestingModuleTransaction(createVestingArgs)
+    if (!this._isSimulationResult(simulationResult))
+      throw new Error('Invalid response')
+
+    return simulationResult
+  }
+
+  async startVest(startVestArgs: StartVestConfig): Promise<SimulationResult> {
+    const simulationResult = await this._startVestTransaction(startVestArgs)
+    if (!this._isSimulationResult(simulationResult))
+      throw new Error('Invalid response')
+
+    return simulationResult
+  }
+
+  async releaseVestedFunds(
+    releaseFundsArgs: ReleaseVestedFundsConfig,
+  ): Promise<SimulationResult> {
+    const simulationResult =
+      await this._releaseVestedFundsTransaction(releaseFundsArgs)
+    if (!this._isSimulationResult(simulationResult))
+      throw new Error('Invalid response')
+
+    return simulationResult
+  }
+}
+
 class VestingCallData extends VestingTransactions {
   constructor(clientArgs: SplitsClientConfig) {
     super({
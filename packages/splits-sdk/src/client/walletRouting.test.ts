@@ -0,0 +1,121 @@
+import {
+  Account,
+  Address,
+  Chain,
+  PublicClient,
+  Transport,
+  WalletClient,
+} from 'viem'
+
+import { SplitsClient } from './index'
+import { InvalidArgumentError } from '../errors'
+
+const OWNER: Address = '0xD57f3Fa0b49E91eaA20e739c874Ae273Bcf2D7Aa'
+const TOKEN: Address = '0xE1D4BCd79552d815Eb5A8Fb2479Ad770E15BB17e'
+
+const mockPublicClient = jest.fn((chainId: number) => {
+  return {
+    chain: {
+      id: chainId,
+    },
+    simulateContract: jest.fn(async () => {
+      return { request: { functionName: 'withdraw' } }
+    }),
+  } as unknown as PublicClient<Transport, Chain>
+})
+const mockWalletClient = jest.fn((chainId: number) => {
+  return {
+    account: {
+      address: OWNER,
+    },
+    chain: {
+      id: chainId,
+    },
+    writeContract: jest.fn(async () => `0xhash${chainId}`),
+  } as unknown as WalletClient<Transport, Chain, Account>
+})
+
+describe('Wallet routing', () => {
+  const publicClients = {
+    1: new mockPublicClient(1),
+    10: new mockPublicClient(10),
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  test('Writes go through the wallet client for their chain', async () => {
+    const walletClients = {
+      1: new mockWalletClient(1),
+      10: new mockWalletClient(10),
+    }
+    const client = new SplitsClient({ publicClients, walletClients })
+
+    const [{ txHash: mainnetTxHash }, { txHash: optimismTxHash }] =
+      await Promise.all([
+        client.warehouse._submitWithdrawTransaction({
+          ownerAddress: OWNER,
+          tokenAddress: TOKEN,
+          chainId: 1,
+        }),
+        client.warehouse._submitWithdrawTransaction({
+          ownerAddress: OWNER,
+          tokenAddress: TOKEN,
+          chainId: 10,
+        }),
+      ])
+
+    expect(mainnetTxHash).toEqual('0xhash1')
+    expect(optimismTxHash).toEqual('0xhash10')
+    expect(walletClients[1].writeContract).toHaveBeenCalledTimes(1)
+    expect(walletClients[10].writeContract).toHaveBeenCalledTimes(1)
+    expect(publicClients[10].simulateContract).toHaveBeenCalledTimes(1)
+  })
+
+  test('Injected wallets are switched over to the chain', async () => {
+    const walletClient = new mockWalletClient(1)
+    const switchedWalletClient = new mockWalletClient(10)
+    const switchChain = jest.fn(async () => switchedWalletClient)
+    const client = new SplitsClient({
+      publicClients,
+      walletClient,
+      switchChain,
+    })
+
+    const { txHash } = await client.warehouse._submitWithdrawTransaction({
+      ownerAddress: OWNER,
+      tokenAddress: TOKEN,
+      chainId: 10,
+    })
+
+    expect(txHash).toEqual('0xhash10')
+    expect(switchChain).toHaveBeenCalledWith(10)
+    expect(walletClient.writeContract).not.toHaveBeenCalled()
+
+    // Only that write was switched, the next one without a chain id still
+    // goes through the wallet client the client was set up with
+    const { txHash: defaultTxHash } =
+      await client.warehouse._submitWithdrawTransaction({
+        ownerAddress: OWNER,
+        tokenAddress: TOKEN,
+      })
+    expect(defaultTxHash).toEqual('0xhash1')
+    expect(switchedWalletClient.writeContract).toHaveBeenCalledTimes(1)
+  })
+
+  test('Writes on another chain fail without a wallet for it', async () => {
+    const client = new SplitsClient({
+      publicClients,
+      walletClient: new mockWalletClient(1),
+    })
+
+    await expect(
+      client.warehouse._submitWithdrawTransaction({
+        ownerAddress: OWNER,
+        tokenAddress: TOKEN,
+        chainId: 10,
+      }),
+    ).rejects.toThrow(InvalidArgumentError)
+  })
+})
@@ -0,0 +1,514 @@
+import {
+  Address,
+  Chain,
+  Hex,
+  Log,
+  PublicClient,
+  Transport,
+  createWalletClient,
+  decodeFunctionData,
+  encodeFunctionData,
+  fromHex,
+  http,
+  toHex,
+} from 'viem'
+import { privateKeyToAccount } from 'viem/accounts'
+import { mainnet } from 'viem/chains'
+
+import { WarehouseClient } from './warehouse'
+import { NATIVE_TOKEN_ADDRESS } from '../constants'
+import { warehouseAbi } from '../constants/abi/warehouse'
+import {
+  ExpiredSignatureError,
+  InvalidArgumentError,
+  InvalidNonceError,
+  InvalidSignerError,
+  PausedError,
+} from '../errors'
+import { MockWarehouseRelayer } from '../testing/mocks/warehouseRelayer'
+
+const OWNER_ONE: Address = '0x1000000000000000000000000000000000000001'
+const OWNER_TWO: Address = '0x2000000000000000000000000000000000000002'
+const TOKEN: Address = '0x3000000000000000000000000000000000000003'
+const BAD_TOKEN: Address = '0x4000000000000000000000000000000000000004'
+const SAFE: Address = '0x5000000000000000000000000000000000000005'
+
+const BALANCES: { [owner: Address]: { [token: Address]: bigint } } = {
+  [OWNER_ONE]: {
+    [NATIVE_TOKEN_ADDRESS]: BigInt(1_500_000_000_000_000_000),
+    [TOKEN]: BigInt(0),
+  },
+  [OWNER_TWO]: {
+    [NATIVE_TOKEN_ADDRESS]: BigInt(0),
+    [TOKEN]: BigInt(2_500_000),
+  },
+}
+
+type ContractCall = {
+  address: Address
+  functionName: string
+  args?: [Address, bigint]
+}
+
+describe('Warehouse balances', () => {
+  const mockMulticall = jest.fn(
+    async ({ contracts }: { contracts: ContractCall[] }) => {
+      return contracts.map(({ address, functionName, args }) => {
+        if (address === BAD_TOKEN)
+          return { status: 'failure', error: new Error('execution reverted') }
+        if (functionName === 'symbol')
+          return { status: 'success', result: 'USDC' }
+        if (functionName === 'decimals') return { status: 'success', result: 6 }
+
+        const [owner, id] = args!
+        const token = Object.keys(BALANCES[owner]).find(
+          (token) => fromHex(token as Address, 'bigint') === id,
+        ) as Address
+        return {
+          status: 'success',
+          result: BALANCES[owner][token] ?? BigInt(0),
+        }
+      })
+    },
+  )
+  const client = new WarehouseClient({
+    chainId: 1,
+    publicClient: {
+      chain: { id: 1 },
+      multicall: mockMulticall,
+    } as unknown as PublicClient<Transport, Chain>,
+  })
+
+  beforeEach(() => {
+    mockMulticall.mockClear()
+  })
+
+  test('Reads every owner and token in one multicall', async () => {
+    const { balances } = await client.getBalances({
+      ownerAddresses: [OWNER_ONE, OWNER_TWO],
+      tokens: [NATIVE_TOKEN_ADDRESS, fromHex(TOKEN, 'bigint'), BAD_TOKEN],
+    })
+
+    // One multicall for the balances, one for the token metadata
+    expect(mockMulticall).toHaveBeenCalledTimes(2)
+    expect(balances).toEqual({
+      [OWNER_ONE]: {
+        [NATIVE_TOKEN_ADDRESS]: {
+          symbol: 'ETH',
+          decimals: 18,
+          rawAmount: BigInt(1_500_000_000_000_000_000),
+          formattedAmount: '1.5',
+        },
+        [TOKEN]: {
+          symbol: 'USDC',
+          decimals: 6,
+          rawAmount: BigInt(0),
+          formattedAmount: '0',
+        },
+      },
+      [OWNER_TWO]: {
+        [NATIVE_TOKEN_ADDRESS]: {
+          symbol: 'ETH',
+          decimals: 18,
+          rawAmount: BigInt(0),
+          formattedAmount: '0',
+        },
+        [TOKEN]: {
+          symbol: 'USDC',
+          decimals: 6,
+          rawAmount: BigInt(2_500_000),
+          formattedAmount: '2.5',
+        },
+      },
+    })
+  })
+
+  test('Filters out zero balances', async () => {
+    const { balances } = await client.getBalances({
+      ownerAddresses: [OWNER_ONE, OWNER_TWO],
+      tokens: [NATIVE_TOKEN_ADDRESS, TOKEN],
+      filterZeroBalances: true,
+    })
+
+    expect(Object.keys(balances[OWNER_ONE])).toEqual([NATIVE_TOKEN_ADDRESS])
+    expect(Object.keys(balances[OWNER_TWO])).toEqual([TOKEN])
+  })
+
+  test('Rejects ids that are not token addresses', async () => {
+    await expect(
+      client.getBalances({
+        ownerAddresses: [OWNER_ONE],
+        tokens: [fromHex(TOKEN, 'bigint') << BigInt(160)],
+      }),
+    ).rejects.toThrow(InvalidArgumentError)
+  })
+})
+
+describe('Relayed withdraw', () => {
+  const recipient = privateKeyToAccount(
+    '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80',
+  )
+  const relayer = privateKeyToAccount(
+    '0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d',
+  )
+  const tokenId = fromHex(TOKEN, 'bigint').toString()
+  const setup = ({
+    withdrawConfig = { incentive: 10_000, paused: false },
+    contractSignatures,
+  }: {
+    withdrawConfig?: { incentive: number; paused: boolean }
+    contractSignatures?: { [owner: Address]: Hex[] }
+  } = {}) => {
+    const chain = new MockWarehouseRelayer({
+      chain: mainnet,
+      relayerAccount: relayer,
+      balances: {
+        [recipient.address]: { [tokenId]: BigInt(1000) },
+        [SAFE]: { [tokenId]: BigInt(1000) },
+      },
+      withdrawConfigs: {
+        [recipient.address]: withdrawConfig,
+        [SAFE]: withdrawConfig,
+      },
+      contractSignatures,
+    })
+    const recipientClient = new WarehouseClient({
+      chainId: 1,
+      publicClient: chain.publicClient,
+      walletClient: createWalletClient({
+        account: recipient,
+        chain: mainnet,
+        transport: http(),
+      }),
+    })
+    const relayerClient = new WarehouseClient({
+      chainId: 1,
+      publicClient: chain.publicClient,
+      walletClient: chain.walletClient,
+    })
+    const signRelayedWithdraw = (
+      args: Partial<
+        Parameters<typeof recipientClient.sign.signRelayedWithdraw>[0]
+      > = {},
+    ) =>
+      recipientClient.sign.signRelayedWithdraw({
+        tokenAddress: TOKEN,
+        amount: BigInt(600),
+        withdrawHelperAddress: chain.withdrawHelper,
+        deadline,
+        ...args,
+      })
+
+    return { chain, recipientClient, relayerClient, signRelayedWithdraw }
+  }
+  const deadline = Math.floor(Date.now() / 1000) + 3600
+
+  test('Pays the recipient out with gas from the relayer', async () => {
+    const { chain, relayerClient, signRelayedWithdraw } = setup()
+
+    const signedWithdraw = await signRelayedWithdraw()
+    const result = await relayerClient.relayWithdraw(signedWithdraw)
+
+    expect(signedWithdraw.ownerAddress).toEqual(recipient.address)
+    expect(result).toEqual({
+      txHash: expect.any(String),
+      gasUsed: chain.gasUsed,
+      effectiveGasPrice: chain.effectiveGasPrice,
+      gasCost: chain.gasUsed * chain.effectiveGasPrice,
+    })
+    expect(chain.walletClient.writeContract).toHaveBeenCalledWith(
+      expect.objectContaining({ functionName: 'temporaryApproveAndCallBySig' }),
+    )
+    expect(chain.balances[recipient.address][tokenId]).toEqual(BigInt(400))
+    // The recipient is the withdrawer too, so keeps the incentive
+    expect(chain.payouts[recipient.address][tokenId]).toEqual(BigInt(600))
+    expect(chain.payouts[relayer.address]).toBeUndefined()
+  })
+
+  test('Accepts signatures from contract owners', async () => {
+    const { signRelayedWithdraw } = setup()
+    const { signature } = await signRelayedWithdraw()
+    const { chain, relayerClient } = setup({
+      contractSignatures: { [SAFE]: [signature] },
+    })
+    const withdrawToSafe = {
+      ownerAddress: SAFE,
+      spenderAddress: chain.withdrawHelper,
+      operator: false,
+      tokenAddress: TOKEN,
+      amount: BigInt(600),
+      targetAddress: chain.withdrawHelper,
+      data: encodeFunctionData({
+        abi: warehouseAbi,
+        functionName: 'withdraw',
+        args: [SAFE, [TOKEN], [BigInt(600)], SAFE],
+      }),
+      nonce: BigInt(1),
+      deadline,
+      signature,
+    }
+
+    await relayerClient.relayWithdraw(withdrawToSafe)
+
+    expect(chain.publicClient.verifyTypedData).toHaveBeenCalledWith(
+      expect.objectContaining({ address: SAFE, signature }),
+    )
+    expect(chain.balances[SAFE][tokenId]).toEqual(BigInt(400))
+    expect(chain.payouts[SAFE][tokenId]).toEqual(BigInt(600))
+  })
+
+  test('Uses up the nonce so a withdraw only goes through once', async () => {
+    const { chain, relayerClient, signRelayedWithdraw } = setup()
+    const signedWithdraw = await signRelayedWithdraw()
+
+    await relayerClient.relayWithdraw(signedWithdraw)
+
+    await expect(relayerClient.relayWithdraw(signedWithdraw)).rejects.toThrow(
+      InvalidNonceError,
+    )
+    expect(chain.balances[recipient.address][tokenId]).toEqual(BigInt(400))
+  })
+
+  test('Rejects withdraws the recipient did not sign for', async () => {
+    const { chain, relayerClient, signRelayedWithdraw } = setup()
+    const signedWithdraw = await signRelayedWithdraw()
+
+    // The relayer swapping itself in as the withdrawer
+    await expect(
+      relayerClient.relayWithdraw({
+        ...signedWithdraw,
+        data: encodeFunctionData({
+          abi: warehouseAbi,
+          functionName: 'withdraw',
+          args: [recipient.address, [TOKEN], [BigInt(600)], relayer.address],
+        }),
+      }),
+    ).rejects.toThrow(InvalidArgumentError)
+    await expect(
+      relayerClient.relayWithdraw({ ...signedWithdraw, amount: BigInt(1000) }),
+    ).rejects.toThrow(InvalidArgumentError)
+    await expect(
+      relayerClient.relayWithdraw({ ...signedWithdraw, nonce: BigInt(1) }),
+    ).rejects.toThrow(InvalidSignerError)
+    await expect(
+      relayerClient.relayWithdraw({
+        ...signedWithdraw,
+        deadline: signedWithdraw.deadline + 1,
+      }),
+    ).rejects.toThrow(InvalidSignerError)
+    // The chain checks the signature too
+    await expect(
+      relayerClient.temporaryApproveAndCallBySig({
+        ...signedWithdraw,
+        nonce: BigInt(1),
+      }),
+    ).rejects.toThrow()
+
+    expect(chain.walletClient.writeContract).not.toHaveBeenCalled()
+    expect(chain.payouts).toEqual({})
+  })
+
+  test('Rejects expired, revoked and paused withdraws before submitting', async () => {
+    const { chain, relayerClient, signRelayedWithdraw } = setup()
+    const signedWithdraw = await signRelayedWithdraw()
+
+    const expiredWithdraw = await signRelayedWithdraw({
+      deadline: Math.floor(Date.now() / 1000) - 1,
+    })
+    await expect(relayerClient.relayWithdraw(expiredWithdraw)).rejects.toThrow(
+      ExpiredSignatureError,
+    )
+
+    // The owner revokes the withdraw by invalidating its nonce
+    chain.invalidateNonce(recipient.address, signedWithdraw.nonce)
+    await expect(relayerClient.relayWithdraw(signedWithdraw)).rejects.toThrow(
+      InvalidNonceError,
+    )
+
+    const paused = setup({ withdrawConfig: { incentive: 0, paused: true } })
+    const pausedWithdraw = await paused.signRelayedWithdraw()
+    await expect(
+      paused.relayerClient.relayWithdraw(pausedWithdraw),
+    ).rejects.toThrow(PausedError)
+
+    expect(chain.walletClient.writeContract).not.toHaveBeenCalled()
+    expect(paused.chain.walletClient.writeContract).not.toHaveBeenCalled()
+  })
+})
+
+describe('Nonce manager', () => {
+  const owner = privateKeyToAccount(
+    '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80',
+  )
+  const setup = (usedNonces: bigint[], failingBatches: number[] = []) => {
+    const used = new Set(usedNonces)
+    // Bit n of word w is set when nonce w * 256 + n is used
+    const mockMulticall = jest.fn(
+      async ({ contracts }: { contracts: ContractCall[] }) => {
+        return contracts.map(({ args }) =>
+          Array.from(used)
+            .filter((nonce) => nonce / BigInt(256) === args![1])
+            .reduce(
+              (bitMap, nonce) => bitMap | (BigInt(1) << nonce % BigInt(256)),
+              BigInt(0),
+            ),
+        )
+      },
+    )
+    const client = new WarehouseClient({
+      chainId: 1,
+      publicClient: {
+        chain: { id: 1 },
+        multicall: mockMulticall,
+      } as unknown as PublicClient<Transport, Chain>,
+      walletClient: createWalletClient({
+        account: owner,
+        chain: mainnet,
+        transport: http(),
+      }),
+    })
+    const batches: bigint[][] = []
+    const mockSubmitBatch = jest
+      .spyOn(client, '_submitBatchTransaction')
+      .mockImplementation(async ({ calls }) => {
+        if (failingBatches.includes(batches.length + 1))
+          throw new Error('User rejected the request')
+
+        batches.push(
+          calls.map(
+            ({ data }) =>
+              decodeFunctionData({ abi: warehouseAbi, data })
+                .args![0] as bigint,
+          ),
+        )
+        return { batchId: `${batches.length}` }
+      })
+    jest
+      .spyOn(client, 'getBatchEvents')
+      .mockImplementation(async ({ batchId }) => {
+        const nonces = batches[Number(batchId) - 1]
+        nonces.map((nonce) => used.add(nonce))
+        return nonces.map((nonce) => {
+          return { data: toHex(nonce) } as Log
+        })
+      })
+
+    return { client, mockMulticall, mockSubmitBatch, batches }
+  }
+
+  test('Reserves the lowest unused nonce', async () => {
+    const { client, mockMulticall } = setup([BigInt(0), BigInt(1), BigInt(3)])
+
+    const { nonce } = await client.reserveNonce({
+      ownerAddress: owner.address,
+    })
+
+    expect(nonce).toEqual(BigInt(2))
+    expect(mockMulticall).toHaveBeenCalledTimes(1)
+    expect(mockMulticall.mock.calls[0][0].contracts).toEqual([
+      expect.objectContaining({
+        functionName: 'nonceBitMap',
+        args: [owner.address, BigInt(0)],
+      }),
+    ])
+  })
+
+  test('Hands concurrent signers different nonces', async () => {
+    const { client } = setup([BigInt(1)])
+
+    const nonces = await Promise.all(
+      [0, 1, 2].map(async () => {
+        const { nonce } = await client.reserveNonce({
+          ownerAddress: owner.address,
+        })
+        return nonce
+      }),
+    )
+
+    expect(nonces).toEqual([BigInt(0), BigInt(2), BigInt(3)])
+
+    client.releaseNonce({ ownerAddress: owner.address, nonce: BigInt(2) })
+    const { nonce } = await client.reserveNonce({
+      ownerAddress: owner.address,
+    })
+    expect(nonce).toEqual(BigInt(2))
+  })
+
+  test('Moves on to the next word when one is used up', async () => {
+    const { client, mockMulticall } = setup(
+      Array.from({ length: 300 }, (_, index) => BigInt(index)),
+    )
+
+    const { nonce } = await client.reserveNonce({
+      ownerAddress: owner.address,
+      startNonce: BigInt(10),
+    })
+
+    expect(nonce).toEqual(BigInt(300))
+    expect(mockMulticall).toHaveBeenCalledTimes(2)
+  })
+
+  test('Invalidates the unused nonces in a range', async () => {
+    const { client, mockSubmitBatch } = setup([BigInt(5), BigInt(7)])
+    const { nonce: reservedNonce } = await client.reserveNonce({
+      ownerAddress: owner.address,
+      startNonce: BigInt(4),
+    })
+
+    const result = await client.invalidateNonceRange({
+      fromNonce: BigInt(4),
+      toNonce: BigInt(8),
+    })
+
+    expect(reservedNonce).toEqual(BigInt(4))
+    expect(result).toEqual({
+      invalidatedNonces: [BigInt(4), BigInt(6), BigInt(8)],
+      events: expect.any(Array),
+      failedNonces: [],
+    })
+    expect(result.events).toHaveLength(3)
+    expect(mockSubmitBatch).toHaveBeenCalledTimes(1)
+
+    const { nonce } = await client.reserveNonce({
+      ownerAddress: owner.address,
+      startNonce: BigInt(4),
+    })
+    expect(nonce).toEqual(BigInt(9))
+  })
+
+  test('Returns the nonces invalidated before a batch failed', async () => {
+    const { client, mockSubmitBatch } = setup([], [2])
+
+    const { invalidatedNonces, events, failedNonces, error } =
+      await client.invalidateNonceRange({
+        fromNonce: BigInt(0),
+        toNonce: BigInt(599),
+      })
+
+    expect(invalidatedNonces).toEqual(
+      Array.from({ length: 256 }, (_, index) => BigInt(index)),
+    )
+    expect(events).toHaveLength(256)
+    expect(failedNonces).toEqual(
+      Array.from({ length: 344 }, (_, index) => BigInt(256 + index)),
+    )
+    expect(error?.message).toEqual('User rejected the request')
+    // The batch after the failed one isn't sent
+    expect(mockSubmitBatch).toHaveBeenCalledTimes(2)
+  })
+
+  test('Rejects invalid ranges', async () => {
+    const { client, mockSubmitBatch } = setup([])
+
+    await expect(
+      client.invalidateNonceRange({ fromNonce: BigInt(2), toNonce: BigInt(1) }),
+    ).rejects.toThrow(InvalidArgumentError)
+    await expect(
+      client.invalidateNonceRange({
+        fromNonce: BigInt(0),
+        toNonce: BigInt(5000),
+      }),
+    ).rejects.toThrow(InvalidArgumentError)
+    expect(mockSubmitBatch).not.toHaveBeenCalled()
+  })
+})
@@ -5,9 +5,14 @@ import {
   Hex,
   Log,
   TypedDataDomain,
+  decodeFunctionData,
   encodeEventTopics,
+  encodeFunctionData,
   fromHex,
+  getAddress,
   getContract,
+  keccak256,
+  toHex,
   zeroAddress,
 } from 'viem'
 import { warehouseAbi } from '../constants/abi/warehouse'
@@ -18,18 +23,27 @@ import {
 } from './base'
 import {
   CallData,
+  FormattedTokenBalances,
   ReadContractArgs,
+  SimulationResult,
   SplitsClientConfig,
   TransactionConfig,
   TransactionFormat,
   WarehouseApproveBySig,
   WarehouseApproveBySigConfig,
   WarehouseApproveConfig,
+  WarehouseBalancesConfig,
   WarehouseBatchDepositConfig,
   WarehouseBatchTransferConfig,
   WarehouseBatchWithdrawConfig,
   WarehouseDepositConfig,
   WarehouseInvalidateNonceConfig,
+  WarehouseInvalidateNonceRangeConfig,
+  WarehouseInvalidateNonceRangeResult,
+  WarehouseRelayedWithdraw,
+  WarehouseRelayWithdrawResult,
+  WarehouseReleaseNonceConfig,
+  WarehouseReserveNonceConfig,
   WarehouseSetOperatorConfig,
   WarehouseSetWithdrawConfig,
   WarehouseTemporaryApproveAndCallBySig,
@@ -45,13 +59,29 @@ import {
   getWarehouseAddress,
   NATIVE_TOKEN_ADDRESS,
 } from '../constants'
-import { TransactionFailedError } from '../errors'
+import {
+  ExpiredSignatureError,
+  InvalidArgumentError,
+  InvalidNonceError,
+  InvalidSignerError,
+  PausedError,
+  TransactionFailedError,
+} from '../errors'
 import { applyMixins } from './mixin'
-import { getNumberFromPercent, validateAddress } from '../utils'
+import {
+  fetchWarehouseBalances,
+  getNumberFromPercent,
+  validateAddress,
+} from '../utils'
 import { SplitsPublicClient } from '../types'
+import { waitForTransaction } from '../utils/transaction'
 type WarehouseAbiType = typeof warehouseAbi
 
 const nativeTokenAddress: Address = '0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE'
+const maxAddress: Address = '0xffffffffffffffffffffffffffffffffffffffff'
+// Unordered nonces are stored as bits in words of 256 nonces
+const NONCE_WORD_SIZE = 256
+const MAX_NONCE_RANGE = 4 * NONCE_WORD_SIZE
 
 class WarehouseTransactions extends BaseTransactions {
   protected readonly _warehouseAbi
@@ -59,6 +89,7 @@ class WarehouseTransactions extends BaseTransactions {
   constructor(transactionClientArgs: SplitsClientConfig & TransactionConfig) {
     super({
       supportedChainIds: SPLITS_V2_SUPPORTED_CHAIN_IDS,
+      deploymentContracts: ['warehouse'],
       ...transactionClientArgs,
     })
 
@@ -70,28 +101,37 @@ class WarehouseTransactions extends BaseTransactions {
   ): GetContractReturnType<WarehouseAbiType, SplitsPublicClient> {
     const publicClient = this._getPublicClient(chainId)
     return getContract({
-      address: getWarehouseAddress(),
+      address: getWarehouseAddress(chainId, this._deployments),
       abi: warehouseAbi,
       client: publicClient,
     })
   }
 
+  protected _getWarehouseAddress(chainId?: number): Address {
+    return getWarehouseAddress(
+      chainId ?? this._walletClient?.chain?.id ?? this._chainId,
+      this._deployments,
+    )
+  }
+
   protected async _transfer({
     receiverAddress: receiver,
     tokenAddress: token,
     amount,
+    chainId,
     transactionOverrides = {},
   }: WarehouseTransferConfig): Promise<TransactionFormat> {
     validateAddress(receiver)
     validateAddress(token)
 
-    if (this._shouldRequireWalletClient) this._requireWalletClient()
+    if (this._shouldRequireWalletClient) this._requireWalletClient(chainId)
 
     const result = await this._executeContractFunction({
-      contractAddress: getWarehouseAddress(),
+      contractAddress: this._getWarehouseAddress(chainId),
       contractAbi: warehouseAbi,
       functionName: 'transfer',
       functionArgs: [receiver, fromHex(token, 'bigint'), amount],
+      chainId,
       transactionOverrides,
     })
 
@@ -103,19 +143,21 @@ class WarehouseTransactions extends BaseTransactions {
     receiverAddress: receiver,
     tokenAddress: token,
     amount,
+    chainId,
     transactionOverrides = {},
   }: WarehouseTransferFromConfig): Promise<TransactionFormat> {
     validateAddress(sender)
     validateAddress(receiver)
     validateAddress(token)
 
-    if (this._shouldRequireWalletClient) this._requireWalletClient()
+    if (this._shouldRequireWalletClient) this._requireWalletClient(chainId)
 
     const result = await this._executeContractFunction({
-      contractAddress: getWarehouseAddress(),
+      contractAddress: this._getWarehouseAddress(chainId),
       contractAbi: warehouseAbi,
       functionName: 'transferFrom',
       functionArgs: [sender, receiver, fromHex(token, 'bigint'), amount],
+      chainId,
       transactionOverrides,
     })
 
@@ -126,18 +168,20 @@ class WarehouseTransactions extends BaseTransactions {
     spenderAddress: spender,
     tokenAddress: token,
     amount,
+    chainId,
     transactionOverrides = {},
   }: WarehouseApproveConfig): Promise<TransactionFormat> {
     validateAddress(spender)
     validateAddress(token)
 
-    if (this._shouldRequireWalletClient) this._requireWalletClient()
+    if (this._shouldRequireWalletClient) this._requireWalletClient(chainId)
 
     const result = await this._executeContractFunction({
-      contractAddress: getWarehouseAddress(),
+      contractAddress: this._getWarehouseAddress(chainId),
       contractAbi: warehouseAbi,
       functionName: 'approve',
       functionArgs: [spender, fromHex(token, 'bigint'), amount],
+      chainId,
       transactionOverrides,
     })
 
@@ -147,17 +191,19 @@ class WarehouseTransactions extends BaseTransactions {
   protected async _setOperator({
     operatorAddress: operator,
     approved,
+    chainId,
     transactionOverrides = {},
   }: WarehouseSetOperatorConfig): Promise<TransactionFormat> {
     validateAddress(operator)
 
-    if (this._shouldRequireWalletClient) this._requireWalletClient()
+    if (this._shouldRequireWalletClient) this._requireWalletClient(chainId)
 
     const result = await this._executeContractFunction({
-      contractAddress: getWarehouseAddress(),
+      contractAddress: this._getWarehouseAddress(chainId),
       contractAbi: warehouseAbi,
       functionName: 'setOperator',
       functionArgs: [operator, approved],
+      chainId,
       transactionOverrides,
     })
 
@@ -166,15 +212,17 @@ class WarehouseTransactions extends BaseTransactions {
 
   protected async _invalidateNonce({
     nonce,
+    chainId,
     transactionOverrides = {},
   }: WarehouseInvalidateNonceConfig): Promise<TransactionFormat> {
-    if (this._shouldRequireWalletClient) this._requireWalletClient()
+    if (this._shouldRequireWalletClient) this._requireWalletClient(chainId)
 
     const result = await this._executeContractFunction({
-      contractAddress: getWarehouseAddress(),
+      contractAddress: this._getWarehouseAddress(chainId),
       contractAbi: warehouseAbi,
       functionName: 'invalidateNonce',
       functionArgs: [nonce],
+      chainId,
       transactionOverrides,
     })
 
@@ -188,16 +236,17 @@ class WarehouseTransactions extends BaseTransactions {
     amount,
     targetAddress: target,
     data,
+    chainId,
     transactionOverrides = {},
   }: WarehouseTemporaryApproveAndCallConfig): Promise<TransactionFormat> {
     validateAddress(spender)
     validateAddress(token)
     validateAddress(target)
 
-    if (this._shouldRequireWalletClient) this._requireWalletClient()
+    if (this._shouldRequireWalletClient) this._requireWalletClient(chainId)
 
     const result = await this._executeContractFunction({
-      contractAddress: getWarehouseAddress(),
+      contractAddress: this._getWarehouseAddress(chainId),
       contractAbi: warehouseAbi,
       functionName: 'temporaryApproveAndCall',
       functionArgs: [
@@ -208,6 +257,7 @@ class WarehouseTransactions extends BaseTransactions {
         target,
         data,
       ],
+      chainId,
       transactionOverrides,
     })
 
@@ -225,6 +275,7 @@ class WarehouseTransactions extends BaseTransactions {
     nonce,
     deadline,
     signature,
+    chainId,
     transactionOverrides = {},
   }: WarehouseTemporaryApproveAndCallBySigConfig): Promise<TransactionFormat> {
     validateAddress(owner)
@@ -232,10 +283,10 @@ class WarehouseTransactions extends BaseTransactions {
     validateAddress(token)
     validateAddress(target)
 
-    if (this._shouldRequireWalletClient) this._requireWalletClient()
+    if (this._shouldRequireWalletClient) this._requireWalletClient(chainId)
 
     const result = await this._executeContractFunction({
-      contractAddress: getWarehouseAddress(),
+      contractAddress: this._getWarehouseAddress(chainId),
       contractAbi: warehouseAbi,
       functionName: 'temporaryApproveAndCallBySig',
       functionArgs: [
@@ -250,6 +301,7 @@ class WarehouseTransactions extends BaseTransactions {
         deadline,
         signature,
       ],
+      chainId,
       transactionOverrides,
     })
 
@@ -265,16 +317,17 @@ class WarehouseTransactions extends BaseTransactions {
     nonce,
     deadline,
     signature,
+    chainId,
     transactionOverrides = {},
   }: WarehouseApproveBySigConfig): Promise<TransactionFormat> {
     validateAddress(owner)
     validateAddress(spender)
     validateAddress(token)
 
-    if (this._shouldRequireWalletClient) this._requireWalletClient()
+    if (this._shouldRequireWalletClient) this._requireWalletClient(chainId)
 
     const result = await this._executeContractFunction({
-      contractAddress: getWarehouseAddress(),
+      contractAddress: this._getWarehouseAddress(chainId),
       contractAbi: warehouseAbi,
       functionName: 'approveBySig',
       functionArgs: [
@@ -287,6 +340,7 @@ class WarehouseTransactions extends BaseTransactions {
         deadline,
         signature,
       ],
+      chainId,
       transactionOverrides,
     })
 
@@ -297,19 +351,21 @@ class WarehouseTransactions extends BaseTransactions {
     receiverAddress: receiver,
     tokenAddress: token,
     amount,
+    chainId,
     transactionOverrides = {},
   }: WarehouseDepositConfig): Promise<TransactionFormat> {
     validateAddress(receiver)
     validateAddress(token)
 
-    if (this._shouldRequireWalletClient) this._requireWalletClient()
+    if (this._shouldRequireWalletClient) this._requireWalletClient(chainId)
 
     const result = await this._executeContractFunction({
-      contractAddress: getWarehouseAddress(),
+      contractAddress: this._getWarehouseAddress(chainId),
       contractAbi: warehouseAbi,
       functionName: 'deposit',
       functionArgs: [receiver, token, amount],
       value: token === nativeTokenAddress ? amount : BigInt(0),
+      chainId,
       transactionOverrides,
     })
 
@@ -320,19 +376,21 @@ class WarehouseTransactions extends BaseTransactions {
     receiversAddresses: receivers,
     tokenAddress: token,
     amounts,
+    chainId,
     transactionOverrides = {},
   }: WarehouseBatchDepositConfig): Promise<TransactionFormat> {
     receivers.map((receiver) => validateAddress(receiver))
     validateAddress(token)
 
-    if (this._shouldRequireWalletClient) this._requireWalletClient()
+    if (this._shouldRequireWalletClient) this._requireWalletClient(chainId)
 
     const result = await this._executeContractFunction({
-      contractAddress: getWarehouseAddress(),
+      contractAddress: this._getWarehouseAddress(chainId),
       contractAbi: warehouseAbi,
       functionName: 'batchDeposit',
       functionArgs: [receivers, token, amounts],
       value: amounts.reduce((a, b) => a + b),
+      chainId,
       transactionOverrides,
     })
 
@@ -342,21 +400,23 @@ class WarehouseTransactions extends BaseTransactions {
   protected async _withdraw({
     ownerAddress: owner,
     tokenAddress: token,
+    chainId,
     transactionOverrides = {},
   }: WarehouseWithdrawConfig): Promise<TransactionFormat> {
     validateAddress(owner)
     validateAddress(token)
 
-    if (this._shouldRequireWalletClient) this._requireWalletClient()
+    if (this._shouldRequireWalletClient) this._requireWalletClient(chainId)
 
     const result = await this._executeContractFunction({
-      contractAddress: getWarehouseAddress(),
+      contractAddress: this._getWarehouseAddress(chainId),
       contractAbi: warehouseAbi,
       functionName: 'withdraw',
       functionArgs: [
         owner,
         token === zeroAddress ? NATIVE_TOKEN_ADDRESS : token,
       ],
+      chainId,
       transactionOverrides,
     })
 
@@ -368,19 +428,21 @@ class WarehouseTransactions extends BaseTransactions {
     tokensAddresses: tokens,
     amounts,
     withdrawerAddress: withdrawer,
+    chainId,
     transactionOverrides = {},
   }: WarehouseBatchWithdrawConfig): Promise<TransactionFormat> {
     validateAddress(owner)
     tokens.map((token) => validateAddress(token))
     validateAddress(withdrawer)
 
-    if (this._shouldRequireWalletClient) this._requireWalletClient()
+    if (this._shouldRequireWalletClient) this._requireWalletClient(chainId)
 
     const result = await this._executeContractFunction({
-      contractAddress: getWarehouseAddress(),
+      contractAddress: this._getWarehouseAddress(chainId),
       contractAbi: warehouseAbi,
       functionName: 'withdraw',
       functionArgs: [owner, tokens, amounts, withdrawer],
+      chainId,
       transactionOverrides,
     })
 
@@ -391,18 +453,20 @@ class WarehouseTransactions extends BaseTransactions {
     receiversAddresses: receivers,
     tokenAddress: token,
     amounts,
+    chainId,
     transactionOverrides = {},
   }: WarehouseBatchTransferConfig): Promise<TransactionFormat> {
     receivers.map((receiver) => validateAddress(receiver))
     validateAddress(token)
 
-    if (this._shouldRequireWalletClient) this._requireWalletClient()
+    if (this._shouldRequireWalletClient) this._requireWalletClient(chainId)
 
     const result = await this._executeContractFunction({
-      contractAddress: getWarehouseAddress(),
+      contractAddress: this._getWarehouseAddress(chainId),
       contractAbi: warehouseAbi,
       functionName: 'batchTransfer',
       functionArgs: [receivers, token, amounts],
+      chainId,
       transactionOverrides,
     })
 
@@ -412,15 +476,17 @@ class WarehouseTransactions extends BaseTransactions {
   protected async _setWithdrawConfig({
     incentivePercent: incentive,
     paused,
+    chainId,
     transactionOverrides = {},
   }: WarehouseSetWithdrawConfig): Promise<TransactionFormat> {
-    if (this._shouldRequireWalletClient) this._requireWalletClient()
+    if (this._shouldRequireWalletClient) this._requireWalletClient(chainId)
 
     const result = await this._executeContractFunction({
-      contractAddress: getWarehouseAddress(),
+      contractAddress: this._getWarehouseAddress(chainId),
       contractAbi: warehouseAbi,
       functionName: 'setWithdrawConfig',
       functionArgs: [{ incentive: getNumberFromPercent(incentive), paused }],
+      chainId,
       transactionOverrides,
     })
 
@@ -433,13 +499,16 @@ class WarehouseTransactions extends BaseTransactions {
     const eip712Domain =
       await this._getWarehouseContract(chainId).read.eip712Domain()
 
+    // Only include the salt when the fields bitmap (EIP-5267) says it is part
+    // of the domain
+    const fields = parseInt(eip712Domain[0], 16)
     return {
       domain: {
         chainId: Number(eip712Domain[3].toString()),
         name: eip712Domain[1],
         version: eip712Domain[2],
         verifyingContract: eip712Domain[4],
-        salt: eip712Domain[5],
+        ...(fields & 0x10 ? { salt: eip712Domain[5] } : {}),
       },
     }
   }
@@ -450,7 +519,10 @@ export class WarehouseClient extends WarehouseTransactions {
   readonly eventTopics: { [key: string]: Hex[] }
   readonly callData: WarehouseCallData
   readonly estimateGas: WarehouseGasEstimates
+  readonly simulate: WarehouseSimulation
   readonly sign: WarehouseSignature
+  // Nonces handed out by reserveNonce, by chain and owner
+  private readonly _reservedNonces: { [key: string]: Set<bigint> }
 
   constructor(clientArgs: SplitsClientConfig) {
     super({
@@ -458,6 +530,8 @@ export class WarehouseClient extends WarehouseTransactions {
       ...clientArgs,
     })
 
+    this._reservedNonces = {}
+
     this.eventTopics = {
       transfer: [
         encodeEventTopics({
@@ -499,6 +573,7 @@ export class WarehouseClient extends WarehouseTransactions {
 
     this.callData = new WarehouseCallData(clientArgs)
     this.estimateGas = new WarehouseGasEstimates(clientArgs)
+    this.simulate = new WarehouseSimulation(clientArgs)
     this.sign = new WarehouseSignature(clientArgs)
   }
 
@@ -604,6 +679,106 @@ export class WarehouseClient extends WarehouseTransactions {
     }
   }
 
+  // Hands out the lowest unused nonce of the owner from startNonce on, one
+  // bitmap word per multicall. The nonce stays reserved in this client until
+  // it is released, so concurrent signers sharing the client never get the
+  // same one.
+  async reserveNonce({
+    ownerAddress,
+    startNonce = BigInt(0),
+    chainId,
+  }: WarehouseReserveNonceConfig): Promise<{ nonce: bigint }> {
+    validateAddress(ownerAddress)
+    if (startNonce < BigInt(0))
+      throw new InvalidArgumentError(`Invalid nonce: ${startNonce}`)
+
+    const functionChainId = this._getReadOnlyFunctionChainId(chainId)
+    const reservedNonces = this._getReservedNonces(
+      functionChainId,
+      ownerAddress,
+    )
+
+    const scanWord = async (wordStart: bigint): Promise<bigint> => {
+      const validNonces = await this._getValidNonces({
+        ownerAddress,
+        nonces: getNonceRange(wordStart, NONCE_WORD_SIZE),
+        chainId: functionChainId,
+      })
+      // Checked after the read so callers scanning the same word at the same
+      // time can't both take a nonce
+      const nonce = validNonces.find(
+        (nonce) => nonce >= startNonce && !reservedNonces.has(nonce),
+      )
+      if (nonce === undefined)
+        return await scanWord(wordStart + BigInt(NONCE_WORD_SIZE))
+
+      reservedNonces.add(nonce)
+      return nonce
+    }
+
+    const nonce = await scanWord(
+      (startNonce / BigInt(NONCE_WORD_SIZE)) * BigInt(NONCE_WORD_SIZE),
+    )
+
+    return {
+      nonce,
+    }
+  }
+
+  // Makes a reserved nonce available again, e.g. when signing failed
+  releaseNonce({
+    ownerAddress,
+    nonce,
+    chainId,
+  }: WarehouseReleaseNonceConfig): void {
+    validateAddress(ownerAddress)
+
+    const functionChainId = this._getReadOnlyFunctionChainId(chainId)
+    this._getReservedNonces(functionChainId, ownerAddress).delete(nonce)
+  }
+
+  private _getReservedNonces(
+    chainId: number,
+    ownerAddress: Address,
+  ): Set<bigint> {
+    const key = `${chainId}:${getAddress(ownerAddress)}`
+    if (!this._reservedNonces[key]) this._reservedNonces[key] = new Set()
+
+    return this._reservedNonces[key]
+  }
+
+  // Reads the bitmap words holding the nonces, a set bit is a used nonce
+  private async _getValidNonces({
+    ownerAddress,
+    nonces,
+    chainId,
+  }: {
+    ownerAddress: Address
+    nonces: bigint[]
+    chainId: number
+  }): Promise<bigint[]> {
+    const words = Array.from(
+      new Set(nonces.map((nonce) => nonce / BigInt(NONCE_WORD_SIZE))),
+    )
+    const bitMaps = (await this._getPublicClient(chainId).multicall({
+      contracts: words.map((word) => {
+        return {
+          address: this._getWarehouseAddress(chainId),
+          abi: warehouseAbi,
+          functionName: 'nonceBitMap',
+          args: [ownerAddress, word],
+        }
+      }),
+      allowFailure: false,
+    })) as bigint[]
+
+    return nonces.filter((nonce) => {
+      const bitMap = bitMaps[words.indexOf(nonce / BigInt(NONCE_WORD_SIZE))]
+      const bit = BigInt(1) << nonce % BigInt(NONCE_WORD_SIZE)
+      return (bitMap & bit) === BigInt(0)
+    })
+  }
+
   async eip712Domain(
     args?: ReadContractArgs,
   ): Promise<{ domain: TypedDataDomain }> {
@@ -657,6 +832,44 @@ export class WarehouseClient extends WarehouseTransactions {
     }
   }
 
+  // Balances for every owner and token pair, formatted with the metadata of
+  // the underlying tokens. Reads everything in two multicalls instead of a
+  // call per pair.
+  async getBalances({
+    ownerAddresses,
+    tokens,
+    filterZeroBalances,
+    chainId,
+  }: WarehouseBalancesConfig): Promise<{
+    balances: { [owner: Address]: FormattedTokenBalances }
+  }> {
+    ownerAddresses.map((ownerAddress) => validateAddress(ownerAddress))
+    const tokenAddresses = tokens.map((token) => {
+      if (typeof token !== 'bigint') {
+        validateAddress(token)
+        return token
+      }
+      if (token < BigInt(0) || token > fromHex(maxAddress, 'bigint'))
+        throw new InvalidArgumentError(`Invalid warehouse token id: ${token}`)
+      return getAddress(toHex(token, { size: 20 }))
+    })
+
+    const functionChainId = this._getReadOnlyFunctionChainId(chainId)
+    const balances = await fetchWarehouseBalances({
+      chainId: functionChainId,
+      warehouseAddress: getWarehouseAddress(functionChainId, this._deployments),
+      publicClient: this._getPublicClient(functionChainId),
+      ownerAddresses,
+      tokenList: tokenAddresses,
+      filterZeroBalances,
+      deployments: this._deployments,
+    })
+
+    return {
+      balances,
+    }
+  }
+
   async allowance({
     ownerAddress,
     spenderAddress,
@@ -697,6 +910,8 @@ export class WarehouseClient extends WarehouseTransactions {
 
     const events = await this.getTransactionEvents({
       txHash,
+      chainId: transferArgs.chainId,
+      tracking: transferArgs.tracking,
       eventTopics: this.eventTopics.transfer,
     })
 
@@ -721,6 +936,8 @@ export class WarehouseClient extends WarehouseTransactions {
 
     const events = await this.getTransactionEvents({
       txHash,
+      chainId: transferFromArgs.chainId,
+      tracking: transferFromArgs.tracking,
       eventTopics: this.eventTopics.transfer,
     })
 
@@ -743,6 +960,8 @@ export class WarehouseClient extends WarehouseTransactions {
 
     const events = await this.getTransactionEvents({
       txHash,
+      chainId: approveArgs.chainId,
+      tracking: approveArgs.tracking,
       eventTopics: this.eventTopics.approval,
     })
 
@@ -767,6 +986,8 @@ export class WarehouseClient extends WarehouseTransactions {
 
     const events = await this.getTransactionEvents({
       txHash,
+      chainId: setOperatorArgs.chainId,
+      tracking: setOperatorArgs.tracking,
       eventTopics: this.eventTopics.operatorSet,
     })
 
@@ -791,6 +1012,8 @@ export class WarehouseClient extends WarehouseTransactions {
 
     const events = await this.getTransactionEvents({
       txHash,
+      chainId: invalidateNonceArgs.chainId,
+      tracking: invalidateNonceArgs.tracking,
       eventTopics: this.eventTopics.nonceInvalidation,
     })
 
@@ -805,6 +1028,95 @@ export class WarehouseClient extends WarehouseTransactions {
     throw new TransactionFailedError()
   }
 
+  // Revokes every outstanding signature of the wallet account with a nonce
+  // in the range. Nonces that are already used are skipped. A multicall
+  // contract would invalidate its own nonces, so the rest go out as wallet
+  // batches (EIP-5792) of up to one bitmap word each. If a batch fails, the
+  // nonces invalidated so far are returned along with the ones left and the
+  // error.
+  async invalidateNonceRange({
+    fromNonce,
+    toNonce,
+    chainId,
+    capabilities,
+  }: WarehouseInvalidateNonceRangeConfig): Promise<WarehouseInvalidateNonceRangeResult> {
+    if (fromNonce < BigInt(0) || toNonce < fromNonce)
+      throw new InvalidArgumentError(
+        `Invalid nonce range: ${fromNonce} to ${toNonce}`,
+      )
+    if (toNonce - fromNonce >= BigInt(MAX_NONCE_RANGE))
+      throw new InvalidArgumentError(
+        `Nonce range can include at most ${MAX_NONCE_RANGE} nonces`,
+      )
+    this._requireWalletClient(chainId)
+
+    const functionChainId = this._getFunctionChainId(chainId)
+    const ownerAddress = this._getSenderAddress(functionChainId)
+    const validNonces = await this._getValidNonces({
+      ownerAddress,
+      nonces: getNonceRange(fromNonce, Number(toNonce - fromNonce) + 1),
+      chainId: functionChainId,
+    })
+    const batches = getNonceRange(
+      BigInt(0),
+      Math.ceil(validNonces.length / NONCE_WORD_SIZE),
+    ).map((index) =>
+      validNonces.slice(
+        Number(index) * NONCE_WORD_SIZE,
+        (Number(index) + 1) * NONCE_WORD_SIZE,
+      ),
+    )
+
+    const result = await batches.reduce(
+      async (previous, nonces) => {
+        const acc = await previous
+        if (acc.error)
+          return { ...acc, failedNonces: [...acc.failedNonces, ...nonces] }
+
+        try {
+          const calls = await Promise.all(
+            nonces.map((nonce) =>
+              this.callData.invalidateNonce({
+                nonce,
+                chainId: functionChainId,
+              }),
+            ),
+          )
+          const { batchId } = await this._submitBatchTransaction({
+            calls,
+            chainId: functionChainId,
+            capabilities,
+          })
+          const events = await this.getBatchEvents({
+            batchId,
+            chainId: functionChainId,
+            eventTopics: this.eventTopics.nonceInvalidation,
+          })
+          return {
+            ...acc,
+            invalidatedNonces: [...acc.invalidatedNonces, ...nonces],
+            events: [...acc.events, ...events],
+          }
+        } catch (error) {
+          return { ...acc, failedNonces: nonces, error: error as Error }
+        }
+      },
+      Promise.resolve({
+        invalidatedNonces: [],
+        events: [],
+        failedNonces: [],
+      } as WarehouseInvalidateNonceRangeResult),
+    )
+
+    const reservedNonces = this._getReservedNonces(
+      functionChainId,
+      ownerAddress,
+    )
+    result.invalidatedNonces.map((nonce) => reservedNonces.delete(nonce))
+
+    return result
+  }
+
   async temporaryApproveAndCall(
     temporaryApproveAndCallArgs: WarehouseTemporaryApproveAndCallConfig,
   ): Promise<{ txHash: Hex }> {
@@ -831,6 +1143,110 @@ export class WarehouseClient extends WarehouseTransactions {
     return { txHash }
   }
 
+  // Submits a withdraw the owner signed with sign.signRelayedWithdraw from
+  // this client's wallet. The approval's call has to be the warehouse
+  // withdraw of the signed amount to the owner, and the signature, deadline
+  // and nonce are checked first so the relayer doesn't pay for a transaction
+  // that is going to revert.
+  async relayWithdraw(
+    relayWithdrawArgs: WarehouseTemporaryApproveAndCallBySigConfig,
+  ): Promise<WarehouseRelayWithdrawResult> {
+    const {
+      ownerAddress,
+      spenderAddress,
+      operator,
+      tokenAddress,
+      amount,
+      targetAddress,
+      data,
+      nonce,
+      deadline,
+      signature,
+      chainId,
+      tracking,
+    } = relayWithdrawArgs
+    validateAddress(ownerAddress)
+    validateAddress(spenderAddress)
+    validateAddress(tokenAddress)
+    validateAddress(targetAddress)
+
+    if (
+      operator ||
+      getAddress(spenderAddress) !== getAddress(targetAddress) ||
+      !isWithdrawToOwner({ ownerAddress, tokenAddress, amount, data })
+    )
+      throw new InvalidArgumentError(
+        `Signed approval is not a withdraw of ${amount} to ${ownerAddress}`,
+      )
+    // Same errors the warehouse reverts with
+    if (deadline <= Math.floor(Date.now() / 1000))
+      throw new ExpiredSignatureError({ errorName: 'ExpiredSignature' })
+
+    this._requireWalletClient(chainId)
+    const functionChainId = this._getFunctionChainId(chainId)
+    const publicClient = this._getPublicClient(functionChainId)
+    const { domain } = await this._eip712Domain(functionChainId)
+    // Checks ERC-1271 signatures for contract owners too
+    const isValidSigner = await publicClient.verifyTypedData({
+      address: ownerAddress,
+      domain,
+      types: SigTypes,
+      primaryType: 'ERC6909XApproveAndCall',
+      message: {
+        owner: ownerAddress,
+        spender: spenderAddress,
+        temporary: true,
+        operator,
+        id: fromHex(tokenAddress, 'bigint'),
+        amount,
+        target: targetAddress,
+        data,
+        nonce,
+        deadline,
+      },
+      signature,
+    })
+    if (!isValidSigner)
+      throw new InvalidSignerError({ errorName: 'InvalidSigner' })
+
+    const [{ isValidNonce }, { withdrawConfig }] = await Promise.all([
+      this.isValidNonce({
+        userAddress: ownerAddress,
+        userNonce: nonce,
+        chainId: functionChainId,
+      }),
+      this.getWithdrawConfig({
+        userAddress: ownerAddress,
+        chainId: functionChainId,
+      }),
+    ])
+    if (!isValidNonce)
+      throw new InvalidNonceError({ errorName: 'InvalidNonce' })
+    if (withdrawConfig.paused)
+      throw new PausedError({
+        errorName: 'WithdrawalPaused',
+        args: [ownerAddress],
+      })
+
+    const { txHash } = await this.temporaryApproveAndCallBySig({
+      ...relayWithdrawArgs,
+      chainId: functionChainId,
+    })
+    // Throws if the transaction reverts
+    const { gasUsed, effectiveGasPrice } = await waitForTransaction({
+      publicClient,
+      txHash,
+      ...tracking,
+    })
+
+    return {
+      txHash,
+      gasUsed,
+      effectiveGasPrice,
+      gasCost: gasUsed * effectiveGasPrice,
+    }
+  }
+
   async approveBySig(
     approveBySigArgs: WarehouseApproveBySigConfig,
   ): Promise<{ event: Log }> {
@@ -848,6 +1264,8 @@ export class WarehouseClient extends WarehouseTransactions {
 
     const events = await this.getTransactionEvents({
       txHash,
+      chainId: approveBySigArgs.chainId,
+      tracking: approveBySigArgs.tracking,
       eventTopics,
     })
 
@@ -870,6 +1288,8 @@ export class WarehouseClient extends WarehouseTransactions {
 
     const events = await this.getTransactionEvents({
       txHash,
+      chainId: depositArgs.chainId,
+      tracking: depositArgs.tracking,
       eventTopics: this.eventTopics.transfer,
     })
 
@@ -894,6 +1314,8 @@ export class WarehouseClient extends WarehouseTransactions {
 
     const events = await this.getTransactionEvents({
       txHash,
+      chainId: batchDepositArgs.chainId,
+      tracking: batchDepositArgs.tracking,
       eventTopics: this.eventTopics.transfer,
     })
 
@@ -925,6 +1347,8 @@ export class WarehouseClient extends WarehouseTransactions {
 
     const events = await this.getTransactionEvents({
       txHash,
+      chainId: withdrawArgs.chainId,
+      tracking: withdrawArgs.tracking,
       eventTopics: this.eventTopics.withdraw,
     })
 
@@ -959,6 +1383,8 @@ export class WarehouseClient extends WarehouseTransactions {
 
     const events = await this.getTransactionEvents({
       txHash,
+      chainId: batchWithdrawArgs.chainId,
+      tracking: batchWithdrawArgs.tracking,
       eventTopics: this.eventTopics.withdraw,
     })
 
@@ -981,6 +1407,8 @@ export class WarehouseClient extends WarehouseTransactions {
 
     const events = await this.getTransactionEvents({
       txHash,
+      chainId: batchTransferArgs.chainId,
+      tracking: batchTransferArgs.tracking,
       eventTopics: this.eventTopics.transfer,
     })
 
@@ -1003,6 +1431,8 @@ export class WarehouseClient extends WarehouseTransactions {
 
     const events = await this.getTransactionEvents({
       txHash,
+      chainId: setConfigArgs.chainId,
+      tracking: setConfigArgs.tracking,
       eventTopics: this.eventTopics.withdrawConfigUpdated,
     })
 
@@ -1287,9 +1717,9 @@ class WarehouseCallData extends WarehouseTransactions {
   }
 
   async batchWithdraw(
-    withdrawArgs: WarehouseWithdrawConfig,
+    batchWithdrawArgs: WarehouseBatchWithdrawConfig,
   ): Promise<CallData> {
-    const callData = await this._withdraw(withdrawArgs)
+    const callData = await this._batchWithdraw(batchWithdrawArgs)
 
     if (!this._isCallData(callData)) throw new Error('Invalid response')
 
@@ -1317,6 +1747,173 @@ class WarehouseCallData extends WarehouseTransactions {
   }
 }
 
+class WarehouseSimulation extends WarehouseTransactions {
+  constructor(clientArgs: SplitsClientConfig) {
+    super({
+      transactionType: TransactionType.Simulation,
+      ...clientArgs,
+    })
+  }
+
+  async transfer(
+    transferArgs: WarehouseTransferConfig,
+  ): Promise<SimulationResult> {
+    const simulationResult = await this._transfer(transferArgs)
+
+    if (!this._isSimulationResult(simulationResult))
+      throw new Error('Invalid response')
+
+    return simulationResult
+  }
+
+  async transferFrom(
+    transferFromArgs: WarehouseTransferFromConfig,
+  ): Promise<SimulationResult> {
+    const simulationResult = await this._transferFrom(transferFromArgs)
+
+    if (!this._isSimulationResult(simulationResult))
+      throw new Error('Invalid response')
+
+    return simulationResult
+  }
+
+  async approve(
+    approveArgs: WarehouseApproveConfig,
+  ): Promise<SimulationResult> {
+    const simulationResult = await this._approve(approveArgs)
+
+    if (!this._isSimulationResult(simulationResult))
+      throw new Error('Invalid response')
+
+    return simulationResult
+  }
+
+  async setOperator(
+    setOperatorArgs: WarehouseSetOperatorConfig,
+  ): Promise<SimulationResult> {
+    const simulationResult = await this._setOperator(setOperatorArgs)
+
+    if (!this._isSimulationResult(simulationResult))
+      throw new Error('Invalid response')
+
+    return simulationResult
+  }
+
+  async invalidateNonce(
+    invalidateNonceArgs: WarehouseInvalidateNonceConfig,
+  ): Promise<SimulationResult> {
+    const simulationResult = await this._invalidateNonce(invalidateNonceArgs)
+
+    if (!this._isSimulationResult(simulationResult))
+      throw new Error('Invalid response')
+
+    return simulationResult
+  }
+
+  async temporaryApproveAndCall(
+    temporaryApproveAndCallArgs: WarehouseTemporaryApproveAndCallConfig,
+  ): Promise<SimulationResult> {
+    const simulationResult = await this._temporaryApproveAndCall(
+      temporaryApproveAndCallArgs,
+    )
+
+    if (!this._isSimulationResult(simulationResult))
+      throw new Error('Invalid response')
+
+    return simulationResult
+  }
+
+  async temporaryApproveAndCallBySig(
+    temporaryApproveAndCallBySigArgs: WarehouseTemporaryApproveAndCallBySigConfig,
+  ): Promise<SimulationResult> {
+    const simulationResult = await this._temporaryApproveAndCallBySig(
+      temporaryApproveAndCallBySigArgs,
+    )
+
+    if (!this._isSimulationResult(simulationResult))
+      throw new Error('Invalid response')
+
+    return simulationResult
+  }
+
+  async approveBySig(
+    approveBySigArgs: WarehouseApproveBySigConfig,
+  ): Promise<SimulationResult> {
+    const simulationResult = await this._approveBySig(approveBySigArgs)
+
+    if (!this._isSimulationResult(simulationResult))
+      throw new Error('Invalid response')
+
+    return simulationResult
+  }
+
+  async deposit(
+    depositArgs: WarehouseDepositConfig,
+  ): Promise<SimulationResult> {
+    const simulationResult = await this._deposit(depositArgs)
+
+    if (!this._isSimulationResult(simulationResult))
+      throw new Error('Invalid response')
+
+    return simulationResult
+  }
+
+  async batchDeposit(
+    batchDepositArgs: WarehouseBatchDepositConfig,
+  ): Promise<SimulationResult> {
+    const simulationResult = await this._batchDeposit(batchDepositArgs)
+
+    if (!this._isSimulationResult(simulationResult))
+      throw new Error('Invalid response')
+
+    return simulationResult
+  }
+
+  async withdraw(
+    withdrawArgs: WarehouseWithdrawConfig,
+  ): Promise<SimulationResult> {
+    const simulationResult = await this._withdraw(withdrawArgs)
+
+    if (!this._isSimulationResult(simulationResult))
+      throw new Error('Invalid response')
+
+    return simulationResult
+  }
+
+  async batchWithdraw(
+    batchWithdrawArgs: WarehouseBatchWithdrawConfig,
+  ): Promise<SimulationResult> {
+    const simulationResult = await this._batchWithdraw(batchWithdrawArgs)
+
+    if (!this._isSimulationResult(simulationResult))
+      throw new Error('Invalid response')
+
+    return simulationResult
+  }
+
+  async batchTransfer(
+    batchTransferArgs: WarehouseBatchTransferConfig,
+  ): Promise<SimulationResult> {
+    const simulationResult = await this._batchTransfer(batchTransferArgs)
+
+    if (!this._isSimulationResult(simulationResult))
+      throw new Error('Invalid response')
+
+    return simulationResult
+  }
+
+  async setWithdrawConfig(
+    setConfigArgs: WarehouseSetWithdrawConfig,
+  ): Promise<SimulationResult> {
+    const simulationResult = await this._setWithdrawConfig(setConfigArgs)
+
+    if (!this._isSimulationResult(simulationResult))
+      throw new Error('Invalid response')
+
+    return simulationResult
+  }
+}
+
 class WarehouseSignature extends WarehouseTransactions {
   constructor(clientArgs: SplitsClientConfig) {
     super({
@@ -1336,22 +1933,24 @@ class WarehouseSignature extends WarehouseTransactions {
 
     this._requireWalletClient()
 
-    const signature = await this._walletClient!.signTypedData({
-      account: this._walletClient!.account!,
-      domain,
-      types: SigTypes,
-      primaryType: 'ERC6909XApproveAndCall',
-      message: {
-        owner: this._walletClient!.account!.address,
-        spender: approveBySigArgs.spenderAddress,
-        temporary: false,
-        operator: approveBySigArgs.operator,
-        id: fromHex(approveBySigArgs.tokenAddress, 'bigint'),
-        amount: approveBySigArgs.amount,
-        target: zeroAddress,
-        data: '' as Hex,
-        nonce: approveBySigArgs.nonce,
-        deadline: approveBySigArgs.deadline,
+    const signature = await this._signTypedData({
+      chainId: this._walletClient!.chain!.id,
+      typedData: {
+        domain,
+        types: SigTypes,
+        primaryType: 'ERC6909XApproveAndCall',
+        message: {
+          owner: this._walletClient!.account!.address,
+          spender: approveBySigArgs.spenderAddress,
+          temporary: false,
+          operator: approveBySigArgs.operator,
+          id: fromHex(approveBySigArgs.tokenAddress, 'bigint'),
+          amount: approveBySigArgs.amount,
+          target: zeroAddress,
+          data: '' as Hex,
+          nonce: approveBySigArgs.nonce,
+          deadline: approveBySigArgs.deadline,
+        },
       },
     })
 
@@ -1366,7 +1965,7 @@ class WarehouseSignature extends WarehouseTransactions {
 
   async temporaryApproveAndCallBySig(
     temporaryApproveAndCallBySigArgs: WarehouseTemporaryApproveAndCallBySig,
-  ): Promise<WarehouseApproveBySigConfig> {
+  ): Promise<WarehouseTemporaryApproveAndCallBySigConfig> {
     validateAddress(temporaryApproveAndCallBySigArgs.spenderAddress)
     validateAddress(temporaryApproveAndCallBySigArgs.tokenAddress)
     validateAddress(temporaryApproveAndCallBySigArgs.targetAddress)
@@ -1374,22 +1973,24 @@ class WarehouseSignature extends WarehouseTransactions {
 
     const { domain } = await this._eip712Domain(this._walletClient!.chain!.id)
 
-    const signature = await this._walletClient!.signTypedData({
-      account: this._walletClient!.account!,
-      domain,
-      types: SigTypes,
-      primaryType: 'ERC6909XApproveAndCall',
-      message: {
-        owner: this._walletClient!.account!.address,
-        spender: temporaryApproveAndCallBySigArgs.spenderAddress,
-        temporary: true,
-        operator: temporaryApproveAndCallBySigArgs.operator,
-        id: fromHex(temporaryApproveAndCallBySigArgs.tokenAddress, 'bigint'),
-        amount: temporaryApproveAndCallBySigArgs.amount,
-        target: temporaryApproveAndCallBySigArgs.targetAddress,
-        data: temporaryApproveAndCallBySigArgs.data,
-        nonce: temporaryApproveAndCallBySigArgs.nonce,
-        deadline: temporaryApproveAndCallBySigArgs.deadline,
+    const signature = await this._signTypedData({
+      chainId: this._walletClient!.chain!.id,
+      typedData: {
+        domain,
+        types: SigTypes,
+        primaryType: 'ERC6909XApproveAndCall',
+        message: {
+          owner: this._walletClient!.account!.address,
+          spender: temporaryApproveAndCallBySigArgs.spenderAddress,
+          temporary: true,
+          operator: temporaryApproveAndCallBySigArgs.operator,
+          id: fromHex(temporaryApproveAndCallBySigArgs.tokenAddress, 'bigint'),
+          amount: temporaryApproveAndCallBySigArgs.amount,
+          target: temporaryApproveAndCallBySigArgs.targetAddress,
+          data: temporaryApproveAndCallBySigArgs.data,
+          nonce: temporaryApproveAndCallBySigArgs.nonce,
+          deadline: temporaryApproveAndCallBySigArgs.deadline,
+        },
       },
     })
 
@@ -1401,6 +2002,113 @@ class WarehouseSignature extends WarehouseTransactions {
       ...temporaryApproveAndCallBySigArgs,
     }
   }
+
+  // Signs a temporary approval for the withdraw helper to make the warehouse
+  // withdraw of the amount to the signer, who also earns its incentive.
+  // Anyone can submit it with relayWithdraw, so recipients without native
+  // tokens for gas can still be paid out.
+  async signRelayedWithdraw({
+    tokenAddress,
+    amount,
+    withdrawHelperAddress,
+    nonce = fromHex(
+      keccak256(toHex(`${Date.now()}:${Math.random()}`)),
+      'bigint',
+    ),
+    deadline,
+    chainId,
+  }: WarehouseRelayedWithdraw): Promise<WarehouseTemporaryApproveAndCallBySigConfig> {
+    validateAddress(tokenAddress)
+    validateAddress(withdrawHelperAddress)
+    this._requireWalletClient(chainId)
+
+    const functionChainId = this._getFunctionChainId(chainId)
+    const ownerAddress = this._walletClient!.account!.address
+    const token =
+      tokenAddress === zeroAddress ? NATIVE_TOKEN_ADDRESS : tokenAddress
+    const approval = {
+      spenderAddress: withdrawHelperAddress,
+      operator: false,
+      tokenAddress: token,
+      amount,
+      targetAddress: withdrawHelperAddress,
+      data: encodeFunctionData({
+        abi: warehouseAbi,
+        functionName: 'withdraw',
+        args: [ownerAddress, [token], [amount], ownerAddress],
+      }),
+      nonce,
+      deadline,
+    }
+    const { domain } = await this._eip712Domain(functionChainId)
+
+    const signature = await this._signTypedData({
+      chainId: functionChainId,
+      typedData: {
+        domain,
+        types: SigTypes,
+        primaryType: 'ERC6909XApproveAndCall',
+        message: {
+          owner: ownerAddress,
+          spender: approval.spenderAddress,
+          temporary: true,
+          operator: approval.operator,
+          id: fromHex(token, 'bigint'),
+          amount,
+          target: approval.targetAddress,
+          data: approval.data,
+          nonce,
+          deadline,
+        },
+      },
+    })
+
+    return {
+      ownerAddress,
+      signature,
+      chainId: functionChainId,
+      ...approval,
+    }
+  }
+}
+
+// Whether the call data is the warehouse withdraw of just the amount of the
+// token to the owner, with the owner as the withdrawer so nobody else earns
+// the incentive
+const isWithdrawToOwner = ({
+  ownerAddress,
+  tokenAddress,
+  amount,
+  data,
+}: {
+  ownerAddress: Address
+  tokenAddress: Address
+  amount: bigint
+  data: Hex
+}): boolean => {
+  try {
+    const { functionName, args } = decodeFunctionData({
+      abi: warehouseAbi,
+      data,
+    })
+    if (functionName !== 'withdraw' || args.length !== 4) return false
+
+    const [owner, tokens, amounts, withdrawer] = args
+    return (
+      getAddress(owner) === getAddress(ownerAddress) &&
+      getAddress(withdrawer) === getAddress(ownerAddress) &&
+      tokens.length === 1 &&
+      getAddress(tokens[0]) === getAddress(tokenAddress) &&
+      amounts.length === 1 &&
+      amounts[0] === amount
+    )
+  } catch {
+    return false
+  }
+}
+
+const getNonceRange = (start: bigint, length: number): bigint[] => {
+  return Array.from({ length }, (_, index) => start + BigInt(index))
 }
 
 const SigTypes = {
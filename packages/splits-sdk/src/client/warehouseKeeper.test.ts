@@ -0,0 +1,372 @@
+import {
+  Address,
+  Chain,
+  Hash,
+  PublicClient,
+  Transport,
+  createWalletClient,
+  http,
+} from 'viem'
+import { privateKeyToAccount } from 'viem/accounts'
+import { mainnet, optimism } from 'viem/chains'
+
+import { WarehouseKeeperClient } from './warehouseKeeper'
+import { NATIVE_TOKEN_ADDRESS } from '../constants'
+import { InvalidArgumentError } from '../errors'
+
+const RICH_OWNER: Address = '0x1000000000000000000000000000000000000001'
+const POOR_OWNER: Address = '0x2000000000000000000000000000000000000002'
+const PAUSED_OWNER: Address = '0x3000000000000000000000000000000000000003'
+const LAGGING_OWNER: Address = '0x4000000000000000000000000000000000000004'
+const NO_INCENTIVE_OWNER: Address = '0x5000000000000000000000000000000000000005'
+const TOKEN: Address = '0x6000000000000000000000000000000000000006'
+
+const ETHER = BigInt(1_000_000_000_000_000_000)
+
+// Incentives are out of 1e6, 10000 is 1%
+const WITHDRAW_CONFIGS: {
+  [owner: Address]: { incentive: number; paused: boolean }
+} = {
+  [RICH_OWNER]: { incentive: 10000, paused: false },
+  [POOR_OWNER]: { incentive: 10000, paused: false },
+  [PAUSED_OWNER]: { incentive: 10000, paused: true },
+  [LAGGING_OWNER]: { incentive: 10000, paused: true },
+  [NO_INCENTIVE_OWNER]: { incentive: 0, paused: false },
+}
+const BALANCES: { [owner: Address]: { [token: Address]: bigint } } = {
+  [RICH_OWNER]: {
+    [NATIVE_TOKEN_ADDRESS]: ETHER + BigInt(1),
+    [TOKEN]: BigInt(2_000_001),
+  },
+  [POOR_OWNER]: { [NATIVE_TOKEN_ADDRESS]: BigInt(1_000_001) },
+}
+
+const account = privateKeyToAccount(
+  '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80',
+)
+
+const createClient = (
+  apiConfig?: { apiKey: string },
+  {
+    chain = mainnet,
+    baseFeePerGas = BigInt(9_000_000_000),
+  }: { chain?: Chain; baseFeePerGas?: bigint | null } = {},
+) => {
+  const publicClient = {
+    chain,
+    getBlock: jest.fn(async () => {
+      return { baseFeePerGas }
+    }),
+    estimateMaxPriorityFeePerGas: jest.fn(async () => BigInt(1_000_000_000)),
+    getGasPrice: jest.fn(async () => BigInt(20_000_000_000)),
+    // The OP stack fee oracle
+    readContract: jest.fn(async () => BigInt(500_000_000_000_000)),
+  } as unknown as PublicClient<Transport, Chain>
+  const client = new WarehouseKeeperClient({
+    chainId: chain.id,
+    publicClient,
+    walletClient: createWalletClient({
+      account,
+      chain,
+      transport: http(),
+    }),
+    apiConfig,
+  })
+  jest
+    .spyOn(client['_warehouse'], 'getWithdrawConfig')
+    .mockImplementation(async ({ userAddress }) => {
+      return { withdrawConfig: WITHDRAW_CONFIGS[userAddress] }
+    })
+  jest
+    .spyOn(client['_warehouse'], 'balanceOf')
+    .mockImplementation(async ({ ownerAddress, tokenAddress }) => {
+      return { balance: BALANCES[ownerAddress]?.[tokenAddress] ?? BigInt(0) }
+    })
+  const mockEstimateGas = jest
+    .spyOn(client['_warehouse'].estimateGas, 'batchWithdraw')
+    .mockImplementation(async () => BigInt(100_000))
+  const mockSubmit = jest
+    .spyOn(client, '_submitMulticallTransaction')
+    .mockImplementation(async ({ calls }) => {
+      return { txHash: `0x${calls.length}` as Hash, simulatedResults: [] }
+    })
+  jest.spyOn(client, 'getTransactionEvents').mockImplementation(async () => [])
+
+  return { client, publicClient, mockEstimateGas, mockSubmit }
+}
+
+describe('Warehouse withdraw keeper', () => {
+  test('Reports profitable withdraws without submitting on a dry run', async () => {
+    const { client, mockEstimateGas, mockSubmit } = createClient()
+
+    const report = await client.runWithdrawKeeper({
+      ownerAddresses: [
+        RICH_OWNER,
+        POOR_OWNER,
+        PAUSED_OWNER,
+        NO_INCENTIVE_OWNER,
+      ],
+      tokens: [NATIVE_TOKEN_ADDRESS, TOKEN],
+      dryRun: true,
+    })
+
+    // 1% of everything but the unit left behind, against 100k gas at a 9 gwei
+    // base fee and a 1 gwei priority fee
+    expect(report.batches).toEqual([
+      {
+        // Plus the multicall's overhead
+        gasEstimate: BigInt(110_000),
+        opportunities: [
+          {
+            ownerAddress: RICH_OWNER,
+            incentivePercent: 1,
+            // The erc20 incentive can't be valued without a price source
+            tokens: [
+              {
+                tokenAddress: NATIVE_TOKEN_ADDRESS,
+                balance: ETHER + BigInt(1),
+                amount: ETHER,
+                reward: ETHER / BigInt(100),
+                nativeReward: ETHER / BigInt(100),
+              },
+            ],
+            nativeReward: ETHER / BigInt(100),
+            gasEstimate: BigInt(100_000),
+            l1Fee: BigInt(0),
+            gasCost: BigInt(1_000_000_000_000_000),
+            netProfit: BigInt(9_000_000_000_000_000),
+          },
+        ],
+      },
+    ])
+    expect(report.unprofitable.map(({ ownerAddress }) => ownerAddress)).toEqual(
+      [POOR_OWNER],
+    )
+    expect(report.skipped).toEqual([
+      { ownerAddress: PAUSED_OWNER, reason: 'paused' },
+      { ownerAddress: NO_INCENTIVE_OWNER, reason: 'noIncentive' },
+    ])
+    expect(report.withdrawerAddress).toEqual(account.address)
+    expect(report.totalNetProfit).toEqual(BigInt(9_000_000_000_000_000))
+    expect(report.txHashes).toEqual([])
+    expect(mockEstimateGas).toHaveBeenCalledWith({
+      ownerAddress: RICH_OWNER,
+      tokensAddresses: [NATIVE_TOKEN_ADDRESS],
+      amounts: [ETHER],
+      withdrawerAddress: account.address,
+      chainId: 1,
+    })
+    expect(mockSubmit).not.toHaveBeenCalled()
+  })
+
+  test('Values erc20 incentives and packs withdraws under the gas limit', async () => {
+    const { client, mockSubmit } = createClient()
+    const priceSource = jest.fn(async ({ amount }: { amount: bigint }) => {
+      return amount * BigInt(1_000_000_000)
+    })
+
+    const report = await client.runWithdrawKeeper({
+      ownerAddresses: [RICH_OWNER, POOR_OWNER],
+      tokens: [NATIVE_TOKEN_ADDRESS, TOKEN],
+      priceSource,
+      minNetProfit: -ETHER,
+      gasLimit: BigInt(150_000),
+    })
+
+    expect(priceSource).toHaveBeenCalledWith({
+      chainId: 1,
+      token: TOKEN,
+      amount: BigInt(20_000),
+    })
+    expect(
+      report.batches.map(({ opportunities }) =>
+        opportunities.map(({ ownerAddress, tokens }) => {
+          return { ownerAddress, tokens: tokens.length }
+        }),
+      ),
+    ).toEqual([
+      [{ ownerAddress: RICH_OWNER, tokens: 2 }],
+      [{ ownerAddress: POOR_OWNER, tokens: 1 }],
+    ])
+    expect(mockSubmit).toHaveBeenCalledTimes(2)
+    expect(report.txHashes).toEqual(['0x1', '0x1'])
+  })
+
+  test('Reads owners and tokens from the subgraph', async () => {
+    const { client } = createClient({ apiKey: 'key' })
+    const mockGetConfigs = jest
+      .spyOn(client['_dataClient']!, 'getWarehouseWithdrawConfigs')
+      .mockImplementation(async () => {
+        return {
+          accounts: {
+            [RICH_OWNER]: {
+              withdrawConfig: { incentive: 10000, paused: false },
+              tokens: [NATIVE_TOKEN_ADDRESS],
+            },
+            // The subgraph hasn't picked up the pause yet
+            [LAGGING_OWNER]: {
+              withdrawConfig: { incentive: 10000, paused: false },
+              tokens: [NATIVE_TOKEN_ADDRESS],
+            },
+            [PAUSED_OWNER]: {
+              withdrawConfig: { incentive: 10000, paused: true },
+              tokens: [NATIVE_TOKEN_ADDRESS],
+            },
+          },
+        }
+      })
+
+    const report = await client.runWithdrawKeeper({
+      ownerAddresses: [RICH_OWNER, LAGGING_OWNER, PAUSED_OWNER],
+      dryRun: true,
+    })
+
+    expect(mockGetConfigs).toHaveBeenCalledWith({
+      chainId: 1,
+      accountAddresses: [RICH_OWNER, LAGGING_OWNER, PAUSED_OWNER],
+    })
+    expect(client['_warehouse'].getWithdrawConfig).not.toHaveBeenCalledWith(
+      expect.objectContaining({ userAddress: PAUSED_OWNER }),
+    )
+    expect(report.batches[0].opportunities[0].tokens).toHaveLength(1)
+    expect(report.skipped).toEqual([
+      { ownerAddress: LAGGING_OWNER, reason: 'paused' },
+      { ownerAddress: PAUSED_OWNER, reason: 'paused' },
+    ])
+  })
+
+  test('Needs tokens without a subgraph to read them from', async () => {
+    const { client } = createClient()
+
+    await expect(
+      client.runWithdrawKeeper({ ownerAddresses: [RICH_OWNER] }),
+    ).rejects.toThrow(InvalidArgumentError)
+  })
+  test('Finds the owners with unpaused configs in the subgraph', async () => {
+    const { client } = createClient({ apiKey: 'key' })
+    const mockGetAccounts = jest
+      .spyOn(client['_dataClient']!, 'getWarehouseWithdrawAccounts')
+      .mockImplementation(async () => {
+        return {
+          accounts: {
+            [RICH_OWNER]: {
+              withdrawConfig: { incentive: 10000, paused: false },
+              tokens: [NATIVE_TOKEN_ADDRESS],
+            },
+            [POOR_OWNER]: {
+              withdrawConfig: { incentive: 10000, paused: false },
+              tokens: [NATIVE_TOKEN_ADDRESS],
+            },
+          },
+        }
+      })
+
+    const report = await client.runWithdrawKeeper({ dryRun: true })
+
+    expect(mockGetAccounts).toHaveBeenCalledWith({ chainId: 1 })
+    expect(
+      report.batches[0].opportunities.map(({ ownerAddress }) => ownerAddress),
+    ).toEqual([RICH_OWNER])
+    expect(report.unprofitable.map(({ ownerAddress }) => ownerAddress)).toEqual(
+      [POOR_OWNER],
+    )
+  })
+
+  test('Needs owners without a subgraph to find them in', async () => {
+    const { client } = createClient()
+
+    await expect(
+      client.runWithdrawKeeper({ tokens: [NATIVE_TOKEN_ADDRESS] }),
+    ).rejects.toThrow(InvalidArgumentError)
+  })
+
+  test('Skips owners whose reads fail', async () => {
+    const { client, mockEstimateGas } = createClient()
+    const error = new Error('execution reverted')
+    mockEstimateGas.mockImplementation(async ({ ownerAddress }) => {
+      if (ownerAddress === POOR_OWNER) throw error
+      return BigInt(100_000)
+    })
+
+    const report = await client.runWithdrawKeeper({
+      ownerAddresses: [RICH_OWNER, POOR_OWNER],
+      tokens: [NATIVE_TOKEN_ADDRESS],
+      dryRun: true,
+    })
+
+    expect(
+      report.batches[0].opportunities.map(({ ownerAddress }) => ownerAddress),
+    ).toEqual([RICH_OWNER])
+    expect(report.skipped).toEqual([
+      { ownerAddress: POOR_OWNER, reason: 'failed', error },
+    ])
+  })
+
+  test('Keeps the hashes of multicalls sent before one reverts', async () => {
+    const { client, mockSubmit } = createClient()
+    mockSubmit
+      .mockImplementationOnce(async () => {
+        return { txHash: '0x1', simulatedResults: [] }
+      })
+      .mockImplementationOnce(async () => {
+        return { txHash: '0x2', simulatedResults: [] }
+      })
+    const error = new Error('Transaction reverted')
+    jest
+      .spyOn(client, 'getTransactionEvents')
+      .mockImplementation(async ({ txHash }) => {
+        if (txHash === '0x2') throw error
+        return []
+      })
+
+    const report = await client.runWithdrawKeeper({
+      ownerAddresses: [RICH_OWNER, POOR_OWNER, RICH_OWNER],
+      tokens: [NATIVE_TOKEN_ADDRESS, TOKEN],
+      priceSource: async ({ amount }) => amount * BigInt(1_000_000_000),
+      minNetProfit: -ETHER,
+      gasLimit: BigInt(150_000),
+    })
+
+    expect(report.batches).toHaveLength(2)
+    expect(report.txHashes).toEqual(['0x1'])
+    expect(report.failedTxHash).toEqual('0x2')
+    expect(report.error).toBe(error)
+  })
+
+  test('Adds the L1 data fee on OP stack chains', async () => {
+    const { client, publicClient } = createClient(undefined, {
+      chain: optimism,
+    })
+
+    const report = await client.runWithdrawKeeper({
+      ownerAddresses: [RICH_OWNER],
+      tokens: [NATIVE_TOKEN_ADDRESS],
+      dryRun: true,
+    })
+
+    const [opportunity] = report.batches[0].opportunities
+    expect(opportunity.l1Fee).toEqual(BigInt(500_000_000_000_000))
+    expect(opportunity.gasCost).toEqual(BigInt(1_500_000_000_000_000))
+    expect(publicClient.readContract).toHaveBeenCalledWith(
+      expect.objectContaining({
+        address: optimism.contracts.gasPriceOracle.address,
+        functionName: 'getL1Fee',
+      }),
+    )
+  })
+
+  test('Uses the legacy gas price on chains without eip-1559 fees', async () => {
+    const { client } = createClient(undefined, { baseFeePerGas: null })
+
+    const report = await client.runWithdrawKeeper({
+      ownerAddresses: [RICH_OWNER],
+      tokens: [NATIVE_TOKEN_ADDRESS],
+      dryRun: true,
+    })
+
+    expect(report.gasPrice).toEqual(BigInt(20_000_000_000))
+    expect(report.batches[0].opportunities[0].gasCost).toEqual(
+      BigInt(2_000_000_000_000_000),
+    )
+  })
+})
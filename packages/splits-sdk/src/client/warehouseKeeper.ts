@@ -0,0 +1,366 @@
+import { Address, Hash, getAddress, zeroAddress } from 'viem'
+
+import { BaseClientMixin, BaseTransactions } from './base'
+import {
+  NATIVE_TOKEN_ADDRESS,
+  PERCENTAGE_SCALE,
+  SPLITS_V2_SUPPORTED_CHAIN_IDS,
+  TransactionType,
+} from '../constants'
+import { InvalidArgumentError } from '../errors'
+import {
+  DEFAULT_BATCH_GAS_LIMIT,
+  MULTICALL_CALL_GAS,
+  TRANSACTION_BASE_GAS,
+} from './distribution'
+import { applyMixins } from './mixin'
+import { WarehouseClient } from './warehouse'
+import type {
+  SplitsClientConfig,
+  WarehouseAccountWithdrawConfig,
+  WarehouseBatchWithdrawConfig,
+  WarehouseKeeperConfig,
+  WarehouseKeeperReport,
+  WarehouseWithdrawBatch,
+  WarehouseWithdrawOpportunity,
+  WarehouseWithdrawTokenReward,
+} from '../types'
+import { fromBigIntToPercent } from '../utils'
+import { getGasPrice, getL1Fee } from '../utils/gas'
+import { validateAddress } from '../utils/validation'
+
+type OwnerEvaluation =
+  | { opportunity: WarehouseWithdrawOpportunity }
+  | {
+      skipped: WarehouseKeeperReport['skipped'][number]
+    }
+
+const getBatchWithdrawConfig = (
+  {
+    ownerAddress,
+    tokens,
+  }: Pick<WarehouseWithdrawOpportunity, 'ownerAddress' | 'tokens'>,
+  withdrawerAddress: Address,
+  chainId: number,
+): WarehouseBatchWithdrawConfig => {
+  return {
+    ownerAddress,
+    tokensAddresses: tokens.map(({ tokenAddress }) => tokenAddress),
+    amounts: tokens.map(({ amount }) => amount),
+    withdrawerAddress,
+    chainId,
+  }
+}
+
+// eslint-disable-next-line @typescript-eslint/no-unsafe-declaration-merging
+export class WarehouseKeeperClient extends BaseTransactions {
+  private readonly _warehouse: WarehouseClient
+
+  constructor(clientArgs: SplitsClientConfig) {
+    super({
+      transactionType: TransactionType.Transaction,
+      supportedChainIds: SPLITS_V2_SUPPORTED_CHAIN_IDS,
+      deploymentContracts: ['warehouse'],
+      ...clientArgs,
+    })
+
+    this._warehouse = new WarehouseClient(clientArgs)
+  }
+
+  // Withdraws for warehouse owners that pay an incentive to anyone who does,
+  // when the incentive is worth more than the gas. Without ownerAddresses the
+  // owners with an unpaused withdraw config are read from the subgraph.
+  // Profitable withdraws are packed into multicalls under the gas limit, in
+  // the order of the owners. Owners whose reads or gas estimates fail are
+  // skipped, and a failed multicall stops the run with the hashes of the ones
+  // sent before it. A dry run only reports what would be submitted.
+  async runWithdrawKeeper({
+    ownerAddresses,
+    tokens,
+    chainId,
+    withdrawerAddress,
+    priceSource,
+    minNetProfit = BigInt(0),
+    gasLimit = DEFAULT_BATCH_GAS_LIMIT,
+    dryRun = false,
+  }: WarehouseKeeperConfig): Promise<WarehouseKeeperReport> {
+    ownerAddresses?.map((ownerAddress) => validateAddress(ownerAddress))
+    tokens?.map((token) => validateAddress(token))
+    if (withdrawerAddress) validateAddress(withdrawerAddress)
+    if (!ownerAddresses && !this._dataClient)
+      throw new InvalidArgumentError(
+        'Owner addresses are required when there is no apiConfig to find owners from',
+      )
+    if (!tokens && !this._dataClient)
+      throw new InvalidArgumentError(
+        'Tokens are required when there is no apiConfig to read warehouse balances from',
+      )
+
+    const functionChainId = this._getReadOnlyFunctionChainId(
+      chainId ?? this._walletClient?.chain?.id,
+    )
+    // Gas estimates are made from the wallet account
+    this._requireWalletClient(functionChainId)
+    const withdrawer = getAddress(
+      withdrawerAddress ?? this._getSenderAddress(functionChainId),
+    )
+
+    const [{ accounts }, gasPrice] = await Promise.all([
+      this._getOwnerAccounts(functionChainId, ownerAddresses),
+      getGasPrice(this._getPublicClient(functionChainId)),
+    ])
+    const owners = ownerAddresses
+      ? Array.from(
+          new Set(
+            ownerAddresses.map((ownerAddress) => getAddress(ownerAddress)),
+          ),
+        )
+      : (Object.keys(accounts) as Address[])
+
+    const evaluations = await Promise.all(
+      owners.map((ownerAddress) =>
+        this._evaluateOwner({
+          ownerAddress,
+          account: accounts[ownerAddress],
+          tokens,
+          chainId: functionChainId,
+          withdrawerAddress: withdrawer,
+          priceSource,
+          gasPrice,
+        }).catch((error): OwnerEvaluation => {
+          return {
+            skipped: { ownerAddress, reason: 'failed', error: error as Error },
+          }
+        }),
+      ),
+    )
+
+    const skipped = evaluations.flatMap((evaluation) =>
+      'skipped' in evaluation ? [evaluation.skipped] : [],
+    )
+    const opportunities = evaluations.flatMap((evaluation) =>
+      'opportunity' in evaluation ? [evaluation.opportunity] : [],
+    )
+    const profitable = opportunities.filter(
+      ({ netProfit }) => netProfit > minNetProfit,
+    )
+    const unprofitable = opportunities.filter(
+      ({ netProfit }) => netProfit <= minNetProfit,
+    )
+
+    const batches = profitable.reduce((acc, opportunity) => {
+      const callGas =
+        opportunity.gasEstimate - TRANSACTION_BASE_GAS + MULTICALL_CALL_GAS
+      const batch = acc[acc.length - 1]
+      if (batch && batch.gasEstimate + callGas <= gasLimit) {
+        batch.opportunities.push(opportunity)
+        batch.gasEstimate += callGas
+      } else {
+        acc.push({
+          opportunities: [opportunity],
+          gasEstimate: TRANSACTION_BASE_GAS + callGas,
+        })
+      }
+
+      return acc
+    }, [] as WarehouseWithdrawBatch[])
+
+    const submission = dryRun
+      ? { txHashes: [] as Hash[] }
+      : await batches.reduce(
+          async (previous, batch) => {
+            const progress = await previous
+            if (progress.error) return progress
+
+            const calls = await Promise.all(
+              batch.opportunities.map((opportunity) =>
+                this._warehouse.callData.batchWithdraw(
+                  getBatchWithdrawConfig(
+                    opportunity,
+                    withdrawer,
+                    functionChainId,
+                  ),
+                ),
+              ),
+            )
+            const txHash = await this._submitMulticallTransaction({
+              calls,
+              chainId: functionChainId,
+            }).then(
+              ({ txHash }) => txHash,
+              (error) => error as Error,
+            )
+            if (txHash instanceof Error) return { ...progress, error: txHash }
+
+            // Throws if the multicall reverts
+            return await this.getTransactionEvents({
+              txHash,
+              chainId: functionChainId,
+              eventTopics: [],
+              includeAll: true,
+            }).then(
+              () => {
+                return { txHashes: [...progress.txHashes, txHash] }
+              },
+              (error) => {
+                return {
+                  ...progress,
+                  error: error as Error,
+                  failedTxHash: txHash,
+                }
+              },
+            )
+          },
+          Promise.resolve({ txHashes: [] } as Pick<
+            WarehouseKeeperReport,
+            'txHashes' | 'error' | 'failedTxHash'
+          >),
+        )
+
+    return {
+      chainId: functionChainId,
+      withdrawerAddress: withdrawer,
+      gasPrice,
+      dryRun,
+      batches,
+      unprofitable,
+      skipped,
+      totalNetProfit: profitable.reduce(
+        (acc, { netProfit }) => acc + netProfit,
+        BigInt(0),
+      ),
+      ...submission,
+    }
+  }
+
+  private async _getOwnerAccounts(
+    chainId: number,
+    ownerAddresses?: string[],
+  ): Promise<{
+    accounts: { [address: Address]: WarehouseAccountWithdrawConfig }
+  }> {
+    if (!this._dataClient) return { accounts: {} }
+    if (!ownerAddresses)
+      return await this._dataClient.getWarehouseWithdrawAccounts({ chainId })
+
+    return await this._dataClient.getWarehouseWithdrawConfigs({
+      chainId,
+      accountAddresses: ownerAddresses,
+    })
+  }
+
+  // The subgraph can lag behind the chain, so withdraw configs are always
+  // confirmed on chain. Owners the subgraph already has as paused are skipped
+  // without the read.
+  private async _evaluateOwner({
+    ownerAddress,
+    account,
+    tokens,
+    chainId,
+    withdrawerAddress,
+    priceSource,
+    gasPrice,
+  }: {
+    ownerAddress: Address
+    account?: WarehouseAccountWithdrawConfig
+    tokens?: string[]
+    chainId: number
+    withdrawerAddress: Address
+    priceSource: WarehouseKeeperConfig['priceSource']
+    gasPrice: bigint
+  }): Promise<OwnerEvaluation> {
+    if (account?.withdrawConfig?.paused)
+      return { skipped: { ownerAddress, reason: 'paused' } }
+
+    const { withdrawConfig } = await this._warehouse.getWithdrawConfig({
+      userAddress: ownerAddress,
+      chainId,
+    })
+    if (withdrawConfig.paused)
+      return { skipped: { ownerAddress, reason: 'paused' } }
+    if (withdrawConfig.incentive === 0)
+      return { skipped: { ownerAddress, reason: 'noIncentive' } }
+
+    const tokenAddresses = Array.from(
+      new Set(
+        (tokens ?? account?.tokens ?? []).map((token) =>
+          getAddress(token) === zeroAddress
+            ? NATIVE_TOKEN_ADDRESS
+            : getAddress(token),
+        ),
+      ),
+    )
+    const tokenRewards = await Promise.all(
+      tokenAddresses.map(
+        async (tokenAddress): Promise<WarehouseWithdrawTokenReward> => {
+          const { balance } = await this._warehouse.balanceOf({
+            ownerAddress,
+            tokenAddress,
+            chainId,
+          })
+          const amount = balance > BigInt(1) ? balance - BigInt(1) : BigInt(0)
+          const reward =
+            (amount * BigInt(withdrawConfig.incentive)) / PERCENTAGE_SCALE
+          const nativeReward =
+            tokenAddress === NATIVE_TOKEN_ADDRESS
+              ? reward
+              : priceSource && reward > BigInt(0)
+              ? await priceSource({
+                  chainId,
+                  token: tokenAddress,
+                  amount: reward,
+                })
+              : BigInt(0)
+
+          return { tokenAddress, balance, amount, reward, nativeReward }
+        },
+      ),
+    )
+    // Tokens whose incentive isn't worth anything only add gas
+    const rewardedTokens = tokenRewards.filter(
+      ({ nativeReward }) => nativeReward > BigInt(0),
+    )
+    if (rewardedTokens.length === 0)
+      return { skipped: { ownerAddress, reason: 'noReward' } }
+
+    const nativeReward = rewardedTokens.reduce(
+      (acc, token) => acc + token.nativeReward,
+      BigInt(0),
+    )
+    const batchWithdrawConfig = getBatchWithdrawConfig(
+      { ownerAddress, tokens: rewardedTokens },
+      withdrawerAddress,
+      chainId,
+    )
+    const gasEstimate =
+      await this._warehouse.estimateGas.batchWithdraw(batchWithdrawConfig)
+    const { address, data } =
+      await this._warehouse.callData.batchWithdraw(batchWithdrawConfig)
+    const l1Fee = await getL1Fee({
+      publicClient: this._getPublicClient(chainId),
+      chainId,
+      to: address as Address,
+      data,
+      gasEstimate,
+      gasPrice,
+    })
+    const gasCost = gasEstimate * gasPrice + l1Fee
+
+    return {
+      opportunity: {
+        ownerAddress,
+        incentivePercent: fromBigIntToPercent(withdrawConfig.incentive),
+        tokens: rewardedTokens,
+        nativeReward,
+        gasEstimate,
+        l1Fee,
+        gasCost,
+        netProfit: nativeReward - gasCost,
+      },
+    }
+  }
+}
+
+// eslint-disable-next-line @typescript-eslint/no-unsafe-declaration-merging
+export interface WarehouseKeeperClient extends BaseClientMixin {}
+applyMixins(WarehouseKeeperClient, [BaseClientMixin])
@@ -30,6 +30,7 @@ import type {
   CreateWaterfallConfig,
   ReadContractArgs,
   RecoverNonWaterfallFundsConfig,
+  SimulationResult,
   SplitsClientConfig,
   SplitsPublicClient,
   TransactionConfig,
@@ -46,6 +47,7 @@ class WaterfallTransactions extends BaseTransactions {
   constructor(transactionClientArgs: SplitsClientConfig & TransactionConfig) {
     super({
       supportedChainIds: WATERFALL_CHAIN_IDS,
+      deploymentContracts: ['waterfallFactory'],
       ...transactionClientArgs,
     })
   }
@@ -60,7 +62,7 @@ class WaterfallTransactions extends BaseTransactions {
     validateAddress(token)
     validateAddress(nonWaterfallRecipient)
     validateWaterfallTranches(tranches)
-    if (this._shouldRequireWalletClient) this._requireWalletClient()
+    if (this._shouldRequireWalletClient) this._requireWalletClient(chainId)
 
     const functionChainId = this._getFunctionChainId(chainId)
     const publicClient = this._getPublicClient(functionChainId)
@@ -73,10 +75,14 @@ class WaterfallTransactions extends BaseTransactions {
       formattedToken,
       tranches,
       publicClient,
+      this._deployments,
     )
 
     const result = await this._executeContractFunction({
-      contractAddress: getWaterfallFactoryAddress(functionChainId),
+      contractAddress: getWaterfallFactoryAddress(
+        functionChainId,
+        this._deployments,
+      ),
       contractAbi: waterfallFactoryAbi,
       functionName: 'createWaterfallModule',
       functionArgs: [
@@ -85,6 +91,7 @@ class WaterfallTransactions extends BaseTransactions {
         recipients,
         trancheSizes,
       ],
+      chainId: functionChainId,
       transactionOverrides,
     })
 
@@ -94,15 +101,17 @@ class WaterfallTransactions extends BaseTransactions {
   protected async _waterfallFundsTransaction({
     waterfallModuleAddress,
     usePull = false,
+    chainId,
     transactionOverrides = {},
   }: WaterfallFundsConfig): Promise<TransactionFormat> {
     validateAddress(waterfallModuleAddress)
-    if (this._shouldRequireWalletClient) this._requireWalletClient()
+    if (this._shouldRequireWalletClient) this._requireWalletClient(chainId)
 
     const result = await this._executeContractFunction({
       contractAddress: getAddress(waterfallModuleAddress),
       contractAbi: waterfallAbi,
       functionName: usePull ? 'waterfallFundsPull' : 'waterfallFunds',
+      chainId,
       transactionOverrides,
     })
 
@@ -119,7 +128,7 @@ class WaterfallTransactions extends BaseTransactions {
     validateAddress(waterfallModuleAddress)
     validateAddress(token)
     validateAddress(recipient)
-    this._requireWalletClient()
+    this._requireWalletClient(chainId)
 
     const functionChainId = this._getFunctionChainId(chainId)
 
@@ -135,6 +144,7 @@ class WaterfallTransactions extends BaseTransactions {
       contractAbi: waterfallAbi,
       functionName: 'recoverNonWaterfallFunds',
       functionArgs: [token, recipient],
+      chainId: functionChainId,
       transactionOverrides,
     })
 
@@ -144,17 +154,19 @@ class WaterfallTransactions extends BaseTransactions {
   protected async _withdrawPullFundsTransaction({
     waterfallModuleAddress,
     address,
+    chainId,
     transactionOverrides = {},
   }: WithdrawWaterfallPullFundsConfig): Promise<TransactionFormat> {
     validateAddress(waterfallModuleAddress)
     validateAddress(address)
-    this._requireWalletClient()
+    this._requireWalletClient(chainId)
 
     const result = await this._executeContractFunction({
       contractAddress: getAddress(waterfallModuleAddress),
       contractAbi: waterfallAbi,
       functionName: 'withdraw',
       functionArgs: [address],
+      chainId,
       transactionOverrides,
     })
 
@@ -230,6 +242,7 @@ export class WaterfallClient extends WaterfallTransactions {
   readonly eventTopics: { [key: string]: Hex[] }
   readonly callData: WaterfallCallData
   readonly estimateGas: WaterfallGasEstimates
+  readonly simulate: WaterfallSimulation
 
   constructor(clientArgs: SplitsClientConfig) {
     super({
@@ -265,6 +278,7 @@ export class WaterfallClient extends WaterfallTransactions {
 
     this.callData = new WaterfallCallData(clientArgs)
     this.estimateGas = new WaterfallGasEstimates(clientArgs)
+    this.simulate = new WaterfallSimulation(clientArgs)
   }
 
   // Write actions
@@ -291,6 +305,8 @@ export class WaterfallClient extends WaterfallTransactions {
       await this._submitCreateWaterfallModuleTransaction(createWaterfallArgs)
     const events = await this.getTransactionEvents({
       txHash,
+      chainId: createWaterfallArgs.chainId,
+      tracking: createWaterfallArgs.tracking,
       eventTopics: this.eventTopics.createWaterfallModule,
     })
     const event = events.length > 0 ? events[0] : undefined
@@ -328,6 +344,8 @@ export class WaterfallClient extends WaterfallTransactions {
       await this._submitWaterfallFundsTransaction(waterfallFundsArgs)
     const events = await this.getTransactionEvents({
       txHash,
+      chainId: waterfallFundsArgs.chainId,
+      tracking: waterfallFundsArgs.tracking,
       eventTopics: this.eventTopics.waterfallFunds,
     })
     const event = events.length > 0 ? events[0] : undefined
@@ -361,6 +379,8 @@ export class WaterfallClient extends WaterfallTransactions {
       await this._submitRecoverNonWaterfallFundsTransaction(recoverFundsArgs)
     const events = await this.getTransactionEvents({
       txHash,
+      chainId: recoverFundsArgs.chainId,
+      tracking: recoverFundsArgs.tracking,
       eventTopics: this.eventTopics.recoverNonWaterfallFunds,
     })
     const event = events.length > 0 ? events[0] : undefined
@@ -393,6 +413,8 @@ export class WaterfallClient extends WaterfallTransactions {
       await this._submitWithdrawPullFundsTransaction(withdrawFundsArgs)
     const events = await this.getTransactionEvents({
       txHash,
+      chainId: withdrawFundsArgs.chainId,
+      tracking: withdrawFundsArgs.tracking,
       eventTopics: this.eventTopics.withdrawPullFunds,
     })
     const event = events.length > 0 ? events[0] : undefined
@@ -603,6 +625,59 @@ class WaterfallGasEstimates extends WaterfallTransactions {
 interface WaterfallGasEstimates extends BaseGasEstimatesMixin {}
 applyMixins(WaterfallGasEstimates, [BaseGasEstimatesMixin])
 
+class WaterfallSimulation extends WaterfallTransactions {
+  constructor(clientArgs: SplitsClientConfig) {
+    super({
+      transactionType: TransactionType.Simulation,
+      ...clientArgs,
+    })
+  }
+
+  async createWaterfallModule(
+    createWaterfallArgs: CreateWaterfallConfig,
+  ): Promise<SimulationResult> {
+    const simulationResult =
+      await this._createWaterfallModuleTransaction(createWaterfallArgs)
+    if (!this._isSimulationResult(simulationResult))
+      throw new Error('Invalid response')
+
+    return simulationResult
+  }
+
+  async waterfallFunds(
+    waterfallFundsArgs: WaterfallFundsConfig,
+  ): Promise<SimulationResult> {
+    const simulationResult =
+      await this._waterfallFundsTransaction(waterfallFundsArgs)
+    if (!this._isSimulationResult(simulationResult))
+      throw new Error('Invalid response')
+
+    return simulationResult
+  }
+
+  async recoverNonWaterfallFunds(
+    recoverFundsArgs: RecoverNonWaterfallFundsConfig,
+  ): Promise<SimulationResult> {
+    const simulationResult =
+      await this._recoverNonWaterfallFundsTransaction(recoverFundsArgs)
+    if (!this._isSimulationResult(simulationResult))
+      throw new Error('Invalid response')
+
+    return simulationResult
+  }
+
+  async withdrawPullFunds(
+    withdrawArgs: WithdrawWaterfallPullFundsConfig,
+  ): Promise<SimulationResult> {
+    const simulationResult =
+      await this._withdrawPullFundsTransaction(withdrawArgs)
+    if (!this._isSimulationResult(simulationResult))
+      throw new Error('Invalid response')
+
+    return simulationResult
+  }
+}
+
 class WaterfallCallData extends WaterfallTransactions {
   constructor(clientArgs: SplitsClientConfig) {
     super({
@@ -1,4 +1,5 @@
 export * from './diversifierFactory'
+export * from './entryPoint'
 export * from './erc20'
 export * from './liquidSplitFactory'
 export * from './ls1155Clone'
@@ -7,6 +8,7 @@ export * from './passThroughWallet'
 export * from './passThroughWalletFactory'
 export * from './recoupFactory'
 export * from './reverseRecords'
+export * from './safe'
 export * from './split'
 export * from './splitMain'
 export * from './swapper'
@@ -0,0 +1,104 @@
+export const safeAbi = [
+  {
+    inputs: [],
+    name: 'getOwners',
+    outputs: [{ internalType: 'address[]', name: '', type: 'address[]' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [],
+    name: 'getThreshold',
+    outputs: [{ internalType: 'uint256', name: '', type: 'uint256' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [{ internalType: 'address', name: 'owner', type: 'address' }],
+    name: 'isOwner',
+    outputs: [{ internalType: 'bool', name: '', type: 'bool' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [],
+    name: 'nonce',
+    outputs: [{ internalType: 'uint256', name: '', type: 'uint256' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [
+      { internalType: 'address', name: 'to', type: 'address' },
+      { internalType: 'uint256', name: 'value', type: 'uint256' },
+      { internalType: 'bytes', name: 'data', type: 'bytes' },
+      {
+        internalType: 'enum Enum.Operation',
+        name: 'operation',
+        type: 'uint8',
+      },
+      { internalType: 'uint256', name: 'safeTxGas', type: 'uint256' },
+      { internalType: 'uint256', name: 'baseGas', type: 'uint256' },
+      { internalType: 'uint256', name: 'gasPrice', type: 'uint256' },
+      { internalType: 'address', name: 'gasToken', type: 'address' },
+      {
+        internalType: 'address payable',
+        name: 'refundReceiver',
+        type: 'address',
+      },
+      { internalType: 'bytes', name: 'signatures', type: 'bytes' },
+    ],
+    name: 'execTransaction',
+    outputs: [{ internalType: 'bool', name: '', type: 'bool' }],
+    stateMutability: 'payable',
+    type: 'function',
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: 'bytes32',
+        name: 'txHash',
+        type: 'bytes32',
+      },
+      {
+        indexed: false,
+        internalType: 'uint256',
+        name: 'payment',
+        type: 'uint256',
+      },
+    ],
+    name: 'ExecutionFailure',
+    type: 'event',
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: 'bytes32',
+        name: 'txHash',
+        type: 'bytes32',
+      },
+      {
+        indexed: false,
+        internalType: 'uint256',
+        name: 'payment',
+        type: 'uint256',
+      },
+    ],
+    name: 'ExecutionSuccess',
+    type: 'event',
+  },
+] as const
+
+export const multiSendCallOnlyAbi = [
+  {
+    inputs: [{ internalType: 'bytes', name: 'transactions', type: 'bytes' }],
+    name: 'multiSend',
+    outputs: [],
+    stateMutability: 'payable',
+    type: 'function',
+  },
+] as const
@@ -1,5 +1,9 @@
 import { Address, GetLogsReturnType } from 'viem'
-import { SplitV2Type } from '../types'
+import {
+  SplitV2Type,
+  type SplitsDeployment,
+  type SplitsDeployments,
+} from '../types'
 import { splitMainPolygonAbi } from './abi/splitMain'
 import { splitV2ABI } from './abi/splitV2'
 import { splitV2FactoryABI } from './abi/splitV2Factory'
@@ -9,6 +13,15 @@ export const PERCENTAGE_SCALE = BigInt(1e6)
 // https://github.com/mds1/multicall
 export const MULTICALL_3_ADDRESS = '0xca11bde05977b3631167028862be2a173976ca11'
 
+// https://github.com/eth-infinitism/account-abstraction/releases/tag/v0.7.0
+export const ENTRY_POINT_V07_ADDRESS =
+  '0x0000000071727De22E5E9d8BAf0edAc6f37da032'
+
+// https://github.com/safe-global/safe-deployments (v1.3.0 canonical)
+export const SAFE_MULTI_SEND_CALL_ONLY_ADDRESS =
+  '0x40A2aCCbd92BCA938b02010E17A5b8929b49130D'
+export const SAFE_TX_BUILDER_VERSION = '1.16.5'
+
 export const REVERSE_RECORDS_ADDRESS =
   '0x3671aE578E63FdF66ad4F3E12CC0c0d71Ac7510C'
 
@@ -68,31 +81,72 @@ export const PULL_SPLIT_V2o1_ADDRESS =
 export const PUSH_SPLIT_V2o1_ADDRESS =
   '0x3f81D81e0884abD8Cc4583a704a9397972623214'
 
-export const getSplitMainAddress = (chainId: number): Address => {
+// Deployments passed to a client (forks, devnets, chains not yet supported by
+// the sdk) are passed along to these lookups. Any address missing from a
+// client's deployment falls back to the canonical one.
+export const getDeploymentChainIds = (
+  deployments: SplitsDeployments,
+  contracts?: (keyof SplitsDeployment)[],
+): number[] => {
+  return Object.entries(deployments)
+    .filter(
+      ([, deployment]) =>
+        !contracts ||
+        contracts.some((contract) => deployment[contract] !== undefined),
+    )
+    .map(([chainId]) => Number(chainId))
+}
+
+export const getSplitMainAddress = (
+  chainId: number,
+  deployments?: SplitsDeployments,
+): Address => {
+  const deployment = deployments?.[chainId]
+  if (deployment?.splitMain) return deployment.splitMain
   if (chainId === ChainId.BSC) return SPLIT_MAIN_ADDRESS_BSC
   if (chainId === ChainId.HOLESKY) return SPLIT_MAIN_ADDRESS_HOLESKY
   if (chainId === ChainId.SEPOLIA) return SPLIT_MAIN_ADDRESS_SEPOLIA
   return SPLIT_MAIN_ADDRESS
 }
 
-export const getVestingFactoryAddress = (chainId: number): Address => {
+export const getVestingFactoryAddress = (
+  chainId: number,
+  deployments?: SplitsDeployments,
+): Address => {
+  const deployment = deployments?.[chainId]
+  if (deployment?.vestingFactory) return deployment.vestingFactory
   if (chainId === ChainId.BSC) return VESTING_MODULE_FACTORY_ADDRESS_BSC
   return VESTING_MODULE_FACTORY_ADDRESS
 }
 
-export const getWaterfallFactoryAddress = (chainId: number): Address => {
+export const getWaterfallFactoryAddress = (
+  chainId: number,
+  deployments?: SplitsDeployments,
+): Address => {
+  const deployment = deployments?.[chainId]
+  if (deployment?.waterfallFactory) return deployment.waterfallFactory
   if (chainId === ChainId.BSC) return WATERFALL_MODULE_FACTORY_ADDRESS_BSC
   return WATERFALL_MODULE_FACTORY_ADDRESS
 }
 
-export const getLiquidSplitFactoryAddress = (chainId: number): Address => {
+export const getLiquidSplitFactoryAddress = (
+  chainId: number,
+  deployments?: SplitsDeployments,
+): Address => {
+  const deployment = deployments?.[chainId]
+  if (deployment?.liquidSplitFactory) return deployment.liquidSplitFactory
   if (chainId === ChainId.BSC) return LIQUID_SPLIT_FACTORY_ADDRESS_BSC
   if (chainId === ChainId.HOLESKY) return LIQUID_SPLIT_FACTORY_ADDRESS_HOLESKY
   if (chainId === ChainId.SEPOLIA) return LIQUID_SPLIT_FACTORY_ADDRESS_SEPOLIA
   return LIQUID_SPLIT_FACTORY_ADDRESS
 }
 
-export const getRecoupAddress = (chainId: number): Address => {
+export const getRecoupAddress = (
+  chainId: number,
+  deployments?: SplitsDeployments,
+): Address => {
+  const deployment = deployments?.[chainId]
+  if (deployment?.recoup) return deployment.recoup
   if (chainId === ChainId.BSC) return RECOUP_ADDRESS_BSC
   if (chainId === ChainId.HOLESKY) return RECOUP_ADDRESS_HOLESKY
   if (chainId === ChainId.SEPOLIA) return RECOUP_ADDRESS_SEPOLIA
@@ -101,54 +155,121 @@ export const getRecoupAddress = (chainId: number): Address => {
 
 export const getPassThroughWalletFactoryAddress = (
   chainId: number,
+  deployments?: SplitsDeployments,
 ): Address => {
+  const deployment = deployments?.[chainId]
+  if (deployment?.passThroughWalletFactory)
+    return deployment.passThroughWalletFactory
   if (chainId == ChainId.MAINNET)
     return PASS_THROUGH_WALLET_FACTORY_ADDRESS_MAINNET
   return PASS_THROUGH_WALLET_FACTORY_ADDRESS
 }
 
-export const getSwapperFactoryAddress = (): Address => {
+export const getSwapperFactoryAddress = (
+  chainId?: number,
+  deployments?: SplitsDeployments,
+): Address => {
+  const deployment = chainId ? deployments?.[chainId] : undefined
+  if (deployment?.swapperFactory) return deployment.swapperFactory
   return SWAPPER_FACTORY_ADDRESS
 }
 
-export const getUniV3SwapAddress = (): Address => {
+export const getUniV3SwapAddress = (
+  chainId?: number,
+  deployments?: SplitsDeployments,
+): Address => {
+  const deployment = chainId ? deployments?.[chainId] : undefined
+  if (deployment?.uniV3Swap) return deployment.uniV3Swap
   return UNI_V3_SWAP_ADDRESS
 }
 
-export const getDiversifierFactoryAddress = (chainId: number): Address => {
+export const getDiversifierFactoryAddress = (
+  chainId: number,
+  deployments?: SplitsDeployments,
+): Address => {
+  const deployment = deployments?.[chainId]
+  if (deployment?.diversifierFactory) return deployment.diversifierFactory
   if (chainId === ChainId.MAINNET) return DIVERSIFIER_FACTORY_ADDRESS_MAINNET
   if (chainId === ChainId.SEPOLIA) return DIVERSIFIER_FACTORY_ADDRESS_SEPOLIA
   return DIVERSIFIER_FACTORY_ADDRESS
 }
 
-export const getWarehouseAddress = (): Address => {
+export const getWarehouseAddress = (
+  chainId?: number,
+  deployments?: SplitsDeployments,
+): Address => {
+  const deployment = chainId ? deployments?.[chainId] : undefined
+  if (deployment?.warehouse) return deployment.warehouse
   return WAREHOUSE_ADDRESS
 }
 
 export const getSplitV2FactoryAddress = (
-  _chainId: number,
+  chainId: number,
   type: SplitV2Type,
+  deployments?: SplitsDeployments,
 ): Address => {
-  if (type === SplitV2Type.Pull) return PULL_SPLIT_FACTORY_ADDRESS
-  else return PUSH_SPLIT_FACTORY_ADDRESS
+  if (type === SplitV2Type.Pull)
+    return (
+      deployments?.[chainId]?.pullSplitFactory ?? PULL_SPLIT_FACTORY_ADDRESS
+    )
+  else
+    return (
+      deployments?.[chainId]?.pushSplitFactory ?? PUSH_SPLIT_FACTORY_ADDRESS
+    )
 }
 
 export const getSplitV2o1FactoryAddress = (
-  _chainId: number,
+  chainId: number,
   type: SplitV2Type,
+  deployments?: SplitsDeployments,
 ): Address => {
-  if (type === SplitV2Type.Pull) return PULL_SPLIT_V2o1_FACTORY_ADDRESS
-  else return PUSH_SPLIT_V2o1_FACTORY_ADDRESS
+  if (type === SplitV2Type.Pull)
+    return (
+      deployments?.[chainId]?.pullSplitV2o1Factory ??
+      PULL_SPLIT_V2o1_FACTORY_ADDRESS
+    )
+  else
+    return (
+      deployments?.[chainId]?.pushSplitV2o1Factory ??
+      PUSH_SPLIT_V2o1_FACTORY_ADDRESS
+    )
 }
 
-export const getSplitV1StartBlock = (chainId: number): bigint => {
-  if (!CHAIN_INFO[chainId].startBlock) throw new Error('Chain not supported')
-  return BigInt(CHAIN_INFO[chainId].startBlock as number)
+export const getSplitV1StartBlock = (
+  chainId: number,
+  deployments?: SplitsDeployments,
+): bigint => {
+  const startBlock =
+    deployments?.[chainId]?.startBlocks?.splitV1 ??
+    CHAIN_INFO[chainId]?.startBlock ??
+    // Chains only known from a deployment are searched from genesis
+    (deployments?.[chainId] ? 0 : undefined)
+  if (startBlock === undefined) throw new Error('Chain not supported')
+  return BigInt(startBlock)
+}
+
+export const getSplitV2FactoriesStartBlock = (
+  chainId: number,
+  deployments?: SplitsDeployments,
+): bigint => {
+  const startBlock =
+    deployments?.[chainId]?.startBlocks?.splitV2 ??
+    CHAIN_INFO[chainId]?.startBlockV2 ??
+    // Chains only known from a deployment are searched from genesis
+    (deployments?.[chainId] ? 0 : undefined)
+  if (startBlock === undefined) throw new Error('Chain not supported')
+  return BigInt(startBlock)
 }
 
-export const getSplitV2FactoriesStartBlock = (chainId: number): bigint => {
-  if (!CHAIN_INFO[chainId].startBlockV2) throw new Error('Chain not supported')
-  return BigInt(CHAIN_INFO[chainId].startBlockV2 as number)
+export const getNativeCurrencySymbol = (
+  chainId: number,
+  deployments?: SplitsDeployments,
+): string => {
+  return (
+    deployments?.[chainId]?.nativeCurrency?.symbol ??
+    CHAIN_INFO[chainId]?.nativeCurrency.symbol ??
+    'ETH'
+  )
 }
 
 export enum ChainId {
@@ -401,8 +522,15 @@ export enum TransactionType {
   CallData = 'CallData',
   GasEstimate = 'GasEstimate',
   Signature = 'Signature',
+  Simulation = 'Simulation',
 }
 
+// https://eips.ethereum.org/EIPS/eip-5792
+export const WALLET_SEND_CALLS_VERSION = '2.0.0'
+export const WALLET_CALLS_STATUS_PENDING = 100
+export const WALLET_CALLS_STATUS_CONFIRMED = 200
+export const WALLET_CALLS_STATUS_OFFCHAIN_FAILURE = 400
+
 export const ZERO = BigInt(0)
 export const ONE = BigInt(1)
 export const TWO = BigInt(2)
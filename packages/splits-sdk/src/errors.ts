@@ -1,4 +1,11 @@
+import type { Address, Hash, Hex } from 'viem'
+
 import { SPLITS_SUBGRAPH_CHAIN_IDS } from './constants'
+import type {
+  BatchDistributionProgress,
+  SafeSignature,
+  SafeTransaction,
+} from './types'
 import { MAX_V2_DISTRIBUTION_INCENTIVE } from './utils'
 
 // Manually setting the prototype in the constructor with setPrototypeOf fixes a typescript issue so that the
@@ -71,6 +78,191 @@ export class TransactionFailedError extends Error {
   }
 }
 
+export class TransactionRevertedError extends TransactionFailedError {
+  name = 'TransactionRevertedError'
+  readonly txHash: Hash
+  readonly reason: Error | undefined
+
+  constructor({ txHash, reason }: { txHash: Hash; reason?: Error }) {
+    super(
+      `Transaction ${txHash} reverted${reason ? `: ${reason.message}` : ''}`,
+    )
+    this.txHash = txHash
+    this.reason = reason
+    Object.setPrototypeOf(this, TransactionRevertedError.prototype)
+  }
+}
+
+export class TransactionTimeoutError extends TransactionFailedError {
+  name = 'TransactionTimeoutError'
+  readonly txHash: Hash
+
+  constructor(txHash: Hash, timeout?: number) {
+    super(`Timed out after ${timeout}ms waiting for transaction ${txHash}`)
+    this.txHash = txHash
+    Object.setPrototypeOf(this, TransactionTimeoutError.prototype)
+  }
+}
+
+// The transaction was replaced by a no-op transfer with the same nonce
+// Thrown when a different transaction with the same nonce got mined instead,
+// so the original call never ran
+export class TransactionReplacedError extends TransactionFailedError {
+  name = 'TransactionReplacedError'
+  readonly txHash: Hash
+  readonly replacementTxHash: Hash
+
+  constructor({
+    txHash,
+    replacementTxHash,
+    message,
+  }: {
+    txHash: Hash
+    replacementTxHash: Hash
+    message?: string
+  }) {
+    super(
+      message ?? `Transaction ${txHash} was replaced by ${replacementTxHash}`,
+    )
+    this.txHash = txHash
+    this.replacementTxHash = replacementTxHash
+    Object.setPrototypeOf(this, TransactionReplacedError.prototype)
+  }
+}
+
+export class TransactionCancelledError extends TransactionReplacedError {
+  name = 'TransactionCancelledError'
+
+  constructor({
+    txHash,
+    replacementTxHash,
+  }: {
+    txHash: Hash
+    replacementTxHash: Hash
+  }) {
+    super({
+      txHash,
+      replacementTxHash,
+      message: `Transaction ${txHash} was cancelled by ${replacementTxHash}`,
+    })
+    Object.setPrototypeOf(this, TransactionCancelledError.prototype)
+  }
+}
+
+// Thrown when an action is routed through a Safe that needs more signatures
+// than the connected owner can provide. Carries the built Safe transaction so
+// the remaining signatures can be collected and executed through the SafeClient.
+export class SafeSignaturesRequiredError extends Error {
+  name = 'SafeSignaturesRequiredError'
+  readonly safeAddress: Address
+  readonly safeTransaction: SafeTransaction
+  readonly safeTxHash: Hash
+  readonly signatures: SafeSignature[]
+  readonly threshold: number
+
+  constructor({
+    safeAddress,
+    safeTransaction,
+    safeTxHash,
+    signatures,
+    threshold,
+  }: {
+    safeAddress: Address
+    safeTransaction: SafeTransaction
+    safeTxHash: Hash
+    signatures: SafeSignature[]
+    threshold: number
+  }) {
+    const message = `Safe ${safeAddress} requires ${threshold} signatures to execute transaction ${safeTxHash}`
+    super(message)
+    this.safeAddress = safeAddress
+    this.safeTransaction = safeTransaction
+    this.safeTxHash = safeTxHash
+    this.signatures = signatures
+    this.threshold = threshold
+    Object.setPrototypeOf(this, SafeSignaturesRequiredError.prototype)
+  }
+}
+
+// Thrown when a batch of a batch distribution fails. Carries the progress up to
+// that batch, so already sent transactions aren't lost and the run can be
+// picked up again from progress.completedBatches.
+export class BatchDistributionFailedError extends Error {
+  name = 'BatchDistributionFailedError'
+  readonly progress: BatchDistributionProgress
+  readonly failedTxHash: Hash | undefined
+  readonly cause: unknown
+
+  constructor({
+    progress,
+    failedTxHash,
+    cause,
+  }: {
+    progress: BatchDistributionProgress
+    // Set when the failed batch was sent but didn't go through
+    failedTxHash?: Hash
+    cause: unknown
+  }) {
+    super(
+      `Batch ${progress.completedBatches + 1} of ${
+        progress.totalBatches
+      } failed${cause instanceof Error ? `: ${cause.message}` : ''}`,
+    )
+    this.progress = progress
+    this.failedTxHash = failedTxHash
+    this.cause = cause
+    Object.setPrototypeOf(this, BatchDistributionFailedError.prototype)
+  }
+}
+
+export class SimulationRevertedError extends Error {
+  name = 'SimulationRevertedError'
+  readonly errorName: string | undefined
+  readonly args: readonly unknown[] | undefined
+  readonly data: Hex | undefined
+
+  constructor({
+    message,
+    errorName,
+    args,
+    data,
+  }: {
+    message?: string
+    errorName?: string
+    args?: readonly unknown[]
+    data?: Hex
+  }) {
+    super(
+      errorName
+        ? `Simulation reverted with ${errorName}${
+            args && args.length > 0 ? `(${args.join(', ')})` : ''
+          }`
+        : message ?? 'Simulation reverted',
+    )
+    this.errorName = errorName
+    this.args = args
+    this.data = data
+    Object.setPrototypeOf(this, SimulationRevertedError.prototype)
+  }
+}
+
+export class MiddlewareVetoError extends Error {
+  name = 'MiddlewareVetoError'
+  readonly functionName: string
+  readonly middlewareName: string | undefined
+
+  constructor(functionName: string, middlewareName?: string) {
+    super(
+      `Call to ${functionName} was vetoed by ${
+        middlewareName ? `the ${middlewareName} middleware` : 'a middleware'
+      }`,
+    )
+    this.functionName = functionName
+    this.middlewareName = middlewareName
+    Object.setPrototypeOf(this, MiddlewareVetoError.prototype)
+  }
+}
+
 export class MissingPublicClientError extends Error {
   name = 'MissingPublicClientError'
 
@@ -148,3 +340,141 @@ export class SaltRequired extends Error {
     Object.setPrototypeOf(this, SaltRequired.prototype)
   }
 }
+
+export class SaltNotFoundError extends Error {
+  name = 'SaltNotFoundError'
+
+  constructor(attempts: number) {
+    super(`No salt matching the pattern was found in ${attempts} attempts`)
+    Object.setPrototypeOf(this, SaltNotFoundError.prototype)
+  }
+}
+
+export class InvalidSplitSignatureError extends Error {
+  name = 'InvalidSplitSignatureError'
+
+  constructor(splitAddress: string) {
+    super(`Signature was not accepted by split ${splitAddress}`)
+    Object.setPrototypeOf(this, InvalidSplitSignatureError.prototype)
+  }
+}
+
+export class NoopUpdateError extends Error {
+  name = 'NoopUpdateError'
+
+  constructor(splitAddress: string) {
+    super(`Update to split ${splitAddress} does not change anything`)
+    Object.setPrototypeOf(this, NoopUpdateError.prototype)
+  }
+}
+
+// Base class for custom errors decoded from a contract revert. The decoded
+// error name and args are kept so callers can inspect the revert without
+// re-decoding it.
+export class ContractRevertedError extends Error {
+  name = 'ContractRevertedError'
+  readonly errorName: string
+  readonly args: readonly unknown[]
+  readonly cause: unknown
+
+  constructor({
+    errorName,
+    args,
+    cause,
+  }: {
+    errorName: string
+    args?: readonly unknown[]
+    cause?: unknown
+  }) {
+    super(
+      `Contract reverted with ${errorName}${
+        args && args.length > 0 ? `(${args.join(', ')})` : ''
+      }`,
+    )
+    this.errorName = errorName
+    this.args = args ?? []
+    this.cause = cause
+    Object.setPrototypeOf(this, ContractRevertedError.prototype)
+  }
+}
+
+export class UnauthorizedError extends ContractRevertedError {
+  name = 'UnauthorizedError'
+
+  constructor(params: ConstructorParameters<typeof ContractRevertedError>[0]) {
+    super(params)
+    Object.setPrototypeOf(this, UnauthorizedError.prototype)
+  }
+}
+
+export class PausedError extends ContractRevertedError {
+  name = 'PausedError'
+
+  constructor(params: ConstructorParameters<typeof ContractRevertedError>[0]) {
+    super(params)
+    Object.setPrototypeOf(this, PausedError.prototype)
+  }
+}
+
+export class InvalidSplitError extends ContractRevertedError {
+  name = 'InvalidSplitError'
+
+  constructor(params: ConstructorParameters<typeof ContractRevertedError>[0]) {
+    super(params)
+    Object.setPrototypeOf(this, InvalidSplitError.prototype)
+  }
+}
+
+export class InvalidWaterfallError extends ContractRevertedError {
+  name = 'InvalidWaterfallError'
+
+  constructor(params: ConstructorParameters<typeof ContractRevertedError>[0]) {
+    super(params)
+    Object.setPrototypeOf(this, InvalidWaterfallError.prototype)
+  }
+}
+
+export class InvalidNonceError extends ContractRevertedError {
+  name = 'InvalidNonceError'
+
+  constructor(params: ConstructorParameters<typeof ContractRevertedError>[0]) {
+    super(params)
+    Object.setPrototypeOf(this, InvalidNonceError.prototype)
+  }
+}
+
+export class ExpiredSignatureError extends ContractRevertedError {
+  name = 'ExpiredSignatureError'
+
+  constructor(params: ConstructorParameters<typeof ContractRevertedError>[0]) {
+    super(params)
+    Object.setPrototypeOf(this, ExpiredSignatureError.prototype)
+  }
+}
+
+export class InvalidSignerError extends ContractRevertedError {
+  name = 'InvalidSignerError'
+
+  constructor(params: ConstructorParameters<typeof ContractRevertedError>[0]) {
+    super(params)
+    Object.setPrototypeOf(this, InvalidSignerError.prototype)
+  }
+}
+
+export class InvalidAmountsToBeneficiaryError extends ContractRevertedError {
+  name = 'InvalidAmountsToBeneficiaryError'
+
+  constructor(params: ConstructorParameters<typeof ContractRevertedError>[0]) {
+    super(params)
+    Object.setPrototypeOf(this, InvalidAmountsToBeneficiaryError.prototype)
+  }
+}
+
+export class InsufficientFundsError extends ContractRevertedError {
+  name = 'InsufficientFundsError'
+
+  constructor(params: ConstructorParameters<typeof ContractRevertedError>[0]) {
+    super(params)
+    Object.setPrototypeOf(this, InsufficientFundsError.prototype)
+  }
+}
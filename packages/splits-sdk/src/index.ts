@@ -8,6 +8,10 @@ import { SwapperClient } from './client/swapper'
 import { OracleClient } from './client/oracle'
 import { WarehouseClient } from './client/warehouse'
 import { SplitV2Client } from './client/splitV2'
+import { SafeClient } from './client/safe'
+import { MigrationClient } from './client/migration'
+import { DistributionClient } from './client/distribution'
+import { WarehouseKeeperClient } from './client/warehouseKeeper'
 import { DataClient } from './client/data'
 import { SplitsClient } from './client'
 
@@ -22,6 +26,10 @@ export {
   OracleClient,
   SplitV2Client,
   WarehouseClient,
+  SafeClient,
+  MigrationClient,
+  DistributionClient,
+  WarehouseKeeperClient,
   DataClient,
   SplitsClient,
 }
@@ -39,9 +47,40 @@ export {
   LIQUID_SPLITS_MAX_PRECISION_DECIMALS,
 } from './constants'
 export type {
+  SplitsDeployment,
+  SplitsDeployments,
+  SplitsMiddleware,
+  SwitchChainFn,
+  ExecuteMiddlewareContext,
+  ReadMiddlewareContext,
+  TransactionStatusUpdate,
+  TransactionTrackingConfig,
   MulticallConfig,
+  MulticallCallData,
+  MulticallCallResult,
+  BatchConfig,
+  BatchCallsStatus,
+  BatchCallsReceipt,
+  UserOperation,
+  UserOperationConfig,
+  UserOperationPaymaster,
+  UserOperationPaymasterData,
+  SmartAccount,
+  SendUserOperationConfig,
+  SafeTransaction,
+  SafeSignature,
+  CreateSafeTransactionConfig,
+  SignSafeTransactionConfig,
+  ExecuteSafeTransactionConfig,
+  SafeTransactionBuilderConfig,
+  SafeTransactionBuilderJson,
+  SimulationResult,
+  SimulatedEvent,
+  SimulatedBalanceChange,
   CreateSplitConfig,
+  EnsureSplitResult,
   UpdateSplitConfig,
+  SplitUpdateDiff,
   DistributeTokenConfig,
   UpdateSplitAndDistributeTokenConfig,
   WithdrawFundsConfig,
@@ -49,6 +88,31 @@ export type {
   CancelControlTransferConfig,
   AcceptControlTransferConfig,
   MakeSplitImmutableConfig,
+  SplitV1MigrationConfig,
+  SplitV1MigrationStep,
+  SplitV1MigrationPlan,
+  ExecuteSplitV1MigrationConfig,
+  PlanDistributionConfig,
+  DistributionNodeType,
+  DistributionNode,
+  DistributionStep,
+  DistributionPlan,
+  ExecuteDistributionConfig,
+  BatchDistributionPair,
+  PlanBatchDistributionConfig,
+  DistributionBatch,
+  BatchDistributionPlan,
+  BatchDistributionProgress,
+  ExecuteBatchDistributionConfig,
+  TokenPriceSource,
+  EstimateDistributionProfitConfig,
+  DistributionProfitEstimate,
+  WarehouseAccountWithdrawConfig,
+  WarehouseKeeperConfig,
+  WarehouseWithdrawTokenReward,
+  WarehouseWithdrawOpportunity,
+  WarehouseWithdrawBatch,
+  WarehouseKeeperReport,
   CreateWaterfallConfig,
   WaterfallFundsConfig,
   RecoverNonWaterfallFundsConfig,
@@ -63,6 +127,10 @@ export type {
   RecoupTrancheInput,
   SplitsClientConfig,
   SplitRecipient,
+  AllocationWeight,
+  AllocationInput,
+  AllocationRecipient,
+  AllocationResult,
   Split,
   FormattedTokenBalances,
   FormattedContractEarnings,
@@ -73,6 +141,11 @@ export type {
   WaterfallTranche,
   WaterfallModule,
   WaterfallTrancheInput,
+  WaterfallTranches,
+  SimulateWaterfallPayoutsConfig,
+  WaterfallTranchePayout,
+  WaterfallTrancheCrossing,
+  WaterfallPayoutSimulation,
   SplitsContract,
   LiquidSplit,
   VestingStream,
@@ -104,21 +177,54 @@ export type {
   WarehouseBatchWithdrawConfig,
   WarehouseDepositConfig,
   WarehouseInvalidateNonceConfig,
+  WarehouseReserveNonceConfig,
+  WarehouseReleaseNonceConfig,
+  WarehouseInvalidateNonceRangeConfig,
+  WarehouseInvalidateNonceRangeResult,
   WarehouseSetOperatorConfig,
   WarehouseSetWithdrawConfig,
   WarehouseTemporaryApproveAndCallBySig,
+  WarehouseRelayedWithdraw,
+  WarehouseRelayWithdrawResult,
   WarehouseTemporaryApproveAndCallBySigConfig,
   WarehouseTemporaryApproveAndCallConfig,
   WarehouseTransferConfig,
   WarehouseTransferFromConfig,
   WarehouseWithdrawConfig,
+  WarehouseBalancesConfig,
   SplitV2,
   CreateSplitV2Config,
+  CrossChainSplitStatus,
+  CreateSplitOnChainsResult,
   UpdateSplitV2Config,
+  SaltPattern,
+  SaltMiningConfig,
+  SaltMiningResult,
+  SaltMiner,
+  FindSplitV2SaltConfig,
   DistributeSplitConfig,
   TransferOwnershipConfig,
   SetPausedConfig,
   SplitV2ExecCallsConfig,
+  OwnerHashSigner,
+  SignTypedDataAsSplitConfig,
+  SignMessageAsSplitConfig,
+  SplitSignature,
 } from './types'
 
 export { roundToDecimals } from './utils'
+export { getAllocationsFromWeights } from './utils/allocations'
+export {
+  getSplitV2InitCodeHash,
+  mineSplitV2Salt,
+  predictSplitV2Address,
+} from './utils/saltMining'
+export { formatSplitUpdateDiff, getSplitUpdateDiff } from './utils/splitUpdate'
+export { simulateWaterfallPayouts } from './utils/waterfall'
+export { decodeContractError } from './utils/errors'
+export { getUserOperationHash } from './utils/userOperation'
+export {
+  combineSafeSignatures,
+  encodeMultiSendData,
+  getSafeTransactionHash,
+} from './utils/safe'
@@ -44,3 +44,4 @@ export const SupportedChains = SupportedChainsList
 export type SupportedChain = (typeof SupportedChains)[number]
 export type SupportedChainId = SupportedChain['id']
 export const MAX_RELATED_ACCOUNTS = 1000
+export const WAREHOUSE_WITHDRAW_ACCOUNTS_PAGE_SIZE = 1000
@@ -157,6 +157,26 @@ export const ACCOUNTS_QUERY = gql`
   ${ACCOUNT_FRAGMENT}
 `
 
+export const WAREHOUSE_WITHDRAW_ACCOUNTS_QUERY = gql`
+  query warehouseWithdrawAccounts(
+    $chainId: String!
+    $paused: Boolean!
+    $limit: Int!
+    $offset: Int!
+  ) {
+    warehouseWithdrawAccounts(
+      chainId: $chainId
+      paused: $paused
+      limit: $limit
+      offset: $offset
+    ) {
+      ...AccountFragment
+    }
+  }
+
+  ${ACCOUNT_FRAGMENT}
+`
+
 export const formatFullGqlAccount: (
   arg0: GqlAccount,
   arg1?: ISplit[],
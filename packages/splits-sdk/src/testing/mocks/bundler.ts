@@ -0,0 +1,80 @@
+import {
+  Client,
+  Hash,
+  Hex,
+  RpcLog,
+  createClient,
+  custom,
+  keccak256,
+  toHex,
+} from 'viem'
+
+export const MOCK_BUNDLE_TX_HASH: Hash =
+  '0x1111111111111111111111111111111111111111111111111111111111111111'
+
+type RpcRequest = {
+  method: string
+  params?: unknown[]
+}
+
+// Minimal in-memory stand-in for an ERC-4337 bundler. Accepts user operations,
+// reports them as pending for `pendingPolls` receipt requests and then returns
+// a receipt for MOCK_BUNDLE_TX_HASH carrying `logs` as the operation's logs.
+export class MockBundler {
+  readonly client: Client
+  readonly userOperations: Record<string, Hex | undefined>[]
+  readonly requests: RpcRequest[]
+  success: boolean
+  pendingPolls: number
+  logs: RpcLog[]
+
+  constructor({
+    success = true,
+    pendingPolls = 1,
+    logs = [],
+  }: { success?: boolean; pendingPolls?: number; logs?: RpcLog[] } = {}) {
+    this.userOperations = []
+    this.requests = []
+    this.success = success
+    this.pendingPolls = pendingPolls
+    this.logs = logs
+
+    this.client = createClient({
+      pollingInterval: 0,
+      transport: custom({
+        request: async (request: RpcRequest) => this._handle(request),
+      }),
+    })
+  }
+
+  private _handle({ method, params = [] }: RpcRequest): unknown {
+    this.requests.push({ method, params })
+
+    if (method === 'eth_estimateUserOperationGas')
+      return {
+        preVerificationGas: toHex(50_000),
+        verificationGasLimit: toHex(150_000),
+        callGasLimit: toHex(100_000),
+      }
+    if (method === 'eth_sendUserOperation') {
+      const userOperation = params[0] as Record<string, Hex | undefined>
+      this.userOperations.push(userOperation)
+      return keccak256(toHex(JSON.stringify(userOperation)))
+    }
+    if (method === 'eth_getUserOperationReceipt') {
+      if (this.pendingPolls > 0) {
+        this.pendingPolls -= 1
+        return null
+      }
+      return {
+        userOpHash: params[0],
+        success: this.success,
+        reason: this.success ? undefined : '0x',
+        logs: this.logs,
+        receipt: { transactionHash: MOCK_BUNDLE_TX_HASH },
+      }
+    }
+
+    throw new Error(`Unsupported bundler method: ${method}`)
+  }
+}
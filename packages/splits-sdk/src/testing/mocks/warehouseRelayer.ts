@@ -0,0 +1,309 @@
+import {
+  Account,
+  Address,
+  Chain,
+  Hash,
+  Hex,
+  PublicClient,
+  Transport,
+  VerifyTypedDataParameters,
+  WalletClient,
+  decodeFunctionData,
+  getAddress,
+  keccak256,
+  toHex,
+  verifyTypedData,
+  zeroHash,
+} from 'viem'
+
+import { PERCENTAGE_SCALE, getWarehouseAddress } from '../../constants'
+import { warehouseAbi } from '../../constants/abi/warehouse'
+
+type TemporaryApproveAndCallBySigArgs = [
+  Address,
+  Address,
+  boolean,
+  bigint,
+  bigint,
+  Address,
+  Hex,
+  bigint,
+  number,
+  Hex,
+]
+
+const SIG_TYPES = {
+  ERC6909XApproveAndCall: [
+    { name: 'temporary', type: 'bool' },
+    { name: 'owner', type: 'address' },
+    { name: 'spender', type: 'address' },
+    { name: 'operator', type: 'bool' },
+    { name: 'id', type: 'uint256' },
+    { name: 'amount', type: 'uint256' },
+    { name: 'target', type: 'address' },
+    { name: 'data', type: 'bytes' },
+    { name: 'nonce', type: 'uint256' },
+    { name: 'deadline', type: 'uint48' },
+  ],
+} as const
+
+// Local stand-in for the chain side of a relayed warehouse withdraw. Plays
+// the warehouse's temporaryApproveAndCallBySig: it checks the deadline, uses
+// up the nonce, checks the owner's signature and approves the spender for the
+// amount while calling the target. The withdraw helper is the only target,
+// and from its callback makes the signed withdraw within what it was approved
+// for. Withdraws pay the owner's incentive to the withdrawer and the rest to
+// the owner. Contract owners sign with the signatures listed in
+// contractSignatures, like an ERC-1271 wallet. Hand publicClient to both
+// sides and walletClient to the relayer.
+export class MockWarehouseRelayer {
+  readonly publicClient: PublicClient<Transport, Chain>
+  readonly walletClient: WalletClient
+  readonly withdrawHelper: Address
+  // Warehouse balances by owner, then by token id
+  readonly balances: { [owner: Address]: { [id: string]: bigint } }
+  // Withdraw configs by owner, incentive is out of PERCENTAGE_SCALE
+  readonly withdrawConfigs: {
+    [owner: Address]: { incentive: number; paused: boolean }
+  }
+  // Tokens paid out of the warehouse by receiver, then by token id
+  readonly payouts: { [receiver: Address]: { [id: string]: bigint } }
+  readonly gasUsed: bigint
+  readonly effectiveGasPrice: bigint
+  private readonly _chain: Chain
+  private readonly _contractSignatures: { [owner: Address]: Hex[] }
+  private readonly _usedNonces: Set<string>
+  private readonly _txHashes: Set<Hash>
+
+  constructor({
+    chain,
+    relayerAccount,
+    withdrawHelper = '0x6000000000000000000000000000000000000006',
+    balances = {},
+    withdrawConfigs = {},
+    contractSignatures = {},
+    gasUsed = BigInt(90_000),
+    effectiveGasPrice = BigInt(1_000_000_000),
+  }: {
+    chain: Chain
+    relayerAccount: Account
+    withdrawHelper?: Address
+    balances?: { [owner: Address]: { [id: string]: bigint } }
+    withdrawConfigs?: {
+      [owner: Address]: { incentive: number; paused: boolean }
+    }
+    contractSignatures?: { [owner: Address]: Hex[] }
+    gasUsed?: bigint
+    effectiveGasPrice?: bigint
+  }) {
+    this.withdrawHelper = withdrawHelper
+    this.balances = balances
+    this.withdrawConfigs = withdrawConfigs
+    this.payouts = {}
+    this.gasUsed = gasUsed
+    this.effectiveGasPrice = effectiveGasPrice
+    this._chain = chain
+    this._contractSignatures = contractSignatures
+    this._usedNonces = new Set()
+    this._txHashes = new Set()
+
+    this.publicClient = {
+      chain,
+      readContract: jest.fn(this._read.bind(this)),
+      verifyTypedData: jest.fn(this._verifyTypedData.bind(this)),
+      simulateContract: jest.fn(async (request: { args: unknown[] }) => {
+        await this._temporaryApproveAndCallBySig(
+          request.args as TemporaryApproveAndCallBySigArgs,
+          false,
+        )
+        return { request }
+      }),
+      waitForTransactionReceipt: jest.fn(async ({ hash }: { hash: Hash }) => {
+        if (!this._txHashes.has(hash)) throw new Error(`Unknown tx ${hash}`)
+        return {
+          status: 'success',
+          transactionHash: hash,
+          blockNumber: BigInt(1),
+          gasUsed: this.gasUsed,
+          effectiveGasPrice: this.effectiveGasPrice,
+          logs: [],
+        }
+      }),
+    } as unknown as PublicClient<Transport, Chain>
+
+    this.walletClient = {
+      account: relayerAccount,
+      chain,
+      writeContract: jest.fn(async (request: { args: unknown[] }) => {
+        await this._temporaryApproveAndCallBySig(
+          request.args as TemporaryApproveAndCallBySigArgs,
+          true,
+        )
+        const txHash = keccak256(toHex(this._txHashes.size + 1))
+        this._txHashes.add(txHash)
+        return txHash
+      }),
+    } as unknown as WalletClient
+  }
+
+  // What the owner's invalidateNonce transaction does
+  invalidateNonce(owner: Address, nonce: bigint) {
+    this._usedNonces.add(`${getAddress(owner)}:${nonce}`)
+  }
+
+  private get _domain() {
+    return {
+      name: 'Warehouse',
+      version: '1',
+      chainId: this._chain.id,
+      verifyingContract: getWarehouseAddress(this._chain.id),
+    }
+  }
+
+  private _withdrawConfig(owner: Address) {
+    return (
+      this.withdrawConfigs[getAddress(owner)] ?? { incentive: 0, paused: false }
+    )
+  }
+
+  private async _read({
+    functionName,
+    args,
+  }: {
+    functionName: string
+    args: [Address, bigint]
+  }) {
+    const { name, version, chainId, verifyingContract } = this._domain
+    if (functionName === 'eip712Domain')
+      return [
+        '0x0f',
+        name,
+        version,
+        BigInt(chainId),
+        verifyingContract,
+        zeroHash,
+        [],
+      ]
+    if (functionName === 'isValidNonce')
+      return !this._usedNonces.has(`${getAddress(args[0])}:${args[1]}`)
+    if (functionName === 'withdrawConfig') {
+      const { incentive, paused } = this._withdrawConfig(args[0])
+      return [incentive, paused]
+    }
+    throw new Error(`Unexpected read ${functionName}`)
+  }
+
+  private async _verifyTypedData(parameters: VerifyTypedDataParameters) {
+    const contractSignatures =
+      this._contractSignatures[getAddress(parameters.address)]
+    if (contractSignatures)
+      return contractSignatures.includes(parameters.signature as Hex)
+    return verifyTypedData(parameters)
+  }
+
+  // Every check runs before anything changes, so a revert leaves no trace
+  private async _temporaryApproveAndCallBySig(
+    [
+      owner,
+      spender,
+      operator,
+      id,
+      amount,
+      target,
+      data,
+      nonce,
+      deadline,
+      signature,
+    ]: TemporaryApproveAndCallBySigArgs,
+    execute: boolean,
+  ) {
+    if (deadline < Math.floor(Date.now() / 1000))
+      throw new Error('execution reverted: ExpiredSignature()')
+    const nonceKey = `${getAddress(owner)}:${nonce}`
+    if (this._usedNonces.has(nonceKey))
+      throw new Error('execution reverted: InvalidNonce()')
+    const isValidSigner = await this._verifyTypedData({
+      address: owner,
+      domain: this._domain,
+      types: SIG_TYPES,
+      primaryType: 'ERC6909XApproveAndCall',
+      message: {
+        temporary: true,
+        owner,
+        spender,
+        operator,
+        id,
+        amount,
+        target,
+        data,
+        nonce,
+        deadline,
+      },
+      signature,
+    })
+    if (!isValidSigner) throw new Error('execution reverted: InvalidSigner()')
+    // onTemporaryApprove on anything but the withdraw helper doesn't ack
+    if (getAddress(target) !== getAddress(this.withdrawHelper))
+      throw new Error('execution reverted: InvalidAck()')
+
+    // The withdraw helper can only spend what it was approved for
+    const { functionName, args } = decodeFunctionData({
+      abi: warehouseAbi,
+      data,
+    })
+    if (functionName !== 'withdraw' || args.length !== 4)
+      throw new Error('execution reverted: InvalidAck()')
+    const [withdrawOwner, tokens, amounts, withdrawer] = args
+    const spent = amounts.reduce((total, value) => total + value, BigInt(0))
+    if (
+      getAddress(spender) !== getAddress(this.withdrawHelper) ||
+      getAddress(withdrawOwner) !== getAddress(owner) ||
+      (!operator &&
+        (tokens.some((token) => BigInt(token) !== id) || spent > amount))
+    )
+      throw new Error('execution reverted: InsufficientPermission()')
+
+    this._withdraw([owner, tokens, amounts, withdrawer], false)
+    if (!execute) return
+
+    this._usedNonces.add(nonceKey)
+    this._withdraw([owner, tokens, amounts, withdrawer], true)
+  }
+
+  private _withdraw(
+    [owner, tokens, amounts, withdrawer]: [
+      Address,
+      readonly Address[],
+      readonly bigint[],
+      Address,
+    ],
+    execute: boolean,
+  ) {
+    const { incentive, paused } = this._withdrawConfig(owner)
+    if (paused) throw new Error('execution reverted: WithdrawalPaused()')
+
+    const ownerBalances = this.balances[getAddress(owner)] ?? {}
+    tokens.map((token, index) => {
+      const id = BigInt(token).toString()
+      const balance = ownerBalances[id] ?? BigInt(0)
+      if (balance < amounts[index])
+        throw new Error('execution reverted: InvalidAmount()')
+    })
+    if (!execute) return
+
+    tokens.map((token, index) => {
+      const id = BigInt(token).toString()
+      const reward = (amounts[index] * BigInt(incentive)) / PERCENTAGE_SCALE
+      ownerBalances[id] = ownerBalances[id] - amounts[index]
+      this._pay(getAddress(withdrawer), id, reward)
+      this._pay(getAddress(owner), id, amounts[index] - reward)
+    })
+  }
+
+  private _pay(receiver: Address, id: string, amount: bigint) {
+    this.payouts[receiver] = {
+      ...this.payouts[receiver],
+      [id]: (this.payouts[receiver]?.[id] ?? BigInt(0)) + amount,
+    }
+  }
+}
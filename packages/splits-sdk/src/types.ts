@@ -1,10 +1,14 @@
 import type {
   AccessList,
   Address,
+  Client,
   Hash,
   Hex,
+  Log,
   PublicClient,
+  SignableMessage,
   Transport,
+  TypedDataDefinition,
   WalletClient,
 } from 'viem'
 import { TransactionType } from './constants'
@@ -20,15 +24,67 @@ export type TransactionOverrides = {
   value?: bigint
 }
 
+// Transaction tracking
+export type TransactionStatusUpdate =
+  | { status: 'submitted'; txHash: Hash }
+  | {
+      status: 'replaced'
+      txHash: Hash
+      replacedTxHash: Hash
+      reason: 'cancelled' | 'replaced' | 'repriced'
+    }
+  | { status: 'mined'; txHash: Hash; blockNumber: bigint }
+  | {
+      // Reported for every confirmation until requiredConfirmations
+      status: 'confirmed'
+      txHash: Hash
+      blockNumber: bigint
+      confirmations: number
+      requiredConfirmations: number
+    }
+  | { status: 'reverted'; txHash: Hash; blockNumber: bigint; reason?: Error }
+  | { status: 'timedOut'; txHash: Hash }
+
+export type TransactionTrackingConfig = {
+  // Blocks to wait for once the transaction is mined, defaults to 1
+  confirmations?: number
+  // Milliseconds to wait for the transaction before giving up
+  timeout?: number
+  onStatus?: (update: TransactionStatusUpdate) => void
+}
+
 interface TransactionOverridesDict {
   transactionOverrides?: TransactionOverrides
+  tracking?: TransactionTrackingConfig
+  // Picks the wallet client the write is sent from when the client was set
+  // up with walletClients
+  chainId?: number
 }
 
 // Multicall
+export type MulticallCallData = CallData & {
+  // Lets this call revert without reverting the rest of the multicall
+  allowFailure?: boolean
+}
+
 export type MulticallConfig = {
-  calls: CallData[]
+  calls: MulticallCallData[]
 } & TransactionOverridesDict
 
+// Per call result from simulating a multicall right before it is submitted
+export type MulticallCallResult = {
+  success: boolean
+  returnData: Hex
+}
+
+// Batch (EIP-5792)
+export type BatchConfig = {
+  calls: CallData[]
+  chainId?: number
+  atomicRequired?: boolean
+  capabilities?: Record<string, unknown>
+}
+
 export type ApiConfig = {
   apiKey: string
   serverURL?: string
@@ -52,9 +108,121 @@ export type DataClientConfig = {
   // ensPublicClient can be used to fetch ens names when publicClient is not on mainnet (reverseRecords
   // only works on mainnet).
   ensPublicClient?: SplitsPublicClient
+  middleware?: SplitsMiddleware[]
+  deployments?: SplitsDeployments
 }
 
+// ERC-4337
+export type UserOperation = {
+  sender: Address
+  nonce: bigint
+  factory?: Address
+  factoryData?: Hex
+  callData: Hex
+  callGasLimit: bigint
+  verificationGasLimit: bigint
+  preVerificationGas: bigint
+  maxFeePerGas: bigint
+  maxPriorityFeePerGas: bigint
+  paymaster?: Address
+  paymasterVerificationGasLimit?: bigint
+  paymasterPostOpGasLimit?: bigint
+  paymasterData?: Hex
+  signature: Hex
+}
+
+export type UserOperationPaymasterData = {
+  paymaster: Address
+  paymasterData: Hex
+  paymasterVerificationGasLimit?: bigint
+  paymasterPostOpGasLimit?: bigint
+}
+
+export type UserOperationPaymaster = {
+  // Used before gas estimation so the bundler can simulate with paymaster
+  // validation. Falls back to getPaymasterData when not provided.
+  getPaymasterStubData?: (args: {
+    userOperation: UserOperation
+    entryPointAddress: Address
+    chainId: number
+  }) => Promise<UserOperationPaymasterData>
+  getPaymasterData: (args: {
+    userOperation: UserOperation
+    entryPointAddress: Address
+    chainId: number
+  }) => Promise<UserOperationPaymasterData>
+}
+
+export type SmartAccount = {
+  address: Address
+  // Defaults to the v0.7 entry point
+  entryPointAddress?: Address
+  encodeCalls: (calls: CallData[]) => Promise<Hex>
+  getStubSignature: () => Promise<Hex>
+  signUserOperation: (args: {
+    userOperation: UserOperation
+    userOperationHash: Hex
+    chainId: number
+  }) => Promise<Hex>
+  // Only called when the account is not deployed yet
+  getFactoryArgs?: () => Promise<{ factory: Address; factoryData: Hex }>
+}
+
+export type UserOperationConfig = {
+  bundlerClient: Client
+  smartAccount: SmartAccount
+  paymaster?: UserOperationPaymaster
+  receiptPollingInterval?: number
+  receiptTimeout?: number
+}
+
+export type SendUserOperationConfig = {
+  calls: CallData[]
+  chainId?: number
+} & TransactionOverridesDict
+
 // Splits
+// Middleware
+type MaybePromise<T> = T | Promise<T>
+
+export type ReadMiddlewareContext = {
+  contractAddress: Address
+  functionName: string
+  args: readonly unknown[]
+  chainId: number | undefined
+}
+
+export type ExecuteMiddlewareContext = ReadMiddlewareContext & {
+  transactionType: TransactionType
+  transactionOverrides: TransactionOverrides
+  value?: bigint
+}
+
+// Hooks run in the order the middleware is passed in. Returning false from a
+// before hook vetoes the call, returning transaction overrides from
+// beforeExecute replaces the overrides used for the call.
+export type SplitsMiddleware = {
+  name?: string
+  beforeExecute?: (
+    context: ExecuteMiddlewareContext,
+  ) => MaybePromise<
+    { transactionOverrides?: TransactionOverrides } | false | void
+  >
+  afterExecute?: (
+    context: ExecuteMiddlewareContext,
+    result: TransactionFormat,
+  ) => MaybePromise<void>
+  onError?: (
+    context: ExecuteMiddlewareContext | ReadMiddlewareContext,
+    error: unknown,
+  ) => MaybePromise<void>
+  beforeRead?: (context: ReadMiddlewareContext) => MaybePromise<false | void>
+  afterRead?: (
+    context: ReadMiddlewareContext,
+    result: unknown,
+  ) => MaybePromise<void>
+}
+
 export type SplitsClientConfig = {
   chainId?: number
   publicClient?: SplitsPublicClient
@@ -62,15 +230,63 @@ export type SplitsClientConfig = {
     [chainId: number]: SplitsPublicClient
   }
   walletClient?: WalletClient
+  // Writes are routed to the wallet client for the chain they are on
+  walletClients?: {
+    [chainId: number]: WalletClient
+  }
+  // Called when a write targets a chain that none of the wallet clients are
+  // on, e.g. to ask an injected wallet to switch. Returns the wallet client
+  // to use from then on.
+  switchChain?: SwitchChainFn
   apiConfig?: ApiConfig
   includeEnsNames?: boolean
   // ensPublicClient can be used to fetch ens names when publicClient is not on mainnet (reverseRecords
   // only works on mainnet).
   ensPublicClient?: SplitsPublicClient
+  // When set, writes are submitted as ERC-4337 user operations from the smart
+  // account instead of transactions from the wallet client account.
+  userOperation?: UserOperationConfig
+  // Contract deployments to register for chains the sdk doesn't know about
+  // (forks, devnets) or to override the canonical addresses on a chain.
+  deployments?: SplitsDeployments
+  middleware?: SplitsMiddleware[]
+}
+
+export type SwitchChainFn = (chainId: number) => Promise<WalletClient>
+
+export type SplitsDeployment = {
+  splitMain?: Address
+  vestingFactory?: Address
+  waterfallFactory?: Address
+  liquidSplitFactory?: Address
+  recoup?: Address
+  passThroughWalletFactory?: Address
+  swapperFactory?: Address
+  uniV3Swap?: Address
+  diversifierFactory?: Address
+  warehouse?: Address
+  pullSplitFactory?: Address
+  pushSplitFactory?: Address
+  pullSplitV2o1Factory?: Address
+  pushSplitV2o1Factory?: Address
+  startBlocks?: {
+    splitV1?: number
+    splitV2?: number
+  }
+  nativeCurrency?: {
+    symbol: string
+  }
+}
+
+export type SplitsDeployments = {
+  [chainId: number]: SplitsDeployment
 }
 
 export type BaseClientConfig = SplitsClientConfig & {
   supportedChainIds: number[]
+  // A chain from the deployments is only supported when its deployment has
+  // one of these contracts. Left out, every deployment's chain is supported.
+  deploymentContracts?: (keyof SplitsDeployment)[]
 }
 
 export type TransactionConfig = {
@@ -82,6 +298,33 @@ export type SplitRecipient = {
   percentAllocation: number
 }
 
+// Integer shares, bigint weights or exact fractions. Only the ratios between
+// the recipients' weights matter.
+export type AllocationWeight =
+  | number
+  | bigint
+  | { numerator: number | bigint; denominator: number | bigint }
+
+export type AllocationInput = {
+  address: string
+  weight: AllocationWeight
+}
+
+export type AllocationRecipient = {
+  address: Address
+  allocation: bigint
+  // allocation as a percent of totalAllocation
+  percentAllocation: number
+  // allocation minus the exact share of the total, in allocation units
+  roundingError: number
+}
+
+export type AllocationResult = {
+  // Sorted by address, with duplicates merged
+  recipients: AllocationRecipient[]
+  totalAllocation: bigint
+}
+
 export type ReadContractArgs = {
   chainId?: number
 }
@@ -93,13 +336,42 @@ export type CreateSplitConfig = {
   chainId?: number
 } & TransactionOverridesDict
 
+export type EnsureSplitResult = {
+  address: Address
+  // False when the split was already deployed, including by a concurrent
+  // create that landed first
+  created: boolean
+  txHash?: Hash
+}
+
 export type UpdateSplitConfig = {
   splitAddress: string
   recipients: SplitRecipient[]
   distributorFeePercent: number
   chainId?: number
+  // Throws instead of submitting an update that changes nothing
+  rejectNoopUpdate?: boolean
 } & TransactionOverridesDict
 
+// Percent allocations are in the same units as SplitRecipient inputs
+export type SplitUpdateDiff = {
+  splitAddress: Address
+  chainId: number
+  addedRecipients: { address: Address; percentAllocation: number }[]
+  removedRecipients: { address: Address; percentAllocation: number }[]
+  changedRecipients: {
+    address: Address
+    oldPercentAllocation: number
+    newPercentAllocation: number
+  }[]
+  distributorFeePercent: { old: number; new: number }
+  totalAllocationPercent: { old: number; new: number }
+  // Updates don't change this, it's reported so reviewers know the split
+  // won't distribute until it's unpaused
+  distributionsPaused: boolean
+  hasChanges: boolean
+}
+
 export type DistributeTokenConfig = {
   splitAddress: string
   token: string
@@ -153,6 +425,7 @@ export type BatchDistributeAndWithdrawConfig = {
   recipientAddresses: string[]
   distributorAddress?: string
   chainId?: number
+  tracking?: TransactionTrackingConfig
 }
 
 export type BatchDistributeAndWithdrawForAllConfig = {
@@ -160,6 +433,7 @@ export type BatchDistributeAndWithdrawForAllConfig = {
   tokens: string[]
   distributorAddress?: string
   chainId?: number
+  tracking?: TransactionTrackingConfig
 }
 
 export type GetSplitBalanceConfig = {
@@ -197,6 +471,31 @@ export type WarehouseInvalidateNonceConfig = {
   nonce: bigint
 } & TransactionOverridesDict
 
+export type WarehouseReserveNonceConfig = {
+  ownerAddress: Address
+  // Scanning starts from the bitmap word holding this nonce. Defaults to 0
+  startNonce?: bigint
+} & ReadContractArgs
+
+export type WarehouseReleaseNonceConfig = {
+  ownerAddress: Address
+  nonce: bigint
+} & ReadContractArgs
+
+export type WarehouseInvalidateNonceRangeConfig = {
+  // Both ends are included
+  fromNonce: bigint
+  toNonce: bigint
+} & Pick<BatchConfig, 'chainId' | 'capabilities'>
+
+export type WarehouseInvalidateNonceRangeResult = {
+  invalidatedNonces: bigint[]
+  events: Log[]
+  // Set when a batch failed, along with the nonces that weren't invalidated
+  error?: Error
+  failedNonces: bigint[]
+}
+
 export type WarehouseTemporaryApproveAndCallConfig = {
   spenderAddress: Address
   operator: boolean
@@ -239,6 +538,25 @@ export type WarehouseTemporaryApproveAndCallBySig = {
   deadline: number
 }
 
+export type WarehouseRelayedWithdraw = {
+  tokenAddress: Address
+  amount: bigint
+  // Gets the temporary approval and makes the signed withdraw from its
+  // onTemporaryApprove callback
+  withdrawHelperAddress: Address
+  // Defaults to a random nonce
+  nonce?: bigint
+  deadline: number
+  chainId?: number
+}
+
+export type WarehouseRelayWithdrawResult = {
+  txHash: Hash
+  gasUsed: bigint
+  effectiveGasPrice: bigint
+  gasCost: bigint
+}
+
 export type WarehouseApproveBySigConfig = {
   ownerAddress: Address
   spenderAddress: Address
@@ -285,6 +603,13 @@ export type WarehouseSetWithdrawConfig = {
   paused: boolean
 } & TransactionOverridesDict
 
+export type WarehouseBalancesConfig = {
+  ownerAddresses: Address[]
+  // Token addresses or their ERC6909 ids in the warehouse
+  tokens: (Address | bigint)[]
+  filterZeroBalances?: boolean
+} & ReadContractArgs
+
 export enum SplitV2Type {
   Push = 'push',
   Pull = 'pull',
@@ -315,11 +640,63 @@ export type CreateSplitV2Config = {
   chainId?: number
 } & TransactionOverridesDict
 
+export type CrossChainSplitStatus =
+  | { chainId: number; status: 'created'; txHash: Hash }
+  // The split was already deployed on the chain
+  | { chainId: number; status: 'skipped' }
+  | { chainId: number; status: 'failed'; error: Error }
+
+export type CreateSplitOnChainsResult = {
+  splitAddress: Address
+  chains: CrossChainSplitStatus[]
+}
+
+// Salt mining
+// Hex characters the address should start and/or end with (without the 0x)
+export type SaltPattern = {
+  prefix?: string
+  suffix?: string
+  // Matches against the checksummed address
+  caseSensitive?: boolean
+}
+
+export type SaltMiningConfig = {
+  // The factory hashes abi.encode(splitParams, owner) followed by the salt
+  saltPreimagePrefix: Hex
+  factoryAddress: Address
+  initCodeHash: Hex
+  pattern: SaltPattern
+  // Salts are tried counting up from here
+  startSalt: Hex
+  maxAttempts?: number
+  signal?: AbortSignal
+}
+
+export type SaltMiningResult = {
+  salt: Hex
+  splitAddress: Address
+  attempts: number
+}
+
+export type SaltMiner = (config: SaltMiningConfig) => Promise<SaltMiningResult>
+
+export type FindSplitV2SaltConfig = Omit<CreateSplitV2Config, 'salt'> & {
+  pattern: SaltPattern
+  startSalt?: Hex
+  maxAttempts?: number
+  signal?: AbortSignal
+  // Defaults to searching on the current thread, pass
+  // mineSplitV2SaltWithWorkers to search across worker threads in node
+  miner?: SaltMiner
+}
+
 export type UpdateSplitV2Config = {
   splitAddress: Address
   recipients: SplitRecipient[]
   distributorFeePercent: number
   totalAllocationPercent?: number
+  // Throws instead of submitting an update that changes nothing
+  rejectNoopUpdate?: boolean
 } & TransactionOverridesDict
 
 export type DistributeSplitConfig = {
@@ -352,6 +729,293 @@ export type SplitV2ExecCallsConfig = {
   }[]
 } & TransactionOverridesDict
 
+// Signs the replay safe hash for a split owner that is a contract other than
+// a V2 split (a Safe, for example). The result is passed to the owner's
+// isValidSignature.
+export type OwnerHashSigner = (args: {
+  ownerAddress: Address
+  hash: Hex
+  chainId: number
+}) => Promise<Hex>
+
+type SignAsSplitConfig = {
+  splitAddress: Address
+  chainId?: number
+  signOwnerHash?: OwnerHashSigner
+}
+
+export type SignTypedDataAsSplitConfig = SignAsSplitConfig & {
+  typedData: TypedDataDefinition
+}
+
+export type SignMessageAsSplitConfig = SignAsSplitConfig & {
+  message: SignableMessage
+}
+
+export type SplitSignature = {
+  signature: Hex
+  // The hash of the payload, which is what isValidSignature is called with
+  hash: Hex
+  // The hash the split owner signed
+  replaySafeHash: Hex
+}
+
+// Split V1 to V2 migration
+export type SplitV1MigrationConfig = {
+  splitAddress: string
+  chainId?: number
+  splitType?: SplitV2Type
+  // Defaults to the V1 split controller
+  ownerAddress?: Address
+  creatorAddress?: Address
+  // Defaults to one derived from the V1 split address, so planning the same
+  // migration again finds the V2 split that was already created
+  salt?: Hex
+  // Tokens to distribute out of the V1 split once it routes to the V2 split.
+  // The V2 split's SplitMain balance for them is withdrawn afterwards.
+  distributeTokens?: string[]
+  // SplitMain requires at least two recipients, so the V1 split keeps the
+  // smallest allocation it allows for this address. Defaults to the
+  // controller.
+  dustRecipient?: Address
+}
+
+export type SplitV1MigrationStep =
+  | { type: 'createSplitV2'; config: CreateSplitV2Config }
+  | { type: 'updateSplitV1'; config: UpdateSplitConfig }
+  | { type: 'distributeSplitV1'; config: DistributeTokenConfig }
+  | { type: 'withdrawSplitV1'; config: WithdrawFundsConfig }
+
+export type SplitV1MigrationPlan = {
+  splitAddress: Address
+  chainId: number
+  splitV2Address: Address
+  createSplitV2Config: CreateSplitV2Config
+  // False when the V1 split can't be migrated, with the reason why
+  migratable: boolean
+  reason?: string
+  steps: SplitV1MigrationStep[]
+}
+
+export type ExecuteSplitV1MigrationConfig = {
+  plan: SplitV1MigrationPlan
+  onStep?: (step: SplitV1MigrationStep, txHash: Hash) => void
+}
+
+// Recursive distribution
+export type PlanDistributionConfig = {
+  // Contract the funds start at, everything it pays out to is walked
+  rootAddress: string
+  // Native token (zero address) and erc20s to distribute
+  tokens: string[]
+  chainId?: number
+  distributorAddress?: Address
+}
+
+export type DistributionNodeType =
+  | 'SplitV1'
+  | 'SplitV2'
+  | 'WaterfallModule'
+  // Swappers and liquid splits need their own flows, so the walk stops there
+  | 'Swapper'
+  | 'LiquidSplit'
+  | 'Account'
+
+export type DistributionNode = {
+  address: Address
+  type: DistributionNodeType
+  children: Address[]
+}
+
+export type DistributionStep =
+  | { type: 'distributeSplitV1'; config: DistributeTokenConfig }
+  | { type: 'distributeSplitV2'; config: DistributeSplitConfig }
+  | { type: 'waterfallFunds'; config: WaterfallFundsConfig }
+  // Moves a contract's SplitMain balance into the contract
+  | { type: 'withdrawSplitV1'; config: WithdrawFundsConfig }
+  // Moves a contract's warehouse balance into the contract
+  | { type: 'withdrawWarehouse'; config: WarehouseWithdrawConfig }
+
+export type DistributionPlan = {
+  rootAddress: Address
+  chainId: number
+  nodes: {
+    [address: Address]: DistributionNode
+  }
+  // Each cycle is the path back to where it started. The edge closing a cycle
+  // is left out when ordering the steps.
+  cycles: Address[][]
+  steps: DistributionStep[]
+}
+
+export type ExecuteDistributionConfig = {
+  plan: DistributionPlan
+  // Submits the steps in multicalls instead of one transaction each.
+  // Warehouse withdraws are still sent on their own.
+  useMulticall?: boolean
+}
+
+// Batch distribution
+export type BatchDistributionPair = {
+  // Split V1 or V2
+  splitAddress: string
+  token: string
+}
+
+export type PlanBatchDistributionConfig = {
+  pairs: BatchDistributionPair[]
+  chainId?: number
+  distributorAddress?: Address
+  // Gas ceiling for each multicall, defaults to 15 million
+  gasLimit?: bigint
+}
+
+export type DistributionBatch = {
+  steps: DistributionStep[]
+  gasEstimate: bigint
+}
+
+export type BatchDistributionPlan = {
+  chainId: number
+  gasLimit: bigint
+  batches: DistributionBatch[]
+}
+
+export type BatchDistributionProgress = {
+  totalBatches: number
+  completedBatches: number
+  txHashes: Hash[]
+}
+
+export type ExecuteBatchDistributionConfig = {
+  plan: BatchDistributionPlan
+  // Batches before this one are skipped, e.g. to pick up from the
+  // completedBatches of the progress on a BatchDistributionFailedError
+  fromBatch?: number
+  onProgress?: (progress: BatchDistributionProgress) => void
+}
+
+// Distribution profitability
+// Values an amount of a token in the chain's native currency, e.g. from a
+// price feed or a DEX quote
+export type TokenPriceSource = (args: {
+  chainId: number
+  token: Address
+  amount: bigint
+}) => Promise<bigint>
+
+export type EstimateDistributionProfitConfig = {
+  // Split V1 or V2
+  splitAddress: string
+  token: string
+  chainId?: number
+  distributorAddress?: Address
+  // Needed for erc20s, native token rewards are already in the native currency
+  priceSource?: TokenPriceSource
+}
+
+export type DistributionProfitEstimate = {
+  splitAddress: Address
+  token: Address
+  balance: bigint
+  distributorFeePercent: number
+  // The distributor fee, in the token
+  reward: bigint
+  // The distributor fee, in the native currency
+  nativeReward: bigint
+  gasEstimate: bigint
+  gasPrice: bigint
+  // The L1 data fee on OP stack chains, zero elsewhere
+  l1Fee: bigint
+  // In the native currency, including the L1 data fee
+  gasCost: bigint
+  netProfit: bigint
+}
+
+// Warehouse keeper
+export type WarehouseAccountWithdrawConfig = {
+  // Raw incentive, out of PERCENTAGE_SCALE
+  withdrawConfig?: { incentive: number; paused: boolean }
+  // Tokens the account holds in the warehouse
+  tokens: Address[]
+}
+
+export type WarehouseKeeperConfig = {
+  // Owners to check, defaults to the owners the subgraph has with an unpaused
+  // withdraw config, which needs an apiConfig. Withdraw configs are always
+  // confirmed on chain.
+  ownerAddresses?: string[]
+  // Defaults to the tokens the subgraph has in each owner's warehouse balance
+  tokens?: string[]
+  chainId?: number
+  // Gets the withdraw incentives, defaults to the wallet account
+  withdrawerAddress?: Address
+  // Values erc20 incentives in the native currency. Without one only native
+  // token incentives count towards the profit.
+  priceSource?: TokenPriceSource
+  // Net profit a withdraw needs to be submitted, defaults to 0
+  minNetProfit?: bigint
+  // Gas ceiling for each multicall, defaults to 15 million
+  gasLimit?: bigint
+  // Reports the opportunities without submitting anything
+  dryRun?: boolean
+}
+
+export type WarehouseWithdrawTokenReward = {
+  tokenAddress: Address
+  balance: bigint
+  // One unit is left in the warehouse
+  amount: bigint
+  // The withdraw incentive, in the token
+  reward: bigint
+  // The withdraw incentive, in the native currency
+  nativeReward: bigint
+}
+
+export type WarehouseWithdrawOpportunity = {
+  ownerAddress: Address
+  incentivePercent: number
+  tokens: WarehouseWithdrawTokenReward[]
+  nativeReward: bigint
+  gasEstimate: bigint
+  // The L1 data fee on OP stack chains, zero elsewhere
+  l1Fee: bigint
+  // In the native currency, including the L1 data fee
+  gasCost: bigint
+  netProfit: bigint
+}
+
+export type WarehouseWithdrawBatch = {
+  opportunities: WarehouseWithdrawOpportunity[]
+  gasEstimate: bigint
+}
+
+export type WarehouseKeeperReport = {
+  chainId: number
+  withdrawerAddress: Address
+  // The base fee plus the priority fee on eip-1559 chains
+  gasPrice: bigint
+  dryRun: boolean
+  // Profitable withdraws, in the multicalls they are submitted in
+  batches: WarehouseWithdrawBatch[]
+  unprofitable: WarehouseWithdrawOpportunity[]
+  skipped: (
+    | {
+        ownerAddress: Address
+        reason: 'paused' | 'noIncentive' | 'noReward'
+      }
+    // A read or gas estimate for the owner failed
+    | { ownerAddress: Address; reason: 'failed'; error: Error }
+  )[]
+  totalNetProfit: bigint
+  // Multicalls that went through, empty on dry runs
+  txHashes: Hash[]
+  // Set when a multicall failed, the ones after it aren't sent
+  error?: Error
+  // Set when the failed multicall was sent but reverted
+  failedTxHash?: Hash
+}
+
 // Waterfall
 export type WaterfallTrancheInput = {
   recipient: string
@@ -382,6 +1046,50 @@ export type WithdrawWaterfallPullFundsConfig = {
   address: string
 } & TransactionOverridesDict
 
+// Waterfall payout simulation
+export type WaterfallTranches = {
+  // The last recipient gets everything past the last threshold
+  recipients: Address[]
+  // Cumulative, one less than the recipients
+  thresholds: bigint[]
+}
+
+export type SimulateWaterfallPayoutsConfig = {
+  // From DataClient.getWaterfallMetadata, or WaterfallClient.getTranches.
+  // Metadata amounts are floats, so only the raw reads are exact.
+  waterfall: WaterfallModule | WaterfallTranches
+  // What the waterfall has paid out so far, see getDistributedFunds
+  distributedFunds: bigint
+  // Distributed one after another, in order
+  incomingAmounts: bigint[]
+}
+
+export type WaterfallTranchePayout = {
+  recipient: Address
+  // Undefined for the residual tranche
+  threshold?: bigint
+  payout: bigint
+}
+
+export type WaterfallTrancheCrossing = {
+  trancheIndex: number
+  recipient: Address
+  threshold: bigint
+  // Index of the incoming amount that filled the tranche
+  incomingIndex: number
+}
+
+export type WaterfallPayoutSimulation = {
+  // Total paid out once every incoming amount is distributed
+  distributedFunds: bigint
+  tranches: WaterfallTranchePayout[]
+  // Summed over every tranche a recipient has
+  payouts: { [recipient: Address]: bigint }
+  crossings: WaterfallTrancheCrossing[]
+  residualRecipient: Address
+  residualAmount: bigint
+}
+
 // Vesting
 export type CreateVestingConfig = {
   beneficiary: string
@@ -422,6 +1130,7 @@ export type TransferLiquidSplitOwnershipConfig = {
 export type CallData = {
   address: string
   data: Hex
+  value?: bigint
 }
 
 export type RecoupTrancheInput = {
@@ -437,6 +1146,54 @@ export type CreateRecoupConfig = {
   chainId?: number
 } & TransactionOverridesDict
 
+// Safe
+export type SafeTransaction = {
+  to: Address
+  value: bigint
+  data: Hex
+  // 0 for call, 1 for delegatecall (used for MultiSend batches)
+  operation: number
+  safeTxGas: bigint
+  baseGas: bigint
+  gasPrice: bigint
+  gasToken: Address
+  refundReceiver: Address
+  nonce: bigint
+}
+
+export type SafeSignature = {
+  signer: Address
+  data: Hex
+}
+
+export type CreateSafeTransactionConfig = {
+  safeAddress: Address
+  calls: CallData[]
+  chainId?: number
+  nonce?: bigint
+  multiSendAddress?: Address
+}
+
+export type SignSafeTransactionConfig = {
+  safeAddress: Address
+  safeTransaction: SafeTransaction
+  chainId?: number
+}
+
+export type ExecuteSafeTransactionConfig = {
+  safeAddress: Address
+  safeTransaction: SafeTransaction
+  signatures: SafeSignature[]
+} & TransactionOverridesDict
+
+export type SafeTransactionBuilderConfig = {
+  safeAddress: Address
+  calls: CallData[]
+  chainId?: number
+  name?: string
+  description?: string
+}
+
 // Pass through wallet
 export type CreatePassThroughWalletConfig = {
   owner: string
@@ -698,9 +1455,63 @@ export type LiquidSplit = {
 
 export type SplitsContract = Split | WaterfallModule | LiquidSplit | Swapper
 
+export type BatchCallsReceipt = {
+  transactionHash: Hash
+  status: 'success' | 'reverted'
+  logs: Log[]
+}
+
+export type BatchCallsStatus = {
+  status: 'pending' | 'success' | 'failure'
+  receipts: BatchCallsReceipt[]
+}
+
+export type SimulatedEvent = {
+  address: Address
+  eventName: string
+  args: unknown
+  log: Log
+}
+
+// Net change for an account, summed over every transfer in the simulation.
+// Warehouse balances are ERC6909 ids, reported against the underlying token.
+export type SimulatedBalanceChange = {
+  token: Address
+  account: Address
+  amount: bigint
+  warehouse: boolean
+}
+
+export type SimulationResult = {
+  events: SimulatedEvent[]
+  logs: Log[]
+  balanceChanges: SimulatedBalanceChange[]
+  gasUsed: bigint
+}
+
+export type SafeTransactionBuilderJson = {
+  version: string
+  chainId: string
+  createdAt: number
+  meta: {
+    name: string
+    description: string
+    txBuilderVersion: string
+    createdFromSafeAddress: Address
+    createdFromOwnerAddress: string
+  }
+  transactions: {
+    to: Address
+    value: string
+    data: Hex
+    contractMethod: null
+    contractInputsValues: null
+  }[]
+}
+
 // INTERNAL
 
-export type TransactionFormat = Hash | bigint | CallData
+export type TransactionFormat = Hash | bigint | CallData | SimulationResult
 
 export type ContractRecoupTranche = [string[], bigint[], string, bigint]
 
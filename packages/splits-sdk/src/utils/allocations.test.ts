@@ -0,0 +1,139 @@
+import {
+  getAllocationsFromPercents,
+  getAllocationsFromWeights,
+} from './allocations'
+import { PERCENTAGE_SCALE } from '../constants'
+import { InvalidArgumentError } from '../errors'
+
+const ADDRESS_ONE = '0x1111111111111111111111111111111111111111'
+const ADDRESS_TWO = '0x2222222222222222222222222222222222222222'
+const ADDRESS_THREE = '0x3333333333333333333333333333333333333333'
+
+describe('Allocations from weights', () => {
+  test('Rounds thirds to the exact total', () => {
+    const { recipients, totalAllocation } = getAllocationsFromWeights({
+      recipients: [
+        { address: ADDRESS_THREE, weight: 1 },
+        { address: ADDRESS_ONE, weight: 1 },
+        { address: ADDRESS_TWO, weight: 1 },
+      ],
+    })
+
+    expect(totalAllocation).toEqual(PERCENTAGE_SCALE)
+    // Sorted by address, with the leftover unit going to the lowest address
+    expect(recipients.map(({ address }) => address)).toEqual([
+      ADDRESS_ONE,
+      ADDRESS_TWO,
+      ADDRESS_THREE,
+    ])
+    expect(recipients.map(({ allocation }) => allocation)).toEqual([
+      BigInt(333334),
+      BigInt(333333),
+      BigInt(333333),
+    ])
+    expect(
+      recipients.map(({ percentAllocation }) => percentAllocation),
+    ).toEqual([33.3334, 33.3333, 33.3333])
+    expect(recipients[0].roundingError).toBeCloseTo(2 / 3)
+    expect(recipients[1].roundingError).toBeCloseTo(-1 / 3)
+  })
+
+  test('Gives leftover units to the largest remainders', () => {
+    const { recipients } = getAllocationsFromWeights({
+      recipients: [
+        { address: ADDRESS_ONE, weight: BigInt(1) },
+        { address: ADDRESS_TWO, weight: BigInt(2) },
+      ],
+      totalAllocation: BigInt(100),
+    })
+
+    expect(recipients.map(({ allocation }) => allocation)).toEqual([
+      BigInt(33),
+      BigInt(67),
+    ])
+  })
+
+  test('Takes fractions and merges duplicates', () => {
+    const { recipients } = getAllocationsFromWeights({
+      recipients: [
+        { address: ADDRESS_ONE, weight: { numerator: 1, denominator: 6 } },
+        { address: ADDRESS_TWO, weight: { numerator: 1, denominator: 2 } },
+        {
+          address: ADDRESS_ONE.toLowerCase(),
+          weight: { numerator: BigInt(1), denominator: BigInt(3) },
+        },
+      ],
+      totalAllocation: BigInt(2_000_000),
+    })
+
+    // Percentages are of the total allocation, not of PERCENTAGE_SCALE
+    expect(recipients).toEqual([
+      {
+        address: ADDRESS_ONE,
+        allocation: BigInt(1_000_000),
+        percentAllocation: 50,
+        roundingError: 0,
+      },
+      {
+        address: ADDRESS_TWO,
+        allocation: BigInt(1_000_000),
+        percentAllocation: 50,
+        roundingError: 0,
+      },
+    ])
+  })
+
+  test('Rejects weights that are not positive integers', () => {
+    expect(() =>
+      getAllocationsFromWeights({
+        recipients: [{ address: ADDRESS_ONE, weight: 1.5 }],
+      }),
+    ).toThrow(InvalidArgumentError)
+    expect(() =>
+      getAllocationsFromWeights({
+        recipients: [{ address: ADDRESS_ONE, weight: 0 }],
+      }),
+    ).toThrow(InvalidArgumentError)
+  })
+
+  test('Rejects weights too small for any allocation', () => {
+    expect(() =>
+      getAllocationsFromWeights({
+        recipients: [
+          { address: ADDRESS_ONE, weight: 1 },
+          { address: ADDRESS_TWO, weight: 1 },
+          { address: ADDRESS_THREE, weight: 1 },
+        ],
+        totalAllocation: BigInt(2),
+      }),
+    ).toThrow(InvalidArgumentError)
+  })
+})
+
+describe('Allocations from percents', () => {
+  test('Rounds float percentages to the exact total', () => {
+    const { allocations, totalAllocation } = getAllocationsFromPercents([
+      { address: ADDRESS_ONE, percentAllocation: 100 / 3 },
+      { address: ADDRESS_TWO, percentAllocation: 100 / 3 },
+      { address: ADDRESS_THREE, percentAllocation: 100 / 3 },
+    ])
+
+    expect(totalAllocation).toEqual(PERCENTAGE_SCALE)
+    expect(allocations).toEqual([
+      BigInt(333334),
+      BigInt(333333),
+      BigInt(333333),
+    ])
+  })
+
+  test('Keeps exact percentages and the recipients order', () => {
+    const { allocations, totalAllocation } = getAllocationsFromPercents([
+      { address: ADDRESS_TWO, percentAllocation: 0.0001 },
+      { address: ADDRESS_ONE, percentAllocation: 60.5 },
+      { address: ADDRESS_TWO, percentAllocation: 39.4999 },
+    ])
+
+    expect(totalAllocation).toEqual(PERCENTAGE_SCALE)
+    expect(allocations).toEqual([BigInt(1), BigInt(605000), BigInt(394999)])
+  })
+})
@@ -0,0 +1,212 @@
+import { Address, getAddress } from 'viem'
+
+import { PERCENTAGE_SCALE, SPLITS_MAX_PRECISION_DECIMALS } from '../constants'
+import { InvalidArgumentError } from '../errors'
+import type {
+  AllocationInput,
+  AllocationResult,
+  AllocationWeight,
+  SplitRecipient,
+} from '../types'
+import {
+  fromBigIntToPercent,
+  getBigIntFromPercent,
+  roundToDecimals,
+} from './numbers'
+import { validateAddress } from './validation'
+
+type Fraction = { numerator: bigint; denominator: bigint }
+
+const gcd = (a: bigint, b: bigint): bigint =>
+  b === BigInt(0) ? a : gcd(b, a % b)
+
+const toBigInt = (value: number | bigint): bigint => {
+  if (typeof value === 'bigint') return value
+  if (!Number.isSafeInteger(value))
+    throw new InvalidArgumentError(
+      `Allocation weight ${value} must be an integer, use a fraction for non-integer weights`,
+    )
+
+  return BigInt(value)
+}
+
+const toFraction = (weight: AllocationWeight): Fraction => {
+  if (typeof weight === 'object') {
+    const numerator = toBigInt(weight.numerator)
+    const denominator = toBigInt(weight.denominator)
+    if (denominator <= BigInt(0))
+      throw new InvalidArgumentError(
+        `Allocation fraction denominator must be positive, got ${denominator}`,
+      )
+    return { numerator, denominator }
+  }
+
+  return { numerator: toBigInt(weight), denominator: BigInt(1) }
+}
+
+const toLowestCommonDenominator = (fractions: Fraction[]): bigint[] => {
+  const denominator = fractions.reduce(
+    (acc, fraction) =>
+      (acc * fraction.denominator) / gcd(acc, fraction.denominator),
+    BigInt(1),
+  )
+
+  return fractions.map(
+    ({ numerator, denominator: fractionDenominator }) =>
+      (numerator * denominator) / fractionDenominator,
+  )
+}
+
+// Percentages as exact decimal fractions, so 33.3333 is 333333 / 1000000 and
+// not the float closest to it
+const percentToFraction = (percent: number): Fraction => {
+  if (!Number.isFinite(percent) || percent < 0)
+    throw new InvalidArgumentError(`Invalid percent allocation: ${percent}`)
+
+  const digits = percent.toString().includes('e')
+    ? percent.toFixed(20)
+    : percent.toString()
+  const [integer, decimals = ''] = digits.split('.')
+
+  return {
+    numerator: BigInt(`${integer}${decimals}`),
+    denominator: BigInt(`100${'0'.repeat(decimals.length)}`),
+  }
+}
+
+// Every weight gets the floor of its exact share of totalAllocation, and what
+// is left over goes one unit at a time to the largest remainders, ties going
+// to the earliest weight
+const allocate = (
+  weights: bigint[],
+  totalAllocation: bigint,
+): { allocation: bigint; roundingError: number }[] => {
+  const totalWeight = weights.reduce((a, b) => a + b, BigInt(0))
+  if (totalWeight === BigInt(0))
+    throw new InvalidArgumentError('At least one weight must be positive')
+
+  const shares = weights.map((weight) => {
+    const exact = totalAllocation * weight
+    return { allocation: exact / totalWeight, remainder: exact % totalWeight }
+  })
+  const leftOver =
+    totalAllocation -
+    shares.reduce((acc, { allocation }) => acc + allocation, BigInt(0))
+  const roundedUp = new Set(
+    shares
+      .map(({ remainder }, index) => {
+        return { remainder, index }
+      })
+      .sort((a, b) => {
+        if (a.remainder === b.remainder) return a.index - b.index
+        return a.remainder > b.remainder ? -1 : 1
+      })
+      .slice(0, Number(leftOver))
+      .map(({ index }) => index),
+  )
+
+  return shares.map(({ allocation, remainder }, index) => {
+    const isRoundedUp = roundedUp.has(index)
+    return {
+      allocation: isRoundedUp ? allocation + BigInt(1) : allocation,
+      roundingError:
+        Number(isRoundedUp ? totalWeight - remainder : -remainder) /
+        Number(totalWeight),
+    }
+  })
+}
+
+// Splits totalAllocation between the recipients in proportion to their
+// weights, using largest-remainder rounding with ties going to the lowest
+// address. The allocations always add up to totalAllocation exactly.
+// Duplicate addresses are merged by adding their weights.
+export const getAllocationsFromWeights = ({
+  recipients,
+  totalAllocation = PERCENTAGE_SCALE,
+}: {
+  recipients: AllocationInput[]
+  // Defaults to PERCENTAGE_SCALE, which V1 splits require
+  totalAllocation?: bigint
+}): AllocationResult => {
+  if (recipients.length === 0)
+    throw new InvalidArgumentError('At least one recipient is required')
+  if (totalAllocation <= BigInt(0))
+    throw new InvalidArgumentError(
+      `Total allocation must be positive, got ${totalAllocation}`,
+    )
+
+  const fractions = recipients.map(({ address, weight }) => {
+    validateAddress(address)
+    const fraction = toFraction(weight)
+    if (fraction.numerator <= BigInt(0))
+      throw new InvalidArgumentError(
+        `Allocation weight for ${address} must be positive`,
+      )
+
+    return { address: getAddress(address), fraction }
+  })
+
+  // Scaling every weight to the lowest common denominator keeps the math in
+  // integers
+  const scaledWeights = toLowestCommonDenominator(
+    fractions.map(({ fraction }) => fraction),
+  )
+  const weights = fractions.reduce(
+    (acc, { address }, index) => {
+      acc[address] = (acc[address] ?? BigInt(0)) + scaledWeights[index]
+      return acc
+    },
+    {} as { [address: Address]: bigint },
+  )
+  const addresses = (Object.keys(weights) as Address[]).sort((a, b) =>
+    a.toLowerCase() > b.toLowerCase() ? 1 : -1,
+  )
+  const allocations = allocate(
+    addresses.map((address) => weights[address]),
+    totalAllocation,
+  )
+
+  return {
+    recipients: addresses.map((address, index) => {
+      const { allocation, roundingError } = allocations[index]
+      if (allocation === BigInt(0))
+        throw new InvalidArgumentError(
+          `Allocation weight for ${address} is too small to get any of the total allocation`,
+        )
+
+      return {
+        address,
+        allocation,
+        percentAllocation: fromBigIntToPercent(allocation, totalAllocation),
+        roundingError,
+      }
+    }),
+    totalAllocation,
+  }
+}
+
+// The allocations for SplitRecipient percentages, in the recipients' order.
+// The total is the sum of the percentages at the precision splits support, so
+// float sums like 3 * (100 / 3) still come out to exactly 100%.
+export const getAllocationsFromPercents = (
+  recipients: SplitRecipient[],
+): { allocations: bigint[]; totalAllocation: bigint } => {
+  const totalPercent = roundToDecimals(
+    recipients.reduce(
+      (acc, { percentAllocation }) => acc + percentAllocation,
+      0,
+    ),
+    SPLITS_MAX_PRECISION_DECIMALS,
+  )
+  const totalAllocation = getBigIntFromPercent(totalPercent)
+  const allocations = allocate(
+    toLowestCommonDenominator(
+      recipients.map(({ percentAllocation }) =>
+        percentToFraction(percentAllocation),
+      ),
+    ),
+    totalAllocation,
+  ).map(({ allocation }) => allocation)
+
+  return { allocations, totalAllocation }
+}
@@ -1,14 +1,27 @@
-import { zeroAddress, Address, MulticallReturnType, getAddress } from 'viem'
+import {
+  zeroAddress,
+  Address,
+  MulticallReturnType,
+  fromHex,
+  getAddress,
+} from 'viem'
 
 import {
-  CHAIN_INFO,
+  getNativeCurrencySymbol,
   getSplitMainAddress,
+  getSplitV1StartBlock,
   NATIVE_TOKEN_ADDRESS,
   ZERO,
 } from '../constants'
 import { erc20Abi } from '../constants/abi/erc20'
 import { splitV2ABI } from '../constants/abi/splitV2'
-import { FormattedTokenBalances, Token, SplitsPublicClient } from '../types'
+import { warehouseAbi } from '../constants/abi/warehouse'
+import {
+  FormattedTokenBalances,
+  Token,
+  SplitsDeployments,
+  SplitsPublicClient,
+} from '../types'
 import { fromBigIntToTokenValue, isAlchemyPublicClient } from '.'
 import { retryExponentialBackoff } from './requests'
 import { IBalance } from '../subgraph/types'
@@ -19,6 +32,7 @@ export const fetchERC20TransferredTokens = async (
   chainId: number,
   publicClient: SplitsPublicClient,
   splitAddress: Address,
+  deployments?: SplitsDeployments,
 ): Promise<string[]> => {
   const tokens = new Set<string>([])
 
@@ -35,7 +49,7 @@ export const fetchERC20TransferredTokens = async (
     args: {
       to: splitAddress,
     },
-    fromBlock: BigInt(CHAIN_INFO[chainId].startBlock),
+    fromBlock: getSplitV1StartBlock(chainId, deployments),
     toBlock: 'latest',
   })
 
@@ -54,11 +68,13 @@ export const fetchActiveBalances: (
   arg1: Address,
   arg2: SplitsPublicClient,
   arg3: Address[],
+  arg4?: SplitsDeployments,
 ) => Promise<FormattedTokenBalances> = async (
   chainId,
   accountAddress,
   publicClient,
   fullTokenList,
+  deployments,
 ) => {
   const balances: FormattedTokenBalances = {}
 
@@ -77,6 +93,7 @@ export const fetchActiveBalances: (
     tokenData,
     multicallResponse,
     balances,
+    deployments,
   )
 
   return balances
@@ -90,12 +107,14 @@ export const fetchSplitActiveBalances = async ({
   splitAddress,
   publicClient,
   fullTokenList,
+  deployments,
 }: {
   type: SplitType
   chainId: number
   splitAddress: Address
   publicClient: SplitsPublicClient
   fullTokenList: Address[]
+  deployments?: SplitsDeployments
 }) => {
   const balances: FormattedTokenBalances = {}
 
@@ -108,6 +127,7 @@ export const fetchSplitActiveBalances = async ({
     chainId,
     splitAddress,
     tokenList: formattedTokenList,
+    deployments,
   })
 
   const [tokenData, multicallResponse] = await Promise.all([
@@ -123,21 +143,103 @@ export const fetchSplitActiveBalances = async ({
     tokenData,
     multicallResponse,
     balances,
+    deployments,
   })
 
   return balances
 }
 
+// Balances of every owner in every token, read with one multicall for the
+// balances and one for the metadata of the underlying tokens
+export const fetchWarehouseBalances = async ({
+  chainId,
+  warehouseAddress,
+  publicClient,
+  ownerAddresses,
+  tokenList,
+  filterZeroBalances,
+  deployments,
+}: {
+  chainId: number
+  warehouseAddress: Address
+  publicClient: SplitsPublicClient
+  ownerAddresses: Address[]
+  tokenList: Address[]
+  filterZeroBalances?: boolean
+  deployments?: SplitsDeployments
+}): Promise<{ [owner: Address]: FormattedTokenBalances }> => {
+  const formattedTokenList = tokenList.map((token) => getAddress(token))
+  const erc20Tokens = formattedTokenList.filter(
+    (token) => token !== NATIVE_TOKEN_ADDRESS,
+  )
+  const contractCalls = ownerAddresses
+    .map((owner) =>
+      formattedTokenList.map((token) => {
+        return {
+          address: warehouseAddress,
+          abi: warehouseAbi,
+          functionName: 'balanceOf',
+          args: [owner, fromHex(token, 'bigint')],
+        }
+      }),
+    )
+    .flat()
+
+  const [tokenData, multicallResponse] = await Promise.all([
+    fetchTokenData(erc20Tokens, publicClient),
+    publicClient.multicall({
+      contracts: contractCalls,
+    }),
+  ])
+
+  return ownerAddresses.reduce(
+    (acc, owner, ownerIndex) => {
+      const balances: FormattedTokenBalances = {}
+      formattedTokenList.map((token, tokenIndex) => {
+        const balance = multicallResponse[
+          ownerIndex * formattedTokenList.length + tokenIndex
+        ].result as bigint
+        if (balance === undefined) return
+        if (filterZeroBalances && balance === ZERO) return
+
+        let symbol: string
+        let decimals: number
+        if (token === NATIVE_TOKEN_ADDRESS) {
+          decimals = 18
+          symbol = getNativeCurrencySymbol(chainId, deployments)
+        } else {
+          if (!tokenData[token]) return // Unable to fetch token data
+          symbol = tokenData[token].symbol as string
+          decimals = tokenData[token].decimals as number
+        }
+
+        balances[token] = {
+          rawAmount: balance,
+          formattedAmount: fromBigIntToTokenValue(balance, decimals),
+          symbol,
+          decimals,
+        }
+      })
+      acc[getAddress(owner)] = balances
+
+      return acc
+    },
+    {} as { [owner: Address]: FormattedTokenBalances },
+  )
+}
+
 // NOTE: this should never be called for a user, we only care about a user's
 // balance in split main which is stored in subgraph
 export const fetchContractBalancesWithAlchemy: (
   arg0: number,
   arg1: Address,
   arg2: SplitsPublicClient,
+  arg3?: SplitsDeployments,
 ) => Promise<FormattedTokenBalances> = async (
   chainId,
   address,
   rpcPublicClient,
+  deployments,
 ) => {
   if (!isAlchemyPublicClient(rpcPublicClient))
     throw new Error('Cannot call this without an alchemy provider')
@@ -175,7 +277,7 @@ export const fetchContractBalancesWithAlchemy: (
     const results = await Promise.all(promisesArray)
     if (!pageKey) {
       const ethBalance = results[1] as bigint
-      const symbol = CHAIN_INFO[chainId]?.nativeCurrency.symbol ?? 'ETH'
+      const symbol = getNativeCurrencySymbol(chainId, deployments)
       const decimals = 18
       const formattedAmount = fromBigIntToTokenValue(ethBalance, decimals)
 
@@ -263,12 +365,14 @@ const processBalanceMulticallResponse: (
   arg2: TokenData,
   arg3: MulticallReturnType,
   arg4: FormattedTokenBalances,
+  arg5?: SplitsDeployments,
 ) => void = (
   chainId,
   fullTokenList,
   tokenData,
   multicallResponse,
   balances,
+  deployments,
 ) => {
   fullTokenList.map((token, index) => {
     const data = multicallResponse[index]
@@ -277,7 +381,7 @@ const processBalanceMulticallResponse: (
 
     if (token === zeroAddress) {
       const decimals = 18
-      const symbol = CHAIN_INFO[chainId]?.nativeCurrency.symbol ?? 'ETH'
+      const symbol = getNativeCurrencySymbol(chainId, deployments)
       const formattedAmount = fromBigIntToTokenValue(balance, decimals)
       balances[zeroAddress] = {
         rawAmount: balance,
@@ -307,6 +411,7 @@ const processSplitBalanceMulticallResponse = ({
   tokenData,
   multicallResponse,
   balances,
+  deployments,
 }: {
   type: SplitType
   chainId: number
@@ -314,6 +419,7 @@ const processSplitBalanceMulticallResponse = ({
   tokenData: TokenData
   multicallResponse: MulticallReturnType
   balances: FormattedTokenBalances
+  deployments?: SplitsDeployments
 }) => {
   fullTokenList.map((token, index) => {
     const data = multicallResponse[index]
@@ -331,7 +437,7 @@ const processSplitBalanceMulticallResponse = ({
     let decimals: number
     if (token === zeroAddress) {
       decimals = 18
-      symbol = CHAIN_INFO[chainId]?.nativeCurrency.symbol ?? 'ETH'
+      symbol = getNativeCurrencySymbol(chainId, deployments)
     } else {
       if (!tokenData[token]) return // Unable to fetch token data
       if (
@@ -393,23 +499,25 @@ const getSplitTokenBalanceCalls = ({
   chainId,
   splitAddress,
   tokenList,
+  deployments,
 }: {
   type: SplitType
   chainId: number
   splitAddress: Address
   tokenList: Address[]
+  deployments?: SplitsDeployments
 }) => {
   return tokenList.map((token) => {
     if (type === 'splitV1') {
       if (token === zeroAddress)
         return {
-          address: getSplitMainAddress(chainId),
+          address: getSplitMainAddress(chainId, deployments),
           abi: splitMainPolygonAbi,
           functionName: 'getETHBalance',
           args: [splitAddress],
         }
       return {
-        address: getSplitMainAddress(chainId),
+        address: getSplitMainAddress(chainId, deployments),
         abi: splitMainPolygonAbi,
         functionName: 'getERC20Balance',
         args: [splitAddress, token],
@@ -0,0 +1,101 @@
+import {
+  Address,
+  BaseError,
+  ContractFunctionRevertedError,
+  RawContractError,
+  encodeErrorResult,
+} from 'viem'
+
+import { splitV2ABI } from '../constants/abi/splitV2'
+import { swapperAbi } from '../constants/abi/swapper'
+import { warehouseAbi } from '../constants/abi/warehouse'
+import { waterfallFactoryAbi } from '../constants/abi/waterfallFactory'
+import {
+  ContractRevertedError,
+  ExpiredSignatureError,
+  InvalidAmountsToBeneficiaryError,
+  InvalidSplitError,
+  InvalidWaterfallError,
+  PausedError,
+  TransactionFailedError,
+  UnauthorizedError,
+} from '../errors'
+import {
+  CONTRACT_ERRORS_ABI,
+  decodeContractError,
+  decodeContractRevert,
+} from './errors'
+
+const OWNER: Address = '0xD57f3Fa0b49E91eaA20e739c874Ae273Bcf2D7Aa'
+
+describe('Contract error decoding', () => {
+  test('Reverts decoded by viem map to typed errors', () => {
+    const revertError = new ContractFunctionRevertedError({
+      abi: [...splitV2ABI, ...CONTRACT_ERRORS_ABI],
+      functionName: 'distribute',
+      data: encodeErrorResult({ abi: splitV2ABI, errorName: 'Unauthorized' }),
+    })
+    const error = decodeContractError(
+      new BaseError('Execution reverted', { cause: revertError }),
+    )
+
+    expect(error).toBeInstanceOf(UnauthorizedError)
+    expect(error).toBeInstanceOf(ContractRevertedError)
+    expect((error as UnauthorizedError).errorName).toEqual('Unauthorized')
+  })
+
+  test('Raw revert data is decoded against every contract abi', () => {
+    const data = encodeErrorResult({
+      abi: warehouseAbi,
+      errorName: 'ExpiredSignature',
+      args: [123],
+    })
+    const error = decodeContractError(
+      new BaseError('Execution reverted', {
+        cause: new RawContractError({ data }),
+      }),
+    )
+
+    expect(error).toBeInstanceOf(ExpiredSignatureError)
+    expect((error as ExpiredSignatureError).args).toEqual([123])
+  })
+
+  test('Errors are grouped by contract error families', () => {
+    const decode = (
+      abi: Parameters<typeof encodeErrorResult>[0]['abi'],
+      errorName: string,
+      args?: unknown[],
+    ) =>
+      decodeContractRevert(
+        encodeErrorResult({ abi, errorName, args } as Parameters<
+          typeof encodeErrorResult
+        >[0]),
+      )
+
+    expect(decode(warehouseAbi, 'WithdrawalPaused', [OWNER])).toBeInstanceOf(
+      PausedError,
+    )
+    expect(decode(splitV2ABI, 'InvalidSplit_LengthMismatch')).toBeInstanceOf(
+      InvalidSplitError,
+    )
+    expect(
+      decode(waterfallFactoryAbi, 'InvalidWaterfall__TooFewRecipients'),
+    ).toBeInstanceOf(InvalidWaterfallError)
+    expect(decode(swapperAbi, 'Invalid_AmountsToBeneficiary')).toBeInstanceOf(
+      InvalidAmountsToBeneficiaryError,
+    )
+    expect(decode(warehouseAbi, 'InvalidAck')?.constructor).toEqual(
+      ContractRevertedError,
+    )
+  })
+
+  test('Unknown errors are returned untouched', () => {
+    const unknownRevert = new BaseError('Execution reverted', {
+      cause: new RawContractError({ data: '0xdeadbeef' }),
+    })
+    const sdkError = new TransactionFailedError()
+
+    expect(decodeContractError(unknownRevert)).toBe(unknownRevert)
+    expect(decodeContractError(sdkError)).toBe(sdkError)
+  })
+})
@@ -0,0 +1,177 @@
+import {
+  Abi,
+  AbiDecodingDataSizeTooSmallError,
+  AbiDecodingZeroDataError,
+  BaseError,
+  ContractFunctionRevertedError,
+  ContractFunctionZeroDataError,
+  Hex,
+  decodeErrorResult,
+  isHex,
+} from 'viem'
+
+import {
+  liquidSplitFactoryAbi,
+  ls1155CloneAbi,
+  passThroughWalletAbi,
+  recoupFactoryAbi,
+  splitAbi,
+  splitMainEthereumAbi,
+  splitMainPolygonAbi,
+  splitV2ABI,
+  swapperAbi,
+  uniV3OracleAbi,
+  uniV3SwapAbi,
+  vestingAbi,
+  vestingFactoryAbi,
+  warehouseAbi,
+  waterfallAbi,
+  waterfallFactoryAbi,
+} from '../constants/abi'
+import { pullSplitAbi } from '../constants/abi/pullSplit'
+import { splitV2o1Abi } from '../constants/abi/splitV2o1'
+import {
+  ContractRevertedError,
+  ExpiredSignatureError,
+  InsufficientFundsError,
+  InvalidAmountsToBeneficiaryError,
+  InvalidNonceError,
+  InvalidSignerError,
+  InvalidSplitError,
+  InvalidWaterfallError,
+  PausedError,
+  UnauthorizedError,
+} from '../errors'
+
+// Every custom error the splits contracts can revert with. Calls into one
+// contract regularly revert from another (e.g. a split distributing through
+// the warehouse), so reverts are decoded against all of them.
+export const CONTRACT_ERRORS_ABI: Abi = [
+  liquidSplitFactoryAbi,
+  ls1155CloneAbi,
+  passThroughWalletAbi,
+  pullSplitAbi,
+  recoupFactoryAbi,
+  splitAbi,
+  splitMainEthereumAbi,
+  splitMainPolygonAbi,
+  splitV2ABI,
+  splitV2o1Abi,
+  swapperAbi,
+  uniV3OracleAbi,
+  uniV3SwapAbi,
+  vestingAbi,
+  vestingFactoryAbi,
+  warehouseAbi,
+  waterfallAbi,
+  waterfallFactoryAbi,
+].flatMap((abi) => (abi as Abi).filter((item) => item.type === 'error'))
+
+type ContractRevertedErrorClass = new (
+  params: ConstructorParameters<typeof ContractRevertedError>[0],
+) => ContractRevertedError
+
+const CONTRACT_ERRORS: { [errorName: string]: ContractRevertedErrorClass } = {
+  Unauthorized: UnauthorizedError,
+  UnauthorizedInitializer: UnauthorizedError,
+  Paused: PausedError,
+  WithdrawalPaused: PausedError,
+  InvalidNonce: InvalidNonceError,
+  ExpiredSignature: ExpiredSignatureError,
+  InvalidSigner: InvalidSignerError,
+  Invalid_AmountsToBeneficiary: InvalidAmountsToBeneficiaryError,
+  InsufficientFunds: InsufficientFundsError,
+  InsufficientFunds_FromTrader: InsufficientFundsError,
+  InsufficientFunds_InContract: InsufficientFundsError,
+  InvalidDistribution_TooLarge: InvalidWaterfallError,
+}
+
+// Split and waterfall validation errors share a prefix, e.g.
+// InvalidSplit__TooFewAccounts or InvalidWaterfall__RecipientsAndThresholdsLengthMismatch
+const CONTRACT_ERROR_PREFIXES: [string, ContractRevertedErrorClass][] = [
+  ['InvalidSplit', InvalidSplitError],
+  ['InvalidLiquidSplit', InvalidSplitError],
+  ['InvalidWaterfall', InvalidWaterfallError],
+]
+
+export const getContractRevertedError = ({
+  errorName,
+  args,
+  cause,
+}: {
+  errorName: string
+  args?: readonly unknown[]
+  cause?: unknown
+}): ContractRevertedError => {
+  const ErrorClass =
+    CONTRACT_ERRORS[errorName] ??
+    CONTRACT_ERROR_PREFIXES.find(([prefix]) =>
+      errorName.startsWith(prefix),
+    )?.[1] ??
+    ContractRevertedError
+
+  return new ErrorClass({ errorName, args, cause })
+}
+
+export const decodeContractRevert = (
+  data: Hex,
+  cause?: unknown,
+): ContractRevertedError | undefined => {
+  try {
+    const { errorName, args } = decodeErrorResult({
+      abi: CONTRACT_ERRORS_ABI,
+      data,
+    })
+    return getContractRevertedError({ errorName, args, cause })
+  } catch {
+    return undefined
+  }
+}
+
+// Maps a viem revert to the matching typed error. Anything that can't be
+// decoded (including non viem errors) is returned untouched.
+export const decodeContractError = (error: unknown): unknown => {
+  if (!(error instanceof BaseError)) return error
+
+  const revertError = error.walk(
+    (e) => e instanceof ContractFunctionRevertedError,
+  )
+  if (
+    revertError instanceof ContractFunctionRevertedError &&
+    revertError.data &&
+    revertError.data.errorName !== 'Error' &&
+    revertError.data.errorName !== 'Panic'
+  )
+    return getContractRevertedError({
+      errorName: revertError.data.errorName,
+      args: revertError.data.args,
+      cause: error,
+    })
+
+  // Reverts from raw rpc calls (user operations, safe transactions) only
+  // carry the encoded revert data
+  const rawError = error.walk((e) => {
+    const data = (e as { data?: unknown }).data
+    return typeof data === 'string' && isHex(data) && data.length >= 10
+  }) as { data?: Hex } | null
+  if (rawError?.data) return decodeContractRevert(rawError.data, error) ?? error
+
+  return error
+}
+
+// Reads that revert or come back empty, i.e. there is no contract with the
+// function at the address. Rpc and network failures are not.
+export const isMissingContractFunctionError = (error: unknown): boolean => {
+  if (error instanceof ContractRevertedError) return true
+  if (!(error instanceof BaseError)) return false
+
+  return Boolean(
+    error.walk(
+      (e) =>
+        e instanceof ContractFunctionRevertedError ||
+        e instanceof ContractFunctionZeroDataError ||
+        e instanceof AbiDecodingZeroDataError ||
+        e instanceof AbiDecodingDataSizeTooSmallError,
+    ),
+  )
+}
@@ -0,0 +1,67 @@
+import { Address, Hex, serializeTransaction } from 'viem'
+
+import type { SplitsPublicClient } from '../types'
+
+// The OP stack fee oracle, at the address the chain lists as gasPriceOracle
+const gasPriceOracleAbi = [
+  {
+    type: 'function',
+    name: 'getL1Fee',
+    inputs: [{ name: '_data', type: 'bytes' }],
+    outputs: [{ name: '', type: 'uint256' }],
+    stateMutability: 'view',
+  },
+] as const
+
+// What a transaction pays per gas: the base fee plus the priority fee where
+// the chain has eip-1559 fees, the legacy gas price where it doesn't
+export const getGasPrice = async (
+  publicClient: SplitsPublicClient,
+): Promise<bigint> => {
+  const { baseFeePerGas } = await publicClient.getBlock()
+  if (baseFeePerGas === null || baseFeePerGas === undefined)
+    return await publicClient.getGasPrice()
+
+  const priorityFee = await publicClient.estimateMaxPriorityFeePerGas()
+  return baseFeePerGas + priorityFee
+}
+
+// The L1 data fee OP stack chains charge on top of the gas, from the
+// chain's fee oracle. Zero on chains without one.
+export const getL1Fee = async ({
+  publicClient,
+  chainId,
+  to,
+  data,
+  gasEstimate,
+  gasPrice,
+}: {
+  publicClient: SplitsPublicClient
+  chainId: number
+  to: Address
+  data: Hex
+  gasEstimate: bigint
+  gasPrice: bigint
+}): Promise<bigint> => {
+  const gasPriceOracle = publicClient.chain?.contracts?.gasPriceOracle
+  if (!gasPriceOracle || !('address' in gasPriceOracle)) return BigInt(0)
+
+  // The fee is charged on the signed transaction's size, the unsigned one
+  // is a close enough stand in
+  return await publicClient.readContract({
+    address: gasPriceOracle.address,
+    abi: gasPriceOracleAbi,
+    functionName: 'getL1Fee',
+    args: [
+      serializeTransaction({
+        type: 'eip1559',
+        chainId,
+        to,
+        data,
+        gas: gasEstimate,
+        maxFeePerGas: gasPrice,
+        maxPriorityFeePerGas: gasPrice,
+      }),
+    ],
+  })
+}
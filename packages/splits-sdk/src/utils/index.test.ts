@@ -3,7 +3,9 @@ import * as viemApi from 'viem'
 import {
   getBigIntFromPercent,
   getRecipientSortedAddressesAndAllocations,
+  getValidatedSplitV2Config,
 } from './index'
+import { InvalidTotalAllocation } from '../errors'
 
 jest.spyOn(viemApi, 'getAddress').mockImplementation((address) => {
   return address as viemApi.Address
@@ -81,3 +83,37 @@ describe('Test sorting recipients', () => {
     expect(result).toEqual(expectedBigNumber)
   })
 })
+
+describe('Test split v2 config', () => {
+  test('Float percentages add up to the total allocation', () => {
+    const { recipientAllocations, totalAllocation } = getValidatedSplitV2Config(
+      [
+        { address: '123', percentAllocation: 100 / 3 },
+        { address: '456', percentAllocation: 100 / 3 },
+        { address: '789', percentAllocation: 100 / 3 },
+      ],
+      0,
+    )
+
+    expect(recipientAllocations).toEqual([
+      BigInt(333334),
+      BigInt(333333),
+      BigInt(333333),
+    ])
+    expect(totalAllocation).toEqual(BigInt(1e6))
+  })
+
+  test('Percentages must add up to the total allocation', () => {
+    const recipients = [
+      { address: '123', percentAllocation: 150 },
+      { address: '456', percentAllocation: 50 },
+    ]
+
+    expect(
+      getValidatedSplitV2Config(recipients, 0, 200).recipientAllocations,
+    ).toEqual([BigInt(150 * 1e4), BigInt(50 * 1e4)])
+    expect(() => getValidatedSplitV2Config(recipients, 0)).toThrow(
+      InvalidTotalAllocation,
+    )
+  })
+})
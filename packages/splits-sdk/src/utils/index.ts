@@ -9,6 +9,7 @@ import {
   ContractRecoupTranche,
   RecoupTrancheInput,
   SplitRecipient,
+  SplitsDeployments,
   SplitsPublicClient,
   SplitV2Type,
   WaterfallTrancheInput,
@@ -18,6 +19,7 @@ import {
   getBigIntTokenValue,
   getNumberFromPercent,
 } from './numbers'
+import { getAllocationsFromPercents } from './allocations'
 import { getTokenData } from './tokens'
 import {
   InvalidDistributorFeePercentErrorV2,
@@ -36,20 +38,16 @@ export * from './tokens'
 export const getRecipientSortedAddressesAndAllocations = (
   recipients: SplitRecipient[],
 ): [Address[], bigint[]] => {
-  const accounts: Address[] = []
-  const percentAllocations: bigint[] = []
-
-  recipients
-    .sort((a, b) => {
-      if (a.address.toLowerCase() > b.address.toLowerCase()) return 1
-      return -1
-    })
-    .map((value) => {
-      accounts.push(getAddress(value.address))
-      percentAllocations.push(getBigIntFromPercent(value.percentAllocation))
-    })
+  const sortedRecipients = recipients.sort((a, b) => {
+    if (a.address.toLowerCase() > b.address.toLowerCase()) return 1
+    return -1
+  })
+  const { allocations } = getAllocationsFromPercents(sortedRecipients)
 
-  return [accounts, percentAllocations]
+  return [
+    sortedRecipients.map((recipient) => getAddress(recipient.address)),
+    allocations,
+  ]
 }
 
 export const getNftCountsFromPercents = (
@@ -65,11 +63,17 @@ export const getTrancheRecipientsAndSizes = async (
   token: Address,
   tranches: WaterfallTrancheInput[],
   publicClient: SplitsPublicClient,
+  deployments?: SplitsDeployments,
 ): Promise<[Address[], bigint[]]> => {
   const recipients: Address[] = []
   const sizes: bigint[] = []
 
-  const tokenData = await getTokenData(chainId, token, publicClient)
+  const tokenData = await getTokenData(
+    chainId,
+    token,
+    publicClient,
+    deployments,
+  )
 
   let trancheSum = BigInt(0)
   tranches.forEach((tranche) => {
@@ -89,11 +93,17 @@ export const getRecoupTranchesAndSizes = async (
   token: Address,
   tranches: RecoupTrancheInput[],
   publicClient: SplitsPublicClient,
+  deployments?: SplitsDeployments,
 ): Promise<[ContractRecoupTranche[], bigint[]]> => {
   const recoupTranches: ContractRecoupTranche[] = []
   const sizes: bigint[] = []
 
-  const tokenData = await getTokenData(chainId, token, publicClient)
+  const tokenData = await getTokenData(
+    chainId,
+    token,
+    publicClient,
+    deployments,
+  )
   let trancheSum = BigInt(0)
   tranches.forEach((tranche) => {
     if (typeof tranche.recipient === 'string') {
@@ -134,9 +144,7 @@ export const getAddressAndAllocationFromRecipients = (
     recipientAddresses: recipients.map(
       (recipient) => recipient.address,
     ) as Address[],
-    recipientAllocations: recipients.map((recipient) =>
-      getBigIntFromPercent(recipient.percentAllocation),
-    ),
+    recipientAllocations: getAllocationsFromPercents(recipients).allocations,
   }
 }
 
@@ -183,10 +191,11 @@ export const getValidatedSplitV2Config = (
 export const getSplitType = (
   chainId: number,
   factoryAddress: Address,
+  deployments?: SplitsDeployments,
 ): SplitV2Type => {
   if (
     getAddress(factoryAddress) ===
-    getSplitV2FactoryAddress(chainId, SplitV2Type.Pull)
+    getSplitV2FactoryAddress(chainId, SplitV2Type.Pull, deployments)
   )
     return SplitV2Type.Pull
   return SplitV2Type.Push
@@ -0,0 +1,197 @@
+import { Abi, Address } from 'viem'
+
+import { MiddlewareVetoError } from '../errors'
+import type {
+  ExecuteMiddlewareContext,
+  ReadMiddlewareContext,
+  SplitsMiddleware,
+  SplitsPublicClient,
+} from '../types'
+import { CONTRACT_ERRORS_ABI, decodeContractError } from './errors'
+
+type ContractRead = {
+  address: Address
+  abi: Abi
+  functionName: string
+  args?: readonly unknown[]
+}
+
+// Runs a hook on each middleware in order, waiting on each one
+export const runMiddleware = async (
+  middleware: SplitsMiddleware[],
+  hook: (middleware: SplitsMiddleware) => unknown,
+): Promise<void> => {
+  await middleware.reduce(async (previous, item) => {
+    await previous
+    await hook(item)
+  }, Promise.resolve())
+}
+
+export const runBeforeExecute = async (
+  middleware: SplitsMiddleware[],
+  context: ExecuteMiddlewareContext,
+): Promise<ExecuteMiddlewareContext> => {
+  return await middleware.reduce(async (previous, { name, beforeExecute }) => {
+    const currentContext = await previous
+    if (!beforeExecute) return currentContext
+
+    const result = await beforeExecute(currentContext)
+    if (result === false)
+      throw new MiddlewareVetoError(currentContext.functionName, name)
+    if (result?.transactionOverrides)
+      return {
+        ...currentContext,
+        transactionOverrides: result.transactionOverrides,
+      }
+
+    return currentContext
+  }, Promise.resolve(context))
+}
+
+// Reverts bubbling up from other splits contracts (e.g. the warehouse) can
+// only be decoded when their errors are part of the abi
+const withContractErrors = (contractRead: ContractRead): ContractRead => {
+  return {
+    ...contractRead,
+    abi: [...contractRead.abi, ...CONTRACT_ERRORS_ABI],
+  }
+}
+
+const runBeforeRead = async (
+  middleware: SplitsMiddleware[],
+  context: ReadMiddlewareContext,
+): Promise<void> => {
+  await runMiddleware(middleware, async ({ name, beforeRead }) => {
+    if ((await beforeRead?.(context)) === false)
+      throw new MiddlewareVetoError(context.functionName, name)
+  })
+}
+
+// Returns a public client whose contract reads (including the ones made
+// through getContract) go through the read hooks, with reverts decoded into
+// the same typed errors as writes
+export const applyReadMiddleware = (
+  publicClient: SplitsPublicClient,
+  middleware: SplitsMiddleware[],
+): SplitsPublicClient => {
+  const getReadContext = ({
+    address,
+    functionName,
+    args,
+  }: ContractRead): ReadMiddlewareContext => {
+    return {
+      contractAddress: address,
+      functionName,
+      args: args ?? [],
+      chainId: publicClient.chain?.id,
+    }
+  }
+
+  const readContract = async (readArgs: ContractRead) => {
+    const context = getReadContext(readArgs)
+    await runBeforeRead(middleware, context)
+
+    const result = await publicClient
+      .readContract(
+        withContractErrors(readArgs) as Parameters<
+          typeof publicClient.readContract
+        >[0],
+      )
+      .catch(async (error) => {
+        const decodedError = decodeContractError(error)
+        await runMiddleware(
+          middleware,
+          (item) => item.onError?.(context, decodedError),
+        )
+        throw decodedError
+      })
+    await runMiddleware(middleware, (item) => item.afterRead?.(context, result))
+
+    return result
+  }
+
+  const multicall = async (multicallArgs: { contracts: ContractRead[] }) => {
+    const contexts = multicallArgs.contracts.map(getReadContext)
+    await contexts.reduce(async (previous, context) => {
+      await previous
+      await runBeforeRead(middleware, context)
+    }, Promise.resolve())
+
+    const multicallResults = await publicClient
+      .multicall({
+        ...multicallArgs,
+        contracts: multicallArgs.contracts.map(withContractErrors),
+      } as Parameters<typeof publicClient.multicall>[0])
+      .catch(async (error) => {
+        const decodedError = decodeContractError(error)
+        await runMiddleware(middleware, (item) =>
+          Promise.all(
+            contexts.map((context) => item.onError?.(context, decodedError)),
+          ),
+        )
+        throw decodedError
+      })
+    // Calls that are allowed to fail carry their error in the result
+    const results = (multicallResults as unknown[]).map((result) => {
+      if (
+        typeof result === 'object' &&
+        result !== null &&
+        'status' in result &&
+        result.status === 'failure' &&
+        'error' in result
+      )
+        return { ...result, error: decodeContractError(result.error) }
+
+      return result
+    })
+    await runMiddleware(middleware, (item) =>
+      Promise.all(
+        contexts.map(
+          (context, index) => item.afterRead?.(context, results[index]),
+        ),
+      ),
+    )
+
+    return results
+  }
+
+  // A proxy rather than a copy, so everything else (including methods that
+  // rely on this, and properties added after the client was created) still
+  // resolves against the original client
+  const overrides: { [name: string]: unknown } = { readContract, multicall }
+  return new Proxy(publicClient, {
+    get: (target, property, receiver) =>
+      typeof property === 'string' && property in overrides
+        ? overrides[property]
+        : Reflect.get(target, property, receiver),
+  })
+}
+
+export const applyReadMiddlewareToClients = ({
+  publicClient,
+  publicClients,
+  ensPublicClient,
+  middleware = [],
+}: {
+  publicClient?: SplitsPublicClient
+  publicClients?: { [chainId: number]: SplitsPublicClient }
+  ensPublicClient?: SplitsPublicClient
+  middleware?: SplitsMiddleware[]
+}) => {
+  return {
+    publicClient: publicClient
+      ? applyReadMiddleware(publicClient, middleware)
+      : undefined,
+    publicClients: publicClients
+      ? Object.fromEntries(
+          Object.entries(publicClients).map(([chainId, client]) => [
+            chainId,
+            applyReadMiddleware(client, middleware),
+          ]),
+        )
+      : undefined,
+    ensPublicClient: ensPublicClient
+      ? applyReadMiddleware(ensPublicClient, middleware)
+      : undefined,
+  }
+}
@@ -1,6 +1,6 @@
 import { Address, getAddress, getContract, GetLogsReturnType } from 'viem'
 
-import { SplitsPublicClient, SplitV2Type } from '../types'
+import { SplitsDeployments, SplitsPublicClient, SplitV2Type } from '../types'
 import {
   getSplitV2FactoriesStartBlock,
   getSplitV2FactoryAddress,
@@ -101,13 +101,15 @@ const getReverseBlockRanges = (
 export const getLargestValidBlockRange = async ({
   maxBlockRange,
   publicClient,
+  deployments,
 }: {
   maxBlockRange?: bigint
   publicClient: SplitsPublicClient
+  deployments?: SplitsDeployments
 }) => {
   const fallbackBlockRange = BigInt(625)
   const chainId = publicClient.chain!.id
-  const startBlockNumber = getSplitV2FactoriesStartBlock(chainId)
+  const startBlockNumber = getSplitV2FactoriesStartBlock(chainId, deployments)
 
   const blockRangeOptions = [
     BigInt(1_000_000),
@@ -121,8 +123,8 @@ export const getLargestValidBlockRange = async ({
       publicClient.getLogs({
         events: [splitV2FactoryABI[8]],
         address: [
-          getSplitV2FactoryAddress(chainId, SplitV2Type.Pull),
-          getSplitV2FactoryAddress(chainId, SplitV2Type.Push),
+          getSplitV2FactoryAddress(chainId, SplitV2Type.Pull, deployments),
+          getSplitV2FactoryAddress(chainId, SplitV2Type.Push, deployments),
         ],
         strict: true,
         fromBlock: startBlockNumber,
@@ -197,6 +199,7 @@ export const getSplitCreateAndUpdateLogs = async <
   maxBlockRange,
   cachedBlocks,
   splitV2Version,
+  deployments,
 }: {
   splitAddress: Address
   publicClient: SplitsPublicClient
@@ -214,6 +217,7 @@ export const getSplitCreateAndUpdateLogs = async <
     latestScannedBlock: bigint
   }
   splitV2Version?: SplitV2Versions
+  deployments?: SplitsDeployments
 }): Promise<{
   blockRange: bigint
   createLog?: SplitCreatedLogType
@@ -252,6 +256,7 @@ export const getSplitCreateAndUpdateLogs = async <
     defaultBlockRange,
     maxBlockRange,
     splitV2Version,
+    deployments,
   })
 
   createLog = searchCreateLog
@@ -298,6 +303,7 @@ export const getSplitCreateAndUpdateLogs = async <
               startBlockNumber,
               cachedBlocks,
               splitV2Version,
+              deployments,
             })
           },
           blockRange,
@@ -367,6 +373,7 @@ export const getSplitCreateAndUpdateLogs = async <
               startBlockNumber,
               cachedBlocks,
               splitV2Version,
+              deployments,
             })
           },
           blockRange,
@@ -415,6 +422,7 @@ export const searchLogs = async <
   currentUpdateLog,
   cachedBlocks,
   splitV2Version,
+  deployments,
 }: {
   formattedSplitAddress: Address
   publicClient: SplitsPublicClient
@@ -433,6 +441,7 @@ export const searchLogs = async <
     latestScannedBlock: bigint
   }
   splitV2Version?: SplitV2Versions
+  deployments?: SplitsDeployments
 }): Promise<{
   blockRange: bigint
   createLog?: SplitCreatedLogType
@@ -492,6 +501,7 @@ export const searchLogs = async <
     blockRange = await getLargestValidBlockRange({
       maxBlockRange,
       publicClient,
+      deployments,
     })
   }
 
@@ -571,6 +581,7 @@ export const searchLogs = async <
               maxBlockRange,
               currentUpdateLog: updateLog,
               cachedBlocks,
+              deployments,
             })
           },
           blockRange,
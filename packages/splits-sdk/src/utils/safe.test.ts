@@ -0,0 +1,215 @@
+import {
+  Address,
+  concat,
+  decodeFunctionData,
+  encodeAbiParameters,
+  keccak256,
+  pad,
+  toHex,
+  zeroAddress,
+} from 'viem'
+
+import { SAFE_MULTI_SEND_CALL_ONLY_ADDRESS } from '../constants'
+import { multiSendCallOnlyAbi } from '../constants/abi/safe'
+import { InvalidArgumentError } from '../errors'
+import {
+  combineSafeSignatures,
+  encodeMultiSendData,
+  getPreValidatedSafeSignature,
+  getSafeTransaction,
+  getSafeTransactionBuilderJson,
+  getSafeTransactionHash,
+} from './safe'
+
+const SAFE_ADDRESS: Address = '0xD57f3Fa0b49E91eaA20e739c874Ae273Bcf2D7Aa'
+const TARGET_A: Address = '0xE1D4BCd79552d815Eb5A8Fb2479Ad770E15BB17e'
+const TARGET_B: Address = '0xE9762Fb8D5347474375Ce00628d5a13D8AD45A99'
+
+describe('Safe transaction building', () => {
+  test('Single call is executed directly', () => {
+    const safeTransaction = getSafeTransaction({
+      calls: [{ address: TARGET_A, data: '0x1234', value: BigInt(5) }],
+      nonce: BigInt(3),
+    })
+
+    expect(safeTransaction).toEqual({
+      to: TARGET_A,
+      value: BigInt(5),
+      data: '0x1234',
+      operation: 0,
+      safeTxGas: BigInt(0),
+      baseGas: BigInt(0),
+      gasPrice: BigInt(0),
+      gasToken: zeroAddress,
+      refundReceiver: zeroAddress,
+      nonce: BigInt(3),
+    })
+  })
+
+  test('Multiple calls are batched through MultiSend', () => {
+    const calls = [
+      { address: TARGET_A, data: '0x1234' as const },
+      { address: TARGET_B, data: '0xabcdef' as const, value: BigInt(1) },
+    ]
+    const safeTransaction = getSafeTransaction({ calls, nonce: BigInt(0) })
+
+    expect(safeTransaction.to).toEqual(SAFE_MULTI_SEND_CALL_ONLY_ADDRESS)
+    expect(safeTransaction.operation).toEqual(1)
+    expect(safeTransaction.value).toEqual(BigInt(0))
+
+    const { args } = decodeFunctionData({
+      abi: multiSendCallOnlyAbi,
+      data: safeTransaction.data,
+    })
+    expect(args[0]).toEqual(encodeMultiSendData(calls))
+  })
+
+  test('No calls fails', () => {
+    expect(() => getSafeTransaction({ calls: [], nonce: BigInt(0) })).toThrow(
+      InvalidArgumentError,
+    )
+  })
+
+  test('MultiSend data packs each call', () => {
+    const data = encodeMultiSendData([
+      { address: TARGET_A, data: '0x1234', value: BigInt(2) },
+    ])
+
+    expect(data).toEqual(
+      concat([
+        '0x00',
+        TARGET_A.toLowerCase() as Address,
+        pad(toHex(2)),
+        pad(toHex(2)),
+        '0x1234',
+      ]),
+    )
+  })
+})
+
+describe('Safe transaction hash', () => {
+  test('Matches the Safe contract hashing', () => {
+    const safeTransaction = getSafeTransaction({
+      calls: [{ address: TARGET_A, data: '0x1234' }],
+      nonce: BigInt(7),
+    })
+
+    const domainSeparator = keccak256(
+      encodeAbiParameters(
+        [{ type: 'bytes32' }, { type: 'uint256' }, { type: 'address' }],
+        [
+          '0x47e79534a245952e8b16893a336b85a3d9ea9fa8c573f3d803afb92a79469218',
+          BigInt(10),
+          SAFE_ADDRESS,
+        ],
+      ),
+    )
+    const safeTxStructHash = keccak256(
+      encodeAbiParameters(
+        [
+          { type: 'bytes32' },
+          { type: 'address' },
+          { type: 'uint256' },
+          { type: 'bytes32' },
+          { type: 'uint8' },
+          { type: 'uint256' },
+          { type: 'uint256' },
+          { type: 'uint256' },
+          { type: 'address' },
+          { type: 'address' },
+          { type: 'uint256' },
+        ],
+        [
+          '0xbb8310d486368db6bd6f849402fdd73ad53d316b5a4b2644ad6efe0f941286d8',
+          TARGET_A,
+          BigInt(0),
+          keccak256('0x1234'),
+          0,
+          BigInt(0),
+          BigInt(0),
+          BigInt(0),
+          zeroAddress,
+          zeroAddress,
+          BigInt(7),
+        ],
+      ),
+    )
+
+    expect(
+      getSafeTransactionHash({
+        safeAddress: SAFE_ADDRESS,
+        safeTransaction,
+        chainId: 10,
+      }),
+    ).toEqual(keccak256(concat(['0x1901', domainSeparator, safeTxStructHash])))
+  })
+})
+
+describe('Safe signatures', () => {
+  test('Signatures are sorted by signer', () => {
+    const combined = combineSafeSignatures([
+      { signer: TARGET_B, data: '0xbb' },
+      { signer: SAFE_ADDRESS, data: '0xdd' },
+      { signer: TARGET_A, data: '0xaa' },
+    ])
+
+    expect(combined).toEqual('0xddaabb')
+  })
+
+  test('Pre-validated signature encodes the owner', () => {
+    const signature = getPreValidatedSafeSignature(TARGET_A)
+
+    expect(signature.signer).toEqual(TARGET_A)
+    expect(signature.data).toEqual(
+      concat([
+        pad(TARGET_A.toLowerCase() as Address),
+        pad('0x', { size: 32 }),
+        '0x01',
+      ]),
+    )
+  })
+})
+
+describe('Safe transaction builder json', () => {
+  test('Calls are exported as builder transactions', () => {
+    const json = getSafeTransactionBuilderJson({
+      safeAddress: SAFE_ADDRESS,
+      calls: [
+        { address: TARGET_A, data: '0x1234' },
+        { address: TARGET_B, data: '0x', value: BigInt(10) },
+      ],
+      chainId: 8453,
+      name: 'Update split',
+      createdAt: 1700000000000,
+    })
+
+    expect(json).toEqual({
+      version: '1.0',
+      chainId: '8453',
+      createdAt: 1700000000000,
+      meta: {
+        name: 'Update split',
+        description: '',
+        txBuilderVersion: expect.any(String),
+        createdFromSafeAddress: SAFE_ADDRESS,
+        createdFromOwnerAddress: '',
+      },
+      transactions: [
+        {
+          to: TARGET_A,
+          value: '0',
+          data: '0x1234',
+          contractMethod: null,
+          contractInputsValues: null,
+        },
+        {
+          to: TARGET_B,
+          value: '10',
+          data: '0x',
+          contractMethod: null,
+          contractInputsValues: null,
+        },
+      ],
+    })
+  })
+})
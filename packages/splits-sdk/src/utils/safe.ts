@@ -0,0 +1,196 @@
+import {
+  Address,
+  Hash,
+  Hex,
+  concat,
+  encodeFunctionData,
+  encodePacked,
+  hashTypedData,
+  pad,
+  size,
+  zeroAddress,
+} from 'viem'
+
+import {
+  SAFE_MULTI_SEND_CALL_ONLY_ADDRESS,
+  SAFE_TX_BUILDER_VERSION,
+} from '../constants'
+import { multiSendCallOnlyAbi } from '../constants/abi/safe'
+import { InvalidArgumentError } from '../errors'
+import {
+  CallData,
+  SafeSignature,
+  SafeTransaction,
+  SafeTransactionBuilderJson,
+} from '../types'
+
+const SAFE_OPERATION_CALL = 0
+const SAFE_OPERATION_DELEGATE_CALL = 1
+
+const SafeTxTypes = {
+  SafeTx: [
+    { name: 'to', type: 'address' },
+    { name: 'value', type: 'uint256' },
+    { name: 'data', type: 'bytes' },
+    { name: 'operation', type: 'uint8' },
+    { name: 'safeTxGas', type: 'uint256' },
+    { name: 'baseGas', type: 'uint256' },
+    { name: 'gasPrice', type: 'uint256' },
+    { name: 'gasToken', type: 'address' },
+    { name: 'refundReceiver', type: 'address' },
+    { name: 'nonce', type: 'uint256' },
+  ],
+} as const
+
+export const getSafeTypedData = ({
+  safeAddress,
+  safeTransaction,
+  chainId,
+}: {
+  safeAddress: Address
+  safeTransaction: SafeTransaction
+  chainId: number
+}) => {
+  return {
+    domain: {
+      chainId,
+      verifyingContract: safeAddress,
+    },
+    types: SafeTxTypes,
+    primaryType: 'SafeTx' as const,
+    message: safeTransaction,
+  }
+}
+
+export const getSafeTransactionHash = (args: {
+  safeAddress: Address
+  safeTransaction: SafeTransaction
+  chainId: number
+}): Hash => {
+  return hashTypedData(getSafeTypedData(args))
+}
+
+// Packs calls in the format expected by MultiSend: operation (uint8), to,
+// value, data length and data for each call
+export const encodeMultiSendData = (calls: CallData[]): Hex => {
+  return concat(
+    calls.map((call) =>
+      encodePacked(
+        ['uint8', 'address', 'uint256', 'uint256', 'bytes'],
+        [
+          SAFE_OPERATION_CALL,
+          call.address as Address,
+          call.value ?? BigInt(0),
+          BigInt(size(call.data)),
+          call.data,
+        ],
+      ),
+    ),
+  )
+}
+
+export const getSafeTransaction = ({
+  calls,
+  nonce,
+  multiSendAddress = SAFE_MULTI_SEND_CALL_ONLY_ADDRESS,
+}: {
+  calls: CallData[]
+  nonce: bigint
+  multiSendAddress?: Address
+}): SafeTransaction => {
+  if (calls.length === 0)
+    throw new InvalidArgumentError('At least one call is required')
+
+  const transactionFields = {
+    safeTxGas: BigInt(0),
+    baseGas: BigInt(0),
+    gasPrice: BigInt(0),
+    gasToken: zeroAddress,
+    refundReceiver: zeroAddress,
+    nonce,
+  }
+
+  if (calls.length === 1)
+    return {
+      to: calls[0].address as Address,
+      value: calls[0].value ?? BigInt(0),
+      data: calls[0].data,
+      operation: SAFE_OPERATION_CALL,
+      ...transactionFields,
+    }
+
+  return {
+    to: multiSendAddress,
+    value: BigInt(0),
+    data: encodeFunctionData({
+      abi: multiSendCallOnlyAbi,
+      functionName: 'multiSend',
+      args: [encodeMultiSendData(calls)],
+    }),
+    operation: SAFE_OPERATION_DELEGATE_CALL,
+    ...transactionFields,
+  }
+}
+
+// A signature Safe accepts when the owner itself is the one calling
+// execTransaction (or has approved the hash on chain)
+export const getPreValidatedSafeSignature = (owner: Address): SafeSignature => {
+  return {
+    signer: owner,
+    data: concat([
+      pad(owner.toLowerCase() as Address, { size: 32 }),
+      pad('0x', { size: 32 }),
+      '0x01',
+    ]),
+  }
+}
+
+// Safe requires signatures to be sorted by signer address
+export const combineSafeSignatures = (signatures: SafeSignature[]): Hex => {
+  return concat(
+    [...signatures]
+      .sort((a, b) => {
+        if (a.signer.toLowerCase() > b.signer.toLowerCase()) return 1
+        return -1
+      })
+      .map((signature) => signature.data),
+  )
+}
+
+export const getSafeTransactionBuilderJson = ({
+  safeAddress,
+  calls,
+  chainId,
+  name = 'Transactions Batch',
+  description = '',
+  createdAt = Date.now(),
+}: {
+  safeAddress: Address
+  calls: CallData[]
+  chainId: number
+  name?: string
+  description?: string
+  createdAt?: number
+}): SafeTransactionBuilderJson => {
+  return {
+    version: '1.0',
+    chainId: chainId.toString(),
+    createdAt,
+    meta: {
+      name,
+      description,
+      txBuilderVersion: SAFE_TX_BUILDER_VERSION,
+      createdFromSafeAddress: safeAddress,
+      createdFromOwnerAddress: '',
+    },
+    transactions: calls.map((call) => {
+      return {
+        to: call.address as Address,
+        value: (call.value ?? BigInt(0)).toString(),
+        data: call.data,
+        contractMethod: null,
+        contractInputsValues: null,
+      }
+    }),
+  }
+}
@@ -0,0 +1,233 @@
+import {
+  Address,
+  Chain,
+  Hex,
+  PublicClient,
+  Transport,
+  concat,
+  encodeAbiParameters,
+  getContractAddress,
+  keccak256,
+  zeroAddress,
+} from 'viem'
+
+import {
+  getSaltFromIndex,
+  getSplitV2InitCodeHash,
+  getSplitV2SaltPreimagePrefix,
+  matchesSaltPattern,
+  mineSplitV2Salt,
+  predictSplitV2Address,
+} from './saltMining'
+import { SplitV2Client } from '../client/splitV2'
+import {
+  PULL_SPLIT_V2o1_ADDRESS,
+  PULL_SPLIT_V2o1_FACTORY_ADDRESS,
+} from '../constants'
+import {
+  InvalidArgumentError,
+  InvalidConfigError,
+  SaltNotFoundError,
+} from '../errors'
+
+const OWNER: Address = '0xD57f3Fa0b49E91eaA20e739c874Ae273Bcf2D7Aa'
+const RECIPIENT_ONE: Address = '0x1111111111111111111111111111111111111111'
+const RECIPIENT_TWO: Address = '0x2222222222222222222222222222222222222222'
+const START_SALT: Hex =
+  '0x0000000000000000000000000000000000000000000000000000000000000000'
+
+const MINING_CONFIG = {
+  saltPreimagePrefix: getSplitV2SaltPreimagePrefix({
+    recipients: [RECIPIENT_ONE, RECIPIENT_TWO],
+    allocations: [BigInt(600000), BigInt(400000)],
+    totalAllocation: BigInt(1000000),
+    distributionIncentive: 0,
+    ownerAddress: OWNER,
+  }),
+  factoryAddress: PULL_SPLIT_V2o1_FACTORY_ADDRESS as Address,
+  initCodeHash: getSplitV2InitCodeHash(PULL_SPLIT_V2o1_ADDRESS),
+  startSalt: START_SALT,
+}
+
+describe('Salt mining', () => {
+  test('Counts salts up from the start salt', () => {
+    expect(getSaltFromIndex(START_SALT, 10)).toEqual(
+      '0x000000000000000000000000000000000000000000000000000000000000000a',
+    )
+    expect(
+      getSaltFromIndex(
+        '0xffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffff',
+        1,
+      ),
+    ).toEqual(START_SALT)
+  })
+
+  test('Matches prefixes and suffixes', () => {
+    const address: Address = '0xAbC0000000000000000000000000000000000dEf'
+
+    expect(matchesSaltPattern(address, { prefix: 'abc', suffix: 'DEF' })).toBe(
+      true,
+    )
+    expect(
+      matchesSaltPattern(address, { prefix: 'abc', caseSensitive: true }),
+    ).toBe(false)
+    expect(
+      matchesSaltPattern(address, { prefix: 'AbC', caseSensitive: true }),
+    ).toBe(true)
+  })
+
+  test('Finds a salt for the pattern', async () => {
+    const result = await mineSplitV2Salt({
+      ...MINING_CONFIG,
+      pattern: { prefix: '0' },
+    })
+
+    expect(result.splitAddress.slice(2, 3)).toEqual('0')
+    expect(
+      predictSplitV2Address({ ...MINING_CONFIG, salt: result.salt }),
+    ).toEqual(result.splitAddress)
+    expect(result.salt).toEqual(
+      getSaltFromIndex(START_SALT, result.attempts - 1),
+    )
+  })
+
+  test('Gives up after the max attempts', async () => {
+    await expect(
+      mineSplitV2Salt({
+        ...MINING_CONFIG,
+        pattern: { prefix: 'ffffffff' },
+        maxAttempts: 10,
+      }),
+    ).rejects.toThrow(SaltNotFoundError)
+  })
+
+  test('Stops when aborted', async () => {
+    const controller = new AbortController()
+    const search = mineSplitV2Salt({
+      ...MINING_CONFIG,
+      pattern: { prefix: 'ffffffffff' },
+      signal: controller.signal,
+    })
+    controller.abort(new Error('cancelled'))
+
+    await expect(search).rejects.toThrow('cancelled')
+  })
+
+  test('Rejects patterns that are not hex', async () => {
+    await expect(
+      mineSplitV2Salt({ ...MINING_CONFIG, pattern: { prefix: 'xyz' } }),
+    ).rejects.toThrow(InvalidArgumentError)
+  })
+})
+
+// What the factory does on chain: the split params and owner are abi encoded
+// with the salt appended, and the split is a CREATE2 clone of the wallet
+// implementation
+const factoryPredictDeterministicAddress = (
+  splitParams: {
+    recipients: Address[]
+    allocations: bigint[]
+    totalAllocation: bigint
+    distributionIncentive: number
+  },
+  owner: Address,
+  salt: Hex,
+): Address => {
+  const encodedParams = encodeAbiParameters(
+    [
+      {
+        type: 'tuple',
+        components: [
+          { name: 'recipients', type: 'address[]' },
+          { name: 'allocations', type: 'uint256[]' },
+          { name: 'totalAllocation', type: 'uint256' },
+          { name: 'distributionIncentive', type: 'uint16' },
+        ],
+      },
+      { type: 'address' },
+    ],
+    [splitParams, owner],
+  )
+
+  return getContractAddress({
+    opcode: 'CREATE2',
+    from: PULL_SPLIT_V2o1_FACTORY_ADDRESS as Address,
+    salt: keccak256(concat([encodedParams, salt])),
+    bytecode: concat([
+      '0x602c3d8160093d39f33d3d3d3d363d3d37363d73',
+      PULL_SPLIT_V2o1_ADDRESS,
+      '0x5af43d3d93803e602a57fd5bf3',
+    ]),
+  })
+}
+
+describe('Split V2 salt search', () => {
+  const mockGetBytecode = jest.fn()
+  const mockReadContract = jest.fn(
+    async ({
+      functionName,
+      args,
+    }: {
+      functionName: string
+      args: Parameters<typeof factoryPredictDeterministicAddress>
+    }) => {
+      if (functionName === 'SPLIT_WALLET_IMPLEMENTATION')
+        return PULL_SPLIT_V2o1_ADDRESS
+      return factoryPredictDeterministicAddress(...args)
+    },
+  )
+  const client = new SplitV2Client({
+    chainId: 1,
+    publicClient: {
+      chain: { id: 1 },
+      readContract: mockReadContract,
+      getBytecode: mockGetBytecode,
+    } as unknown as PublicClient<Transport, Chain>,
+  })
+  const createSplitArgs = {
+    recipients: [
+      { address: RECIPIENT_ONE, percentAllocation: 60 },
+      { address: RECIPIENT_TWO, percentAllocation: 40 },
+    ],
+    distributorFeePercent: 0,
+    ownerAddress: OWNER,
+  }
+
+  beforeEach(() => {
+    mockGetBytecode.mockReset()
+  })
+
+  test('Skips addresses that are already deployed', async () => {
+    mockGetBytecode.mockResolvedValueOnce('0x6000').mockResolvedValue(undefined)
+
+    const result = await client.findDeterministicSalt({
+      ...createSplitArgs,
+      pattern: { prefix: '0' },
+      startSalt: START_SALT,
+    })
+    const firstMatch = await mineSplitV2Salt({
+      ...MINING_CONFIG,
+      pattern: { prefix: '0' },
+    })
+
+    expect(mockGetBytecode).toHaveBeenCalledTimes(2)
+    expect(result.splitAddress).not.toEqual(firstMatch.splitAddress)
+    expect(result.attempts).toBeGreaterThan(firstMatch.attempts)
+    expect(result.createSplitArgs).toEqual({
+      ...createSplitArgs,
+      salt: result.salt,
+    })
+  })
+
+  test('Fails when the factory predicts a different address', async () => {
+    mockReadContract.mockImplementationOnce(async () => PULL_SPLIT_V2o1_ADDRESS)
+    mockReadContract.mockImplementationOnce(async () => zeroAddress)
+
+    await expect(
+      client.findDeterministicSalt({
+        ...createSplitArgs,
+        pattern: { prefix: '0' },
+      }),
+    ).rejects.toThrow(InvalidConfigError)
+  })
+})
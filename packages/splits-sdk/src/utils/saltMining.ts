@@ -0,0 +1,190 @@
+import {
+  Address,
+  Hex,
+  concat,
+  encodeAbiParameters,
+  getAddress,
+  hexToBigInt,
+  keccak256,
+  maxUint256,
+  toHex,
+} from 'viem'
+
+import { InvalidArgumentError, SaltNotFoundError } from '../errors'
+import type { SaltMiningConfig, SaltMiningResult, SaltPattern } from '../types'
+
+const MAX_SALT = maxUint256 + BigInt(1)
+// Attempts between yields to the event loop, so an abort can get through
+const SALTS_PER_BATCH = 1_000
+
+// Split V2 factories deploy splits as minimal proxies of the split wallet
+// implementation
+export const getSplitV2InitCodeHash = (implementationAddress: Address): Hex => {
+  return keccak256(
+    concat([
+      '0x602c3d8160093d39f33d3d3d3d363d3d37363d73',
+      implementationAddress,
+      '0x5af43d3d93803e602a57fd5bf3',
+    ]),
+  )
+}
+
+export const getSplitV2SaltPreimagePrefix = ({
+  recipients,
+  allocations,
+  totalAllocation,
+  distributionIncentive,
+  ownerAddress,
+}: {
+  recipients: Address[]
+  allocations: bigint[]
+  totalAllocation: bigint
+  distributionIncentive: number
+  ownerAddress: Address
+}): Hex => {
+  return encodeAbiParameters(
+    [
+      {
+        type: 'tuple',
+        components: [
+          { name: 'recipients', type: 'address[]' },
+          { name: 'allocations', type: 'uint256[]' },
+          { name: 'totalAllocation', type: 'uint256' },
+          { name: 'distributionIncentive', type: 'uint16' },
+        ],
+      },
+      { type: 'address' },
+    ],
+    [
+      { recipients, allocations, totalAllocation, distributionIncentive },
+      ownerAddress,
+    ],
+  )
+}
+
+// The address the factory deploys a split to for a salt, computed locally
+export const predictSplitV2Address = ({
+  saltPreimagePrefix,
+  factoryAddress,
+  initCodeHash,
+  salt,
+}: Pick<
+  SaltMiningConfig,
+  'saltPreimagePrefix' | 'factoryAddress' | 'initCodeHash'
+> & { salt: Hex }): Address => {
+  const factorySalt = keccak256(concat([saltPreimagePrefix, salt]))
+  const hash = keccak256(
+    concat(['0xff', factoryAddress, factorySalt, initCodeHash]),
+  )
+
+  return getAddress(`0x${hash.slice(26)}`)
+}
+
+export const getSaltFromIndex = (startSalt: Hex, index: number): Hex => {
+  return toHex((hexToBigInt(startSalt) + BigInt(index)) % MAX_SALT, {
+    size: 32,
+  })
+}
+
+export const validateSaltPattern = ({ prefix, suffix }: SaltPattern) => {
+  ;[prefix, suffix].map((part) => {
+    if (part && !/^[0-9a-fA-F]*$/.test(part))
+      throw new InvalidArgumentError(`Salt pattern ${part} is not hex`)
+  })
+  if ((prefix?.length ?? 0) + (suffix?.length ?? 0) > 40)
+    throw new InvalidArgumentError('Salt pattern is longer than an address')
+}
+
+export const matchesSaltPattern = (
+  address: Address,
+  { prefix = '', suffix = '', caseSensitive }: SaltPattern,
+): boolean => {
+  const hex = caseSensitive ? address.slice(2) : address.slice(2).toLowerCase()
+  const formattedPrefix = caseSensitive ? prefix : prefix.toLowerCase()
+  const formattedSuffix = caseSensitive ? suffix : suffix.toLowerCase()
+
+  return hex.startsWith(formattedPrefix) && hex.endsWith(formattedSuffix)
+}
+
+type SaltSearchResult = { salt: Hex; splitAddress: Address; index: number }
+
+const searchSalts = ({
+  config,
+  offset,
+  step,
+  attempts,
+}: {
+  config: Omit<SaltMiningConfig, 'maxAttempts' | 'signal'>
+  offset: number
+  step: number
+  attempts: number
+}): SaltSearchResult | undefined => {
+  return Array.from({ length: attempts }).reduce<SaltSearchResult | undefined>(
+    (found, _, attempt) => {
+      if (found) return found
+
+      const index = offset + attempt * step
+      const salt = getSaltFromIndex(config.startSalt, index)
+      const splitAddress = predictSplitV2Address({ ...config, salt })
+      if (matchesSaltPattern(splitAddress, config.pattern))
+        return { salt, splitAddress, index }
+
+      return undefined
+    },
+    undefined,
+  )
+}
+
+// Tries the salts at startSalt + index for index = offset, offset + step, ...
+// up to maxAttempts of them, yielding to the event loop between batches so
+// the search can be aborted. The current thread and worker thread miners
+// share this, splitting the salts between them with offset and step.
+export const searchSaltsInBatches = async ({
+  config,
+  offset = 0,
+  step = 1,
+  maxAttempts,
+  signal,
+}: {
+  config: Omit<SaltMiningConfig, 'maxAttempts' | 'signal'>
+  offset?: number
+  step?: number
+  maxAttempts: number
+  signal?: AbortSignal
+}): Promise<SaltSearchResult> => {
+  const searchBatch = async (attempt: number): Promise<SaltSearchResult> => {
+    if (signal?.aborted)
+      throw signal.reason ?? new Error('Salt search was aborted')
+    if (attempt >= maxAttempts) throw new SaltNotFoundError(maxAttempts)
+
+    const found = searchSalts({
+      config,
+      offset: offset + attempt * step,
+      step,
+      attempts: Math.min(SALTS_PER_BATCH, maxAttempts - attempt),
+    })
+    if (found) return found
+
+    await new Promise((resolve) => setTimeout(resolve, 0))
+    return await searchBatch(attempt + SALTS_PER_BATCH)
+  }
+
+  return await searchBatch(0)
+}
+
+// Searches on the current thread, works anywhere the sdk does
+export const mineSplitV2Salt = async ({
+  maxAttempts = Number.MAX_SAFE_INTEGER,
+  signal,
+  ...config
+}: SaltMiningConfig): Promise<SaltMiningResult> => {
+  validateSaltPattern(config.pattern)
+
+  const { salt, splitAddress, index } = await searchSaltsInBatches({
+    config,
+    maxAttempts,
+    signal,
+  })
+
+  return { salt, splitAddress, attempts: index + 1 }
+}
@@ -0,0 +1,97 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { Address, Hex } from 'viem'
+
+import {
+  getSplitV2InitCodeHash,
+  getSplitV2SaltPreimagePrefix,
+  matchesSaltPattern,
+  predictSplitV2Address,
+} from './saltMining'
+import { mineSplitV2SaltWithWorkers } from './saltMiningWorker'
+import {
+  PULL_SPLIT_V2o1_ADDRESS,
+  PULL_SPLIT_V2o1_FACTORY_ADDRESS,
+} from '../constants'
+import { InvalidArgumentError, SaltNotFoundError } from '../errors'
+
+const OWNER: Address = '0xD57f3Fa0b49E91eaA20e739c874Ae273Bcf2D7Aa'
+const RECIPIENT_ONE: Address = '0x1111111111111111111111111111111111111111'
+const RECIPIENT_TWO: Address = '0x2222222222222222222222222222222222222222'
+const START_SALT: Hex =
+  '0x0000000000000000000000000000000000000000000000000000000000000000'
+
+const MINING_CONFIG = {
+  saltPreimagePrefix: getSplitV2SaltPreimagePrefix({
+    recipients: [RECIPIENT_ONE, RECIPIENT_TWO],
+    allocations: [BigInt(600000), BigInt(400000)],
+    totalAllocation: BigInt(1000000),
+    distributionIncentive: 0,
+    ownerAddress: OWNER,
+  }),
+  factoryAddress: PULL_SPLIT_V2o1_FACTORY_ADDRESS as Address,
+  initCodeHash: getSplitV2InitCodeHash(PULL_SPLIT_V2o1_ADDRESS),
+  startSalt: START_SALT,
+}
+
+describe('Salt mining with workers', () => {
+  // Workers can't run typescript, so they go through ts-node here
+  const directory = mkdtempSync(join(tmpdir(), 'salt-mining-'))
+  const workerFile = join(directory, 'worker.js')
+  const crashingWorkerFile = join(directory, 'crashingWorker.js')
+  writeFileSync(
+    workerFile,
+    [
+      `require(${JSON.stringify(
+        require.resolve('ts-node'),
+      )}).register({ transpileOnly: true, compilerOptions: { module: 'commonjs' } })`,
+      `require(${JSON.stringify(join(__dirname, 'saltMiningWorker.ts'))})`,
+    ].join('\n'),
+  )
+  writeFileSync(crashingWorkerFile, 'process.exit(3)')
+
+  afterAll(() => {
+    rmSync(directory, { recursive: true, force: true })
+  })
+
+  test('Finds a matching salt across the workers', async () => {
+    const pattern = { prefix: '00' }
+    const result = await mineSplitV2SaltWithWorkers({ workers: 2, workerFile })(
+      { ...MINING_CONFIG, pattern },
+    )
+
+    expect(matchesSaltPattern(result.splitAddress, pattern)).toBe(true)
+    expect(
+      predictSplitV2Address({ ...MINING_CONFIG, salt: result.salt }),
+    ).toEqual(result.splitAddress)
+  }, 60_000)
+
+  test('Fails once every worker has run out of salts', async () => {
+    await expect(
+      mineSplitV2SaltWithWorkers({ workers: 2, workerFile })({
+        ...MINING_CONFIG,
+        pattern: { prefix: 'ffffffffff' },
+        maxAttempts: 10,
+      }),
+    ).rejects.toThrow(SaltNotFoundError)
+  }, 60_000)
+
+  test('Fails when a worker exits without reporting', async () => {
+    await expect(
+      mineSplitV2SaltWithWorkers({
+        workers: 2,
+        workerFile: crashingWorkerFile,
+      })({ ...MINING_CONFIG, pattern: { prefix: '00' } }),
+    ).rejects.toThrow('Salt mining worker exited with code 3 before reporting')
+  })
+
+  test('Needs a worker file outside of the compiled sdk', async () => {
+    await expect(
+      mineSplitV2SaltWithWorkers({ workers: 2 })({
+        ...MINING_CONFIG,
+        pattern: { prefix: '00' },
+      }),
+    ).rejects.toThrow(InvalidArgumentError)
+  })
+})
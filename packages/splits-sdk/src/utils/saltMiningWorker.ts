@@ -0,0 +1,129 @@
+import { cpus } from 'os'
+import { Worker, isMainThread, parentPort, workerData } from 'worker_threads'
+
+import { InvalidArgumentError, SaltNotFoundError } from '../errors'
+import type { SaltMiner, SaltMiningConfig } from '../types'
+import { searchSaltsInBatches, validateSaltPattern } from './saltMining'
+
+// Node only, kept out of the main entry point so browser bundles don't pull
+// in worker_threads. Import it from '@zksoju/splits-sdk/utils/saltMiningWorker'.
+// Any worker file that imports this module runs the search, which is how
+// setups that don't run the compiled sdk (ts-node, ESM bundlers) can point
+// workerFile at a file of their own.
+
+type SaltWorkerData = {
+  saltMining: {
+    config: Omit<SaltMiningConfig, 'maxAttempts' | 'signal'>
+    offset: number
+    step: number
+    maxAttempts: number
+  }
+}
+
+if (!isMainThread && (workerData as SaltWorkerData | undefined)?.saltMining) {
+  const { config, offset, step, maxAttempts } = (workerData as SaltWorkerData)
+    .saltMining
+  searchSaltsInBatches({ config, offset, step, maxAttempts })
+    .then((found) => parentPort?.postMessage({ found }))
+    .catch((error) => {
+      if (!(error instanceof SaltNotFoundError)) throw error
+      parentPort?.postMessage({ found: undefined })
+    })
+}
+
+// Workers can only run this file once it's compiled to commonjs
+const getDefaultWorkerFile = (): string | undefined => {
+  if (typeof __filename === 'undefined' || !__filename.endsWith('.js'))
+    return undefined
+
+  return __filename
+}
+
+// Splits the salts between worker threads, each trying every workers'th salt.
+// The first match wins and the other workers are stopped.
+export const mineSplitV2SaltWithWorkers = ({
+  workers = cpus().length,
+  workerFile = getDefaultWorkerFile(),
+}: {
+  workers?: number
+  // A file that imports this module, defaults to the compiled module itself
+  workerFile?: string | URL
+} = {}): SaltMiner => {
+  return async ({
+    maxAttempts = Number.MAX_SAFE_INTEGER,
+    signal,
+    ...config
+  }) => {
+    validateSaltPattern(config.pattern)
+    if (!workerFile)
+      throw new InvalidArgumentError(
+        'Salt mining workers need a compiled worker file, pass a workerFile that imports @zksoju/splits-sdk/utils/saltMiningWorker',
+      )
+    if (signal?.aborted)
+      throw signal.reason ?? new Error('Salt search was aborted')
+
+    const threads = Array.from({ length: workers }).map(
+      (_, offset) =>
+        new Worker(workerFile, {
+          workerData: {
+            saltMining: {
+              config,
+              offset,
+              step: workers,
+              maxAttempts: Math.ceil((maxAttempts - offset) / workers),
+            },
+          } as SaltWorkerData,
+        }),
+    )
+    const stop = () => threads.map((thread) => thread.terminate())
+
+    return await new Promise((resolve, reject) => {
+      let settled = false
+      const finish = () => {
+        settled = true
+        signal?.removeEventListener('abort', onAbort)
+        stop()
+      }
+      const onAbort = () => {
+        finish()
+        reject(signal?.reason ?? new Error('Salt search was aborted'))
+      }
+      signal?.addEventListener('abort', onAbort, { once: true })
+
+      const reported = new Set<Worker>()
+      threads.map((thread) => {
+        thread.on('error', (error) => {
+          if (settled) return
+          finish()
+          reject(error)
+        })
+        // A worker that dies without reporting would otherwise leave the
+        // search waiting on it forever
+        thread.on('exit', (exitCode) => {
+          if (settled || reported.has(thread)) return
+          finish()
+          reject(
+            new Error(
+              `Salt mining worker exited with code ${exitCode} before reporting`,
+            ),
+          )
+        })
+        thread.on('message', ({ found }) => {
+          if (settled) return
+          reported.add(thread)
+          if (found) {
+            finish()
+            resolve({
+              salt: found.salt,
+              splitAddress: found.splitAddress,
+              attempts: found.index + 1,
+            })
+          } else if (reported.size === workers) {
+            finish()
+            reject(new SaltNotFoundError(maxAttempts))
+          }
+        })
+      })
+    })
+  }
+}
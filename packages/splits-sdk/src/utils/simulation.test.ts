@@ -0,0 +1,170 @@
+import {
+  Address,
+  Log,
+  encodeAbiParameters,
+  encodeErrorResult,
+  encodeEventTopics,
+  erc20Abi,
+  numberToHex,
+  pad,
+} from 'viem'
+
+import { warehouseAbi } from '../constants/abi/warehouse'
+import { PausedError, SimulationRevertedError } from '../errors'
+import {
+  decodeSimulatedLogs,
+  getBalanceChangesFromLogs,
+  getSimulationRevertedError,
+} from './simulation'
+
+const TOKEN: Address = '0xD57f3Fa0b49E91eaA20e739c874Ae273Bcf2D7Aa'
+const SPLIT: Address = '0xE1D4BCd79552d815Eb5A8Fb2479Ad770E15BB17e'
+const ALICE: Address = '0xE9762Fb8D5347474375Ce00628d5a13D8AD45A99'
+const WAREHOUSE: Address = '0x8fb66F38cF86A3d5e8768f8F1754A24A6c661Fb8'
+
+const erc20Transfer = (from: Address, to: Address, amount: bigint): Log => {
+  return {
+    address: TOKEN,
+    topics: encodeEventTopics({
+      abi: erc20Abi,
+      eventName: 'Transfer',
+      args: { from, to },
+    }),
+    data: encodeAbiParameters([{ type: 'uint256' }], [amount]),
+  } as unknown as Log
+}
+
+const warehouseTransfer = (
+  sender: Address,
+  receiver: Address,
+  amount: bigint,
+): Log => {
+  return {
+    address: WAREHOUSE,
+    topics: encodeEventTopics({
+      abi: warehouseAbi,
+      eventName: 'Transfer',
+      args: { sender, receiver, id: BigInt(TOKEN) },
+    }),
+    data: encodeAbiParameters(
+      [{ type: 'address' }, { type: 'uint256' }],
+      [SPLIT, amount],
+    ),
+  } as unknown as Log
+}
+
+describe('Simulation balance changes', () => {
+  test('Erc20 transfers are netted per account', () => {
+    const changes = getBalanceChangesFromLogs([
+      erc20Transfer(SPLIT, ALICE, BigInt(100)),
+      erc20Transfer(ALICE, SPLIT, BigInt(30)),
+    ])
+
+    expect(changes).toEqual([
+      { token: TOKEN, account: SPLIT, amount: BigInt(-70), warehouse: false },
+      { token: TOKEN, account: ALICE, amount: BigInt(70), warehouse: false },
+    ])
+  })
+
+  test('Zero net changes are dropped', () => {
+    const changes = getBalanceChangesFromLogs([
+      erc20Transfer(SPLIT, ALICE, BigInt(5)),
+      erc20Transfer(ALICE, SPLIT, BigInt(5)),
+    ])
+
+    expect(changes).toEqual([])
+  })
+
+  test('Warehouse transfers are reported against the token', () => {
+    const changes = getBalanceChangesFromLogs([
+      warehouseTransfer(SPLIT, ALICE, BigInt(42)),
+    ])
+
+    expect(changes).toEqual([
+      { token: TOKEN, account: SPLIT, amount: BigInt(-42), warehouse: true },
+      { token: TOKEN, account: ALICE, amount: BigInt(42), warehouse: true },
+    ])
+  })
+
+  test('Erc721 transfers are ignored', () => {
+    const nftTransfer = {
+      ...erc20Transfer(SPLIT, ALICE, BigInt(1)),
+      data: '0x',
+    } as Log
+    nftTransfer.topics = [...nftTransfer.topics, pad(numberToHex(7))]
+
+    expect(getBalanceChangesFromLogs([nftTransfer])).toEqual([])
+  })
+})
+
+describe('Simulation events', () => {
+  test('Known events are decoded and unknown logs skipped', () => {
+    const unknownLog = {
+      address: SPLIT,
+      topics: [pad('0x1234')],
+      data: '0x',
+    } as unknown as Log
+
+    const events = decodeSimulatedLogs(
+      [erc20Transfer(SPLIT, ALICE, BigInt(9)), unknownLog],
+      [],
+    )
+
+    expect(events).toHaveLength(1)
+    expect(events[0].eventName).toEqual('Transfer')
+    expect(events[0].args).toEqual({ from: SPLIT, to: ALICE, value: BigInt(9) })
+  })
+})
+
+describe('Simulation reverts', () => {
+  test('Custom errors are decoded into typed contract errors', () => {
+    const data = encodeErrorResult({
+      abi: warehouseAbi,
+      errorName: 'WithdrawalPaused',
+      args: [ALICE],
+    })
+
+    const error = getSimulationRevertedError({
+      data,
+      contractAbi: warehouseAbi,
+    })
+
+    expect(error).toBeInstanceOf(PausedError)
+    expect(error.errorName).toEqual('WithdrawalPaused')
+    expect(error.args).toEqual([ALICE])
+    expect((error as PausedError).cause).toBeInstanceOf(SimulationRevertedError)
+  })
+
+  test('Revert strings are decoded', () => {
+    const data = encodeErrorResult({
+      abi: [
+        {
+          type: 'error',
+          name: 'Error',
+          inputs: [{ name: 'message', type: 'string' }],
+        },
+      ],
+      errorName: 'Error',
+      args: ['nope'],
+    })
+
+    const error = getSimulationRevertedError({ data, contractAbi: [] })
+
+    expect(error).toBeInstanceOf(SimulationRevertedError)
+    expect(error.errorName).toEqual('Error')
+    expect(error.args).toEqual(['nope'])
+  })
+
+  test('Unknown revert data keeps the rpc message', () => {
+    const error = getSimulationRevertedError({
+      data: '0xdeadbeef',
+      message: 'execution reverted',
+      contractAbi: warehouseAbi,
+    })
+
+    expect(error).toBeInstanceOf(SimulationRevertedError)
+    expect(error.errorName).toBeUndefined()
+    expect(error.message).toEqual('execution reverted')
+    expect((error as SimulationRevertedError).data).toEqual('0xdeadbeef')
+  })
+})
@@ -0,0 +1,133 @@
+import {
+  Abi,
+  Address,
+  Hex,
+  Log,
+  decodeErrorResult,
+  decodeEventLog,
+  encodeEventTopics,
+  erc20Abi,
+  getAddress,
+  hexToBigInt,
+  numberToHex,
+} from 'viem'
+
+import { warehouseAbi } from '../constants/abi/warehouse'
+import { ContractRevertedError, SimulationRevertedError } from '../errors'
+import { SimulatedBalanceChange, SimulatedEvent } from '../types'
+import { getContractRevertedError } from './errors'
+
+const ERC20_TRANSFER_TOPIC = encodeEventTopics({
+  abi: erc20Abi,
+  eventName: 'Transfer',
+})[0]
+const WAREHOUSE_TRANSFER_TOPIC = encodeEventTopics({
+  abi: warehouseAbi,
+  eventName: 'Transfer',
+})[0]
+
+// Events that show up in most splits simulations regardless of the contract
+// being called: token transfers and warehouse balance updates
+const COMMON_EVENT_ABI = [...erc20Abi, ...warehouseAbi].filter(
+  (item) => item.type === 'event',
+)
+
+export const decodeSimulatedLogs = (
+  logs: Log[],
+  contractAbi: Abi,
+): SimulatedEvent[] => {
+  const abi = [...contractAbi, ...COMMON_EVENT_ABI]
+
+  return logs.flatMap((log) => {
+    try {
+      const { eventName, args } = decodeEventLog({
+        abi,
+        data: log.data,
+        topics: log.topics,
+      })
+      return [{ address: log.address, eventName, args, log }]
+    } catch {
+      // Unknown event, still available in the raw logs
+      return []
+    }
+  })
+}
+
+// Sums erc20 (and traced native) transfers and warehouse transfers into a net
+// balance change per token and account
+export const getBalanceChangesFromLogs = (
+  logs: Log[],
+): SimulatedBalanceChange[] => {
+  const changes: { [key: string]: SimulatedBalanceChange } = {}
+
+  const addChange = (
+    token: Address,
+    account: Address,
+    amount: bigint,
+    warehouse: boolean,
+  ) => {
+    const key = `${warehouse}-${token}-${account}`.toLowerCase()
+    if (!changes[key])
+      changes[key] = { token, account, amount: BigInt(0), warehouse }
+    changes[key].amount += amount
+  }
+
+  logs.forEach((log) => {
+    const [topic, ...indexedArgs] = log.topics
+    // erc721 transfers share the erc20 topic but index the token id
+    if (topic === ERC20_TRANSFER_TOPIC && indexedArgs.length === 2) {
+      const amount = hexToBigInt(log.data)
+      const token = getAddress(log.address)
+      addChange(token, topicToAddress(indexedArgs[0]!), -amount, false)
+      addChange(token, topicToAddress(indexedArgs[1]!), amount, false)
+    } else if (topic === WAREHOUSE_TRANSFER_TOPIC) {
+      const { args } = decodeEventLog({
+        abi: warehouseAbi,
+        eventName: 'Transfer',
+        data: log.data,
+        topics: log.topics,
+      })
+      const token = getAddress(numberToHex(args.id, { size: 20 }))
+      addChange(token, args.sender, -args.amount, true)
+      addChange(token, args.receiver, args.amount, true)
+    }
+  })
+
+  return Object.values(changes).filter((change) => change.amount !== BigInt(0))
+}
+
+// Custom errors become the same typed errors a submitted call reverts with,
+// anything else (require messages, panics) stays a SimulationRevertedError
+export const getSimulationRevertedError = ({
+  data,
+  message,
+  contractAbi,
+}: {
+  data?: Hex
+  message?: string
+  contractAbi: Abi
+}): ContractRevertedError | SimulationRevertedError => {
+  if (!data || data === '0x') return new SimulationRevertedError({ message })
+
+  try {
+    const { errorName, args } = decodeErrorResult({ abi: contractAbi, data })
+    const simulationError = new SimulationRevertedError({
+      errorName,
+      args,
+      data,
+    })
+    if (errorName === 'Error' || errorName === 'Panic') return simulationError
+
+    return getContractRevertedError({
+      errorName,
+      args,
+      cause: simulationError,
+    })
+  } catch {
+    return new SimulationRevertedError({ message, data })
+  }
+}
+
+const topicToAddress = (topic: Hex): Address => {
+  return getAddress(`0x${topic.slice(-40)}`)
+}
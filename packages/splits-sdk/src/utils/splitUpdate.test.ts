@@ -0,0 +1,194 @@
+import { Address, Chain, PublicClient, Transport, zeroAddress } from 'viem'
+
+import { formatSplitUpdateDiff, getSplitUpdateDiff } from './splitUpdate'
+import { SplitV2Client } from '../client/splitV2'
+import { NoopUpdateError } from '../errors'
+import type { Split } from '../types'
+
+const SPLIT_ADDRESS: Address = '0x047Ed5B8E8A7EDBd92fD5B6c2b5F5A3FC8DdFB3B'
+const ADDRESS_ONE: Address = '0x1111111111111111111111111111111111111111'
+const ADDRESS_TWO: Address = '0x2222222222222222222222222222222222222222'
+const ADDRESS_THREE: Address = '0x3333333333333333333333333333333333333333'
+
+const SPLIT: Split = {
+  type: 'SplitV2',
+  address: SPLIT_ADDRESS,
+  controller: { address: zeroAddress },
+  newPotentialController: { address: zeroAddress },
+  distributorFeePercent: 1,
+  distributionsPaused: true,
+  distributeDirection: 'pull',
+  recipients: [
+    {
+      percentAllocation: 60,
+      ownership: BigInt(600000),
+      recipient: { address: ADDRESS_ONE },
+    },
+    {
+      percentAllocation: 40,
+      ownership: BigInt(400000),
+      recipient: { address: ADDRESS_TWO },
+    },
+  ],
+}
+
+describe('Split update diff', () => {
+  test('Reports added, removed and changed recipients', () => {
+    const diff = getSplitUpdateDiff({
+      split: SPLIT,
+      chainId: 1,
+      recipients: [
+        { address: ADDRESS_ONE, percentAllocation: 50 },
+        { address: ADDRESS_THREE, percentAllocation: 50 },
+      ],
+      distributorFeePercent: 2,
+    })
+
+    expect(diff).toEqual({
+      splitAddress: SPLIT_ADDRESS,
+      chainId: 1,
+      addedRecipients: [{ address: ADDRESS_THREE, percentAllocation: 50 }],
+      removedRecipients: [{ address: ADDRESS_TWO, percentAllocation: 40 }],
+      changedRecipients: [
+        {
+          address: ADDRESS_ONE,
+          oldPercentAllocation: 60,
+          newPercentAllocation: 50,
+        },
+      ],
+      distributorFeePercent: { old: 1, new: 2 },
+      totalAllocationPercent: { old: 100, new: 100 },
+      distributionsPaused: true,
+      hasChanges: true,
+    })
+    expect(formatSplitUpdateDiff(diff)).toEqual(
+      [
+        `Split ${SPLIT_ADDRESS} on chain 1`,
+        'Recipients:',
+        `  + ${ADDRESS_THREE} 50%`,
+        `  - ${ADDRESS_TWO} 40%`,
+        `  ~ ${ADDRESS_ONE} 60% -> 50%`,
+        'Distributor fee: 1% -> 2%',
+        'Total allocation: 100% (unchanged)',
+        'Distributions paused: yes',
+      ].join('\n'),
+    )
+    expect(JSON.parse(formatSplitUpdateDiff(diff, 'json'))).toEqual(diff)
+  })
+
+  test('Reports updates that change nothing', () => {
+    const diff = getSplitUpdateDiff({
+      split: SPLIT,
+      chainId: 1,
+      recipients: [
+        { address: ADDRESS_TWO, percentAllocation: 40 },
+        { address: ADDRESS_ONE.toLowerCase(), percentAllocation: 60 },
+      ],
+      distributorFeePercent: 1,
+    })
+
+    expect(diff.hasChanges).toEqual(false)
+    expect(formatSplitUpdateDiff(diff).split('\n').slice(0, 2)).toEqual([
+      `Split ${SPLIT_ADDRESS} on chain 1: no changes`,
+      'Recipients: unchanged',
+    ])
+  })
+
+  test('Reports total allocation changes', () => {
+    const diff = getSplitUpdateDiff({
+      split: SPLIT,
+      chainId: 1,
+      recipients: [
+        { address: ADDRESS_ONE, percentAllocation: 120 },
+        { address: ADDRESS_TWO, percentAllocation: 80 },
+      ],
+      distributorFeePercent: 1,
+      totalAllocationPercent: 200,
+    })
+
+    expect(diff.totalAllocationPercent).toEqual({ old: 100, new: 200 })
+    // Each recipient still gets the same share
+    expect(diff.changedRecipients).toEqual([])
+    expect(diff.hasChanges).toEqual(true)
+  })
+
+  test('Compares splits by their own total allocation', () => {
+    // 1.5 and 0.5 out of a total allocation of 2
+    const split: Split = {
+      ...SPLIT,
+      recipients: [
+        {
+          percentAllocation: 75,
+          ownership: BigInt(1_500_000),
+          recipient: { address: ADDRESS_ONE },
+        },
+        {
+          percentAllocation: 25,
+          ownership: BigInt(500_000),
+          recipient: { address: ADDRESS_TWO },
+        },
+      ],
+    }
+
+    const unchanged = getSplitUpdateDiff({
+      split,
+      chainId: 1,
+      recipients: [
+        { address: ADDRESS_ONE, percentAllocation: 150 },
+        { address: ADDRESS_TWO, percentAllocation: 50 },
+      ],
+      distributorFeePercent: 1,
+      totalAllocationPercent: 200,
+    })
+    expect(unchanged.hasChanges).toEqual(false)
+    expect(unchanged.totalAllocationPercent).toEqual({ old: 200, new: 200 })
+
+    const changed = getSplitUpdateDiff({
+      split,
+      chainId: 1,
+      recipients: [
+        { address: ADDRESS_ONE, percentAllocation: 100 },
+        { address: ADDRESS_TWO, percentAllocation: 100 },
+      ],
+      distributorFeePercent: 1,
+      totalAllocationPercent: 200,
+    })
+    expect(changed.changedRecipients).toEqual([
+      {
+        address: ADDRESS_ONE,
+        oldPercentAllocation: 75,
+        newPercentAllocation: 50,
+      },
+      {
+        address: ADDRESS_TWO,
+        oldPercentAllocation: 25,
+        newPercentAllocation: 50,
+      },
+    ])
+  })
+
+  test('Update refuses no-op updates when asked to', async () => {
+    const client = new SplitV2Client({
+      chainId: 1,
+      publicClient: {
+        chain: { id: 1 },
+      } as unknown as PublicClient<Transport, Chain>,
+      apiConfig: { apiKey: '1' },
+    })
+    jest
+      .spyOn(client['_dataClient']!, 'getSplitMetadata')
+      .mockImplementation(async () => SPLIT)
+
+    await expect(
+      client._submitUpdateSplitTransaction({
+        splitAddress: SPLIT_ADDRESS,
+        recipients: [
+          { address: ADDRESS_ONE, percentAllocation: 60 },
+          { address: ADDRESS_TWO, percentAllocation: 40 },
+        ],
+        distributorFeePercent: 1,
+        rejectNoopUpdate: true,
+      }),
+    ).rejects.toThrow(NoopUpdateError)
+  })
+})
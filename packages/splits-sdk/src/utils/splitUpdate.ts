@@ -0,0 +1,156 @@
+import { Address, getAddress } from 'viem'
+
+import { PERCENTAGE_SCALE } from '../constants'
+import type { Split, SplitRecipient, SplitUpdateDiff } from '../types'
+import { getAllocationsFromPercents } from './allocations'
+import { fromBigIntToPercent, getBigIntFromPercent } from './numbers'
+
+const sumAllocations = (
+  recipients: { address: string; allocation: bigint }[],
+): { [address: Address]: bigint } =>
+  recipients.reduce(
+    (acc, { address, allocation }) => {
+      const formattedAddress = getAddress(address)
+      acc[formattedAddress] = (acc[formattedAddress] ?? BigInt(0)) + allocation
+      return acc
+    },
+    {} as { [address: Address]: bigint },
+  )
+
+// Compares a split with the recipients and distributor fee it would be
+// updated to. V2 allocations are in units of the split's own total
+// allocation, so recipients are compared exactly by their share of each
+// side's total and reported as a percent of it.
+export const getSplitUpdateDiff = ({
+  split,
+  chainId,
+  recipients,
+  distributorFeePercent,
+  totalAllocationPercent,
+}: {
+  split: Split
+  chainId: number
+  recipients: SplitRecipient[]
+  distributorFeePercent: number
+  totalAllocationPercent?: number
+}): SplitUpdateDiff => {
+  const oldAllocations = sumAllocations(
+    split.recipients.map(({ recipient, ownership }) => {
+      return { address: recipient.address, allocation: ownership }
+    }),
+  )
+  // The same allocations the update will send
+  const { allocations } = getAllocationsFromPercents(recipients)
+  const newAllocations = sumAllocations(
+    recipients.map(({ address }, index) => {
+      return { address, allocation: allocations[index] }
+    }),
+  )
+  const oldTotalAllocation = Object.values(oldAllocations).reduce(
+    (a, b) => a + b,
+    BigInt(0),
+  )
+  const newTotalAllocation = totalAllocationPercent
+    ? getBigIntFromPercent(totalAllocationPercent)
+    : PERCENTAGE_SCALE
+  const oldPercent = (address: Address) =>
+    fromBigIntToPercent(oldAllocations[address], oldTotalAllocation)
+  const newPercent = (address: Address) =>
+    fromBigIntToPercent(newAllocations[address], newTotalAllocation)
+
+  const oldAddresses = Object.keys(oldAllocations) as Address[]
+  const newAddresses = Object.keys(newAllocations) as Address[]
+  const addedRecipients = newAddresses
+    .filter((address) => oldAllocations[address] === undefined)
+    .map((address) => {
+      return {
+        address,
+        percentAllocation: newPercent(address),
+      }
+    })
+  const removedRecipients = oldAddresses
+    .filter((address) => newAllocations[address] === undefined)
+    .map((address) => {
+      return {
+        address,
+        percentAllocation: oldPercent(address),
+      }
+    })
+  const changedRecipients = newAddresses
+    .filter(
+      (address) =>
+        oldAllocations[address] !== undefined &&
+        oldAllocations[address] * newTotalAllocation !==
+          newAllocations[address] * oldTotalAllocation,
+    )
+    .map((address) => {
+      return {
+        address,
+        oldPercentAllocation: oldPercent(address),
+        newPercentAllocation: newPercent(address),
+      }
+    })
+
+  const oldDistributorFee = getBigIntFromPercent(split.distributorFeePercent)
+  const newDistributorFee = getBigIntFromPercent(distributorFeePercent)
+
+  return {
+    splitAddress: getAddress(split.address),
+    chainId,
+    addedRecipients,
+    removedRecipients,
+    changedRecipients,
+    distributorFeePercent: {
+      old: fromBigIntToPercent(oldDistributorFee),
+      new: fromBigIntToPercent(newDistributorFee),
+    },
+    totalAllocationPercent: {
+      old: fromBigIntToPercent(oldTotalAllocation),
+      new: fromBigIntToPercent(newTotalAllocation),
+    },
+    distributionsPaused: split.distributionsPaused,
+    hasChanges:
+      addedRecipients.length > 0 ||
+      removedRecipients.length > 0 ||
+      changedRecipients.length > 0 ||
+      oldDistributorFee !== newDistributorFee ||
+      oldTotalAllocation !== newTotalAllocation,
+  }
+}
+
+const formatChange = ({ old, new: updated }: { old: number; new: number }) =>
+  old === updated ? `${old}% (unchanged)` : `${old}% -> ${updated}%`
+
+export const formatSplitUpdateDiff = (
+  diff: SplitUpdateDiff,
+  format: 'text' | 'json' = 'text',
+): string => {
+  if (format === 'json') return JSON.stringify(diff, null, 2)
+
+  const recipientLines = [
+    ...diff.addedRecipients.map(
+      ({ address, percentAllocation }) =>
+        `  + ${address} ${percentAllocation}%`,
+    ),
+    ...diff.removedRecipients.map(
+      ({ address, percentAllocation }) =>
+        `  - ${address} ${percentAllocation}%`,
+    ),
+    ...diff.changedRecipients.map(
+      ({ address, oldPercentAllocation, newPercentAllocation }) =>
+        `  ~ ${address} ${oldPercentAllocation}% -> ${newPercentAllocation}%`,
+    ),
+  ]
+
+  return [
+    `Split ${diff.splitAddress} on chain ${diff.chainId}${
+      diff.hasChanges ? '' : ': no changes'
+    }`,
+    ...(recipientLines.length > 0
+      ? ['Recipients:', ...recipientLines]
+      : ['Recipients: unchanged']),
+    `Distributor fee: ${formatChange(diff.distributorFeePercent)}`,
+    `Total allocation: ${formatChange(diff.totalAllocationPercent)}`,
+    `Distributions paused: ${diff.distributionsPaused ? 'yes' : 'no'}`,
+  ].join('\n')
+}
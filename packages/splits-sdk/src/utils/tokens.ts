@@ -1,20 +1,21 @@
 import { Address, getContract, zeroAddress } from 'viem'
 
-import { CHAIN_INFO } from '../constants'
+import { getNativeCurrencySymbol } from '../constants'
 import { erc20Abi } from '../constants/abi/erc20'
-import { SplitsPublicClient } from '../types'
+import { SplitsDeployments, SplitsPublicClient } from '../types'
 
 export const getTokenData = async (
   chainId: number,
   token: Address,
   publicClient: SplitsPublicClient,
+  deployments?: SplitsDeployments,
 ): Promise<{
   symbol: string
   decimals: number
 }> => {
   if (token === zeroAddress) {
     return {
-      symbol: CHAIN_INFO[chainId].nativeCurrency.symbol,
+      symbol: getNativeCurrencySymbol(chainId, deployments),
       decimals: 18,
     }
   }
@@ -0,0 +1,265 @@
+import {
+  BaseError,
+  Hash,
+  RawContractError,
+  WaitForTransactionReceiptTimeoutError,
+  encodeErrorResult,
+} from 'viem'
+
+import { warehouseAbi } from '../constants/abi/warehouse'
+import {
+  InvalidNonceError,
+  TransactionCancelledError,
+  TransactionReplacedError,
+  TransactionRevertedError,
+  TransactionTimeoutError,
+} from '../errors'
+import type { SplitsPublicClient, TransactionStatusUpdate } from '../types'
+import { waitForTransaction } from './transaction'
+
+const TX_HASH: Hash =
+  '0x1111111111111111111111111111111111111111111111111111111111111111'
+const REPLACEMENT_TX_HASH: Hash =
+  '0x2222222222222222222222222222222222222222222222222222222222222222'
+
+const getReceipt = (status: 'success' | 'reverted', hash = TX_HASH) => {
+  return {
+    status,
+    transactionHash: hash,
+    blockNumber: BigInt(10),
+    logs: [],
+  }
+}
+
+describe('Transaction tracking', () => {
+  test('Reports submitted, mined and confirmed', async () => {
+    const waitForTransactionReceipt = jest.fn(async () => getReceipt('success'))
+    const publicClient = {
+      waitForTransactionReceipt,
+    } as unknown as SplitsPublicClient
+    const updates: TransactionStatusUpdate[] = []
+
+    await waitForTransaction({
+      publicClient,
+      txHash: TX_HASH,
+      confirmations: 3,
+      onStatus: (update) => updates.push(update),
+    })
+
+    expect(updates.map((update) => update.status)).toEqual([
+      'submitted',
+      'mined',
+      'confirmed',
+      'confirmed',
+      'confirmed',
+    ])
+    // Every confirmation is reported as it comes in
+    expect(updates.slice(2)).toEqual(
+      [1, 2, 3].map((confirmations) =>
+        expect.objectContaining({
+          confirmations,
+          requiredConfirmations: 3,
+          blockNumber: BigInt(10),
+        }),
+      ),
+    )
+    expect(waitForTransactionReceipt).toHaveBeenCalledTimes(3)
+    expect(waitForTransactionReceipt).toHaveBeenLastCalledWith(
+      expect.objectContaining({ hash: TX_HASH, confirmations: 3 }),
+    )
+  })
+
+  test('Follows replaced transactions', async () => {
+    const publicClient = {
+      waitForTransactionReceipt: jest.fn(async ({ onReplaced }) => {
+        onReplaced?.({
+          reason: 'repriced',
+          transaction: { hash: REPLACEMENT_TX_HASH },
+        })
+        return getReceipt('success', REPLACEMENT_TX_HASH)
+      }),
+    } as unknown as SplitsPublicClient
+    const updates: TransactionStatusUpdate[] = []
+
+    const receipt = await waitForTransaction({
+      publicClient,
+      txHash: TX_HASH,
+      onStatus: (update) => updates.push(update),
+    })
+
+    expect(receipt.transactionHash).toEqual(REPLACEMENT_TX_HASH)
+    expect(updates[1]).toEqual({
+      status: 'replaced',
+      txHash: REPLACEMENT_TX_HASH,
+      replacedTxHash: TX_HASH,
+      reason: 'repriced',
+    })
+    expect(updates[2]).toEqual(
+      expect.objectContaining({ status: 'mined', txHash: REPLACEMENT_TX_HASH }),
+    )
+  })
+
+  test('Cancelled transactions throw', async () => {
+    const publicClient = {
+      waitForTransactionReceipt: jest.fn(async ({ onReplaced }) => {
+        onReplaced?.({
+          reason: 'cancelled',
+          transaction: { hash: REPLACEMENT_TX_HASH },
+        })
+        return getReceipt('success', REPLACEMENT_TX_HASH)
+      }),
+    } as unknown as SplitsPublicClient
+    const updates: TransactionStatusUpdate[] = []
+
+    const error = await waitForTransaction({
+      publicClient,
+      txHash: TX_HASH,
+      onStatus: (update) => updates.push(update),
+    }).catch((e) => e)
+
+    expect(error).toBeInstanceOf(TransactionCancelledError)
+    expect(error.txHash).toEqual(TX_HASH)
+    expect(error.replacementTxHash).toEqual(REPLACEMENT_TX_HASH)
+    expect(updates.map((update) => update.status)).toEqual([
+      'submitted',
+      'replaced',
+    ])
+  })
+
+  test('Transactions replaced by a different call throw', async () => {
+    const publicClient = {
+      waitForTransactionReceipt: jest.fn(async ({ onReplaced }) => {
+        onReplaced?.({
+          reason: 'replaced',
+          transaction: { hash: REPLACEMENT_TX_HASH },
+        })
+        return getReceipt('success', REPLACEMENT_TX_HASH)
+      }),
+    } as unknown as SplitsPublicClient
+    const updates: TransactionStatusUpdate[] = []
+
+    const error = await waitForTransaction({
+      publicClient,
+      txHash: TX_HASH,
+      onStatus: (update) => updates.push(update),
+    }).catch((e) => e)
+
+    expect(error).toBeInstanceOf(TransactionReplacedError)
+    expect(error).not.toBeInstanceOf(TransactionCancelledError)
+    expect(error.txHash).toEqual(TX_HASH)
+    expect(error.replacementTxHash).toEqual(REPLACEMENT_TX_HASH)
+    expect(updates.map((update) => update.status)).toEqual([
+      'submitted',
+      'replaced',
+    ])
+  })
+
+  test('Reverts are decoded by replaying the transaction', async () => {
+    const call = jest.fn(async () => {
+      throw new BaseError('Execution reverted', {
+        cause: new RawContractError({
+          data: encodeErrorResult({
+            abi: warehouseAbi,
+            errorName: 'InvalidNonce',
+          }),
+        }),
+      })
+    })
+    const publicClient = {
+      waitForTransactionReceipt: jest.fn(async () => getReceipt('reverted')),
+      getTransaction: jest.fn(async () => {
+        return { from: TX_HASH, to: TX_HASH, input: '0x', value: BigInt(0) }
+      }),
+      call,
+    } as unknown as SplitsPublicClient
+    const updates: TransactionStatusUpdate[] = []
+
+    const error = await waitForTransaction({
+      publicClient,
+      txHash: TX_HASH,
+      onStatus: (update) => updates.push(update),
+    }).catch((e) => e)
+
+    expect(error).toBeInstanceOf(TransactionRevertedError)
+    expect(error.reason).toBeInstanceOf(InvalidNonceError)
+    expect(call).toHaveBeenCalledWith(
+      expect.objectContaining({ blockNumber: BigInt(9) }),
+    )
+    expect(updates.map((update) => update.status)).toEqual([
+      'submitted',
+      'reverted',
+    ])
+  })
+
+  test('Timeouts are reported', async () => {
+    const publicClient = {
+      waitForTransactionReceipt: jest.fn(async () => {
+        throw new WaitForTransactionReceiptTimeoutError({ hash: TX_HASH })
+      }),
+    } as unknown as SplitsPublicClient
+    const updates: TransactionStatusUpdate[] = []
+
+    await expect(
+      waitForTransaction({
+        publicClient,
+        txHash: TX_HASH,
+        timeout: 1000,
+        onStatus: (update) => updates.push(update),
+      }),
+    ).rejects.toThrow(TransactionTimeoutError)
+    expect(updates.map((update) => update.status)).toEqual([
+      'submitted',
+      'timedOut',
+    ])
+  })
+
+  test('Confirmations share the timeout', async () => {
+    const now = jest.spyOn(Date, 'now').mockReturnValue(0)
+    const waitForTransactionReceipt = jest.fn(async () => {
+      // Mining takes 600ms of the 1000ms timeout
+      now.mockReturnValue(600)
+      return getReceipt('success')
+    })
+    const publicClient = {
+      waitForTransactionReceipt,
+    } as unknown as SplitsPublicClient
+
+    await waitForTransaction({
+      publicClient,
+      txHash: TX_HASH,
+      confirmations: 2,
+      timeout: 1000,
+    })
+    expect(waitForTransactionReceipt).toHaveBeenLastCalledWith(
+      expect.objectContaining({ confirmations: 2, timeout: 400 }),
+    )
+
+    // Nothing left for the confirmations
+    waitForTransactionReceipt.mockImplementation(async () => {
+      now.mockReturnValue(1000)
+      return getReceipt('success')
+    })
+    waitForTransactionReceipt.mockClear()
+    now.mockReturnValue(0)
+    const updates: TransactionStatusUpdate[] = []
+
+    await expect(
+      waitForTransaction({
+        publicClient,
+        txHash: TX_HASH,
+        confirmations: 2,
+        timeout: 1000,
+        onStatus: (update) => updates.push(update),
+      }),
+    ).rejects.toThrow(TransactionTimeoutError)
+    expect(waitForTransactionReceipt).toHaveBeenCalledTimes(1)
+    expect(updates.map((update) => update.status)).toEqual([
+      'submitted',
+      'mined',
+      'confirmed',
+      'timedOut',
+    ])
+
+    now.mockRestore()
+  })
+})
@@ -0,0 +1,200 @@
+import {
+  Hash,
+  TransactionReceipt,
+  WaitForTransactionReceiptTimeoutError,
+} from 'viem'
+
+import {
+  TransactionCancelledError,
+  TransactionReplacedError,
+  TransactionRevertedError,
+  TransactionTimeoutError,
+} from '../errors'
+import type { SplitsPublicClient, TransactionTrackingConfig } from '../types'
+import { decodeContractError } from './errors'
+
+// Waits for a submitted transaction, reporting each step of its lifecycle
+// through onStatus. Follows speed ups to the transaction that actually gets
+// mined, and throws if the transaction was cancelled or replaced by another
+// call.
+export const waitForTransaction = async ({
+  publicClient,
+  txHash,
+  confirmations = 1,
+  timeout,
+  onStatus,
+}: {
+  publicClient: SplitsPublicClient
+  txHash: Hash
+} & TransactionTrackingConfig): Promise<TransactionReceipt> => {
+  onStatus?.({ status: 'submitted', txHash })
+  const deadline = timeout !== undefined ? Date.now() + timeout : undefined
+
+  let replacement: { reason: string; txHash: Hash } | undefined
+  const receipt = await waitForReceipt({
+    publicClient,
+    txHash,
+    timeout,
+    deadline,
+    onStatus,
+    onReplaced: ({ reason, transaction }) => {
+      if (reason !== 'repriced')
+        replacement = { reason, txHash: transaction.hash }
+      onStatus?.({
+        status: 'replaced',
+        txHash: transaction.hash,
+        replacedTxHash: txHash,
+        reason,
+      })
+    },
+  })
+  const { transactionHash, blockNumber } = receipt
+
+  // Only a repriced transaction is the same call. Cancelling sends a no-op
+  // transfer to self with the same nonce, and a replacement is some other
+  // transaction, so the mined receipt says nothing about the original call.
+  if (replacement?.reason === 'cancelled')
+    throw new TransactionCancelledError({
+      txHash,
+      replacementTxHash: replacement.txHash,
+    })
+  if (replacement)
+    throw new TransactionReplacedError({
+      txHash,
+      replacementTxHash: replacement.txHash,
+    })
+
+  if (receipt.status === 'reverted') {
+    const reason = await getRevertReason(publicClient, receipt)
+    onStatus?.({
+      status: 'reverted',
+      txHash: transactionHash,
+      blockNumber,
+      reason,
+    })
+    throw new TransactionRevertedError({ txHash: transactionHash, reason })
+  }
+  onStatus?.({ status: 'mined', txHash: transactionHash, blockNumber })
+
+  return await waitForConfirmations({
+    publicClient,
+    receipt,
+    confirmations: 1,
+    requiredConfirmations: confirmations,
+    timeout,
+    deadline,
+    onStatus,
+  })
+}
+
+// Reports every confirmation until the required count is reached. The mined
+// block is the first one.
+const waitForConfirmations = async ({
+  publicClient,
+  receipt,
+  confirmations,
+  requiredConfirmations,
+  timeout,
+  deadline,
+  onStatus,
+}: {
+  publicClient: SplitsPublicClient
+  receipt: TransactionReceipt
+  confirmations: number
+  requiredConfirmations: number
+  deadline?: number
+} & Omit<
+  TransactionTrackingConfig,
+  'confirmations'
+>): Promise<TransactionReceipt> => {
+  onStatus?.({
+    status: 'confirmed',
+    txHash: receipt.transactionHash,
+    blockNumber: receipt.blockNumber,
+    confirmations,
+    requiredConfirmations,
+  })
+  if (confirmations >= requiredConfirmations) return receipt
+
+  const nextReceipt = await waitForReceipt({
+    publicClient,
+    txHash: receipt.transactionHash,
+    confirmations: confirmations + 1,
+    timeout,
+    deadline,
+    onStatus,
+  })
+
+  return await waitForConfirmations({
+    publicClient,
+    receipt: nextReceipt,
+    confirmations: confirmations + 1,
+    requiredConfirmations,
+    timeout,
+    deadline,
+    onStatus,
+  })
+}
+
+const waitForReceipt = async ({
+  publicClient,
+  txHash,
+  confirmations,
+  timeout,
+  deadline,
+  onStatus,
+  onReplaced,
+}: {
+  publicClient: SplitsPublicClient
+  txHash: Hash
+  // Every wait shares the timeout passed in by the caller
+  deadline?: number
+  onReplaced?: Parameters<
+    SplitsPublicClient['waitForTransactionReceipt']
+  >[0]['onReplaced']
+} & TransactionTrackingConfig): Promise<TransactionReceipt> => {
+  const onTimeout = () => {
+    onStatus?.({ status: 'timedOut', txHash })
+    return new TransactionTimeoutError(txHash, timeout)
+  }
+
+  const remaining = deadline !== undefined ? deadline - Date.now() : undefined
+  if (remaining !== undefined && remaining <= 0) throw onTimeout()
+
+  try {
+    return await publicClient.waitForTransactionReceipt({
+      hash: txHash,
+      confirmations,
+      timeout: remaining,
+      onReplaced,
+    })
+  } catch (error) {
+    if (error instanceof WaitForTransactionReceiptTimeoutError)
+      throw onTimeout()
+    throw error
+  }
+}
+
+// Receipts don't include the revert data, so the transaction is replayed on
+// top of the previous block to recover it
+const getRevertReason = async (
+  publicClient: SplitsPublicClient,
+  receipt: TransactionReceipt,
+): Promise<Error | undefined> => {
+  try {
+    const transaction = await publicClient.getTransaction({
+      hash: receipt.transactionHash,
+    })
+    await publicClient.call({
+      account: transaction.from,
+      to: transaction.to,
+      data: transaction.input,
+      value: transaction.value,
+      blockNumber: receipt.blockNumber - BigInt(1),
+    })
+    return undefined
+  } catch (error) {
+    const reason = decodeContractError(error)
+    return reason instanceof Error ? reason : undefined
+  }
+}
@@ -0,0 +1,251 @@
+import {
+  Address,
+  Client,
+  Hash,
+  Hex,
+  Log,
+  RpcLog,
+  concat,
+  encodeAbiParameters,
+  formatLog,
+  hexToBigInt,
+  keccak256,
+  numberToHex,
+  pad,
+  toHex,
+} from 'viem'
+
+import { TransactionFailedError } from '../errors'
+import { UserOperation } from '../types'
+import { sleep } from '.'
+
+// Bundler methods are not part of viem's public rpc schema, so requests for
+// them go through an untyped request function
+type BundlerRequestFn = (args: {
+  method: string
+  params?: unknown[]
+}) => Promise<unknown>
+
+type RpcUserOperation = {
+  [K in keyof UserOperation]: UserOperation[K] extends bigint | undefined
+    ? Hex | undefined
+    : UserOperation[K]
+}
+
+type RpcUserOperationGasEstimate = {
+  preVerificationGas: Hex
+  verificationGasLimit: Hex
+  callGasLimit: Hex
+  paymasterVerificationGasLimit?: Hex
+  paymasterPostOpGasLimit?: Hex
+}
+
+type RpcUserOperationReceipt = {
+  userOpHash: Hash
+  success: boolean
+  reason?: Hex
+  // Only the logs this user operation emitted
+  logs: RpcLog[]
+  receipt: {
+    transactionHash: Hash
+  }
+}
+
+const getBundlerRequest = (bundlerClient: Client): BundlerRequestFn => {
+  return bundlerClient.request as unknown as BundlerRequestFn
+}
+
+const packUint128s = (high: bigint, low: bigint): Hex => {
+  return concat([pad(toHex(high), { size: 16 }), pad(toHex(low), { size: 16 })])
+}
+
+export const formatUserOperationRequest = (
+  userOperation: UserOperation,
+): RpcUserOperation => {
+  const optionalHex = (value?: bigint) =>
+    value === undefined ? undefined : numberToHex(value)
+
+  return {
+    sender: userOperation.sender,
+    nonce: numberToHex(userOperation.nonce),
+    factory: userOperation.factory,
+    factoryData: userOperation.factoryData,
+    callData: userOperation.callData,
+    callGasLimit: numberToHex(userOperation.callGasLimit),
+    verificationGasLimit: numberToHex(userOperation.verificationGasLimit),
+    preVerificationGas: numberToHex(userOperation.preVerificationGas),
+    maxFeePerGas: numberToHex(userOperation.maxFeePerGas),
+    maxPriorityFeePerGas: numberToHex(userOperation.maxPriorityFeePerGas),
+    paymaster: userOperation.paymaster,
+    paymasterVerificationGasLimit: optionalHex(
+      userOperation.paymasterVerificationGasLimit,
+    ),
+    paymasterPostOpGasLimit: optionalHex(userOperation.paymasterPostOpGasLimit),
+    paymasterData: userOperation.paymasterData,
+    signature: userOperation.signature,
+  }
+}
+
+// Matches EntryPoint v0.7 getUserOpHash, which hashes the packed user operation
+export const getUserOperationHash = ({
+  userOperation,
+  entryPointAddress,
+  chainId,
+}: {
+  userOperation: UserOperation
+  entryPointAddress: Address
+  chainId: number
+}): Hash => {
+  const initCode =
+    userOperation.factory && userOperation.factoryData
+      ? concat([userOperation.factory, userOperation.factoryData])
+      : '0x'
+  const paymasterAndData = userOperation.paymaster
+    ? concat([
+        userOperation.paymaster,
+        pad(toHex(userOperation.paymasterVerificationGasLimit ?? BigInt(0)), {
+          size: 16,
+        }),
+        pad(toHex(userOperation.paymasterPostOpGasLimit ?? BigInt(0)), {
+          size: 16,
+        }),
+        userOperation.paymasterData ?? '0x',
+      ])
+    : '0x'
+
+  const packedUserOperation = encodeAbiParameters(
+    [
+      { type: 'address' },
+      { type: 'uint256' },
+      { type: 'bytes32' },
+      { type: 'bytes32' },
+      { type: 'bytes32' },
+      { type: 'uint256' },
+      { type: 'bytes32' },
+      { type: 'bytes32' },
+    ],
+    [
+      userOperation.sender,
+      userOperation.nonce,
+      keccak256(initCode),
+      keccak256(userOperation.callData),
+      packUint128s(
+        userOperation.verificationGasLimit,
+        userOperation.callGasLimit,
+      ),
+      userOperation.preVerificationGas,
+      packUint128s(
+        userOperation.maxPriorityFeePerGas,
+        userOperation.maxFeePerGas,
+      ),
+      keccak256(paymasterAndData),
+    ],
+  )
+
+  return keccak256(
+    encodeAbiParameters(
+      [{ type: 'bytes32' }, { type: 'address' }, { type: 'uint256' }],
+      [keccak256(packedUserOperation), entryPointAddress, BigInt(chainId)],
+    ),
+  )
+}
+
+export const estimateUserOperationGas = async ({
+  bundlerClient,
+  userOperation,
+  entryPointAddress,
+}: {
+  bundlerClient: Client
+  userOperation: UserOperation
+  entryPointAddress: Address
+}): Promise<
+  Pick<
+    UserOperation,
+    | 'preVerificationGas'
+    | 'verificationGasLimit'
+    | 'callGasLimit'
+    | 'paymasterVerificationGasLimit'
+    | 'paymasterPostOpGasLimit'
+  >
+> => {
+  const request = getBundlerRequest(bundlerClient)
+  const estimate = (await request({
+    method: 'eth_estimateUserOperationGas',
+    params: [formatUserOperationRequest(userOperation), entryPointAddress],
+  })) as RpcUserOperationGasEstimate
+
+  return {
+    preVerificationGas: hexToBigInt(estimate.preVerificationGas),
+    verificationGasLimit: hexToBigInt(estimate.verificationGasLimit),
+    callGasLimit: hexToBigInt(estimate.callGasLimit),
+    paymasterVerificationGasLimit: estimate.paymasterVerificationGasLimit
+      ? hexToBigInt(estimate.paymasterVerificationGasLimit)
+      : undefined,
+    paymasterPostOpGasLimit: estimate.paymasterPostOpGasLimit
+      ? hexToBigInt(estimate.paymasterPostOpGasLimit)
+      : undefined,
+  }
+}
+
+export const sendUserOperation = async ({
+  bundlerClient,
+  userOperation,
+  entryPointAddress,
+}: {
+  bundlerClient: Client
+  userOperation: UserOperation
+  entryPointAddress: Address
+}): Promise<Hash> => {
+  const request = getBundlerRequest(bundlerClient)
+  const userOperationHash = await request({
+    method: 'eth_sendUserOperation',
+    params: [formatUserOperationRequest(userOperation), entryPointAddress],
+  })
+
+  return userOperationHash as Hash
+}
+
+export const waitForUserOperationReceipt = async ({
+  bundlerClient,
+  userOperationHash,
+  pollingInterval,
+  timeout,
+}: {
+  bundlerClient: Client
+  userOperationHash: Hash
+  pollingInterval?: number
+  timeout?: number
+}): Promise<{ txHash: Hash; logs: Log[] }> => {
+  const request = getBundlerRequest(bundlerClient)
+  const interval = pollingInterval ?? bundlerClient.pollingInterval
+  const startTime = Date.now()
+
+  const waitForReceipt = async (): Promise<RpcUserOperationReceipt> => {
+    const receipt = (await request({
+      method: 'eth_getUserOperationReceipt',
+      params: [userOperationHash],
+    })) as RpcUserOperationReceipt | null
+    if (receipt) return receipt
+
+    if (timeout !== undefined && Date.now() - startTime > timeout)
+      throw new TransactionFailedError(
+        `Timed out waiting for user operation ${userOperationHash}`,
+      )
+
+    await sleep(interval)
+    return waitForReceipt()
+  }
+
+  const receipt = await waitForReceipt()
+  if (!receipt.success)
+    throw new TransactionFailedError(
+      `User operation ${userOperationHash} reverted${
+        receipt.reason ? `: ${receipt.reason}` : ''
+      }`,
+    )
+
+  return {
+    txHash: receipt.receipt.transactionHash,
+    logs: receipt.logs.map((log) => formatLog(log)),
+  }
+}
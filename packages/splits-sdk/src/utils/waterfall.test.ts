@@ -0,0 +1,158 @@
+import { Address, parseEther } from 'viem'
+
+import { simulateWaterfallPayouts } from './waterfall'
+import { InvalidArgumentError } from '../errors'
+import type { WaterfallModule } from '../types'
+
+const ADDRESS_ONE: Address = '0x1111111111111111111111111111111111111111'
+const ADDRESS_TWO: Address = '0x2222222222222222222222222222222222222222'
+const ADDRESS_THREE: Address = '0x3333333333333333333333333333333333333333'
+
+// 10 ETH to the first address, the next 20 to the second, the rest to the
+// third
+const TRANCHES = {
+  recipients: [ADDRESS_ONE, ADDRESS_TWO, ADDRESS_THREE],
+  thresholds: [parseEther('10'), parseEther('30')],
+}
+
+const WATERFALL_MODULE: WaterfallModule = {
+  type: 'WaterfallModule',
+  address: '0x4444444444444444444444444444444444444444',
+  token: {
+    address: '0x0000000000000000000000000000000000000000',
+    symbol: 'ETH',
+    decimals: 18,
+  },
+  nonWaterfallRecipient: null,
+  tranches: [
+    { recipient: { address: ADDRESS_ONE }, startAmount: 0, size: 10 },
+    { recipient: { address: ADDRESS_TWO }, startAmount: 10, size: 20 },
+    { recipient: { address: ADDRESS_THREE }, startAmount: 30 },
+  ],
+}
+
+describe('Waterfall payout simulation', () => {
+  test('Pays the incoming amount through the tranches', () => {
+    const simulation = simulateWaterfallPayouts({
+      waterfall: TRANCHES,
+      distributedFunds: parseEther('4'),
+      incomingAmounts: [parseEther('37')],
+    })
+
+    expect(simulation).toEqual({
+      distributedFunds: parseEther('41'),
+      tranches: [
+        {
+          recipient: ADDRESS_ONE,
+          threshold: parseEther('10'),
+          payout: parseEther('6'),
+        },
+        {
+          recipient: ADDRESS_TWO,
+          threshold: parseEther('30'),
+          payout: parseEther('20'),
+        },
+        {
+          recipient: ADDRESS_THREE,
+          threshold: undefined,
+          payout: parseEther('11'),
+        },
+      ],
+      payouts: {
+        [ADDRESS_ONE]: parseEther('6'),
+        [ADDRESS_TWO]: parseEther('20'),
+        [ADDRESS_THREE]: parseEther('11'),
+      },
+      crossings: [
+        {
+          trancheIndex: 0,
+          recipient: ADDRESS_ONE,
+          threshold: parseEther('10'),
+          incomingIndex: 0,
+        },
+        {
+          trancheIndex: 1,
+          recipient: ADDRESS_TWO,
+          threshold: parseEther('30'),
+          incomingIndex: 0,
+        },
+      ],
+      residualRecipient: ADDRESS_THREE,
+      residualAmount: parseEther('11'),
+    })
+  })
+
+  test('Distributes incoming amounts one after another', () => {
+    const simulation = simulateWaterfallPayouts({
+      waterfall: WATERFALL_MODULE,
+      distributedFunds: BigInt(0),
+      incomingAmounts: [parseEther('5'), parseEther('5'), parseEther('1')],
+    })
+
+    // The second amount fills the first tranche exactly
+    expect(simulation.crossings).toEqual([
+      {
+        trancheIndex: 0,
+        recipient: ADDRESS_ONE,
+        threshold: parseEther('10'),
+        incomingIndex: 1,
+      },
+    ])
+    expect(simulation.payouts).toEqual({
+      [ADDRESS_ONE]: parseEther('10'),
+      [ADDRESS_TWO]: parseEther('1'),
+      [ADDRESS_THREE]: BigInt(0),
+    })
+    expect(simulation.residualAmount).toEqual(BigInt(0))
+  })
+
+  test('Sums the payouts of recipients with more than one tranche', () => {
+    const simulation = simulateWaterfallPayouts({
+      waterfall: {
+        recipients: [ADDRESS_ONE, ADDRESS_TWO, ADDRESS_ONE],
+        thresholds: TRANCHES.thresholds,
+      },
+      distributedFunds: parseEther('35'),
+      incomingAmounts: [parseEther('1')],
+    })
+
+    expect(simulation.payouts).toEqual({
+      [ADDRESS_ONE]: parseEther('1'),
+      [ADDRESS_TWO]: BigInt(0),
+    })
+    expect(simulation.crossings).toEqual([])
+  })
+
+  test('Rejects invalid tranches', () => {
+    expect(() =>
+      simulateWaterfallPayouts({
+        waterfall: {
+          recipients: [ADDRESS_ONE, ADDRESS_TWO],
+          thresholds: TRANCHES.thresholds,
+        },
+        distributedFunds: BigInt(0),
+        incomingAmounts: [BigInt(1)],
+      }),
+    ).toThrow(InvalidArgumentError)
+    expect(() =>
+      simulateWaterfallPayouts({
+        waterfall: {
+          recipients: TRANCHES.recipients,
+          thresholds: [parseEther('30'), parseEther('10')],
+        },
+        distributedFunds: BigInt(0),
+        incomingAmounts: [BigInt(1)],
+      }),
+    ).toThrow(InvalidArgumentError)
+    expect(() =>
+      simulateWaterfallPayouts({
+        waterfall: {
+          ...WATERFALL_MODULE,
+          token: { address: WATERFALL_MODULE.token.address },
+        },
+        distributedFunds: BigInt(0),
+        incomingAmounts: [BigInt(1)],
+      }),
+    ).toThrow(InvalidArgumentError)
+  })
+})
@@ -0,0 +1,131 @@
+import { Address, getAddress } from 'viem'
+
+import { InvalidArgumentError } from '../errors'
+import type {
+  SimulateWaterfallPayoutsConfig,
+  WaterfallModule,
+  WaterfallPayoutSimulation,
+  WaterfallTrancheCrossing,
+  WaterfallTranches,
+} from '../types'
+import { getBigIntTokenValue } from './numbers'
+
+const ZERO = BigInt(0)
+
+const minBigInt = (a: bigint, b: bigint): bigint => (a < b ? a : b)
+const maxBigInt = (a: bigint, b: bigint): bigint => (a > b ? a : b)
+
+// The recipients and cumulative thresholds, the way getTranches returns them
+const getWaterfallTranches = (
+  waterfall: WaterfallModule | WaterfallTranches,
+): WaterfallTranches => {
+  if (!('tranches' in waterfall))
+    return {
+      recipients: waterfall.recipients.map((recipient) =>
+        getAddress(recipient),
+      ),
+      thresholds: waterfall.thresholds.slice(),
+    }
+
+  const decimals = waterfall.token.decimals
+  if (decimals === undefined)
+    throw new InvalidArgumentError(
+      `Missing decimals for waterfall token ${waterfall.token.address}`,
+    )
+
+  // Each tranche starts where the one before it ends
+  return {
+    recipients: waterfall.tranches.map(({ recipient }) =>
+      getAddress(recipient.address),
+    ),
+    thresholds: waterfall.tranches
+      .slice(1)
+      .map(({ startAmount }) => getBigIntTokenValue(startAmount, decimals)),
+  }
+}
+
+// Works out who gets paid what when the incoming amounts are distributed, the
+// same way the waterfall contract does: each tranche is paid up to its
+// threshold before the next one gets anything, and the last recipient gets
+// whatever is left past the last threshold.
+export const simulateWaterfallPayouts = ({
+  waterfall,
+  distributedFunds,
+  incomingAmounts,
+}: SimulateWaterfallPayoutsConfig): WaterfallPayoutSimulation => {
+  const { recipients, thresholds } = getWaterfallTranches(waterfall)
+  if (recipients.length === 0 || recipients.length !== thresholds.length + 1)
+    throw new InvalidArgumentError(
+      `Waterfall needs one more recipient than thresholds, got ${recipients.length} recipients and ${thresholds.length} thresholds`,
+    )
+  thresholds.map((threshold, index) => {
+    if (threshold <= (index === 0 ? ZERO : thresholds[index - 1]))
+      throw new InvalidArgumentError(
+        `Waterfall thresholds must be positive and increasing: ${thresholds.join(
+          ', ',
+        )}`,
+      )
+  })
+  if (distributedFunds < ZERO)
+    throw new InvalidArgumentError(
+      `Invalid distributed funds: ${distributedFunds}`,
+    )
+  incomingAmounts.map((amount) => {
+    if (amount < ZERO)
+      throw new InvalidArgumentError(`Invalid incoming amount: ${amount}`)
+  })
+
+  const tranchePayouts = recipients.map(() => ZERO)
+  const { distributed, crossings } = incomingAmounts.reduce(
+    (acc, amount, incomingIndex) => {
+      const start = acc.distributed
+      const end = start + amount
+      recipients.map((recipient, trancheIndex) => {
+        const lower = trancheIndex === 0 ? ZERO : thresholds[trancheIndex - 1]
+        // Undefined for the residual tranche
+        const upper: bigint | undefined = thresholds[trancheIndex]
+        const payout =
+          (upper === undefined ? end : minBigInt(end, upper)) -
+          maxBigInt(start, lower)
+        if (payout > ZERO) tranchePayouts[trancheIndex] += payout
+
+        if (upper !== undefined && start < upper && upper <= end)
+          acc.crossings.push({
+            trancheIndex,
+            recipient,
+            threshold: upper,
+            incomingIndex,
+          })
+      })
+
+      return { distributed: end, crossings: acc.crossings }
+    },
+    {
+      distributed: distributedFunds,
+      crossings: [] as WaterfallTrancheCrossing[],
+    },
+  )
+
+  const payouts = recipients.reduce(
+    (acc, recipient, trancheIndex) => {
+      acc[recipient] = (acc[recipient] ?? ZERO) + tranchePayouts[trancheIndex]
+      return acc
+    },
+    {} as { [recipient: Address]: bigint },
+  )
+
+  return {
+    distributedFunds: distributed,
+    tranches: recipients.map((recipient, trancheIndex) => {
+      return {
+        recipient,
+        threshold: thresholds[trancheIndex],
+        payout: tranchePayouts[trancheIndex],
+      }
+    }),
+    payouts,
+    crossings,
+    residualRecipient: recipients[recipients.length - 1],
+    residualAmount: tranchePayouts[tranchePayouts.length - 1],
+  }
+}